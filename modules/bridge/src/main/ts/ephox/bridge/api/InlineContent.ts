@@ -1,5 +1,6 @@
 import {
-  Autocompleter, AutocompleterContents, AutocompleterInstanceApi, AutocompleterItem, AutocompleterItemSpec, AutocompleterSpec, ColumnTypes,
+  Autocompleter, AutocompleterContents, AutocompleterFetch, AutocompleterFetchContext, AutocompleterFetchResult, AutocompleterInstanceApi,
+  AutocompleterItem, AutocompleterItemSpec, AutocompleterSpec, ColumnTypes,
   createAutocompleter, createAutocompleterItem, createSeparatorItem, SeparatorItem, SeparatorItemSpec
 } from '../components/content/Autocompleter';
 import { ContextPosition, ContextScope } from '../components/content/ContextBar';
@@ -15,6 +16,9 @@ export {
   AutocompleterItemSpec,
   AutocompleterItem,
   AutocompleterContents,
+  AutocompleterFetch,
+  AutocompleterFetchContext,
+  AutocompleterFetchResult,
   createAutocompleter,
   createAutocompleterItem,
   AutocompleterInstanceApi,
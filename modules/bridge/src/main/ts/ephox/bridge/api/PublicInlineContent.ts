@@ -1,5 +1,6 @@
 import {
-  AutocompleterContents, AutocompleterInstanceApi, AutocompleterItemSpec, AutocompleterSpec, SeparatorItemSpec
+  AutocompleterContents, AutocompleterFetchContext, AutocompleterFetchResult, AutocompleterInstanceApi, AutocompleterItemSpec,
+  AutocompleterSpec, SeparatorItemSpec
 } from '../components/content/Autocompleter';
 import { ContextPosition, ContextScope } from '../components/content/ContextBar';
 import {
@@ -14,6 +15,8 @@ export {
   AutocompleterSpec,
   AutocompleterItemSpec,
   AutocompleterContents,
+  AutocompleterFetchContext,
+  AutocompleterFetchResult,
   AutocompleterInstanceApi,
 
   ContextPosition,
@@ -28,15 +28,35 @@ export interface AutocompleterItem {
   meta: Record<string, any>;
 }
 
+// The signal is aborted when the results are no longer needed, because the matched text changed or the
+// autocompleter was closed. The page starts at 0 and is incremented each time more results are loaded.
+export interface AutocompleterFetchContext {
+  signal: AbortSignal;
+  page: number;
+}
+
+export interface AutocompleterFetchResult {
+  items: AutocompleterContents[];
+  hasMore?: boolean;
+}
+
+export type AutocompleterFetch = (
+  pattern: string,
+  maxResults: number,
+  fetchOptions: Record<string, any>,
+  fetchContext: AutocompleterFetchContext
+) => Promise<AutocompleterContents[] | AutocompleterFetchResult>;
+
 export interface AutocompleterSpec {
   type?: 'autocompleter';
   ch: string;
   minChars?: number;
   columns?: ColumnTypes;
   matches?: (rng: Range, text: string, pattern: string) => boolean;
-  fetch: (pattern: string, maxResults: number, fetchOptions: Record<string, any>) => Promise<AutocompleterContents[]>;
+  fetch: AutocompleterFetch;
   onAction: (autocompleterApi: AutocompleterInstanceApi, rng: Range, value: string, meta: Record<string, any>) => void;
   maxResults?: number;
+  debounce?: number;
   highlightOn?: string[];
 }
 
@@ -51,9 +71,10 @@ export interface Autocompleter {
   minChars: number;
   columns: ColumnTypes;
   matches: Optional<(rng: Range, text: string, pattern: string) => boolean>;
-  fetch: (pattern: string, maxResults: number, fetchOptions: Record<string, any>) => Promise<AutocompleterContents[]>;
+  fetch: AutocompleterFetch;
   onAction: (autocompleterApi: AutocompleterInstanceApi, rng: Range, value: string, meta: Record<string, any>) => void;
   maxResults: number;
+  debounce: number;
   highlightOn: string[];
 }
 
@@ -74,6 +95,7 @@ const autocompleterSchema = StructureSchema.objOf([
   FieldSchema.defaultedNumber('minChars', 1),
   ComponentSchema.defaultedColumns(1),
   FieldSchema.defaultedNumber('maxResults', 10),
+  FieldSchema.defaultedNumber('debounce', 0),
   FieldSchema.optionFunction('matches'),
   ComponentSchema.fetch,
   ComponentSchema.onAction,
@@ -6,11 +6,11 @@ let gruntWebPack = require('./tools/modules/grunt-webpack');
 let swag = require('@ephox/swag');
 
 let plugins = [
-  'advlist', 'anchor', 'autolink', 'autoresize', 'autosave', 'charmap', 'code', 'codesample',
-  'directionality', 'emoticons', 'help', 'fullscreen', 'image', 'importcss',
+  'advlist', 'anchor', 'autolink', 'autoresize', 'autosave', 'charmap', 'code', 'codesample', 'comments',
+  'copyformat', 'directionality', 'emoticons', 'help', 'fullscreen', 'image', 'importcss',
   'insertdatetime', 'link', 'lists', 'media', 'nonbreaking', 'pagebreak', 'paste',
-  'preview', 'save', 'searchreplace', 'table', 'template',
-  'visualblocks', 'visualchars', 'wordcount', 'quickbars'
+  'preview', 'rtc', 'save', 'searchreplace', 'stylemanager', 'table', 'template', 'trackchanges',
+  'usermentions', 'visualblocks', 'visualchars', 'wordcount', 'quickbars'
 ];
 
 let themes = [
@@ -0,0 +1,96 @@
+import { Arr } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+declare let tinymce: any;
+
+interface PerformanceMemory {
+  readonly usedJSHeapSize: number;
+}
+
+const paragraphCount = 5000;
+const levelCount = 200;
+
+const createDocument = (): string =>
+  Arr.range(paragraphCount, (i) => `<p>Paragraph ${i} with some <strong>bold</strong> and <em>italic</em> text to make it a bit longer.</p>`).join('');
+
+// performance.memory is only available in Chromium based browsers
+const getUsedHeapSize = (): number | null => {
+  const memory: PerformanceMemory | undefined = (window.performance as any).memory;
+  return memory ? memory.usedJSHeapSize : null;
+};
+
+const formatBytes = (bytes: number | null): string =>
+  bytes === null ? 'n/a (performance.memory is not supported)' : `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+
+const formatTime = (times: number[]): string => {
+  const total = Arr.foldl(times, (acc, time) => acc + time, 0);
+  return `avg ${(total / times.length).toFixed(2)} ms, max ${Math.max(...times).toFixed(2)} ms`;
+};
+
+const runBenchmark = (editor: Editor): string => {
+  editor.setContent(createDocument());
+  editor.undoManager.clear();
+  editor.undoManager.add();
+
+  const heapBefore = getUsedHeapSize();
+  const addTimes: number[] = [];
+  let changedLength = 0;
+  for (let i = 0; i < levelCount; i++) {
+    const paragraph = editor.getBody().childNodes[Math.floor(Math.random() * paragraphCount)] as HTMLElement;
+    paragraph.appendChild(editor.getDoc().createTextNode(` edit ${i}`));
+    changedLength += paragraph.outerHTML.length;
+
+    const start = window.performance.now();
+    editor.undoManager.add();
+    addTimes.push(window.performance.now() - start);
+  }
+  const heapAfterLevels = getUsedHeapSize();
+
+  // Materialize every level as a full html snapshot to compare against the previous storage model
+  const snapshots = Arr.map(editor.undoManager.data, (level) => level.content);
+  const heapAfterSnapshots = getUsedHeapSize();
+  const snapshotLength = Arr.foldl(snapshots, (acc, snapshot) => acc + snapshot.length, 0);
+
+  const undoTimes: number[] = [];
+  while (editor.undoManager.hasUndo()) {
+    const start = window.performance.now();
+    editor.undoManager.undo();
+    undoTimes.push(window.performance.now() - start);
+  }
+
+  const diff = (before: number | null, after: number | null) => before === null || after === null ? null : after - before;
+
+  return [
+    `Document: ${paragraphCount} paragraphs, ${snapshots[0].length} characters`,
+    `Undo levels: ${editor.undoManager.data.length}`,
+    `undoManager.add(): ${formatTime(addTimes)}`,
+    `undoManager.undo(): ${formatTime(undoTimes)}`,
+    `Characters retained by full snapshots: ${snapshotLength}`,
+    `Characters retained by base snapshot plus changed fragments: ${snapshots[0].length + changedLength}`,
+    `Heap used by the undo levels: ${formatBytes(diff(heapBefore, heapAfterLevels))}`,
+    `Heap used by materializing full snapshots: ${formatBytes(diff(heapAfterLevels, heapAfterSnapshots))}`
+  ].join('\n');
+};
+
+export default () => {
+  tinymce.init({
+    skin_url: '../../../../js/tinymce/skins/ui/oxide',
+    selector: 'textarea#editor',
+    height: 400,
+    toolbar: 'undo redo benchmark',
+    setup: (editor: Editor) => {
+      editor.ui.registry.addButton('benchmark', {
+        text: 'Run undo benchmark',
+        onAction: () => {
+          const results = document.getElementById('results');
+          results.textContent = 'Running...';
+          // Let the browser render the message before blocking on the benchmark
+          setTimeout(() => {
+            results.textContent = runBenchmark(editor);
+          }, 0);
+        }
+      });
+    }
+  });
+};
@@ -24,11 +24,15 @@ import * as ToggleFormat from './fmt/ToggleFormat';
 import { getSelectedContentInternal } from './selection/GetSelectionContentImpl';
 import { RangeLikeObject } from './selection/RangeTypes';
 import * as Operations from './undo/Operations';
-import { Index, Locks, UndoBookmark, UndoLevel, UndoManager } from './undo/UndoManagerTypes';
+import * as Serialization from './undo/Serialization';
+import { Index, Locks, UndoBookmark, UndoHistory, UndoLevel, UndoLevelMetadata, UndoManager } from './undo/UndoManagerTypes';
 import { addVisualInternal } from './view/VisualAidsImpl';
 
-/** API implemented by the RTC plugin */
-interface RtcRuntimeApi {
+/**
+ * API implemented by the RTC plugin. The formatter, editor, selection and autocompleter parts are optional,
+ * if they are left out then the default implementation that works on the local content is used instead.
+ */
+export interface RtcRuntimeApi {
   init: {
     bindEvents: () => void;
   };
@@ -45,7 +49,7 @@ interface RtcRuntimeApi {
     ignore: (fn: () => void) => void;
     extra: (fn1: () => void, fn2: () => void) => void;
   };
-  formatter: {
+  formatter?: {
     canApply: (format: string) => boolean;
     match: (format: string, vars: Record<string, string>, similar?: boolean) => boolean;
     matchAll: () => string[];
@@ -56,19 +60,19 @@ interface RtcRuntimeApi {
     toggle: (format: string, vars: Record<string, string>) => void;
     formatChanged: (formats: string, callback: FormatChangeCallback, similar?: boolean, vars?: FormatVars) => UnbindFormatChanged;
   };
-  editor: {
+  editor?: {
     getContent: (args: Partial<GetContentArgs>) => Content;
     setContent: (content: Content, args: Partial<SetContentArgs>) => Content;
     insertContent: (content: Content) => void;
     addVisual: () => void;
   };
-  selection: {
+  selection?: {
     getContent: (args: Partial<GetSelectionContentArgs>) => Content;
   };
   raw: {
     getRawModel: () => any;
   };
-  autocompleter: {
+  autocompleter?: {
     addDecoration: (range: Range) => void;
     removeDecoration: () => void;
   };
@@ -98,7 +102,9 @@ interface RtcAdaptor {
     reset: (undoManager: UndoManager) => void;
     hasUndo: (undoManager: UndoManager, index: Index) => boolean;
     hasRedo: (undoManager: UndoManager, index: Index) => boolean;
-    transact: (undoManager: UndoManager, locks: Locks, callback: () => void) => UndoLevel;
+    transact: (undoManager: UndoManager, locks: Locks, callback: () => void, label?: string, metadata?: UndoLevelMetadata) => UndoLevel;
+    jumpTo: (undoManager: UndoManager, locks: Locks, index: Index, targetIndex: number) => UndoLevel;
+    importHistory: (undoManager: UndoManager, index: Index, history: UndoHistory) => boolean;
     ignore: (locks: Locks, callback: () => void) => void;
     extra: (undoManager: UndoManager, index: Index, callback1: () => void, callback2: () => void) => void;
   };
@@ -154,7 +160,9 @@ const makePlainAdaptor = (editor: Editor): RtcAdaptor => ({
     reset: (undoManager) => Operations.reset(undoManager),
     hasUndo: (undoManager, index) => Operations.hasUndo(editor, undoManager, index),
     hasRedo: (undoManager, index) => Operations.hasRedo(undoManager, index),
-    transact: (undoManager, locks, callback) => Operations.transact(undoManager, locks, callback),
+    transact: (undoManager, locks, callback, label, metadata) => Operations.transact(undoManager, locks, callback, label, metadata),
+    jumpTo: (undoManager, locks, index, targetIndex) => Operations.jumpTo(editor, undoManager, locks, index, targetIndex),
+    importHistory: (undoManager, index, history) => Serialization.importHistory(editor, undoManager, index, history),
     ignore: (locks, callback) => Operations.ignore(locks, callback),
     extra: (undoManager, index, callback1, callback2) =>
       Operations.extra(editor, undoManager, index, callback1, callback2)
@@ -188,9 +196,10 @@ const makePlainAdaptor = (editor: Editor): RtcAdaptor => ({
   }
 });
 
-const makeRtcAdaptor = (rtcEditor: RtcRuntimeApi): RtcAdaptor => {
+const makeRtcAdaptor = (localEditor: Editor, rtcEditor: RtcRuntimeApi): RtcAdaptor => {
   const defaultVars = (vars: Record<string, string>) => Type.isObject(vars) ? vars : {};
   const { init, undoManager, formatter, editor, selection, autocompleter, raw } = rtcEditor;
+  const plainAdaptor = makePlainAdaptor(localEditor);
 
   return {
     init: {
@@ -206,10 +215,14 @@ const makeRtcAdaptor = (rtcEditor: RtcRuntimeApi): RtcAdaptor => {
       hasUndo: undoManager.hasUndo,
       hasRedo: undoManager.hasRedo,
       transact: (_undoManager, _locks, fn) => undoManager.transact(fn),
+      // The RTC plugin doesn't expose the undo levels, so there's nothing to jump to
+      jumpTo: Fun.constant(null),
+      // The undo levels are shared by all the collaborators, so they can't be replaced by an imported history
+      importHistory: Fun.never,
       ignore: (_locks, callback) => undoManager.ignore(callback),
       extra: (_undoManager, _index, callback1, callback2) => undoManager.extra(callback1, callback2)
     },
-    formatter: {
+    formatter: Type.isUndefined(formatter) ? plainAdaptor.formatter : {
       match: (name, vars?, _node?, similar?) => formatter.match(name, defaultVars(vars), similar),
       matchAll: formatter.matchAll,
       matchNode: formatter.matchNode,
@@ -220,16 +233,16 @@ const makeRtcAdaptor = (rtcEditor: RtcRuntimeApi): RtcAdaptor => {
       toggle: (name, vars, _node) => formatter.toggle(name, defaultVars(vars)),
       formatChanged: (_rfl, formats, callback, similar, vars) => formatter.formatChanged(formats, callback, similar, vars)
     },
-    editor: {
+    editor: Type.isUndefined(editor) ? plainAdaptor.editor : {
       getContent: (args, _format) => editor.getContent(args),
       setContent: (content, args) => editor.setContent(content, args),
       insertContent: (content, _details) => editor.insertContent(content),
       addVisual: editor.addVisual
     },
-    selection: {
+    selection: Type.isUndefined(selection) ? plainAdaptor.selection : {
       getContent: (_format, args) => selection.getContent(args)
     },
-    autocompleter: {
+    autocompleter: Type.isUndefined(autocompleter) ? plainAdaptor.autocompleter : {
       addDecoration: autocompleter.addDecoration,
       removeDecoration: autocompleter.removeDecoration
     },
@@ -257,6 +270,8 @@ const makeNoopAdaptor = (): RtcAdaptor => {
       hasUndo: Fun.never,
       hasRedo: Fun.never,
       transact: nul,
+      jumpTo: nul,
+      importHistory: Fun.never,
       ignore: Fun.noop,
       extra: Fun.noop
     },
@@ -311,7 +326,7 @@ export const setup = (editor: Editor): Optional<() => Promise<boolean>> => {
 
       return Optional.some(
         () => setup().then((rtcEditor) => {
-          editorCast.rtcInstance = makeRtcAdaptor(rtcEditor);
+          editorCast.rtcInstance = makeRtcAdaptor(editor, rtcEditor);
           return rtcEditor.rtc.isRemote;
         })
       );
@@ -368,8 +383,14 @@ export const hasUndo = (editor: Editor, undoManager: UndoManager, index: Index):
 export const hasRedo = (editor: Editor, undoManager: UndoManager, index: Index): boolean =>
   getRtcInstanceWithError(editor).undoManager.hasRedo(undoManager, index);
 
-export const transact = (editor: Editor, undoManager: UndoManager, locks: Locks, callback: () => void): UndoLevel =>
-  getRtcInstanceWithError(editor).undoManager.transact(undoManager, locks, callback);
+export const transact = (editor: Editor, undoManager: UndoManager, locks: Locks, callback: () => void, label?: string, metadata?: UndoLevelMetadata): UndoLevel =>
+  getRtcInstanceWithError(editor).undoManager.transact(undoManager, locks, callback, label, metadata);
+
+export const jumpTo = (editor: Editor, undoManager: UndoManager, locks: Locks, index: Index, targetIndex: number): UndoLevel =>
+  getRtcInstanceWithError(editor).undoManager.jumpTo(undoManager, locks, index, targetIndex);
+
+export const importHistory = (editor: Editor, undoManager: UndoManager, index: Index, history: UndoHistory): boolean =>
+  getRtcInstanceWithError(editor).undoManager.importHistory(undoManager, index, history);
 
 export const ignore = (editor: Editor, locks: Locks, callback: () => void): void => {
   getRtcInstanceWithError(editor).undoManager.ignore(locks, callback);
@@ -5,7 +5,7 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Cell, Obj, Optional, Optionals, Singleton, Throttler } from '@ephox/katamari';
+import { Arr, Cell, Obj, Optional, Singleton, Throttler } from '@ephox/katamari';
 import { Attribute } from '@ephox/sugar';
 
 import Editor from '../api/Editor';
@@ -17,11 +17,18 @@ export interface AnnotationChanges {
   readonly addListener: (name: string, f: AnnotationListener) => void;
 }
 
-export type AnnotationListener = (state: boolean, name: string, data?: { uid: string; nodes: any[] }) => void;
+export interface AnnotationListenerNodes {
+  readonly uid: string;
+  readonly nodes: any[];
+}
+
+// The uid and nodes are for the innermost annotation, while annotations lists every annotation
+// with the name that covers the selection, innermost first
+export type AnnotationListener = (state: boolean, name: string, data?: AnnotationListenerNodes & { annotations: AnnotationListenerNodes[] }) => void;
 
 export interface AnnotationListenerData {
   readonly listeners: AnnotationListener[];
-  readonly previous: Singleton.Value<string>;
+  readonly previous: Singleton.Value<string[]>;
 }
 
 export type AnnotationListenerMap = Record<string, AnnotationListenerData>;
@@ -49,11 +56,17 @@ const setup = (editor: Editor, registry: AnnotationsRegistry): AnnotationChanges
     changeCallbacks.set(callbackMap);
   };
 
-  const fireCallbacks = (name: string, uid: string, elements: any[]): void => {
+  const toListenerNodes = ({ uid, elements }: Identification.IdentifiedAnnotation): AnnotationListenerNodes => ({
+    uid,
+    nodes: Arr.map(elements, (elem) => elem.dom)
+  });
+
+  const fireCallbacks = (name: string, annotations: Identification.IdentifiedAnnotation[]): void => {
+    const all = Arr.map(annotations, toListenerNodes);
     withCallbacks(name, (data) => {
       Arr.each(data.listeners, (f) => f(true, name, {
-        uid,
-        nodes: Arr.map(elements, (elem) => elem.dom)
+        ...all[0],
+        annotations: all
       }));
     });
   };
@@ -80,25 +93,25 @@ const setup = (editor: Editor, registry: AnnotationsRegistry): AnnotationChanges
     Arr.each(annotations, (name) => {
       updateCallbacks(name, (data) => {
         const prev = data.previous.get();
-        Identification.identify(editor, Optional.some(name)).fold(
-          () => {
-            prev.each((uid) => {
-              // Changed from something to nothing.
-              fireNoAnnotation(name);
-              data.previous.clear();
-              toggleActiveAttr(uid, false);
-            });
-          },
-          ({ uid, name, elements }) => {
-            // Changed from a different annotation (or nothing)
-            if (!Optionals.is(prev, uid)) {
-              prev.each((uid) => toggleActiveAttr(uid, false));
-              fireCallbacks(name, uid, elements);
-              data.previous.set(uid);
-              toggleActiveAttr(uid, true);
-            }
-          }
-        );
+        const annotations = Identification.identifyAll(editor, Optional.some(name));
+        const uids = Arr.map(annotations, (annotation) => annotation.uid);
+        // Only the innermost annotation is marked as active
+        const toggleInnermost = (ids: string[], state: boolean) => Arr.head(ids).each((uid) => toggleActiveAttr(uid, state));
+
+        if (annotations.length === 0) {
+          prev.each((prevUids) => {
+            // Changed from something to nothing.
+            fireNoAnnotation(name);
+            data.previous.clear();
+            toggleInnermost(prevUids, false);
+          });
+        } else if (!prev.exists((prevUids) => Arr.equal(prevUids, uids))) {
+          // Changed from different annotations (or nothing)
+          prev.each((prevUids) => toggleInnermost(prevUids, false));
+          fireCallbacks(name, annotations);
+          data.previous.set(uids);
+          toggleInnermost(uids, true);
+        }
 
         return {
           previous: data.previous,
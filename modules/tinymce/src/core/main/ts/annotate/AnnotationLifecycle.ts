@@ -0,0 +1,177 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional, Type } from '@ephox/katamari';
+import { Attribute, SelectorFilter, Selectors, SugarElement } from '@ephox/sugar';
+
+import Editor from '../api/Editor';
+import * as Events from '../api/Events';
+import * as NodeType from '../dom/NodeType';
+import { AnnotationsRegistry } from './AnnotationsRegistry';
+import { findAll, findMarkers } from './Identification';
+import * as Markings from './Markings';
+
+export interface AnnotationLifecycle {
+  readonly refresh: () => void;
+  readonly track: (name: string) => void;
+}
+
+// The number of markers for each uid, by annotation name
+type MarkerCounts = Record<string, Record<string, number>>;
+
+const contentChangeEvents = 'input ExecCommand Undo Redo SetContent NodeChange';
+
+const observerOptions: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  attributes: true,
+  attributeOldValue: true,
+  attributeFilter: [ Markings.dataAnnotationId(), Markings.dataAnnotation() ]
+};
+
+const markerSelector = `[${Markings.dataAnnotationId()}]`;
+
+const getMarkerUids = (node: Node): string[] => {
+  if (NodeType.isElement(node)) {
+    const elm = SugarElement.fromDom(node);
+    const markers = Selectors.is(elm, markerSelector) ? [ elm ] : [];
+    return Arr.map(markers.concat(SelectorFilter.descendants(elm, markerSelector)), (marker) => Attribute.get(marker, Markings.dataAnnotationId()));
+  } else {
+    return [];
+  }
+};
+
+// The uids of the markers that were added, removed or changed, so only the markers of those uids need to be counted again
+const getChangedUids = (records: MutationRecord[]): string[] =>
+  Arr.unique(Arr.bind(records, (record) => {
+    if (record.type === 'attributes') {
+      const oldUid = record.attributeName === Markings.dataAnnotationId() && Type.isString(record.oldValue) ? [ record.oldValue ] : [];
+      return oldUid.concat(getMarkerUids(record.target));
+    } else {
+      return Arr.bind(record.addedNodes, getMarkerUids).concat(Arr.bind(record.removedNodes, getMarkerUids));
+    }
+  }));
+
+const setup = (editor: Editor, registry: AnnotationsRegistry): AnnotationLifecycle => {
+  let counts: MarkerCounts = { };
+  let observer = Optional.none<MutationObserver>();
+  let queued: MutationRecord[] = [];
+
+  const hasListeners = () =>
+    editor.hasEventListeners('AnnotationRemoved') || editor.hasEventListeners('AnnotationChanged');
+
+  const countName = (name: string) => {
+    counts[name] = Obj.map(findAll(editor, name), (elems) => elems.length);
+  };
+
+  const countAll = () => {
+    counts = { };
+    Arr.each(registry.getNames(), countName);
+  };
+
+  const updateUid = (uid: string, fireEvents: boolean) => {
+    const current: Record<string, Element[]> = { };
+    Arr.each(findMarkers(editor, uid), (marker) => {
+      const name = Attribute.get(marker, Markings.dataAnnotation());
+      if (registry.lookup(name).isSome()) {
+        current[name] = Obj.get(current, name).getOr([]).concat([ marker.dom ]);
+      }
+    });
+
+    Obj.each(counts, (uids, name) => {
+      Obj.get(uids, uid).each((count) => {
+        Obj.get(current, name).fold(
+          () => {
+            delete uids[uid];
+            if (fireEvents) {
+              Events.fireAnnotationRemoved(editor, name, uid);
+            }
+          },
+          (elems) => {
+            // A marker was split in two or one of the markers was deleted
+            if (fireEvents && elems.length !== count) {
+              Events.fireAnnotationChanged(editor, name, uid, elems);
+            }
+          }
+        );
+      });
+    });
+
+    Obj.each(current, (elems, name) => {
+      counts[name] = { ...Obj.get(counts, name).getOr({ }), [uid]: elems.length };
+    });
+  };
+
+  const update = (fireEvents: boolean) => {
+    const records = queued.concat(observer.map((o) => o.takeRecords()).getOr([]));
+    queued = [];
+    Arr.each(getChangedUids(records), (uid) => updateUid(uid, fireEvents));
+  };
+
+  const startObserving = () => {
+    const win = editor.getWin() as Window & typeof globalThis;
+    const o = new win.MutationObserver((records) => {
+      queued = queued.concat(records);
+    });
+    o.observe(editor.getBody(), observerOptions);
+    observer = Optional.some(o);
+    countAll();
+  };
+
+  const stopObserving = () => {
+    observer.each((o) => o.disconnect());
+    observer = Optional.none();
+    queued = [];
+    counts = { };
+  };
+
+  // Changes made by the annotator api are done on purpose, so they are recorded without firing any events
+  const refresh = () => update(false);
+
+  // Annotations registered while observing have their existing markers counted, so removing them is reported
+  const track = (name: string) => {
+    if (observer.isSome()) {
+      update(true);
+      countName(name);
+    }
+  };
+
+  const toggleObserving = (state: boolean) => {
+    if (!state) {
+      stopObserving();
+    } else if (observer.isNone()) {
+      startObserving();
+    }
+  };
+
+  // The markers are only tracked while something is listening for the events, so observing starts as soon as a listener is added
+  editor.on('EventListenersToggle', (e) => {
+    if (editor.initialized && Arr.exists(e.name.split(' '), (name) => name === 'annotationremoved' || name === 'annotationchanged')) {
+      // The toggle fires before the listener is added, so the state is used instead of checking for listeners
+      toggleObserving(e.state || hasListeners());
+    }
+  });
+
+  editor.on('init', () => toggleObserving(hasListeners()));
+
+  editor.on(contentChangeEvents, () => {
+    if (observer.isSome()) {
+      update(true);
+    }
+  });
+
+  editor.on('remove', stopObserving);
+
+  return {
+    refresh,
+    track
+  };
+};
+
+export {
+  setup
+};
@@ -5,38 +5,40 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Obj, Optional } from '@ephox/katamari';
-import { Attribute, Class, Compare, SelectorFilter, SelectorFind, SugarElement, SugarNode, Traverse } from '@ephox/sugar';
+import { Arr, Obj, Optional, Optionals } from '@ephox/katamari';
+import { Attribute, Class, Compare, SelectorFilter, SelectorFind, Selectors, SugarElement, SugarNode, Traverse } from '@ephox/sugar';
 
 import Editor from '../api/Editor';
 import * as Markings from './Markings';
 
-// Given the current editor selection, identify the uid of any current
-// annotation
-const identify = (editor: Editor, annotationName: Optional<string>): Optional<{uid: string; name: string; elements: any[]}> => {
-  const rng = editor.selection.getRng();
+export interface IdentifiedAnnotation {
+  readonly uid: string;
+  readonly name: string;
+  readonly elements: any[];
+}
 
-  const start = SugarElement.fromDom(rng.startContainer);
-  const root = SugarElement.fromDom(editor.getBody());
+const getSelector = (annotationName: Optional<string>): string => annotationName.fold(
+  () => '.' + Markings.annotation(),
+  (an) => `[${Markings.dataAnnotation()}="${an}"]`
+);
 
-  const selector = annotationName.fold(
-    () => '.' + Markings.annotation(),
-    (an) => `[${Markings.dataAnnotation()}="${an}"]`
-  );
-
-  const newStart = Traverse.child(start, rng.startOffset).getOr(start);
-  const closest = SelectorFind.closest(newStart, selector, (n) => Compare.eq(n, root));
+const getSelectionStart = (editor: Editor): SugarElement<Node> => {
+  const rng = editor.selection.getRng();
+  const start = SugarElement.fromDom(rng.startContainer);
+  return Traverse.child(start, rng.startOffset).getOr(start);
+};
 
-  const getAttr = (c, property: string): Optional<any> => {
-    if (Attribute.has(c, property)) {
-      return Optional.some(Attribute.get(c, property));
-    } else {
-      return Optional.none();
-    }
-  };
+const getAttr = (c, property: string): Optional<any> => {
+  if (Attribute.has(c, property)) {
+    return Optional.some(Attribute.get(c, property));
+  } else {
+    return Optional.none();
+  }
+};
 
-  return closest.bind((c) => getAttr(c, `${Markings.dataAnnotationId()}`).bind((uid) =>
-    getAttr(c, `${Markings.dataAnnotation()}`).map((name) => {
+const fromMarker = (editor: Editor, marker: SugarElement<Element>): Optional<IdentifiedAnnotation> =>
+  getAttr(marker, `${Markings.dataAnnotationId()}`).bind((uid) =>
+    getAttr(marker, `${Markings.dataAnnotation()}`).map((name) => {
       const elements = findMarkers(editor, uid);
       return {
         uid,
@@ -44,7 +46,30 @@ const identify = (editor: Editor, annotationName: Optional<string>): Optional<{u
         elements
       };
     })
-  ));
+  );
+
+// Given the current editor selection, identify the uid of any current
+// annotation
+const identify = (editor: Editor, annotationName: Optional<string>): Optional<IdentifiedAnnotation> => {
+  const root = SugarElement.fromDom(editor.getBody());
+  const closest = SelectorFind.closest(getSelectionStart(editor), getSelector(annotationName), (n) => Compare.eq(n, root));
+  return closest.bind((c) => fromMarker(editor, c));
+};
+
+// Given the current editor selection, identify every annotation that covers it. Overlapping
+// annotations are nested, so the innermost annotation is first.
+const identifyAll = (editor: Editor, annotationName: Optional<string>): IdentifiedAnnotation[] => {
+  const root = SugarElement.fromDom(editor.getBody());
+  const start = getSelectionStart(editor);
+  const selector = getSelector(annotationName);
+  const isRoot = (n: SugarElement<Node>) => Compare.eq(n, root);
+
+  const self = SugarNode.isElement(start) && !isRoot(start) && Selectors.is(start, selector) ? [ start ] : [];
+  const markers = self.concat(SelectorFilter.ancestors(start, selector, isRoot) as Array<SugarElement<Element>>);
+  const annotations = Arr.bind(markers, (marker) => fromMarker(editor, marker).toArray());
+
+  // A marker can be split around nested markers, so only the first of each uid is kept
+  return Arr.filter(annotations, (annotation, i) => Optionals.is(Arr.findIndex(annotations, (a) => a.uid === annotation.uid), i));
 };
 
 const isAnnotation = (elem: any): boolean => SugarNode.isElement(elem) && Class.has(elem, Markings.annotation());
@@ -68,6 +93,7 @@ const findAll = (editor: Editor, name: string): Record<string, SugarElement[]> =
 
 export {
   identify,
+  identifyAll,
   isAnnotation,
   findMarkers,
   findAll
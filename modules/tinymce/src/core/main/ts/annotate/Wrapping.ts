@@ -5,16 +5,19 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Id, Singleton, Unicode } from '@ephox/katamari';
-import { Attribute, Class, Classes, Html, Insert, Replication, SugarElement, SugarNode, Traverse } from '@ephox/sugar';
+import { Arr, Id, Obj, Singleton, Unicode } from '@ephox/katamari';
+import { Attribute, Class, Classes, Compare, Html, Insert, InsertAll, PredicateExists, Remove, Replication, SugarElement, SugarNode, Traverse } from '@ephox/sugar';
 
 import Editor from '../api/Editor';
 import * as ExpandRange from '../fmt/ExpandRange';
+import { RangeLikeObject } from '../selection/RangeTypes';
 import * as RangeWalk from '../selection/RangeWalk';
 import * as SelectionUtils from '../selection/SelectionUtils';
+import * as SplitRange from '../selection/SplitRange';
 import * as TableCellSelection from '../selection/TableCellSelection';
 import { ChildContext, context } from './AnnotationContext';
 import { AnnotatorSettings } from './AnnotationsRegistry';
+import { isAnnotation } from './Identification';
 import * as Markings from './Markings';
 
 export type DecoratorData = Record<string, any>;
@@ -27,10 +30,14 @@ export type Decorator = (
   classes?: string[];
 };
 
-const applyWordGrab = (editor: Editor, rng: Range): void => {
+const expandToWord = (editor: Editor, rng: Range): void => {
   const r = ExpandRange.expandRng(editor, rng, [{ inline: 'span' }]);
   rng.setStart(r.startContainer, r.startOffset);
   rng.setEnd(r.endContainer, r.endOffset);
+};
+
+const applyWordGrab = (editor: Editor, rng: Range): void => {
+  expandToWord(editor, rng);
   editor.selection.setRng(rng);
 };
 
@@ -46,12 +53,59 @@ const makeAnnotation = (eDoc: Document, { uid = Id.generate('mce-annotation'), .
   return master;
 };
 
-const annotate = (editor: Editor, rng: Range, annotationName: string, decorate: Decorator, data): any[] => {
+const hasUid = (elem: SugarElement<Node>, uid: string): boolean =>
+  SugarNode.isElement(elem) && Attribute.get(elem, Markings.dataAnnotationId()) === uid;
+
+// Content that is already covered by a marker for the same annotation doesn't need to be wrapped again
+const isAnnotatedWith = (editor: Editor, elem: SugarElement<Node>, uid: string): boolean => {
+  const root = SugarElement.fromDom(editor.getBody());
+  return hasUid(elem, uid) || PredicateExists.ancestor(elem, (e) => hasUid(e, uid), (e) => Compare.eq(e, root));
+};
+
+// Merges a new wrapper into an adjacent marker of the same annotation, so that annotating over the
+// edge of an existing marker doesn't leave the content split into several markers
+const mergeWithSiblings = (wrapper: SugarElement<Element>, uid: string): void => {
+  const merge = (target: SugarElement<Node>, source: SugarElement<Element>, append: boolean) => {
+    const children = Traverse.children(source);
+    if (append) {
+      InsertAll.append(target, children);
+    } else {
+      InsertAll.prepend(target, children);
+    }
+    Remove.remove(source);
+  };
+
+  Traverse.prevSibling(wrapper).filter((prev) => hasUid(prev, uid)).fold(
+    () => Traverse.nextSibling(wrapper).filter((next) => hasUid(next, uid)).each((next) => merge(next, wrapper, false)),
+    (prev) => {
+      merge(prev, wrapper, true);
+      Traverse.nextSibling(prev).filter((next) => hasUid(next, uid)).each((next) => merge(prev, next as SugarElement<Element>, true));
+    }
+  );
+};
+
+// Removing a marker can leave the markers of another annotation that were nested in it next to
+// their siblings, so they are merged back together
+const unwrapMarkers = (markers: SugarElement<Element>[]): void => {
+  Arr.each(markers, (marker) => {
+    const children = Traverse.children(marker);
+    Remove.unwrap(marker);
+    Arr.each(children, (child) => {
+      if (isAnnotation(child)) {
+        const childMarker = child as SugarElement<Element>;
+        mergeWithSiblings(childMarker, Attribute.get(childMarker, Markings.dataAnnotationId()));
+      }
+    });
+  });
+};
+
+const annotate = (editor: Editor, rng: RangeLikeObject, annotationName: string, decorate: Decorator, data): any[] => {
   // Setup all the wrappers that are going to be used.
   const newWrappers = [ ];
 
   // Setup the spans for the comments
-  const master = makeAnnotation(editor.getDoc(), data, annotationName, decorate);
+  const uid = data.uid ?? Id.generate('mce-annotation');
+  const master = makeAnnotation(editor.getDoc(), { ...data, uid }, annotationName, decorate);
 
   // Set the current wrapping element
   const wrapper = Singleton.value<SugarElement<any>>();
@@ -76,6 +130,11 @@ const annotate = (editor: Editor, rng: Range, annotationName: string, decorate:
   };
 
   const processElement = (elem) => {
+    if (isAnnotatedWith(editor, elem, uid)) {
+      finishWrapper();
+      return;
+    }
+
     const ctx = context(editor, elem, 'span', SugarNode.name(elem));
 
     switch (ctx) {
@@ -87,6 +146,9 @@ const annotate = (editor: Editor, rng: Range, annotationName: string, decorate:
         break;
       }
 
+      // Markers of other annotations are wrapped as a whole, which nests them inside the new marker so
+      // that either annotation can be removed later without affecting the other
+      case ChildContext.Existing:
       case ChildContext.Valid: {
         const w = getOrOpenWrapper();
         Insert.wrap(elem, w);
@@ -95,7 +157,6 @@ const annotate = (editor: Editor, rng: Range, annotationName: string, decorate:
 
       // INVESTIGATE: Are these sensible things to do?
       case ChildContext.Skipping:
-      case ChildContext.Existing:
       case ChildContext.Caret: {
         // Do nothing.
       }
@@ -112,6 +173,8 @@ const annotate = (editor: Editor, rng: Range, annotationName: string, decorate:
     processNodes(nodes);
   });
 
+  Arr.each(newWrappers, (wrapper) => mergeWithSiblings(wrapper, uid));
+
   return newWrappers;
 };
 
@@ -146,6 +209,43 @@ const annotateWithBookmark = (editor: Editor, name: string, settings: AnnotatorS
   });
 };
 
+// Unlike annotateWithBookmark, the range is annotated without changing the selection
+const annotateRange = (editor: Editor, name: string, settings: AnnotatorSettings, rng: Range, data: { }): void => {
+  editor.undoManager.transact(() => {
+    const annotateRng = rng.cloneRange();
+    if (annotateRng.collapsed) {
+      expandToWord(editor, annotateRng);
+    }
+
+    if (!annotateRng.collapsed) {
+      // The range is live, so it is kept up to date when the bookmark is inserted and the text is split
+      SelectionUtils.preserve(editor.selection, false, () => {
+        annotate(editor, SplitRange.split(annotateRng), name, settings.decorate, data);
+      });
+    }
+  });
+};
+
+const updateMarkers = (editor: Editor, markers: SugarElement<Element>[], name: string, settings: AnnotatorSettings, uid: string, data: { }): void => {
+  const master = makeAnnotation(editor.getDoc(), { ...data, uid }, name, settings.decorate);
+  const attributes = Attribute.clone(master);
+
+  editor.undoManager.transact(() => {
+    Arr.each(markers, (marker) => {
+      // The active state is only for display, so it's kept as it was
+      const isActive = Attribute.has(marker, Markings.dataAnnotationActive());
+      Arr.each(Obj.keys(Attribute.clone(marker)), (attr) => Attribute.remove(marker, attr));
+      Attribute.setAll(marker, attributes);
+      if (isActive) {
+        Attribute.set(marker, Markings.dataAnnotationActive(), 'true');
+      }
+    });
+  });
+};
+
 export {
-  annotateWithBookmark
+  annotateWithBookmark,
+  annotateRange,
+  updateMarkers,
+  unwrapMarkers
 };
@@ -6,13 +6,15 @@
  */
 
 import { Arr, Obj, Optional } from '@ephox/katamari';
-import { Remove } from '@ephox/sugar';
+import { Attribute } from '@ephox/sugar';
 
 import * as AnnotationChanges from '../annotate/AnnotationChanges';
 import * as AnnotationFilter from '../annotate/AnnotationFilter';
+import * as AnnotationLifecycle from '../annotate/AnnotationLifecycle';
 import { create } from '../annotate/AnnotationsRegistry';
-import { findAll, identify } from '../annotate/Identification';
-import { annotateWithBookmark, Decorator, DecoratorData } from '../annotate/Wrapping';
+import { findAll, findMarkers, identify } from '../annotate/Identification';
+import * as Markings from '../annotate/Markings';
+import { annotateRange, annotateWithBookmark, Decorator, DecoratorData, unwrapMarkers, updateMarkers } from '../annotate/Wrapping';
 import Editor from './Editor';
 
 export type AnnotationListenerApi = AnnotationChanges.AnnotationListener;
@@ -31,6 +33,8 @@ export interface AnnotatorSettings {
 interface Annotator {
   register: (name: string, settings: AnnotatorSettings) => void;
   annotate: (name: string, data: DecoratorData) => void;
+  annotateRange: (name: string, rng: Range, data: DecoratorData) => void;
+  update: (name: string, uid: string, data: DecoratorData) => void;
   annotationChanged: (name: string, f: AnnotationListenerApi) => void;
   remove: (name: string) => void;
   removeAll: (name: string) => void;
@@ -41,6 +45,7 @@ const Annotator = (editor: Editor): Annotator => {
   const registry = create();
   AnnotationFilter.setup(editor, registry);
   const changes = AnnotationChanges.setup(editor, registry);
+  const lifecycle = AnnotationLifecycle.setup(editor, registry);
 
   return {
     /**
@@ -52,6 +57,7 @@ const Annotator = (editor: Editor): Annotator => {
      */
     register: (name: string, settings: AnnotatorSettings) => {
       registry.register(name, settings);
+      lifecycle.track(name);
     },
 
     /**
@@ -65,6 +71,40 @@ const Annotator = (editor: Editor): Annotator => {
     annotate: (name: string, data: { }) => {
       registry.lookup(name).each((settings) => {
         annotateWithBookmark(editor, name, settings, data);
+        lifecycle.refresh();
+      });
+    },
+
+    /**
+     * Applies the annotation to the specified range using data, without changing the selection
+     *
+     * @method annotateRange
+     * @param {String} name the name of the annotation to apply
+     * @param {Range} rng the range to annotate
+     * @param {Object} data information to pass through to this particular
+     * annotation
+     */
+    annotateRange: (name: string, rng: Range, data: { }) => {
+      registry.lookup(name).each((settings) => {
+        annotateRange(editor, name, settings, rng, data);
+        lifecycle.refresh();
+      });
+    },
+
+    /**
+     * Updates the data of an existing annotation, which redecorates all of its markers
+     *
+     * @method update
+     * @param {String} name the name of the annotation to update
+     * @param {String} uid the uid of the annotation to update
+     * @param {Object} data the new information to pass through to the annotation
+     */
+    update: (name: string, uid: string, data: { }) => {
+      registry.lookup(name).each((settings) => {
+        const markers = Arr.filter(findMarkers(editor, uid), (marker) => Attribute.get(marker, Markings.dataAnnotation()) === name);
+        if (markers.length > 0) {
+          updateMarkers(editor, markers, name, settings, uid, data);
+        }
       });
     },
 
@@ -74,7 +114,9 @@ const Annotator = (editor: Editor): Annotator => {
      * @method annotationChanged
      * @param {String} name Name of annotation to listen for
      * @param {function} callback Calback with (state, name, and data) fired when the annotation
-     * at the cursor changes. If state if false, data will not be provided.
+     * at the cursor changes. If state if false, data will not be provided. The data contains the uid
+     * and nodes of the innermost annotation, as well as every annotation with the name that covers
+     * the cursor in the annotations property.
      */
     annotationChanged: (name: string, callback: AnnotationListenerApi) => {
       changes.addListener(name, callback);
@@ -90,9 +132,10 @@ const Annotator = (editor: Editor): Annotator => {
     remove: (name: string): void => {
       const bookmark = editor.selection.getBookmark();
       identify(editor, Optional.some(name)).each(({ elements }) => {
-        Arr.each(elements, Remove.unwrap);
+        unwrapMarkers(elements);
       });
       editor.selection.moveToBookmark(bookmark);
+      lifecycle.refresh();
     },
 
     /**
@@ -103,8 +146,9 @@ const Annotator = (editor: Editor): Annotator => {
      */
     removeAll: (name: string): void => {
       const bookmark = editor.selection.getBookmark();
-      Obj.each(findAll(editor, name), (spans, _) => Arr.each(spans, Remove.unwrap));
+      Obj.each(findAll(editor, name), (spans, _) => unwrapMarkers(spans));
       editor.selection.moveToBookmark(bookmark);
+      lifecycle.refresh();
     },
 
     /**
@@ -112,7 +156,7 @@ const Annotator = (editor: Editor): Annotator => {
      *
      * @method getAll
      * @param {String} name the name of the annotations to retrieve
-     * @return {Object} an index of annotations from uid => DOM nodes
+     * @return {Object} an index of annotations from uid => DOM nodes, including annotations that are nested in or overlap others
      */
     getAll: (name: string): Record<string, Element[]> => {
       const directory = findAll(editor, name);
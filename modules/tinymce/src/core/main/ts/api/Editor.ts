@@ -18,6 +18,7 @@ import { NodeChange } from '../NodeChange';
 import { normalizeOptions, getParam } from '../options/NormalizeOptions';
 import SelectionOverrides from '../SelectionOverrides';
 import { UndoManager } from '../undo/UndoManagerTypes';
+import * as ConvertUrl from '../util/ConvertUrl';
 import Quirks from '../util/Quirks';
 import * as VisualAids from '../view/VisualAids';
 import AddOnManager from './AddOnManager';
@@ -42,6 +43,8 @@ import * as Options from './Options';
 import { NormalizedEditorOptions, RawEditorOptions } from './OptionTypes';
 import PluginManager, { Plugin } from './PluginManager';
 import Shortcuts from './Shortcuts';
+import StyleManager from './StyleManager';
+import TextPatterns from './TextPatterns';
 import { Theme } from './ThemeManager';
 import { registry } from './ui/Registry';
 import { EditorUi } from './ui/Ui';
@@ -233,7 +236,9 @@ class Editor implements EditorObservable {
   public selection: EditorSelection;
   public serializer: DomSerializer;
   public startContent: string;
+  public styleManager: StyleManager;
   public targetElm: HTMLElement;
+  public textPatterns: TextPatterns;
   public theme: Theme;
   public undoManager: UndoManager;
   public windowManager: WindowManager;
@@ -247,6 +252,7 @@ class Editor implements EditorObservable {
   // EditorObservable patches
   public bindPendingEventDelegates: EditorObservable['bindPendingEventDelegates'];
   public toggleNativeEvent: EditorObservable['toggleNativeEvent'];
+  public toggleCustomEvent: EditorObservable['toggleCustomEvent'];
   public unbindAllNativeEvents: EditorObservable['unbindAllNativeEvents'];
   public fire: EditorObservable['fire'];
   public on: EditorObservable['on'];
@@ -778,7 +784,7 @@ class Editor implements EditorObservable {
    * @method setContent
    * @param {String} content Content to set to editor, normally HTML contents but can be other formats as well.
    * @param {Object} args Optional content object, this gets passed around through the whole set process.
-   * @return {String} HTML string that got set into the editor.
+   * @return {String} HTML string that got set into the editor, or an object with the content and the removed items if the report option is set.
    * @example
    * // Sets the HTML contents of the activeEditor editor
    * tinymce.activeEditor.setContent('<span>some</span> html');
@@ -788,11 +794,19 @@ class Editor implements EditorObservable {
    *
    * // Sets the content of the activeEditor editor using the specified format
    * tinymce.activeEditor.setContent('<p>Some html</p>', {format: 'html'});
+   *
+   * // Sets the content of the activeEditor editor from markdown
+   * tinymce.activeEditor.setContent('Some **markdown**', {format: 'markdown'});
+   *
+   * // Sets the content and returns what was removed from it by the schema and sanitization policy
+   * var report = tinymce.activeEditor.setContent('<p onclick="alert(1)">Some html</p>', {report: true});
+   * console.log(report.content, report.items);
    */
+  public setContent(content: EditorContent.Content, args: Partial<EditorContent.SetContentArgs> & { report: true }): EditorContent.SetContentReport;
   public setContent(content: string, args?: Partial<EditorContent.SetContentArgs>): string;
   public setContent(content: AstNode, args?: Partial<EditorContent.SetContentArgs>): AstNode;
   public setContent(content: EditorContent.Content, args?: Partial<EditorContent.SetContentArgs>): EditorContent.Content;
-  public setContent(content: EditorContent.Content, args?: Partial<EditorContent.SetContentArgs>): EditorContent.Content {
+  public setContent(content: EditorContent.Content, args?: Partial<EditorContent.SetContentArgs>): EditorContent.Content | EditorContent.SetContentReport {
     return EditorContent.setContent(this, content, args);
   }
 
@@ -810,6 +824,9 @@ class Editor implements EditorObservable {
    * // Get the contents of the currently active editor as plain text
    * tinymce.activeEditor.getContent({format: 'text'});
    *
+   * // Get the contents of the currently active editor as markdown
+   * tinymce.activeEditor.getContent({format: 'markdown'});
+   *
    * // Get content of a specific editor:
    * tinymce.get('content id').getContent()
    */
@@ -824,7 +841,7 @@ class Editor implements EditorObservable {
    *
    * @method insertContent
    * @param {String} content Content to insert.
-   * @param {Object} args Optional args to pass to insert call.
+   * @param {Object} args Optional args to pass to insert call. Use `{format: 'markdown'}` to insert markdown content.
    */
   public insertContent(content: string, args?: any) {
     if (args) {
@@ -1010,26 +1027,12 @@ class Editor implements EditorObservable {
   public convertURL(url: string, name: string, elm?): string {
     const self = this, getOption = self.options.get;
 
-    // Use callback instead
-    const urlConverterCallback = Options.getUrlConverterCallback(self);
-    if (Type.isFunction(urlConverterCallback)) {
-      return urlConverterCallback.call(self, url, elm, true, name);
-    }
-
-    // Don't convert link href since thats the CSS files that gets loaded into the editor also skip local file URLs
-    if (!getOption('convert_urls') || (elm && elm.nodeName === 'LINK') || url.indexOf('file:') === 0 || url.length === 0) {
-      return url;
-    }
-
-    // Convert to relative
-    if (getOption('relative_urls')) {
-      return self.documentBaseURI.toRelative(url);
-    }
-
-    // Convert to absolute
-    url = self.documentBaseURI.toAbsolute(url, getOption('remove_script_host'));
-
-    return url;
+    return ConvertUrl.convertUrl({
+      convert_urls: getOption('convert_urls'),
+      relative_urls: getOption('relative_urls'),
+      remove_script_host: getOption('remove_script_host'),
+      urlconverter_callback: Options.getUrlConverterCallback(self)
+    }, self.documentBaseURI, self, url, name, elm);
   }
 
   /**
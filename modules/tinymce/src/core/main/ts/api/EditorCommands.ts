@@ -354,15 +354,13 @@ class EditorCommands {
           align = 'justify';
         }
 
-        // Remove all other alignments first
-        each('left,center,right,justify'.split(','), (name) => {
-          if (align !== name) {
-            editor.formatter.remove('align' + name);
-          }
-        });
-
+        // The other alignments are removed when applying an alignment, since they are in the same format group
         if (align !== 'none') {
           self.toggleFormat('align' + align);
+        } else {
+          each(editor.formatter.getGroup('align'), (name) => {
+            editor.formatter.remove(name);
+          });
         }
       },
 
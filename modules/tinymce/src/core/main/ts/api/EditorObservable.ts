@@ -141,6 +141,7 @@ const bindEventDelegate = (editor: Editor, eventName: string) => {
 interface EditorObservable extends Observable<EditorEventMap> {
   bindPendingEventDelegates (this: Editor): void;
   toggleNativeEvent (this: Editor, name: string, state: boolean);
+  toggleCustomEvent (this: Editor, name: string, state: boolean): void;
   unbindAllNativeEvents (this: Editor): void;
 }
 
@@ -195,6 +196,23 @@ const EditorObservable: EditorObservable = {
     }
   },
 
+  /**
+   * Toggles a custom event on/off this is called by the EventDispatcher when
+   * the first custom event handler is added and when the last custom event handler is removed.
+   * Fires the internal EventListenersToggle event so features can start or stop work that is only needed while listened to.
+   *
+   * @private
+   */
+  toggleCustomEvent(name, state) {
+    const self = this;
+
+    if (self.removed || name.toLowerCase() === 'eventlistenerstoggle') {
+      return;
+    }
+
+    self.fire('EventListenersToggle', { name: name.toLowerCase(), state });
+  },
+
   /**
    * Unbinds all native event handlers that means delegates, custom events bound using the Events API etc.
    *
@@ -7,11 +7,12 @@
 
 import { AutocompleterEventArgs } from '../autocomplete/AutocompleteTypes';
 import { Content, GetContentArgs, SetContentArgs } from '../content/ContentTypes';
+import { ContentOperation } from '../delta/DeltaTypes';
 import { FormatVars } from '../fmt/FormatTypes';
 import { RangeLikeObject } from '../selection/RangeTypes';
 import { UndoLevel } from '../undo/UndoManagerTypes';
 import Editor from './Editor';
-import { ParserArgs } from './html/DomParser';
+import { FilteredContentItem, ParserArgs } from './html/DomParser';
 import { Dialog } from './ui/Ui';
 import { NativeEventMap } from './util/EventDispatcher';
 import { InstanceApi } from './WindowManager';
@@ -44,6 +45,7 @@ export interface SwitchModeEvent { mode: string }
 
 export interface AddUndoEvent { level: UndoLevel; lastLevel: UndoLevel; originalEvent: Event }
 export interface UndoRedoEvent { level: UndoLevel }
+export interface ImportUndosEvent { index: number }
 
 export interface WindowEvent<T extends Dialog.DialogData> { dialog: InstanceApi<T> }
 
@@ -55,6 +57,17 @@ export interface PlaceholderToggleEvent { state: boolean }
 
 export interface LoadErrorEvent { message: string }
 
+export interface AnnotationRemovedEvent { name: string; uid: string }
+export interface AnnotationChangedEvent { name: string; uid: string; nodes: Element[] }
+
+export interface EventListenersToggleEvent { name: string; state: boolean }
+
+export interface ContentDeltaEvent { operations: ContentOperation[]; level: UndoLevel }
+
+export interface ContentFilteredEvent { context: string; items: FilteredContentItem[] }
+
+export interface NamedStyleChangedEvent { name: string; action: 'register' | 'unregister' }
+
 export interface PreProcessEvent extends ParserArgs { node: Element }
 export interface PostProcessEvent extends ParserArgs { content: string }
 
@@ -104,6 +117,7 @@ export interface EditorEventMap extends Omit<NativeEventMap, 'blur' | 'focus'> {
   'PostRender': { };
   'NewBlock': NewBlockEvent;
   'ClearUndos': { };
+  'ImportUndos': ImportUndosEvent;
   'TypingUndo': { };
   'Redo': UndoRedoEvent;
   'Undo': UndoRedoEvent;
@@ -121,7 +135,14 @@ export interface EditorEventMap extends Omit<NativeEventMap, 'blur' | 'focus'> {
   'PostProcess': PostProcessEvent;
   'AutocompleterStart': AutocompleterEventArgs;
   'AutocompleterUpdate': AutocompleterEventArgs;
+  'AutocompleterLoading': { };
   'AutocompleterEnd': { };
+  'AnnotationRemoved': AnnotationRemovedEvent;
+  'AnnotationChanged': AnnotationChangedEvent;
+  'ContentDelta': ContentDeltaEvent;
+  'ContentFiltered': ContentFilteredEvent;
+  'NamedStyleChanged': NamedStyleChangedEvent;
+  'EventListenersToggle': EventListenersToggleEvent;
 }
 
 export interface EditorManagerEventMap {
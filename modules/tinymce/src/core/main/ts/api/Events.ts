@@ -7,10 +7,12 @@
 
 import { AutocompleterEventArgs } from '../autocomplete/AutocompleteTypes';
 import { Content, GetContentArgs, SetContentArgs } from '../content/ContentTypes';
+import { ContentOperation } from '../delta/DeltaTypes';
 import { FormatVars } from '../fmt/FormatTypes';
 import { RangeLikeObject } from '../selection/RangeTypes';
+import { UndoLevel } from '../undo/UndoManagerTypes';
 import Editor from './Editor';
-import { ParserArgs } from './html/DomParser';
+import { FilteredContentItem, ParserArgs } from './html/DomParser';
 
 const firePreProcess = (editor: Editor, args: ParserArgs & { node: Element }) => editor.fire('PreProcess', args);
 
@@ -62,8 +64,20 @@ const fireAutocompleterStart = (editor: Editor, args: AutocompleterEventArgs) =>
 
 const fireAutocompleterUpdate = (editor: Editor, args: AutocompleterEventArgs) => editor.fire('AutocompleterUpdate', args);
 
+const fireAutocompleterLoading = (editor: Editor) => editor.fire('AutocompleterLoading');
+
 const fireAutocompleterEnd = (editor: Editor) => editor.fire('AutocompleterEnd');
 
+const fireAnnotationRemoved = (editor: Editor, name: string, uid: string) => editor.fire('AnnotationRemoved', { name, uid });
+
+const fireAnnotationChanged = (editor: Editor, name: string, uid: string, nodes: Element[]) => editor.fire('AnnotationChanged', { name, uid, nodes });
+
+const fireContentDelta = (editor: Editor, operations: ContentOperation[], level: UndoLevel) => editor.fire('ContentDelta', { operations, level });
+
+const fireContentFiltered = (editor: Editor, context: string, items: FilteredContentItem[]) => editor.fire('ContentFiltered', { context, items });
+
+const fireNamedStyleChanged = (editor: Editor, name: string, action: 'register' | 'unregister') => editor.fire('NamedStyleChanged', { name, action });
+
 export {
   firePreProcess,
   firePostProcess,
@@ -85,5 +99,11 @@ export {
   fireGetContent,
   fireAutocompleterStart,
   fireAutocompleterUpdate,
-  fireAutocompleterEnd
+  fireAutocompleterLoading,
+  fireAutocompleterEnd,
+  fireAnnotationRemoved,
+  fireAnnotationChanged,
+  fireContentDelta,
+  fireContentFiltered,
+  fireNamedStyleChanged
 };
@@ -10,6 +10,7 @@ import { Cell, Fun } from '@ephox/katamari';
 import * as CaretFormat from '../fmt/CaretFormat';
 import * as FormatChanged from '../fmt/FormatChanged';
 import { FormatRegistry } from '../fmt/FormatRegistry';
+import * as FormatState from '../fmt/FormatState';
 import { Format, FormatVars } from '../fmt/FormatTypes';
 import * as Preview from '../fmt/Preview';
 import * as FormatShortcuts from '../keyboard/FormatShortcuts';
@@ -41,6 +42,7 @@ interface Formatter extends FormatRegistry {
   matchAll: (names: string[], vars?: FormatVars) => string[];
   matchNode: (node: Node, name: string, vars?: FormatVars, similar?: boolean) => Format | undefined;
   canApply: (name: string) => boolean;
+  getState: (rng?: Range, formats?: string[]) => FormatState.FormatState;
   formatChanged: (names: string, callback: FormatChanged.FormatChangeCallback, similar?: boolean, vars?: FormatVars) => { unbind: () => void };
   getCssText: (format: string | Format) => string;
 }
@@ -89,6 +91,20 @@ const Formatter = (editor: Editor): Formatter => {
      */
     unregister: formats.unregister,
 
+    /**
+     * Returns the names of the formats in the specified group. Formats are added to a group with the
+     * <code>group</code> property and applying one of them removes the others in the group from the
+     * selection, unless the formats also set <code>exclusive</code> to false.
+     *
+     * @method getGroup
+     * @param {String} group Name of the format group, for example "align".
+     * @return {Array} Array with the names of the formats in the group.
+     * @example
+     * // Returns [ 'subscript', 'superscript' ]
+     * tinymce.activeEditor.formatter.getGroup('script');
+     */
+    getGroup: formats.getGroup,
+
     /**
      * Applies the specified format to the current selection or specified node.
      *
@@ -180,6 +196,26 @@ const Formatter = (editor: Editor): Formatter => {
      */
     canApply: (name) => Rtc.canApplyFormat(editor, name),
 
+    /**
+     * Returns the state of the registered formats for the current selection or the specified range, in one pass
+     * over the selected content. Each format is matched <code>full</code> when all the selected text has the format,
+     * <code>partial</code> when some of it has the format and otherwise <code>none</code>. The state also has the
+     * formats at the start of the selection, ordered from the closest element, and the variables of the variable
+     * formats there, like the font size and the text color. Matching every registered format against a large selection
+     * can be slow, so the formats to match can be specified, which also limits the closest formats and the variables.
+     *
+     * @method getState
+     * @param {Range} rng Optional range to get the state for, defaults to the current selection.
+     * @param {Array} formats Optional names of the formats to match, defaults to all the registered formats.
+     * @return {Object} Format state with the <code>formats</code>, <code>closest</code> and <code>vars</code> properties.
+     * @example
+     * var state = tinymce.activeEditor.formatter.getState();
+     * if (state.formats.bold === 'full') {
+     *   console.log('The selection is bold with the font size ' + state.vars.fontsize.value);
+     * }
+     */
+    getState: (rng?: Range, formats?: string[]) => FormatState.getState(editor, rng ?? editor.selection.getRng(), formats),
+
     /**
      * Executes the specified callback when the current selection matches the formats or not.
      *
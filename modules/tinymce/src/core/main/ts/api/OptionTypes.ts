@@ -6,11 +6,13 @@
  */
 
 import { UploadHandler } from '../file/Uploader';
+import { NamedStyleSpecs } from '../fmt/NamedStyles';
 import { RawPattern } from '../textpatterns/core/PatternTypes';
 import Editor from './Editor';
 import { Formats } from './fmt/Format';
 import { AllowedFormat } from './fmt/StyleFormat';
-import { SchemaType } from './html/Schema';
+import { SanitizationPolicy } from './html/DomParser';
+import { CustomElementsSettings, SchemaType } from './html/Schema';
 import { EditorUiApi } from './ui/Ui';
 
 export type EntityEncoding = 'named' | 'numeric' | 'raw' | 'named,numeric' | 'named+numeric' | 'numeric,named' | 'numeric+named';
@@ -82,7 +84,7 @@ interface BaseEditorOptions {
   convert_fonts_to_spans?: boolean;
   convert_urls?: boolean;
   custom_colors?: boolean;
-  custom_elements?: string;
+  custom_elements?: CustomElementsSettings;
   custom_ui_selector?: string;
   custom_undo_redo_levels?: number;
   deprecation_warnings?: boolean;
@@ -151,6 +153,7 @@ interface BaseEditorOptions {
   min_height?: number;
   min_width?: number;
   no_newline_selector?: string;
+  named_styles?: NamedStyleSpecs;
   noneditable_class?: string;
   noneditable_regexp?: RegExp | RegExp[];
   nowrap?: boolean;
@@ -158,6 +161,11 @@ interface BaseEditorOptions {
   padd_empty_with_br?: boolean;
   placeholder?: string;
   preserve_cdata?: boolean;
+  pretty_print?: boolean;
+  pretty_print_indent_size?: number;
+  pretty_print_max_width?: number;
+  pretty_print_preserve?: string;
+  pretty_print_wrap_attributes?: boolean;
   preview_styles?: false | string;
   protect?: RegExp[];
   readonly?: boolean;
@@ -169,6 +177,7 @@ interface BaseEditorOptions {
   resize?: boolean | 'both';
   resize_img_proportional?: boolean;
   root_name?: string;
+  sanitization_policy?: SanitizationPolicy;
   schema?: SchemaType;
   selector?: string;
   setup?: SetupCallback;
@@ -198,6 +207,7 @@ interface BaseEditorOptions {
   toolbar_sticky?: boolean;
   toolbar_sticky_offset?: number;
   typeahead_urls?: boolean;
+  undo_history_sidebar?: boolean;
   url_converter?: URLConverter;
   url_converter_scope?: any;
   urlconverter_callback?: URLConverterCallback;
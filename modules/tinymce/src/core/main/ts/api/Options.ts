@@ -8,6 +8,7 @@
 import { Arr, Obj, Strings, Type } from '@ephox/katamari';
 import { PlatformDetection } from '@ephox/sand';
 
+import * as NamedStyles from '../fmt/NamedStyles';
 import DOMUtils from './dom/DOMUtils';
 import Editor from './Editor';
 import { EditorOptions } from './OptionTypes';
@@ -34,6 +35,9 @@ const isRegExp = (x: unknown): x is RegExp => Type.is(x, RegExp);
 const option = <K extends keyof EditorOptions>(name: K) => (editor: Editor) =>
   editor.options.get(name);
 
+const defaultIndentElements = 'p,h1,h2,h3,h4,h5,h6,blockquote,div,title,style,pre,script,td,th,ul,ol,li,dl,dt,dd,area,table,thead,' +
+  'tfoot,tbody,tr,section,summary,article,hgroup,aside,figure,figcaption,option,optgroup,datalist';
+
 const stringOrObjectProcessor = (value: string) =>
   Type.isString(value) || Type.isObject(value);
 
@@ -258,14 +262,37 @@ const register = (editor: Editor) => {
 
   registerOption('indent_before', {
     processor: 'string',
-    default: 'p,h1,h2,h3,h4,h5,h6,blockquote,div,title,style,pre,script,td,th,ul,ol,li,dl,dt,dd,area,table,thead,' +
-      'tfoot,tbody,tr,section,summary,article,hgroup,aside,figure,figcaption,option,optgroup,datalist'
+    default: defaultIndentElements
   });
 
   registerOption('indent_after', {
     processor: 'string',
-    default: 'p,h1,h2,h3,h4,h5,h6,blockquote,div,title,style,pre,script,td,th,ul,ol,li,dl,dt,dd,area,table,thead,' +
-      'tfoot,tbody,tr,section,summary,article,hgroup,aside,figure,figcaption,option,optgroup,datalist'
+    default: defaultIndentElements
+  });
+
+  registerOption('pretty_print', {
+    processor: 'boolean',
+    default: false
+  });
+
+  registerOption('pretty_print_indent_size', {
+    processor: 'number',
+    default: 2
+  });
+
+  registerOption('pretty_print_max_width', {
+    processor: 'number',
+    default: 80
+  });
+
+  registerOption('pretty_print_wrap_attributes', {
+    processor: 'boolean',
+    default: true
+  });
+
+  registerOption('pretty_print_preserve', {
+    processor: 'string',
+    default: 'pre,textarea'
   });
 
   registerOption('indent_use_margin', {
@@ -375,6 +402,18 @@ const register = (editor: Editor) => {
     processor: 'object'
   });
 
+  registerOption('named_styles', {
+    processor: (value) => {
+      const valid = Type.isObject(value) && Arr.forall(Obj.keys(value), NamedStyles.isValidName);
+      if (valid) {
+        return { value, valid };
+      } else {
+        return { valid: false, message: 'Must be an object with style names that start with a letter, followed only by letters, numbers, dashes or underscores.' };
+      }
+    },
+    default: {}
+  });
+
   registerOption('format_empty_lines', {
     processor: 'boolean',
     default: false
@@ -527,6 +566,10 @@ const register = (editor: Editor) => {
     default: false
   });
 
+  registerOption('sanitization_policy', {
+    processor: 'object'
+  });
+
   registerOption('convert_fonts_to_spans', {
     processor: 'boolean',
     default: true
@@ -584,7 +627,7 @@ const register = (editor: Editor) => {
   });
 
   registerOption('custom_elements', {
-    processor: 'string'
+    processor: stringOrObjectProcessor
   });
 
   registerOption('extended_valid_elements', {
@@ -761,6 +804,7 @@ const getTheme = option('theme');
 const getThemeUrl = option('theme_url');
 const isInlineBoundariesEnabled = option('inline_boundaries');
 const getFormats = option('formats');
+const getNamedStyles = option('named_styles');
 const getPreviewStyles = option('preview_styles');
 const canFormatEmptyLines = option('format_empty_lines');
 const getCustomUiSelector = option('custom_ui_selector');
@@ -806,6 +850,7 @@ const hasForcedRootBlock = (editor: Editor): boolean =>
 
 export {
   register,
+  defaultIndentElements,
 
   getIframeAttrs,
   getDocType,
@@ -849,6 +894,7 @@ export {
   getTheme,
   isInlineBoundariesEnabled,
   getFormats,
+  getNamedStyles,
   getPreviewStyles,
   canFormatEmptyLines,
   getCustomUiSelector,
@@ -31,11 +31,12 @@ import * as Formats from './fmt/Format';
 import FocusManager from './FocusManager';
 import Formatter from './Formatter';
 import Rect, { GeomRect } from './geom/Rect';
-import DomParser, { DomParserSettings } from './html/DomParser';
+import ContentPipeline, { ContentPipelineSettings } from './html/ContentPipeline';
+import DomParser, { DomParserSettings, SanitizationPolicy, SanitizationReport } from './html/DomParser';
 import Entities from './html/Entities';
 import AstNode from './html/Node';
 import SaxParser, { SaxParserSettings } from './html/SaxParser';
-import Schema, { SchemaSettings } from './html/Schema';
+import Schema, { CustomElementSpec, SchemaSettings } from './html/Schema';
 import HtmlSerializer, { HtmlSerializerSettings } from './html/Serializer';
 import Styles from './html/Styles';
 import Writer, { WriterSettings } from './html/Writer';
@@ -46,6 +47,8 @@ import { EditorOptions, RawEditorOptions } from './OptionTypes';
 import PluginManager, { Plugin } from './PluginManager';
 import Resource from './Resource';
 import Shortcuts from './Shortcuts';
+import StyleManager, { NamedStyle, NamedStyleSpec } from './StyleManager';
+import TextPatterns, { TextPatternSpec } from './TextPatterns';
 import ThemeManager, { Theme } from './ThemeManager';
 import { tinymce, TinyMCE } from './Tinymce';
 import * as Ui from './ui/Ui';
@@ -89,6 +92,7 @@ export {
   DomParser,
   Writer,
   HtmlSerializer,
+  ContentPipeline,
 
   // utils
   Delay,
@@ -117,6 +121,8 @@ export {
   NotificationManager,
   Resource,
   Shortcuts,
+  StyleManager,
+  TextPatterns,
   PluginManager,
   ThemeManager,
   UndoManager,
@@ -129,16 +135,23 @@ export {
   EditorEvent,
   EditorModeApi,
   Bookmark,
+  CustomElementSpec,
   Events,
   Formats,
+  NamedStyle,
+  NamedStyleSpec,
   NotificationApi,
   NotificationSpec,
   SaxParserSettings,
+  ContentPipelineSettings,
   DomParserSettings,
   DomSerializerSettings,
   HtmlSerializerSettings,
   Plugin,
+  SanitizationPolicy,
+  SanitizationReport,
   SchemaSettings,
+  TextPatternSpec,
   Theme,
   WriterSettings,
   XHRSettings
@@ -0,0 +1,184 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional } from '@ephox/katamari';
+
+import * as NamedStyles from '../fmt/NamedStyles';
+import Editor from './Editor';
+import * as Events from './Events';
+import * as Options from './Options';
+
+export type NamedStyle = NamedStyles.NamedStyle;
+export type NamedStyleSpec = NamedStyles.NamedStyleSpec;
+
+/**
+ * This is the style manager api, it manages named paragraph and character styles. Each style is registered as
+ * a format and the elements it's applied to are marked with a class, so changes to the definition of a style
+ * are applied to the whole document, including the elements of the styles that are based on it.
+ *
+ * @class tinymce.StyleManager
+ * @example
+ * tinymce.activeEditor.styleManager.register('note', { type: 'paragraph', styles: { color: 'gray' }});
+ * tinymce.activeEditor.styleManager.register('warning', { based_on: 'note', styles: { 'font-weight': 'bold' }});
+ * tinymce.activeEditor.styleManager.apply('warning');
+ */
+
+interface StyleManager {
+  register: (name: string, spec: NamedStyleSpec) => boolean;
+  unregister: (name: string) => void;
+  get: (name: string) => NamedStyle | undefined;
+  getAll: () => NamedStyle[];
+  apply: (name: string) => void;
+  match: (name: string) => boolean;
+}
+
+const StyleManager = (editor: Editor): StyleManager => {
+  const specs: NamedStyles.NamedStyleSpecs = {};
+
+  const resolve = (name: string): Optional<NamedStyle> => NamedStyles.resolve(specs, name);
+
+  const getAll = (): NamedStyle[] => Arr.bind(Obj.keys(specs), (name) => resolve(name).toArray());
+
+  const registerFormat = (style: NamedStyle) => {
+    editor.formatter.register(style.className, NamedStyles.toFormat(style));
+  };
+
+  // Applies the changed styles to all elements in the document that they are applied to
+  const update = (names: string[], change: () => void) => {
+    const oldStyles = Arr.map(names, (name) => ({ name, style: resolve(name) }));
+    change();
+
+    const changes = Arr.map(oldStyles, ({ name, style }) => ({ oldStyle: style, newStyle: resolve(name) }));
+    Arr.each(changes, ({ oldStyle, newStyle }) => {
+      oldStyle.each((style) => editor.formatter.unregister(style.className));
+      newStyle.each(registerFormat);
+    });
+
+    if (editor.initialized) {
+      const dom = editor.dom;
+      editor.undoManager.transact(() => {
+        Arr.each(changes, ({ oldStyle, newStyle }) => {
+          const className = newStyle.or(oldStyle).map((style) => style.className).getOr('');
+          Arr.each(dom.select('.' + className, editor.getBody()), (elm) => {
+            NamedStyles.restyle(dom, elm, oldStyle, newStyle);
+          });
+        });
+      });
+      editor.nodeChanged();
+    }
+  };
+
+  const getCurrentParagraphStyle = (block: Element): Optional<NamedStyle> =>
+    Arr.find(getAll(), (style) => style.type === 'paragraph' && editor.dom.hasClass(block, style.className));
+
+  Obj.each(Options.getNamedStyles(editor), (spec, name) => {
+    specs[name] = spec;
+  });
+  Arr.each(getAll(), registerFormat);
+
+  return {
+    /**
+     * Registers a named style or changes the definition of an existing style, the changes are applied to the
+     * elements in the document with the style and the styles that are based on it. The name is used as a class name,
+     * so it has to start with a letter, followed only by letters, numbers, dashes or underscores.
+     *
+     * @method register
+     * @param {String} name Name of the style.
+     * @param {Object} spec Style definition with the title, the paragraph or character type, the style it's based
+     * on, the block element and the CSS styles.
+     * @return {Boolean} True if the style was registered or false if the name isn't valid.
+     */
+    register: (name: string, spec: NamedStyleSpec): boolean => {
+      if (!NamedStyles.isValidName(name)) {
+        return false;
+      }
+
+      update([ name ].concat(NamedStyles.getDependents(specs, name)), () => {
+        specs[name] = spec;
+      });
+      Events.fireNamedStyleChanged(editor, name, 'register');
+      return true;
+    },
+
+    /**
+     * Removes a named style and removes it from the elements in the document. The styles that were based on it
+     * are based on the style the removed style was based on instead.
+     *
+     * @method unregister
+     * @param {String} name Name of the style to remove.
+     */
+    unregister: (name: string) => {
+      Obj.get(specs, name).each((removed) => {
+        const dependents = NamedStyles.getDependents(specs, name);
+        update([ name ].concat(dependents), () => {
+          delete specs[name];
+          Obj.each(specs, (spec, styleName) => {
+            if (spec.based_on === name) {
+              specs[styleName] = { ...spec, based_on: removed.based_on };
+            }
+          });
+        });
+        Events.fireNamedStyleChanged(editor, name, 'unregister');
+      });
+    },
+
+    /**
+     * Returns the named style with the resolved block and styles, or undefined if the style isn't registered.
+     *
+     * @method get
+     * @param {String} name Name of the style.
+     * @return {Object} Named style or undefined.
+     */
+    get: (name: string) => resolve(name).getOrUndefined(),
+
+    /**
+     * Returns all registered named styles.
+     *
+     * @method getAll
+     * @return {Array} Array of named styles.
+     */
+    getAll,
+
+    /**
+     * Applies the named style to the current selection. Paragraph styles replace the paragraph style of the
+     * selected blocks and character styles replace the character styles of the selected text.
+     *
+     * @method apply
+     * @param {String} name Name of the style to apply.
+     */
+    apply: (name: string) => {
+      resolve(name).each((style) => {
+        editor.undoManager.transact(() => {
+          if (style.type === 'paragraph') {
+            Arr.each(editor.selection.getSelectedBlocks(), (block) => {
+              NamedStyles.restyle(editor.dom, block, getCurrentParagraphStyle(block), Optional.some(style));
+            });
+          } else {
+            Arr.each(getAll(), (other) => {
+              if (other.type === 'character' && other.name !== name) {
+                editor.formatter.remove(other.className);
+              }
+            });
+            editor.formatter.apply(style.className);
+          }
+        });
+        editor.nodeChanged();
+      });
+    },
+
+    /**
+     * Returns true if the named style is applied to the current selection.
+     *
+     * @method match
+     * @param {String} name Name of the style.
+     * @return {Boolean} True if the style is applied to the selection.
+     */
+    match: (name: string) => resolve(name).exists((style) => editor.formatter.match(style.className))
+  };
+};
+
+export default StyleManager;
@@ -0,0 +1,93 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Cell, Type } from '@ephox/katamari';
+
+import * as Rtc from '../Rtc';
+import * as Pattern from '../textpatterns/core/Pattern';
+import { Pattern as TextPattern, PatternSet, RawPattern } from '../textpatterns/core/PatternTypes';
+import * as TextPatternsSetup from '../textpatterns/TextPatterns';
+import Editor from './Editor';
+import * as Options from './Options';
+
+export type TextPatternSpec = RawPattern;
+
+/**
+ * This is the text patterns api, it manages the patterns that format the content or replace text as it's typed.
+ * The patterns are initialized from the text_patterns option. Each pattern can have a context function that
+ * returns true for the elements the pattern can be applied in.
+ *
+ * @class tinymce.TextPatterns
+ * @example
+ * tinymce.activeEditor.textPatterns.add({ start: '`', end: '`', format: 'code' });
+ * tinymce.activeEditor.textPatterns.add({ start: '*', end: '*', format: 'italic', context: (elm) => !elm.closest('code') });
+ * tinymce.activeEditor.textPatterns.remove({ start: '*', end: '*' });
+ */
+
+interface TextPatterns {
+  add: (patterns: TextPatternSpec | TextPatternSpec[]) => void;
+  remove: (pattern: TextPatternSpec) => void;
+  list: () => TextPatternSpec[];
+}
+
+// Patterns are identified by the start and end text or regex
+const isSamePattern = (pattern: TextPattern, spec: TextPatternSpec): boolean => {
+  const raw = Pattern.denormalizePattern(pattern);
+  return String(raw.start) === String(spec.start) && String(raw.end) === String(spec.end);
+};
+
+const TextPatterns = (editor: Editor): TextPatterns => {
+  const patterns = Cell<TextPattern[]>([]);
+  const patternSet = Cell<PatternSet>(Pattern.createPatternSet([]));
+
+  const set = (newPatterns: TextPattern[]) => {
+    patterns.set(newPatterns);
+    patternSet.set(Pattern.createPatternSet(newPatterns));
+  };
+
+  /**
+   * Adds one or more patterns, using the same format as the patterns of the text_patterns option. Invalid
+   * patterns are logged to the console and ignored.
+   *
+   * @method add
+   * @param {Object/Array} patterns Pattern or array of patterns to add.
+   */
+  const add = (newPatterns: TextPatternSpec | TextPatternSpec[]) => {
+    const specs = Type.isArray(newPatterns) ? newPatterns : [ newPatterns ];
+    set(patterns.get().concat(TextPatternsSetup.normalizePatterns(specs)));
+  };
+
+  add(Options.getTextPatterns(editor));
+
+  if (!Rtc.isRtc(editor)) {
+    TextPatternsSetup.setup(editor, patternSet);
+  }
+
+  return {
+    add,
+
+    /**
+     * Removes the patterns with the same start and end as the specified pattern.
+     *
+     * @method remove
+     * @param {Object} pattern Pattern with the start and end of the patterns to remove.
+     */
+    remove: (pattern: TextPatternSpec) => {
+      set(Arr.filter(patterns.get(), (current) => !isSamePattern(current, pattern)));
+    },
+
+    /**
+     * Returns the current patterns, in the same format as the patterns of the text_patterns option.
+     *
+     * @method list
+     * @return {Array} Array of patterns.
+     */
+    list: () => Arr.map(patterns.get(), Pattern.denormalizePattern)
+  };
+};
+
+export default TextPatterns;
@@ -29,6 +29,7 @@ import FakeClipboard from './FakeClipboard';
 import FocusManager from './FocusManager';
 import Formatter from './Formatter';
 import Rect from './geom/Rect';
+import ContentPipeline, { ContentPipelineSettings } from './html/ContentPipeline';
 import DomParser, { DomParserSettings } from './html/DomParser';
 import Entities from './html/Entities';
 import AstNode, { AstNodeConstructor } from './html/Node';
@@ -42,6 +43,8 @@ import NotificationManager from './NotificationManager';
 import PluginManager from './PluginManager';
 import Resource from './Resource';
 import Shortcuts, { ShortcutsConstructor } from './Shortcuts';
+import StyleManager from './StyleManager';
+import TextPatterns from './TextPatterns';
 import ThemeManager from './ThemeManager';
 import UndoManager from './UndoManager';
 import Delay from './util/Delay';
@@ -137,10 +140,13 @@ interface TinyMCE extends EditorManager {
     DomParser: (settings?: DomParserSettings, schema?: Schema) => DomParser;
     Writer: (settings?: WriterSettings) => Writer;
     Serializer: (settings?: HtmlSerializerSettings, schema?: Schema) => HtmlSerializer;
+    ContentPipeline: (settings?: ContentPipelineSettings) => ContentPipeline;
   };
 
   AddOnManager: AddOnManagerNamespace;
   Annotator: (editor: Editor) => Annotator;
+  StyleManager: (editor: Editor) => StyleManager;
+  TextPatterns: (editor: Editor) => TextPatterns;
   Editor: EditorConstructor;
   EditorCommands: EditorCommandsConstructor;
   EditorManager: EditorManager;
@@ -232,12 +238,15 @@ const publicApi = {
     SaxParser,
     DomParser,
     Writer,
-    Serializer: HtmlSerializer
+    Serializer: HtmlSerializer,
+    ContentPipeline
   },
 
   Env,
   AddOnManager,
   Annotator,
+  StyleManager,
+  TextPatterns,
   Formatter,
   UndoManager,
   EditorCommands,
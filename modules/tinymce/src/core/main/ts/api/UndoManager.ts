@@ -9,8 +9,10 @@ import { Cell, Singleton } from '@ephox/katamari';
 
 import { Bookmark } from '../bookmark/BookmarkTypes';
 import * as Rtc from '../Rtc';
+import * as Operations from '../undo/Operations';
+import * as Serialization from '../undo/Serialization';
 import { addKeyboardShortcuts, registerEvents } from '../undo/Setup';
-import { Index, Locks, UndoLevel, UndoManager } from '../undo/UndoManagerTypes';
+import { Index, Locks, UndoHistory, UndoHistoryEntry, UndoLevel, UndoLevelMetadata, UndoManager } from '../undo/UndoManagerTypes';
 import Editor from './Editor';
 
 /**
@@ -123,10 +125,12 @@ const UndoManager = (editor: Editor): UndoManager => {
      *
      * @method transact
      * @param {function} callback Function that gets executed and has dom manipulation logic in it.
+     * @param {String} label Optional label describing the transaction, for example "Insert table".
+     * @param {Object} metadata Optional metadata to store with the undo level.
      * @return {Object} Undo level that got added or null it a level wasn't needed.
      */
-    transact: (callback: () => void): UndoLevel => {
-      return Rtc.transact(editor, undoManager, locks, callback);
+    transact: (callback: () => void, label?: string, metadata?: UndoLevelMetadata): UndoLevel => {
+      return Rtc.transact(editor, undoManager, locks, callback, label, metadata);
     },
 
     /**
@@ -152,6 +156,55 @@ const UndoManager = (editor: Editor): UndoManager => {
      */
     extra: (callback1: () => void, callback2: () => void) => {
       Rtc.extra(editor, undoManager, index, callback1, callback2);
+    },
+
+    /**
+     * Exports the undo levels and the current undo position as a JSON serializable object. Each level is stored
+     * as a patch against the previous level, so the exported history can be persisted and later restored using
+     * the importHistory method, for example after reloading the page.
+     *
+     * @method exportHistory
+     * @return {Object} Serializable undo history object.
+     */
+    exportHistory: (): UndoHistory => {
+      return Serialization.exportHistory(undoManager, index);
+    },
+
+    /**
+     * Replaces the undo levels with the levels from an undo history object that was previously created using
+     * the exportHistory method. If the editor content doesn't match the current level of the imported history,
+     * then a new undo level will be added for the editor content. The history can't be imported when collaborating
+     * through the RTC plugin.
+     *
+     * @method importHistory
+     * @param {Object} history Undo history object to import.
+     * @return {Boolean} true if the history was imported or false if the history was invalid or can't be imported.
+     */
+    importHistory: (history: UndoHistory): boolean => {
+      return Rtc.importHistory(editor, undoManager, index, history);
+    },
+
+    /**
+     * Returns a list of the undo levels, including the label and metadata of each level and if it's the
+     * current level. The label is either the name of the transaction, the command or the format that
+     * created the level.
+     *
+     * @method getHistory
+     * @return {Array} Array of history entries with index, label, metadata and current properties.
+     */
+    getHistory: (): UndoHistoryEntry[] => {
+      return Operations.getHistory(undoManager, index);
+    },
+
+    /**
+     * Moves the editor content to the undo level at the specified index, undoing or redoing all the levels in between.
+     *
+     * @method jumpTo
+     * @param {Number} targetIndex Index of the undo level to move to.
+     * @return {Object} Undo level that was applied or undefined if the index is invalid or already the current level.
+     */
+    jumpTo: (targetIndex: number): UndoLevel => {
+      return Rtc.jumpTo(editor, undoManager, locks, index, targetIndex);
     }
   };
 
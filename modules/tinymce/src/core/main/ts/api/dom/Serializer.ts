@@ -112,7 +112,15 @@ const DomSerializer = (settings: DomSerializerSettings, editor?: Editor): DomSer
 
     getNodeFilters: domSerializer.getNodeFilters,
 
-    getAttributeFilters: domSerializer.getAttributeFilters
+    getAttributeFilters: domSerializer.getAttributeFilters,
+
+    /**
+     * Returns what the sanitization policy removed from the content in the last call to serialize.
+     *
+     * @method getSanitizationReport
+     * @return {Object} Report with the parsing context and a list of the removed elements, attributes and styles.
+     */
+    getSanitizationReport: domSerializer.getSanitizationReport
   };
 };
 
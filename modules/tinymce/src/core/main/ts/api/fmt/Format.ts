@@ -5,6 +5,7 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
+import { FormatMatchState, FormatState } from '../../fmt/FormatState';
 import {
   ApplyFormat, BlockFormat, Format, Formats, InlineFormat, RemoveBlockFormat, RemoveFormat, RemoveInlineFormat, RemoveSelectorFormat, SelectorFormat
 } from '../../fmt/FormatTypes';
@@ -19,5 +20,7 @@ export {
   RemoveFormat,
   RemoveBlockFormat,
   RemoveInlineFormat,
-  RemoveSelectorFormat
+  RemoveSelectorFormat,
+  FormatState,
+  FormatMatchState
 };
@@ -0,0 +1,172 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Type } from '@ephox/katamari';
+import { SugarElement } from '@ephox/sugar';
+
+import { trimEmptyContents } from '../../content/GetContentImpl';
+import { isWsPreserveElement } from '../../dom/ElementType';
+import * as ContentFilters from '../../html/ContentFilters';
+import * as NonEditableFilter from '../../html/NonEditableFilter';
+import * as ConvertUrl from '../../util/ConvertUrl';
+import DOMUtils from '../dom/DOMUtils';
+import DomSerializer, { DomSerializerSettings } from '../dom/Serializer';
+import * as Options from '../Options';
+import { URLConverterCallback } from '../OptionTypes';
+import Tools from '../util/Tools';
+import URI from '../util/URI';
+import DomParser from './DomParser';
+import Schema from './Schema';
+import HtmlSerializer from './Serializer';
+
+export interface ContentPipelineSettings extends DomSerializerSettings {
+  convert_urls?: boolean;
+  document_base_url?: string;
+  editable_class?: string;
+  noneditable_class?: string;
+  noneditable_regexp?: RegExp | RegExp[];
+  protect?: RegExp[];
+  relative_urls?: boolean;
+  remove_script_host?: boolean;
+  urlconverter_callback?: URLConverterCallback;
+}
+
+interface ContentPipeline {
+  schema: Schema;
+  parser: DomParser;
+  serializer: DomSerializer;
+  process: (html: string) => string;
+}
+
+/**
+ * This class normalizes HTML the same way as setting it as the content of an editor configured with the same
+ * options and getting the content back, without creating an editor. It only needs a DOM document, so it can be
+ * used in a Node process with jsdom to make sure content stored by a server is identical to the editor output.
+ *
+ * @example
+ * var pipeline = tinymce.html.ContentPipeline({ valid_elements: 'p,a[href],strong/b', relative_urls: false });
+ * var html = pipeline.process('text <b>bold</b>');
+ *
+ * @class tinymce.html.ContentPipeline
+ */
+
+// The editor option defaults, for the settings with a different default in the parser, serializer and writer
+const defaultSettings: ContentPipelineSettings = {
+  convert_fonts_to_spans: true,
+  convert_urls: true,
+  editable_class: 'mceEditable',
+  entity_encoding: 'named',
+  forced_root_block: 'p',
+  indent: true,
+  indent_after: Options.defaultIndentElements,
+  indent_before: Options.defaultIndentElements,
+  inline_styles: true,
+  noneditable_class: 'mceNonEditable',
+  relative_urls: true,
+  remove_script_host: true,
+  validate: true
+};
+
+const getForcedRootBlock = (settings: ContentPipelineSettings): string => {
+  const forcedRootBlock = settings.forced_root_block;
+  if (forcedRootBlock === true) {
+    return 'p';
+  } else {
+    return Type.isString(forcedRootBlock) ? forcedRootBlock : '';
+  }
+};
+
+const getNonEditableRegExps = (settings: ContentPipelineSettings): RegExp[] => {
+  const regExps = settings.noneditable_regexp;
+  if (Type.isArray(regExps)) {
+    return regExps;
+  } else {
+    return Type.isNullable(regExps) ? [] : [ regExps ];
+  }
+};
+
+const ContentPipeline = (settings: ContentPipelineSettings = {}): ContentPipeline => {
+  const pipelineSettings: ContentPipelineSettings = { ...defaultSettings, ...settings };
+  const doc = pipelineSettings.document || window.document;
+  const forcedRootBlock = getForcedRootBlock(pipelineSettings);
+  const documentBaseURI = new URI(pipelineSettings.document_base_url || URI.getDocumentBaseUrl(doc.location));
+
+  const convertURL = (url: string, name: string, elm?: string | HTMLElement): string => ConvertUrl.convertUrl({
+    convert_urls: pipelineSettings.convert_urls,
+    relative_urls: pipelineSettings.relative_urls,
+    remove_script_host: pipelineSettings.remove_script_host,
+    urlconverter_callback: pipelineSettings.urlconverter_callback
+  }, documentBaseURI, pipelineSettings, url, name, elm);
+
+  // The parser and the serializer share the schema, like the editor parser and serializer do
+  const serializer = DomSerializer({ url_converter: convertURL, ...pipelineSettings, forced_root_block: forcedRootBlock });
+  const schema = serializer.schema;
+  const parser = DomParser({ ...pipelineSettings, forced_root_block: forcedRootBlock }, schema);
+
+  const dom = DOMUtils(doc, {
+    schema,
+    url_converter: convertURL,
+    url_converter_scope: pipelineSettings
+  });
+
+  const nonEditableSettings: NonEditableFilter.NonEditableFilterSettings = {
+    editableClass: pipelineSettings.editable_class,
+    nonEditableClass: pipelineSettings.noneditable_class,
+    nonEditableRegExps: getNonEditableRegExps(pipelineSettings)
+  };
+
+  ContentFilters.register(parser, dom, {
+    convertURL,
+    preserveCdata: pipelineSettings.preserve_cdata === true
+  });
+  NonEditableFilter.register(parser, serializer, nonEditableSettings);
+
+  // Applies the BeforeSetContent filters and parses the content, which gives the html the editor puts in the body
+  const toEditorHtml = (html: string): string => {
+    const protectedHtml = Type.isArray(pipelineSettings.protect) ? ContentFilters.protect(pipelineSettings.protect, html) : html;
+    const content = NonEditableFilter.convertRegExpsToNonEditable(dom, nonEditableSettings, protectedHtml);
+    const rootNode = parser.parse(content, { isRootContent: true, insert: true, sanitize_context: 'setcontent' });
+    return HtmlSerializer({ validate: false }, schema).serialize(rootNode);
+  };
+
+  const createBody = (): HTMLElement => {
+    const contentDoc = doc.implementation.createHTMLDocument('');
+    const rootName = pipelineSettings.root_name;
+    return Type.isString(rootName) ? contentDoc.body.appendChild(contentDoc.createElement(rootName)) : contentDoc.body;
+  };
+
+  /**
+   * Normalizes the specified HTML the same way as setting it as the editor content and getting the content back.
+   *
+   * @method process
+   * @param {String} html HTML string to normalize.
+   * @return {String} Normalized HTML string.
+   */
+  const process = (html: string): string => {
+    // Empty content is padded with a bogus block in the editor, which is removed again when getting the content
+    if (html.length === 0 || /^\s+$/.test(html)) {
+      return '';
+    }
+
+    const body = createBody();
+    const isWsPreserve = isWsPreserveElement(SugarElement.fromDom(body));
+    const editorHtml = toEditorHtml(html);
+    body.innerHTML = isWsPreserve ? editorHtml : Tools.trim(editorHtml);
+
+    const content = trimEmptyContents(forcedRootBlock, serializer.serialize(body, { format: 'html', get: true, getInner: true }));
+    return isWsPreserve ? content : Tools.trim(content);
+  };
+
+  return {
+    schema,
+    parser,
+    serializer,
+    process
+  };
+};
+
+export default ContentPipeline;
@@ -5,16 +5,20 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Obj } from '@ephox/katamari';
+import { Arr, Obj, Type } from '@ephox/katamari';
 
 import * as LegacyFilter from '../../html/LegacyFilter';
 import * as ParserFilters from '../../html/ParserFilters';
-import { hasOnlyChild, isEmpty, isLineBreakNode, isPaddedWithNbsp, paddEmptyNode } from '../../html/ParserUtils';
+import { getPath, hasOnlyChild, isEmpty, isLineBreakNode, isPaddedWithNbsp, paddEmptyNode } from '../../html/ParserUtils';
+import * as Sanitization from '../../html/Sanitization';
 import { BlobCache } from '../file/BlobCache';
 import Tools from '../util/Tools';
 import AstNode from './Node';
-import SaxParser, { ParserFormat } from './SaxParser';
+import SaxParser, { ParserFormat, SaxParserFilteredReason } from './SaxParser';
 import Schema, { SchemaElement, SchemaMap } from './Schema';
+import Styles from './Styles';
+
+export { SanitizationPolicy, SanitizationReport, SanitizationReportItem, SanitizationRules } from '../../html/Sanitization';
 
 /**
  * This class parses HTML code into a DOM like structure of nodes it will remove redundant whitespace and make
@@ -39,11 +43,29 @@ export interface ParserArgs {
   format?: string;
   invalid?: boolean;
   no_events?: boolean;
+  sanitize_context?: string;
+  filtered?: FilteredContentItem[];
 
   // TODO finish typing the parser args
   [key: string]: any;
 }
 
+export type FilteredContentReason = SaxParserFilteredReason | Sanitization.SanitizationReason | 'invalid-child' | 'invalid-style';
+
+export interface FilteredContentItem {
+  readonly type: 'element' | 'attribute' | 'style';
+  readonly name: string;
+  readonly value?: string;
+  // The names of the elements the item was removed from, starting from the top most element
+  readonly path: string[];
+  readonly reason: FilteredContentReason;
+}
+
+export interface ValidationResult {
+  readonly valid: boolean;
+  readonly items: FilteredContentItem[];
+}
+
 export type ParserFilterCallback = (nodes: AstNode[], name: string, args: ParserArgs) => void;
 
 export interface ParserFilter {
@@ -69,6 +91,7 @@ export interface DomParserSettings {
   root_name?: string;
   validate?: boolean;
   inline_styles?: boolean;
+  sanitization_policy?: Sanitization.SanitizationPolicy;
   blob_cache?: BlobCache;
   document?: Document;
 }
@@ -81,6 +104,8 @@ interface DomParser {
   getNodeFilters: () => ParserFilter[];
   filterNode: (node: AstNode) => AstNode;
   parse: (html: string, args?: ParserArgs) => AstNode;
+  getSanitizationReport: () => Sanitization.SanitizationReport;
+  validate: (html: string, args?: ParserArgs) => ValidationResult;
 }
 
 const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser => {
@@ -88,12 +113,13 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
   const attributeFilters: ParserFilter[] = [];
   let matchedNodes: Record<string, AstNode[]> = {};
   let matchedAttributes: Record<string, AstNode[]> = {};
+  let sanitizationReport: Sanitization.SanitizationReport = { items: [] };
 
   settings = settings || {};
   settings.validate = 'validate' in settings ? settings.validate : true;
   settings.root_name = settings.root_name || 'body';
 
-  const fixInvalidChildren = (nodes: AstNode[]) => {
+  const fixInvalidChildren = (nodes: AstNode[], filtered: FilteredContentItem[]) => {
     const nonSplitableElements = makeMap('tr,td,th,tbody,thead,tfoot,table');
     const nonEmptyElements = schema.getNonEmptyElements();
     const whitespaceElements = schema.getWhiteSpaceElements();
@@ -101,6 +127,8 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
     const specialElements = schema.getSpecialElements();
 
     const removeOrUnwrapInvalidNode = (node: AstNode, originalNodeParent: AstNode = node.parent): void => {
+      filtered.push({ type: 'element', name: node.name, path: getPath(node.parent), reason: 'invalid-child' });
+
       if (specialElements[node.name]) {
         node.empty().remove();
       } else {
@@ -362,6 +390,9 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
     };
 
     args = args || {};
+    // Collect the filtered content into the array passed in, so that the content filtered by multiple parse calls can be combined
+    const filtered = Type.isArray(args.filtered) ? args.filtered : [];
+    args.filtered = filtered;
     matchedNodes = {};
     matchedAttributes = {};
     const blockElements = extend(makeMap('script,style,head,html,body,title,meta,param'), schema.getBlockElements());
@@ -502,6 +533,14 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
       // Exclude P and LI from DOM parsing since it's treated better by the DOM parser
       self_closing_elements: cloneAndExcludeBlocks(schema.getSelfClosingElements()),
 
+      filtered: (item) => {
+        const path = item.type === 'attribute' ? getPath(node).concat([ item.element ]) : getPath(node);
+        filtered.push(Type.isUndefined(item.value) ?
+          { type: item.type, name: item.name, path, reason: item.reason } :
+          { type: item.type, name: item.name, value: item.value, path, reason: item.reason }
+        );
+      },
+
       cdata: (text) => {
         node.append(createNode('#cdata', 4)).value = text;
       },
@@ -702,12 +741,19 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
     // Fix invalid children or report invalid children in a contextual parsing
     if (validate && invalidChildren.length) {
       if (!args.context) {
-        fixInvalidChildren(invalidChildren);
+        fixInvalidChildren(invalidChildren, filtered);
       } else {
         args.invalid = true;
       }
     }
 
+    // Apply the sanitization policy before the root blocks are added, so unwrapped text is wrapped in blocks
+    // and the filters only see the allowed content
+    sanitizationReport = settings.sanitization_policy ?
+      Sanitization.sanitize(schema, rootNode, settings.sanitization_policy, args.sanitize_context) :
+      { context: args.sanitize_context, items: [] };
+    Arr.each(sanitizationReport.items, (item) => filtered.push(item));
+
     // Wrap nodes in the root into block elements if the root is body
     if (rootBlockName && (rootNode.name === 'body' || args.isRootContent)) {
       addRootBlocks();
@@ -761,6 +807,56 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
     return rootNode;
   };
 
+  /**
+   * Returns what the sanitization policy removed from the content in the last call to parse.
+   *
+   * @method getSanitizationReport
+   * @return {Object} Report with the parsing context and a list of the removed elements, attributes and styles.
+   */
+  const getSanitizationReport = (): Sanitization.SanitizationReport => sanitizationReport;
+
+  const findInvalidStyles = (root: AstNode): FilteredContentItem[] => {
+    const styles = Styles({}, schema);
+    const items: FilteredContentItem[] = [];
+
+    for (let node = root.firstChild; node; node = node.walk()) {
+      const style = node.type === 1 ? node.attr('style') : undefined;
+      if (Type.isString(style)) {
+        const props = styles.parse(style);
+        const validProps = styles.parse(styles.serialize(props, node.name));
+        Obj.each(props, (value, prop) => {
+          if (!Obj.has(validProps, prop)) {
+            items.push({ type: 'style', name: prop, value, path: getPath(node), reason: 'invalid-style' });
+          }
+        });
+      }
+    }
+
+    return items;
+  };
+
+  /**
+   * Validates the specified HTML string against the schema and the sanitization policy. Returns the elements, attributes
+   * and styles that would be removed when parsing it, without changing the HTML string or the last sanitization report.
+   *
+   * @example
+   * var result = new tinymce.html.DomParser({}, schema).validate('<p onclick="alert(1)">text</p>');
+   * @method validate
+   * @param {String} html Html string to validate.
+   * @param {Object} args Optional args object that gets passed to all filter functions.
+   * @return {Object} Result with the valid state and a list of the violations.
+   */
+  const validate = (html: string, args?: ParserArgs): ValidationResult => {
+    const lastSanitizationReport = sanitizationReport;
+    const filtered: FilteredContentItem[] = [];
+    const root = parse(html, { ...args, filtered });
+    sanitizationReport = lastSanitizationReport;
+
+    // Styles are only normalized by the editor parser filters, so any remaining styles are checked against the schema here
+    const items = filtered.concat(findInvalidStyles(root));
+    return { valid: items.length === 0, items };
+  };
+
   const exports = {
     schema,
     addAttributeFilter,
@@ -768,7 +864,9 @@ const DomParser = (settings?: DomParserSettings, schema = Schema()): DomParser =
     addNodeFilter,
     getNodeFilters,
     filterNode,
-    parse
+    parse,
+    getSanitizationReport,
+    validate
   };
 
   ParserFilters.register(exports, settings);
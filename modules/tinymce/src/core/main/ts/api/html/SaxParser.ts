@@ -56,6 +56,16 @@ import Schema from './Schema';
 
 type AttrList = Array<{ name: string; value: string }> & { map: Record<string, string> };
 
+export type SaxParserFilteredReason = 'invalid-element' | 'missing-required-attribute' | 'invalid-attribute' | 'unsafe-url' | 'dom-clobbering';
+
+export interface SaxParserFilteredItem {
+  readonly type: 'element' | 'attribute';
+  readonly element: string;
+  readonly name: string;
+  readonly value?: string;
+  readonly reason: SaxParserFilteredReason;
+}
+
 export interface SaxParserSettings {
   allow_conditional_comments?: boolean;
   allow_html_data_urls?: boolean;
@@ -72,6 +82,7 @@ export interface SaxParserSettings {
   comment?: (text: string) => void;
   doctype?: (text: string) => void;
   end?: (name: string) => void;
+  filtered?: (item: SaxParserFilteredItem) => void;
   pi?: (name: string, text: string) => void;
   start?: (name: string, attrs: AttrList, empty: boolean) => void;
   text?: (text: string, raw?: boolean) => void;
@@ -225,6 +236,7 @@ const SaxParser = (settings?: SaxParserSettings, schema = Schema()): SaxParser =
   const end = settings.end ? settings.end : Fun.noop;
   const pi = settings.pi ? settings.pi : Fun.noop;
   const doctype = settings.doctype ? settings.doctype : Fun.noop;
+  const filtered = settings.filtered ? settings.filtered : Fun.noop;
 
   const parseInternal = (base64Extract: Base64Extract, format: ParserFormat = 'html') => {
     const html = base64Extract.html;
@@ -325,13 +337,9 @@ const SaxParser = (settings?: SaxParserSettings, schema = Schema()): SaxParser =
           }
         }
 
-        // No attribute rule found
-        if (!attrRule) {
-          return;
-        }
-
-        // Validate value
-        if (attrRule.validValues && !(value in attrRule.validValues)) {
+        // No attribute rule found or the value isn't valid
+        if (!attrRule || (attrRule.validValues && !(value in attrRule.validValues))) {
+          filtered({ type: 'attribute', element: tagName, name, value, reason: 'invalid-attribute' });
           return;
         }
       }
@@ -340,11 +348,13 @@ const SaxParser = (settings?: SaxParserSettings, schema = Schema()): SaxParser =
       // See https://www.slideshare.net/x00mario/in-the-dom-no-one-will-hear-you-scream
       const isNameOrId = name === 'name' || name === 'id';
       if (isNameOrId && tagName in filteredClobberElements && (value in doc || value in form)) {
+        filtered({ type: 'attribute', element: tagName, name, value, reason: 'dom-clobbering' });
         return;
       }
 
       // Block any javascript: urls or non image data uris
       if (filteredUrlAttrs[name] && !URI.isDomSafe(value, tagName, settings)) {
+        filtered({ type: 'attribute', element: tagName, name, value, reason: 'unsafe-url' });
         return;
       }
 
@@ -528,6 +538,10 @@ const SaxParser = (settings?: SaxParserSettings, schema = Schema()): SaxParser =
               // None of the required attributes where found
               if (i === -1) {
                 isValidElement = false;
+
+                if (!('data-mce-bogus' in attrList.map)) {
+                  filtered({ type: 'element', element: value, name: value, reason: 'missing-required-attribute' });
+                }
               }
             }
 
@@ -548,6 +562,10 @@ const SaxParser = (settings?: SaxParserSettings, schema = Schema()): SaxParser =
           }
         } else {
           isValidElement = false;
+
+          if (bogusValue === null) {
+            filtered({ type: 'element', element: value, name: value, reason: 'invalid-element' });
+          }
         }
 
         // Treat script, noscript and style a bit different since they may include code that looks like elements
@@ -5,14 +5,27 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Fun, Obj } from '@ephox/katamari';
+import { Arr, Fun, Obj, Type } from '@ephox/katamari';
 
 import Tools from '../util/Tools';
 
 export type SchemaType = 'html4' | 'html5' | 'html5-strict';
 
+export interface CustomElementSpec {
+  // Defaults to 'block', 'void' elements can't have any content
+  readonly type?: 'block' | 'inline' | 'void';
+  // Valid child element names, '#text' allows text content. Defaults to the children of a div or span
+  readonly children?: string[];
+  // Valid attribute names or wildcard patterns like 'data-*'. Defaults to the attributes of a div or span
+  readonly attributes?: string[];
+  // Attributes and values added to the element when the attribute is missing
+  readonly default_attributes?: Record<string, string>;
+}
+
+export type CustomElementsSettings = string | Record<string, CustomElementSpec>;
+
 export interface SchemaSettings {
-  custom_elements?: string;
+  custom_elements?: CustomElementsSettings;
   extended_valid_elements?: string;
   invalid_elements?: string;
   invalid_styles?: string | Record<string, string>;
@@ -62,6 +75,29 @@ export interface SchemaElement extends ElementRule {
   pattern?: RegExp;
 }
 
+export interface SchemaJsonElement {
+  readonly block: boolean;
+  readonly void: boolean;
+  readonly attributes: string[];
+  // Attribute name patterns as regular expression sources
+  readonly attributePatterns: string[];
+  readonly attributeValues: Record<string, string[]>;
+  readonly requiredAttributes: string[];
+  readonly defaultAttributes: Record<string, string>;
+  readonly forcedAttributes: Record<string, string>;
+  readonly children: string[];
+  readonly parentsRequired: string[];
+}
+
+export interface SchemaJson {
+  readonly elements: Record<string, SchemaJsonElement>;
+  // Rules for element names matching a pattern, by regular expression source
+  readonly elementPatterns: Record<string, SchemaJsonElement>;
+  readonly validStyles: Record<string, string[]> | null;
+  readonly invalidStyles: Record<string, string[]> | null;
+  readonly validClasses: Record<string, string[]> | null;
+}
+
 export interface SchemaMap { [name: string]: {} }
 export interface SchemaRegExpMap { [name: string]: RegExp }
 
@@ -87,8 +123,9 @@ interface Schema {
   getCustomElements: () => SchemaMap;
   addValidElements: (validElements: string) => void;
   setValidElements: (validElements: string) => void;
-  addCustomElements: (customElements: string) => void;
+  addCustomElements: (customElements: CustomElementsSettings) => void;
   addValidChildren: (validChildren: any) => void;
+  toJSON: () => SchemaJson;
 }
 
 /**
@@ -650,11 +687,87 @@ const Schema = (settings?: SchemaSettings): Schema => {
     });
   };
 
+  // Adds a custom element to the valid children of all the elements that accept the element it's modelled on
+  const addCustomElementToParents = (name: string, cloneName: string) => {
+    each(children, (element, elmName) => {
+      if (element[cloneName]) {
+        children[elmName] = element = extend({}, children[elmName]);
+        element[name] = element[cloneName];
+      }
+    });
+  };
+
+  const createCustomElementRule = (spec: CustomElementSpec, cloneName: string): SchemaElement => {
+    const cloneRule = elements[cloneName] || { attributes: {}, attributesOrder: [] };
+    const attributes: Record<string, Attribute> = {};
+    const attributesOrder: string[] = [];
+    const attributePatterns: AttributePattern[] = [];
+
+    if (Type.isArray(spec.attributes)) {
+      each(spec.attributes, (attrName) => {
+        if (/[*?+]/.test(attrName)) {
+          attributePatterns.push({ pattern: patternToRegExp(attrName) });
+        } else {
+          attributes[attrName] = {};
+          attributesOrder.push(attrName);
+        }
+      });
+    } else {
+      extend(attributes, cloneRule.attributes);
+      attributesOrder.push(...cloneRule.attributesOrder);
+      attributePatterns.push(...(cloneRule.attributePatterns || []));
+    }
+
+    const attributesDefault = Arr.map(Obj.keys(spec.default_attributes || {}), (attrName): DefaultAttribute => {
+      const value = spec.default_attributes[attrName];
+      if (!attributes[attrName]) {
+        attributesOrder.push(attrName);
+      }
+      attributes[attrName] = { ...attributes[attrName], defaultValue: value };
+      return { name: attrName, value };
+    });
+
+    return {
+      attributes,
+      attributesOrder,
+      ...attributePatterns.length > 0 ? { attributePatterns } : {},
+      ...attributesDefault.length > 0 ? { attributesDefault } : {}
+    };
+  };
+
+  const addCustomElementSpec = (name: string, spec: CustomElementSpec) => {
+    const type = spec.type || 'block';
+    const cloneName = type === 'block' ? 'div' : 'span';
+    const addToMap = (map: SchemaMap) => {
+      map[name] = map[name.toUpperCase()] = {};
+    };
+
+    customElementsMap[name] = cloneName;
+
+    if (type === 'block') {
+      addToMap(blockElementsMap);
+    } else if (type === 'void') {
+      // Void elements have no content but are still content themselves, like an img
+      Arr.each([ shortEndedElementsMap, nonEmptyElementsMap, moveCaretBeforeOnEnterElementsMap ], addToMap);
+    }
+
+    if (type === 'void') {
+      children[name] = {};
+    } else if (Type.isArray(spec.children)) {
+      children[name] = extend(makeMap(spec.children), { '#comment': {}});
+    } else {
+      children[name] = children[cloneName];
+    }
+
+    elements[name] = createCustomElementRule(spec, cloneName);
+    addCustomElementToParents(name, cloneName);
+  };
+
   // Adds custom non HTML elements to the schema
-  const addCustomElements = (customElements: string) => {
+  const addCustomElements = (customElements: CustomElementsSettings) => {
     const customElementRegExp = /^(~)?(.+)$/;
 
-    if (customElements) {
+    if (Type.isString(customElements) && customElements.length > 0) {
       // Flush cached items since we are altering the default maps
       mapCache.text_block_elements = mapCache.block_elements = null;
 
@@ -685,13 +798,13 @@ const Schema = (settings?: SchemaSettings): Schema => {
         }
 
         // Add custom elements at span/div positions
-        each(children, (element, elmName) => {
-          if (element[cloneName]) {
-            children[elmName] = element = extend({}, children[elmName]);
-            element[name] = element[cloneName];
-          }
-        });
+        addCustomElementToParents(name, cloneName);
       });
+    } else if (Type.isObject(customElements) && !Type.isString(customElements)) {
+      // Flush cached items since we are altering the default maps
+      mapCache.block_elements = mapCache.short_ended_elements = mapCache.non_empty_elements = mapCache.move_caret_before_on_enter_elements = null;
+
+      Obj.each(customElements, (spec, name) => addCustomElementSpec(name, spec));
     }
   };
 
@@ -1033,6 +1146,42 @@ const Schema = (settings?: SchemaSettings): Schema => {
    */
   const getCustomElements = Fun.constant(customElementsMap);
 
+  // Only the lower case keys are exported since the maps also contain upper case versions of the keys
+  const exportElementMap = <T>(map: Record<string, T> | undefined, f: (value: T) => string[]): Record<string, string[]> | null =>
+    Type.isNullable(map) ? null : Obj.map(Obj.filter(map, (_, key) => key === key.toLowerCase()), f);
+
+  const toAttributesMap = (attributes: DefaultAttribute[] | undefined): Record<string, string> =>
+    Arr.foldl(attributes || [], (acc, attr) => ({ ...acc, [attr.name]: attr.value }), {});
+
+  const exportElement = (name: string | null, rule: SchemaElement): SchemaJsonElement => ({
+    block: name !== null && Obj.has(blockElementsMap, name),
+    void: name !== null && Obj.has(shortEndedElementsMap, name),
+    attributes: [ ...rule.attributesOrder ],
+    attributePatterns: Arr.map(rule.attributePatterns || [], (attr) => attr.pattern.source),
+    attributeValues: Obj.map(Obj.filter(rule.attributes, (attr) => Type.isObject(attr.validValues)), (attr) => Obj.keys(attr.validValues)),
+    requiredAttributes: [ ...rule.attributesRequired || [] ],
+    defaultAttributes: toAttributesMap(rule.attributesDefault),
+    forcedAttributes: toAttributesMap(rule.attributesForced),
+    children: name !== null ? Obj.keys(children[name] || {}) : [],
+    parentsRequired: [ ...rule.parentsRequired || [] ]
+  });
+
+  /**
+   * Returns a machine readable description of the effective schema, with the valid elements, their attributes and
+   * children and the valid and invalid styles and classes. The result can be serialized to JSON to validate content
+   * with the same rules outside of the editor.
+   *
+   * @method toJSON
+   * @return {Object} Description of the schema.
+   */
+  const toJSON = (): SchemaJson => ({
+    elements: Obj.map(Obj.filter(elements, (_, name) => name !== '@'), (rule, name) => exportElement(name, rule)),
+    elementPatterns: Arr.foldl(patternElements, (acc, rule: SchemaElement) => ({ ...acc, [rule.pattern.source]: exportElement(null, rule) }), {}),
+    validStyles: exportElementMap(validStyles, (styles: string[]) => [ ...styles ]),
+    invalidStyles: exportElementMap(invalidStyles, Obj.keys),
+    validClasses: exportElementMap(validClasses, Obj.keys)
+  });
+
   /**
    * Parses a valid elements string and adds it to the schema. The valid elements
    * format is for example <code>element[attr=default|otherattr]</code>.
@@ -1055,7 +1204,7 @@ const Schema = (settings?: SchemaSettings): Schema => {
    * Adds custom non-HTML elements to the schema.
    *
    * @method addCustomElements
-   * @param {String} custom_elements Comma separated list of custom elements to add.
+   * @param {String/Object} custom_elements Comma separated list of custom elements to add or an object with custom element specs by name.
    */
 
   /**
@@ -1089,7 +1238,8 @@ const Schema = (settings?: SchemaSettings): Schema => {
     addValidElements,
     setValidElements,
     addCustomElements,
-    addValidChildren
+    addValidChildren,
+    toJSON
   };
 };
 
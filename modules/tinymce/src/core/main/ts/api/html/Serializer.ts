@@ -5,6 +5,8 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
+import { Obj } from '@ephox/katamari';
+
 import AstNode, { Attributes } from './Node';
 import Schema from './Schema';
 import Writer, { WriterSettings } from './Writer';
@@ -89,7 +91,8 @@ const HtmlSerializer = (settings?: HtmlSerializerSettings, schema = Schema()): H
 
       if (!handler) {
         const name = node.name;
-        const isEmpty = node.shortEnded;
+        // Custom elements can't be self-closing in HTML, so void custom elements are written with an end tag instead
+        const isEmpty = node.shortEnded && !Obj.has(schema.getCustomElements(), name);
         let attrs = node.attributes;
 
         // Sort attributes
@@ -126,7 +129,7 @@ const HtmlSerializer = (settings?: HtmlSerializerSettings, schema = Schema()): H
         writer.start(node.name, attrs, isEmpty);
 
         if (!isEmpty) {
-          if ((node = node.firstChild)) {
+          if (!node.shortEnded && (node = node.firstChild)) {
             do {
               walk(node);
             } while ((node = node.next));
@@ -5,6 +5,8 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
+import { Arr, Strings, Type } from '@ephox/katamari';
+
 import { EntityEncoding } from '../OptionTypes';
 import Tools from '../util/Tools';
 import Entities from './Entities';
@@ -31,6 +33,11 @@ export interface WriterSettings {
   indent?: boolean;
   indent_after?: string;
   indent_before?: string;
+  pretty_print?: boolean;
+  pretty_print_indent_size?: number;
+  pretty_print_max_width?: number;
+  pretty_print_preserve?: string;
+  pretty_print_wrap_attributes?: boolean;
 }
 
 type Attributes = Array<{ name: string; value: string }>;
@@ -47,6 +54,204 @@ interface Writer {
   text: (text: string, raw?: boolean) => void;
 }
 
+type EncodeFunc = (text: string, attr?: boolean) => string;
+
+/*
+ * Writes the elements listed in indent_before or indent_after as blocks, each starting on a new line indented by
+ * its depth, and wraps the inline content of lines that are longer than the max width. The content of preserved
+ * elements such as pre and textarea is written as is since its whitespace is significant.
+ */
+const PrettyWriter = (settings: WriterSettings, encode: EncodeFunc): Writer => {
+  const lines: string[] = [];
+  const indentSize = Type.isNumber(settings.pretty_print_indent_size) ? settings.pretty_print_indent_size : 2;
+  const maxWidth = Type.isNumber(settings.pretty_print_max_width) ? settings.pretty_print_max_width : 80;
+  const wrapAttributes = settings.pretty_print_wrap_attributes !== false;
+  const blockElements = makeMap((settings.indent_before || '') + ',' + (settings.indent_after || ''));
+  const preserveElements = makeMap(Type.isString(settings.pretty_print_preserve) ? settings.pretty_print_preserve : 'pre,textarea');
+  const htmlOutput = settings.element_format === 'html';
+
+  // The current line, its indentation depth and the block element that started it
+  let line = '';
+  let lineDepth = 0;
+  let lineOwner: string | null = null;
+  let afterBlockStart = false;
+  let depth = 0;
+  let preserved = 0;
+
+  const getIndent = (level: number) => Strings.repeat(' ', level * indentSize);
+
+  const getWidth = (): number => {
+    const index = line.lastIndexOf('\n');
+    return index === -1 ? getIndent(lineDepth).length + line.length : line.length - index - 1;
+  };
+
+  const canWrap = () => maxWidth > 0 && preserved === 0;
+
+  const trimLineEnd = () => {
+    if (preserved === 0) {
+      line = line.replace(/ +$/, '');
+    }
+  };
+
+  const append = (value: string) => {
+    if (line.length === 0) {
+      lineDepth = depth;
+    }
+    line += value;
+    afterBlockStart = false;
+  };
+
+  // Moves the rest of the content of the current block to a new line
+  const breakLine = () => {
+    trimLineEnd();
+    lines.push(getIndent(lineDepth) + line);
+    line = '';
+  };
+
+  const flush = () => {
+    trimLineEnd();
+    if (line.length > 0) {
+      lines.push(getIndent(lineDepth) + line);
+    }
+    line = '';
+    lineOwner = null;
+  };
+
+  const isBlock = (name: string) => blockElements[name] && preserved === 0;
+
+  const formatStartTag = (name: string, attrs: Attributes, close: string): string => {
+    const values = Arr.map(attrs, (attr) => attr.name + '="' + encode(attr.value, true) + '"');
+    const tag = '<' + name + Arr.map(values, (value) => ' ' + value).join('') + close;
+
+    // Each attribute is written on its own line when the tag doesn't fit on the current line
+    if (wrapAttributes && canWrap() && values.length > 0 && getWidth() + tag.length > maxWidth) {
+      const attrIndent = getIndent((line.length === 0 ? depth : lineDepth) + 1);
+      return '<' + name + Arr.map(values, (value) => '\n' + attrIndent + value).join('') + close;
+    } else {
+      return tag;
+    }
+  };
+
+  return {
+    start: (name: string, attrs?: Attributes, empty?: boolean) => {
+      const block = isBlock(name);
+      const close = !empty || htmlOutput ? '>' : ' />';
+
+      if (block) {
+        flush();
+      } else if (canWrap() && / $/.test(line)) {
+        // Inline elements are moved to the next line at the preceding space when they don't fit
+        const tagLength = ('<' + name + close).length;
+        if (getWidth() + tagLength > maxWidth) {
+          breakLine();
+        }
+      }
+
+      append(formatStartTag(name, attrs || [], close));
+
+      if (block) {
+        if (empty) {
+          flush();
+        } else {
+          lineOwner = name;
+          afterBlockStart = true;
+          depth++;
+        }
+      }
+
+      if (!empty && preserveElements[name]) {
+        preserved++;
+      }
+    },
+
+    end: (name: string) => {
+      const wasPreserved = preserved > 0;
+      if (preserveElements[name] && wasPreserved) {
+        preserved--;
+      }
+
+      if (isBlock(name)) {
+        depth = Math.max(0, depth - 1);
+
+        // Blocks with only inline content are closed on the same line
+        if (lineOwner === name) {
+          if (!wasPreserved) {
+            trimLineEnd();
+          }
+          append('</' + name + '>');
+        } else {
+          flush();
+          append('</' + name + '>');
+        }
+        flush();
+      } else {
+        append('</' + name + '>');
+      }
+    },
+
+    text: (text: string, raw?: boolean) => {
+      if (raw || preserved > 0) {
+        if (text.length > 0) {
+          append(raw ? text : encode(text));
+        }
+        return;
+      }
+
+      let value = encode(text).replace(/[ \t\r\n]+/g, ' ');
+      if (line.length === 0 || afterBlockStart) {
+        value = value.replace(/^ /, '');
+      }
+
+      Arr.each(value.split(' '), (word, i) => {
+        if (i > 0) {
+          if (canWrap() && line.length > 0 && getWidth() + 1 + word.length > maxWidth) {
+            breakLine();
+          } else {
+            append(' ');
+          }
+        }
+
+        if (word.length > 0) {
+          append(word);
+        }
+      });
+    },
+
+    cdata: (text: string) => {
+      append('<![CDATA[' + text + ']]>');
+    },
+
+    comment: (text: string) => {
+      append('<!--' + text + '-->');
+    },
+
+    pi: (name: string, text?: string) => {
+      append(text ? '<?' + name + ' ' + encode(text) + '?>' : '<?' + name + '?>');
+      flush();
+    },
+
+    doctype: (text: string) => {
+      flush();
+      append('<!DOCTYPE' + text + '>');
+      flush();
+    },
+
+    reset: () => {
+      lines.length = 0;
+      line = '';
+      lineOwner = null;
+      afterBlockStart = false;
+      depth = 0;
+      preserved = 0;
+    },
+
+    getContent: (): string => {
+      const current = line.replace(/ +$/, '');
+      return (current.length > 0 ? lines.concat([ getIndent(lineDepth) + current ]) : lines).join('\n');
+    }
+  };
+};
+
 const Writer = (settings?: WriterSettings): Writer => {
   const html = [];
 
@@ -57,6 +262,10 @@ const Writer = (settings?: WriterSettings): Writer => {
   const encode = Entities.getEncodeFunc(settings.entity_encoding || 'raw', settings.entities);
   const htmlOutput = settings.element_format === 'html';
 
+  if (settings.pretty_print) {
+    return PrettyWriter(settings, encode);
+  }
+
   return {
     /**
      * Writes the a start element such as <p id="a">.
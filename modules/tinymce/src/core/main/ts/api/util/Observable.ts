@@ -29,6 +29,8 @@ const getEventDispatcher = (obj): EventDispatcher<any> => {
       toggleEvent: (name, state) => {
         if (EventDispatcher.isNative(name) && obj.toggleNativeEvent) {
           obj.toggleNativeEvent(name, state);
+        } else if (!EventDispatcher.isNative(name) && obj.toggleCustomEvent) {
+          obj.toggleCustomEvent(name, state);
         }
       }
     });
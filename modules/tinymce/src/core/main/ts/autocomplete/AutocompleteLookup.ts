@@ -5,13 +5,15 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Optional } from '@ephox/katamari';
+import { InlineContent } from '@ephox/bridge';
+import { Arr, Optional, Type } from '@ephox/katamari';
 
 import * as Spot from '../alien/Spot';
 import * as TextDescent from '../alien/TextDescent';
 import * as TextSearch from '../alien/TextSearch';
 import DOMUtils from '../api/dom/DOMUtils';
 import Editor from '../api/Editor';
+import Delay from '../api/util/Delay';
 import { AutocompleteContext, getContext } from './AutocompleteContext';
 import { AutocompleterDatabase } from './Autocompleters';
 import { AutocompleteLookupData } from './AutocompleteTypes';
@@ -20,6 +22,12 @@ import { isWhitespace } from './AutocompleteUtils';
 export interface AutocompleteLookupInfo {
   context: AutocompleteContext;
   lookupData: Promise<AutocompleteLookupData[]>;
+  loadMore: (lookupData: AutocompleteLookupData[], signal: AbortSignal) => Promise<AutocompleteLookupData[]>;
+}
+
+interface FetchedItems {
+  readonly items: InlineContent.AutocompleterContents[];
+  readonly hasMore: boolean;
 }
 
 const isPreviousCharContent = (dom: DOMUtils, leaf: Spot.SpotPoint<Node>) =>
@@ -36,14 +44,45 @@ const isStartOfWord = (dom: DOMUtils) => (rng: Range) => {
 
 const getTriggerContext = (dom: DOMUtils, initRange: Range, database: AutocompleterDatabase): Optional<AutocompleteContext> => Arr.findMap(database.triggerChars, (ch) => getContext(dom, initRange, ch));
 
-const lookup = (editor: Editor, getDatabase: () => AutocompleterDatabase): Optional<AutocompleteLookupInfo> => {
+const noItems: FetchedItems = { items: [], hasMore: false };
+
+// Waits for the debounce time of the autocompleter and doesn't fetch anything if the lookup was aborted in the meantime
+const fetchItems = (
+  editor: Editor,
+  autocompleter: InlineContent.Autocompleter,
+  text: string,
+  fetchOptions: Record<string, any>,
+  fetchContext: InlineContent.AutocompleterFetchContext
+): Promise<FetchedItems> => {
+  const wait = autocompleter.debounce > 0 ?
+    new Promise<void>((resolve) => Delay.setEditorTimeout(editor, resolve, autocompleter.debounce)) :
+    Promise.resolve();
+
+  return wait.then(() => {
+    if (fetchContext.signal.aborted) {
+      return noItems;
+    } else {
+      return autocompleter.fetch(text, autocompleter.maxResults, fetchOptions, fetchContext).then((results) =>
+        Type.isArray(results) ? { items: results, hasMore: false } : { items: results.items, hasMore: results.hasMore === true }
+      );
+    }
+  });
+};
+
+const lookup = (editor: Editor, getDatabase: () => AutocompleterDatabase, signal: AbortSignal): Optional<AutocompleteLookupInfo> => {
   const database = getDatabase();
   const rng = editor.selection.getRng();
 
-  return getTriggerContext(editor.dom, rng, database).bind((context) => lookupWithContext(editor, getDatabase, context));
+  return getTriggerContext(editor.dom, rng, database).bind((context) => lookupWithContext(editor, getDatabase, context, {}, signal));
 };
 
-const lookupWithContext = (editor: Editor, getDatabase: () => AutocompleterDatabase, context: AutocompleteContext, fetchOptions: Record<string, any> = {}): Optional<AutocompleteLookupInfo> => {
+const lookupWithContext = (
+  editor: Editor,
+  getDatabase: () => AutocompleterDatabase,
+  context: AutocompleteContext,
+  fetchOptions: Record<string, any>,
+  signal: AbortSignal
+): Optional<AutocompleteLookupInfo> => {
   const database = getDatabase();
   const rng = editor.selection.getRng();
   const startText = rng.startContainer.nodeValue;
@@ -56,18 +95,36 @@ const lookupWithContext = (editor: Editor, getDatabase: () => AutocompleterDatab
 
   const lookupData = Promise.all(Arr.map(autocompleters, (ac) => {
     // TODO: Find a sensible way to do maxResults
-    const fetchResult = ac.fetch(context.text, ac.maxResults, fetchOptions);
-    return fetchResult.then((results) => ({
+    return fetchItems(editor, ac, context.text, fetchOptions, { signal, page: 0 }).then((fetched): AutocompleteLookupData => ({
       matchText: context.text,
-      items: results,
+      items: fetched.items,
       columns: ac.columns,
       onAction: ac.onAction,
-      highlightOn: ac.highlightOn
+      highlightOn: ac.highlightOn,
+      page: 0,
+      hasMore: fetched.hasMore
     }));
   }));
 
+  // Fetches the next page of the autocompleters that have more results and appends them to the loaded items
+  const loadMore = (currentData: AutocompleteLookupData[], loadSignal: AbortSignal): Promise<AutocompleteLookupData[]> =>
+    Promise.all(Arr.map(currentData, (data, i) => {
+      if (!data.hasMore) {
+        return Promise.resolve(data);
+      } else {
+        const page = data.page + 1;
+        return fetchItems(editor, autocompleters[i], context.text, fetchOptions, { signal: loadSignal, page }).then((fetched) => ({
+          ...data,
+          items: data.items.concat(fetched.items),
+          page,
+          hasMore: fetched.hasMore
+        }));
+      }
+    }));
+
   return Optional.some({
     lookupData,
+    loadMore,
     context
   });
 };
@@ -13,6 +13,9 @@ export interface AutocompleteLookupData {
   readonly columns: InlineContent.ColumnTypes;
   readonly onAction: (autoApi: InlineContent.AutocompleterInstanceApi, rng: Range, value: string, meta: Record<string, any>) => void;
   readonly highlightOn: string[];
+  // The page of the last loaded results and if the autocompleter has more results to load
+  readonly page: number;
+  readonly hasMore: boolean;
 }
 
 export interface AutocompleterEventArgs {
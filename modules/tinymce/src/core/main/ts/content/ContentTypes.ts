@@ -5,10 +5,11 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
+import { FilteredContentItem } from '../api/html/DomParser';
 import AstNode from '../api/html/Node';
 
 export type Content = string | AstNode;
-export type ContentFormat = 'raw' | 'text' | 'html' | 'tree';
+export type ContentFormat = 'raw' | 'text' | 'html' | 'tree' | 'markdown';
 
 export interface GetContentArgs {
   format: ContentFormat;
@@ -25,6 +26,13 @@ export interface SetContentArgs {
   content: string;
   no_events?: boolean;
   no_selection?: boolean;
+  report?: boolean;
+  filtered?: FilteredContentItem[];
+}
+
+export interface SetContentReport {
+  content: Content;
+  items: FilteredContentItem[];
 }
 
 export interface GetSelectionContentArgs extends GetContentArgs {
@@ -37,8 +45,10 @@ export interface SetSelectionContentArgs extends SetContentArgs {
 }
 
 export interface InsertContentDetails {
+  readonly format?: 'html' | 'markdown';
   readonly paste?: boolean;
   readonly merge?: boolean;
+  readonly no_events?: boolean;
   readonly data?: {
     readonly paste: boolean;
   };
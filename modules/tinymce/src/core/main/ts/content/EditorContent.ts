@@ -5,7 +5,7 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Content, GetContentArgs, SetContentArgs } from './ContentTypes';
+import { Content, GetContentArgs, SetContentArgs, SetContentReport } from './ContentTypes';
 import { getContent } from './GetContent';
 import { setContent } from './SetContent';
 
@@ -13,6 +13,7 @@ export {
   Content,
   GetContentArgs,
   SetContentArgs,
+  SetContentReport,
   setContent,
   getContent
 };
@@ -14,12 +14,12 @@ import * as Options from '../api/Options';
 import Tools from '../api/util/Tools';
 import { isWsPreserveElement } from '../dom/ElementType';
 import * as TrimHtml from '../dom/TrimHtml';
+import MarkdownSerializer from '../markdown/MarkdownSerializer';
 import * as Zwsp from '../text/Zwsp';
 import { Content, ContentFormat, GetContentArgs } from './ContentTypes';
 import { postProcessGetContent, preProcessGetContent } from './PrePostProcess';
 
-const trimEmptyContents = (editor: Editor, html: string): string => {
-  const blockName = Options.getForcedRootBlock(editor);
+export const trimEmptyContents = (blockName: string, html: string): string => {
   const emptyRegExp = new RegExp(`^(<${blockName}[^>]*>(&nbsp;|&#160;|\\s|\u00a0|<br \\/>|)<\\/${blockName}>[\r\n]*|<br \\/>[\r\n]*)$`);
   return html.replace(emptyRegExp, '');
 };
@@ -42,8 +42,11 @@ const getContentFromBody = (editor: Editor, args: Partial<GetContentArgs>, forma
       content = editor.dom.isEmpty(body) ? '' : Zwsp.trim(body.innerText || body.textContent);
     } else if (updatedArgs.format === 'tree') {
       content = editor.serializer.serialize(body, updatedArgs);
+    } else if (updatedArgs.format === 'markdown') {
+      const tree = editor.serializer.serialize(body, { ...updatedArgs, format: 'tree' });
+      content = MarkdownSerializer(editor.schema).serialize(tree);
     } else {
-      content = trimEmptyContents(editor, editor.serializer.serialize(body, updatedArgs));
+      content = trimEmptyContents(Options.getForcedRootBlock(editor), editor.serializer.serialize(body, updatedArgs));
     }
 
     // Trim if not using a whitespace preserve format/element
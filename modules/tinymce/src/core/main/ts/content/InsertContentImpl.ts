@@ -11,6 +11,7 @@ import { Remove, SugarElement } from '@ephox/sugar';
 import DOMUtils from '../api/dom/DOMUtils';
 import ElementUtils from '../api/dom/ElementUtils';
 import Editor from '../api/Editor';
+import * as Events from '../api/Events';
 import { ParserArgs } from '../api/html/DomParser';
 import AstNode from '../api/html/Node';
 import HtmlSerializer from '../api/html/Serializer';
@@ -23,6 +24,7 @@ import * as TableDelete from '../delete/TableDelete';
 import * as CefUtils from '../dom/CefUtils';
 import * as NodeType from '../dom/NodeType';
 import * as PaddingBr from '../dom/PaddingBr';
+import * as MarkdownParser from '../markdown/MarkdownParser';
 import * as RangeNormalizer from '../selection/RangeNormalizer';
 import * as SelectionUtils from '../selection/SelectionUtils';
 import { InsertContentDetails } from './ContentTypes';
@@ -221,8 +223,8 @@ export const insertHtmlAtCaret = (editor: Editor, value: string, details: Insert
   const bookmarkHtml = '<span id="mce_marker" data-mce-type="bookmark">&#xFEFF;</span>';
 
   // Run beforeSetContent handlers on the HTML to be inserted
-  preProcessSetContent(editor, { content: value, format: 'html', set: false, selection: true, paste: details.paste }).each((args) => {
-    value = args.content;
+  preProcessSetContent(editor, { content: value, format: details.format || 'html', set: false, selection: true, paste: details.paste }).each((args) => {
+    value = args.format === 'markdown' ? MarkdownParser.toHtml(args.content) : args.content;
 
     // Add caret at end of contents if it's missing
     if (value.indexOf('{$caret}') === -1) {
@@ -253,9 +255,14 @@ export const insertHtmlAtCaret = (editor: Editor, value: string, details: Insert
     parentNode = selection.getNode();
 
     // Parse the fragment within the context of the parent node
-    const parserArgs: ParserArgs = { context: parentNode.nodeName.toLowerCase(), data: details.data, insert: true };
+    const sanitizeContext = details.paste ? 'paste' : 'insert';
+    const parserArgs: ParserArgs = { context: parentNode.nodeName.toLowerCase(), data: details.data, insert: true, sanitize_context: sanitizeContext };
     const fragment = parser.parse(value, parserArgs);
 
+    if (!details.no_events && parserArgs.filtered.length > 0) {
+      Events.fireContentFiltered(editor, sanitizeContext, parserArgs.filtered);
+    }
+
     // Custom handling of lists
     if (details.paste === true && InsertList.isListFragment(editor.schema, fragment) && InsertList.isParentBlockLi(dom, parentNode)) {
       rng = InsertList.insertAtCaret(serializer, dom, selection.getRng(), fragment);
@@ -316,7 +323,8 @@ export const insertHtmlAtCaret = (editor: Editor, value: string, details: Insert
           // Need to replace by using a function since $ in the contents would otherwise be a problem
           value.replace(/<span (id="mce_marker"|id=mce_marker).+?<\/span>/i, () => {
             return serializer.serialize(fragment);
-          })
+          }),
+          { sanitize_context: sanitizeContext }
         )
       );
 
@@ -6,8 +6,17 @@
  */
 
 import Editor from '../api/Editor';
+import { FilteredContentItem } from '../api/html/DomParser';
 import * as Rtc from '../Rtc';
-import { Content, SetContentArgs } from './ContentTypes';
+import { Content, SetContentArgs, SetContentReport } from './ContentTypes';
 
-export const setContent = (editor: Editor, content: Content, args: Partial<SetContentArgs> = {}): Content =>
-  Rtc.setContent(editor, content, args);
+export const setContent = (editor: Editor, content: Content, args: Partial<SetContentArgs> = {}): Content | SetContentReport => {
+  if (args.report === true) {
+    // The parser adds the filtered content to the array passed in the args
+    const filtered: FilteredContentItem[] = [];
+    const result = Rtc.setContent(editor, content, { ...args, filtered });
+    return { content: result, items: filtered };
+  } else {
+    return Rtc.setContent(editor, content, args);
+  }
+};
@@ -9,6 +9,8 @@ import { Optional } from '@ephox/katamari';
 import { SugarElement } from '@ephox/sugar';
 
 import Editor from '../api/Editor';
+import * as Events from '../api/Events';
+import { ParserArgs } from '../api/html/DomParser';
 import AstNode from '../api/html/Node';
 import HtmlSerializer from '../api/html/Serializer';
 import * as Options from '../api/Options';
@@ -18,6 +20,7 @@ import { isWsPreserveElement } from '../dom/ElementType';
 import * as NodeType from '../dom/NodeType';
 import * as EditorFocus from '../focus/EditorFocus';
 import * as FilterNode from '../html/FilterNode';
+import * as MarkdownParser from '../markdown/MarkdownParser';
 import { Content, SetContentArgs } from './ContentTypes';
 import { postProcessSetContent, preProcessSetContent } from './PrePostProcess';
 
@@ -77,10 +80,17 @@ const setContentString = (editor: Editor, body: HTMLElement, content: string, ar
 
     return { content, html: content };
   } else {
+    if (args.format === 'markdown') {
+      content = MarkdownParser.toHtml(content);
+    }
+
     if (args.format !== 'raw') {
-      content = HtmlSerializer({ validate: false }, editor.schema).serialize(
-        editor.parser.parse(content, { isRootContent: true, insert: true })
-      );
+      const parserArgs: ParserArgs = { isRootContent: true, insert: true, sanitize_context: 'setcontent', filtered: args.filtered };
+      content = HtmlSerializer({ validate: false }, editor.schema).serialize(editor.parser.parse(content, parserArgs));
+
+      if (!args.no_events && parserArgs.filtered.length > 0) {
+        Events.fireContentFiltered(editor, 'setcontent', parserArgs.filtered);
+      }
     }
 
     const trimmedHtml = isWsPreserveElement(SugarElement.fromDom(body)) ? content : Tools.trim(content);
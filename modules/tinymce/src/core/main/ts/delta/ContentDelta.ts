@@ -0,0 +1,135 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Fun, Optional } from '@ephox/katamari';
+
+import Editor from '../api/Editor';
+import * as Events from '../api/Events';
+import * as NodeType from '../dom/NodeType';
+import * as TrimHtml from '../dom/TrimHtml';
+import * as Zwsp from '../text/Zwsp';
+import { UndoLevel } from '../undo/UndoManagerTypes';
+import { ContentOperation } from './DeltaTypes';
+import { createPath, isInternalAttribute, isInternalNode, RecordGroup, toOperations } from './MutationOperations';
+
+const observerOptions: MutationObserverInit = {
+  childList: true,
+  subtree: true,
+  characterData: true,
+  characterDataOldValue: true,
+  attributes: true,
+  attributeOldValue: true
+};
+
+const getSplitPosition = (editor: Editor, newBlock: Element): { path: number[]; offset: number } => {
+  const body = editor.getBody();
+  const previous = Optional.from(newBlock.previousSibling);
+  // When the caret is left in the original block the new block was inserted before it, eg when pressing enter at the start of a block
+  const isBefore = !newBlock.contains(editor.selection.getStart()) && Optional.from(newBlock.nextSibling).exists((next) => next.contains(editor.selection.getStart()));
+  return previous.filter(() => !isBefore).fold(
+    () => ({ path: createPath(body, newBlock), offset: 0 }),
+    (block) => ({ path: createPath(body, block), offset: Zwsp.trim(block.textContent).length })
+  );
+};
+
+// The nodes are trimmed like the undo levels, so the internal attributes and bogus elements aren't sent to other editors.
+// The serializer isn't used since it would pad or remove the empty elements, which are often filled by later operations.
+const serializeNode = (editor: Editor, node: Node): string => {
+  if (NodeType.isElement(node)) {
+    const clone = node.cloneNode(true) as Element;
+    Arr.each(Arr.reverse([ clone ].concat(Arr.from(clone.querySelectorAll('*')))), (elm) => {
+      if (elm !== clone && isInternalNode(elm)) {
+        elm.parentNode.removeChild(elm);
+      } else {
+        Arr.each(Arr.filter(Arr.from(elm.attributes), (attr) => isInternalAttribute(attr.name)), (attr) => elm.removeAttribute(attr.name));
+      }
+    });
+    return TrimHtml.trimInternal(editor.serializer, clone.outerHTML);
+  } else {
+    return editor.dom.encode(Zwsp.trim(node.textContent));
+  }
+};
+
+const setup = (editor: Editor): void => {
+  let observer = Optional.none<MutationObserver>();
+  let queued: MutationRecord[] = [];
+  let groups: RecordGroup[] = [];
+
+  const takeRecords = () => {
+    const records = queued.concat(observer.map((o) => o.takeRecords()).getOr([]));
+    queued = [];
+    return records;
+  };
+
+  const startObserving = () => {
+    const win = editor.getWin() as Window & typeof globalThis;
+    const o = new win.MutationObserver((records) => {
+      queued = queued.concat(records);
+    });
+    o.observe(editor.getBody(), observerOptions);
+    observer = Optional.some(o);
+  };
+
+  const stopObserving = () => {
+    observer.each((o) => o.disconnect());
+    observer = Optional.none();
+    queued = [];
+    groups = [];
+  };
+
+  // The document is only observed while something is listening for the deltas
+  const toggleObserver = () => {
+    const hasListeners = editor.hasEventListeners('ContentDelta');
+    if (hasListeners && observer.isNone()) {
+      startObserving();
+    } else if (!hasListeners && observer.isSome()) {
+      stopObserving();
+    }
+  };
+
+  const addGroup = (wrap: RecordGroup['wrap']) => {
+    toggleObserver();
+    const records = takeRecords();
+    if (records.length > 0) {
+      groups.push({ records, wrap });
+    }
+  };
+
+  const flush = (level: UndoLevel) => {
+    addGroup(Fun.identity);
+    if (groups.length > 0) {
+      const current = groups;
+      groups = [];
+      const operations = toOperations(editor.getBody(), current, (node) => serializeNode(editor, node));
+      if (operations.length > 0) {
+        Events.fireContentDelta(editor, operations, level);
+      }
+    }
+  };
+
+  editor.on('init', toggleObserver);
+
+  editor.on('keydown BeforeExecCommand', () => addGroup(Fun.identity));
+
+  editor.on('NewBlock', (e) => {
+    const { path, offset } = getSplitPosition(editor, e.newBlock);
+    addGroup((operations): ContentOperation[] => [{ type: 'split-block', path, offset, operations }]);
+  });
+
+  editor.on('FormatApply FormatRemove', (e) => {
+    const type = e.type === 'formatapply' ? 'apply-format' : 'remove-format';
+    addGroup((operations): ContentOperation[] => [{ type, format: e.format, vars: e.vars, operations }]);
+  });
+
+  editor.on('AddUndo Undo Redo', (e) => flush(e.level));
+
+  editor.on('remove', stopObserving);
+};
+
+export {
+  setup
+};
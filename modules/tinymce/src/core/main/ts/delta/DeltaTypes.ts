@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { FormatVars } from '../fmt/FormatTypes';
+
+// Paths are in the same format as NodePath, so the first index is the index of the target node within its parent
+// and the last index is the index of the top level node within the body. Every path is relative to the state of the
+// document after the previous operation has been applied.
+export type NodePath = number[];
+
+export interface InsertTextOperation {
+  readonly type: 'insert-text';
+  readonly path: NodePath;
+  readonly offset: number;
+  readonly text: string;
+}
+
+export interface InsertNodeOperation {
+  readonly type: 'insert-node';
+  readonly path: NodePath;
+  readonly html: string;
+}
+
+// For text nodes the offset and length are in characters, for elements they are child node indexes
+export interface DeleteRangeOperation {
+  readonly type: 'delete-range';
+  readonly path: NodePath;
+  readonly offset: number;
+  readonly length: number;
+}
+
+export interface SetAttributeOperation {
+  readonly type: 'set-attribute';
+  readonly path: NodePath;
+  readonly name: string;
+  readonly value: string | null;
+}
+
+export interface SplitBlockOperation {
+  readonly type: 'split-block';
+  readonly path: NodePath;
+  readonly offset: number;
+  readonly operations: ContentOperation[];
+}
+
+export interface FormatOperation {
+  readonly type: 'apply-format' | 'remove-format';
+  readonly format: string;
+  readonly vars?: FormatVars;
+  readonly operations: ContentOperation[];
+}
+
+export type PrimitiveOperation = InsertTextOperation | InsertNodeOperation | DeleteRangeOperation | SetAttributeOperation;
+export type ContentOperation = PrimitiveOperation | SplitBlockOperation | FormatOperation;
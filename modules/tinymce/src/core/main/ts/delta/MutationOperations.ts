@@ -0,0 +1,243 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Optional, Strings } from '@ephox/katamari';
+
+import * as NodeType from '../dom/NodeType';
+import * as Zwsp from '../text/Zwsp';
+import { ContentOperation, PrimitiveOperation } from './DeltaTypes';
+
+export interface RecordGroup {
+  readonly records: MutationRecord[];
+  readonly wrap: (operations: ContentOperation[]) => ContentOperation[];
+}
+
+// A mutation record with the nodes replaced by their copies in the detached clone
+interface CloneRecord {
+  readonly type: MutationRecordType;
+  readonly target: Node;
+  readonly addedNodes: Node[];
+  readonly removedNodes: Node[];
+  readonly previousSibling: Node | null;
+  readonly nextSibling: Node | null;
+  readonly attributeName: string | null;
+  readonly oldValue: string | null;
+}
+
+/*
+ * Mutation records only describe the state of the document after all the mutations, so to work out the position of each
+ * change the records are first reverted in reverse order and then reapplied one at a time. Each reapplied record then
+ * produces operations with paths that are relative to the document at the time the mutation was made. This is done on a
+ * detached clone of the nodes, so the live document and the selection are never changed.
+ */
+
+const isInRoot = (root: Node, node: Node) => root === node || root.contains(node);
+
+// Bogus elements, like the caret containers, and bookmarks are only used by the editor, so they aren't part of the operations
+const isInternalNode = (node: Node): boolean =>
+  NodeType.isBogus(node) || NodeType.isElement(node) && node.getAttribute('data-mce-type') === 'bookmark';
+
+const isInternalAttribute = (name: string): boolean => Strings.startsWith(name, 'data-mce-');
+
+const isInInternalNode = (root: Node, node: Node): boolean => {
+  for (let current = node; current && current !== root; current = current.parentNode) {
+    if (isInternalNode(current)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// The index of a node ignoring the internal nodes before it, so the paths match the serialized content
+const getIndex = (node: Node): number => {
+  let index = 0;
+  for (let sibling = node.previousSibling; sibling; sibling = sibling.previousSibling) {
+    if (!isInternalNode(sibling)) {
+      index++;
+    }
+  }
+  return index;
+};
+
+const createPath = (root: Node, node: Node): number[] => {
+  const path: number[] = [];
+  for (let current = node; current && current !== root; current = current.parentNode) {
+    path.push(getIndex(current));
+  }
+  return path;
+};
+
+const getTopNode = (node: Node): Node => {
+  let top = node;
+  while (top.parentNode && !NodeType.isDocument(top.parentNode)) {
+    top = top.parentNode;
+  }
+  return top;
+};
+
+// Each live node is cloned once along with the rest of its tree, so the clones keep the same structure as the live nodes.
+// The root is cloned first, so nodes that were removed from it are cloned separately.
+const createCloneMap = (root: Node): (node: Node) => Node => {
+  const clones = new Map<Node, Node>();
+
+  const addClones = (node: Node, clone: Node) => {
+    if (!clones.has(node)) {
+      clones.set(node, clone);
+    }
+    for (let child = node.firstChild, childClone = clone.firstChild; child && childClone; child = child.nextSibling, childClone = childClone.nextSibling) {
+      addClones(child, childClone);
+    }
+  };
+
+  addClones(root, root.cloneNode(true));
+
+  return (node) => {
+    if (!clones.has(node)) {
+      const top = getTopNode(node);
+      addClones(top, top.cloneNode(true));
+    }
+    return clones.get(node);
+  };
+};
+
+const toCloneRecord = (getClone: (node: Node) => Node, record: MutationRecord): CloneRecord => {
+  const getOptionalClone = (node: Node | null) => Optional.from(node).map(getClone).getOrNull();
+  return {
+    type: record.type,
+    target: getClone(record.target),
+    addedNodes: Arr.map(record.addedNodes, getClone),
+    removedNodes: Arr.map(record.removedNodes, getClone),
+    previousSibling: getOptionalClone(record.previousSibling),
+    nextSibling: getOptionalClone(record.nextSibling),
+    attributeName: record.attributeName,
+    oldValue: record.oldValue
+  };
+};
+
+const getValue = (record: CloneRecord): string | null => {
+  const target = record.target;
+  if (record.type === 'characterData') {
+    return (target as CharacterData).data;
+  } else if (record.type === 'attributes' && NodeType.isElement(target)) {
+    return target.getAttribute(record.attributeName);
+  } else {
+    return null;
+  }
+};
+
+const setValue = (record: CloneRecord, value: string | null) => {
+  const target = record.target;
+  if (record.type === 'characterData') {
+    (target as CharacterData).data = value;
+  } else if (NodeType.isElement(target)) {
+    if (value === null) {
+      target.removeAttribute(record.attributeName);
+    } else {
+      target.setAttribute(record.attributeName, value);
+    }
+  }
+};
+
+const revertChildList = (record: CloneRecord) => {
+  const target = record.target;
+  Arr.each(record.addedNodes, (node) => {
+    if (node.parentNode === target) {
+      target.removeChild(node);
+    }
+  });
+
+  const reference = Optional.from(record.nextSibling).getOrThunk(() => record.previousSibling ? record.previousSibling.nextSibling : target.firstChild);
+  Arr.each(record.removedNodes, (node) => {
+    target.insertBefore(node, reference);
+  });
+};
+
+const diffText = (path: number[], beforeData: string, afterData: string): PrimitiveOperation[] => {
+  // Zero width characters are removed when the content is serialized, so they are left out of the offsets
+  const before = Zwsp.trim(beforeData);
+  const after = Zwsp.trim(afterData);
+  const maxLength = Math.min(before.length, after.length);
+  let start = 0;
+  while (start < maxLength && before[start] === after[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (end < maxLength - start && before[before.length - end - 1] === after[after.length - end - 1]) {
+    end++;
+  }
+
+  const deleted = before.length - start - end;
+  const inserted = after.substring(start, after.length - end);
+  const deleteOps: PrimitiveOperation[] = deleted > 0 ? [{ type: 'delete-range', path, offset: start, length: deleted }] : [];
+  const insertOps: PrimitiveOperation[] = inserted.length > 0 ? [{ type: 'insert-text', path, offset: start, text: inserted }] : [];
+  return deleteOps.concat(insertOps);
+};
+
+const replayChildList = (root: Node, record: CloneRecord, toHtml: (node: Node) => string): PrimitiveOperation[] => {
+  const target = record.target;
+  const include = isInRoot(root, target) && !isInInternalNode(root, target);
+
+  const removeOps = Arr.bind(record.removedNodes, (node): PrimitiveOperation[] => {
+    const ops: PrimitiveOperation[] = include && !isInternalNode(node) ? [{ type: 'delete-range', path: createPath(root, target), offset: getIndex(node), length: 1 }] : [];
+    target.removeChild(node);
+    return ops;
+  });
+
+  const addOps = Arr.bind(record.addedNodes, (node): PrimitiveOperation[] => {
+    target.insertBefore(node, record.nextSibling);
+    return include && !isInternalNode(node) ? [{ type: 'insert-node', path: createPath(root, node), html: toHtml(node) }] : [];
+  });
+
+  return removeOps.concat(addOps);
+};
+
+const replay = (root: Node, record: CloneRecord, value: string | null, toHtml: (node: Node) => string): PrimitiveOperation[] => {
+  const target = record.target;
+  if (record.type === 'childList') {
+    return replayChildList(root, record, toHtml);
+  } else if (!isInRoot(root, target) || isInInternalNode(root, target) || record.type === 'attributes' && isInternalAttribute(record.attributeName)) {
+    setValue(record, value);
+    return [];
+  } else {
+    const path = createPath(root, target);
+    const ops: PrimitiveOperation[] = record.type === 'characterData'
+      ? diffText(path, (target as CharacterData).data, value)
+      : [{ type: 'set-attribute', path, name: record.attributeName, value }];
+    setValue(record, value);
+    return ops;
+  }
+};
+
+const toOperations = (root: Node, groups: RecordGroup[], toHtml: (node: Node) => string): ContentOperation[] => {
+  const getClone = createCloneMap(root);
+  const rootClone = getClone(root);
+  const cloneGroups = Arr.map(groups, (group) => ({ records: Arr.map(group.records, (record) => toCloneRecord(getClone, record)), wrap: group.wrap }));
+  const records = Arr.bind(cloneGroups, (group) => group.records);
+
+  const values = new Map<CloneRecord, string | null>();
+  Arr.each(Arr.reverse(records), (record) => {
+    if (record.type === 'childList') {
+      revertChildList(record);
+    } else {
+      values.set(record, getValue(record));
+      setValue(record, record.oldValue);
+    }
+  });
+
+  return Arr.bind(cloneGroups, (group) => {
+    const ops = Arr.bind(group.records, (record) => replay(rootClone, record, values.get(record) ?? null, toHtml));
+    return ops.length > 0 ? group.wrap(ops) : [];
+  });
+};
+
+export {
+  createPath,
+  isInternalAttribute,
+  isInternalNode,
+  toOperations
+};
@@ -5,19 +5,20 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Fun } from '@ephox/katamari';
+import { Fun, Type } from '@ephox/katamari';
 import { SugarElement } from '@ephox/sugar';
 
 import DOMUtils from '../api/dom/DOMUtils';
 import Editor from '../api/Editor';
 import * as Events from '../api/Events';
-import DomParser, { DomParserSettings, ParserArgs, ParserFilter } from '../api/html/DomParser';
+import DomParser, { DomParserSettings, ParserArgs, ParserFilter, SanitizationReport } from '../api/html/DomParser';
 import AstNode from '../api/html/Node';
 import Schema, { SchemaSettings } from '../api/html/Schema';
 import HtmlSerializer, { HtmlSerializerSettings } from '../api/html/Serializer';
 import { WriterSettings } from '../api/html/Writer';
 import { URLConverter } from '../api/OptionTypes';
 import Tools from '../api/util/Tools';
+import * as Sanitization from '../html/Sanitization';
 import * as Zwsp from '../text/Zwsp';
 import * as DomSerializerFilters from './DomSerializerFilters';
 import * as DomSerializerPreProcess from './DomSerializerPreProcess';
@@ -42,6 +43,7 @@ interface DomSerializerImpl {
   setRules: (rules: string) => void;
   addTempAttr: (name: string) => void;
   getTempAttrs: () => string[];
+  getSanitizationReport: () => SanitizationReport;
 }
 
 const addTempAttr = (htmlParser: DomParser, tempAttrs: string[], name: string): void => {
@@ -86,7 +88,9 @@ const serializeNode = (settings: HtmlSerializerSettings, schema: Schema, node: A
 };
 
 const toHtml = (editor: Editor, settings: HtmlSerializerSettings, schema: Schema, rootNode: AstNode, args: ParserArgs): string => {
-  const content = serializeNode(settings, schema, rootNode);
+  // The pretty_print argument overrides the pretty print setting for a single call, for example when viewing the source
+  const serializerSettings = Type.isBoolean(args.pretty_print) ? { ...settings, pretty_print: args.pretty_print } : settings;
+  const content = serializeNode(serializerSettings, schema, rootNode);
   return postProcess(editor, args, content);
 };
 
@@ -101,11 +105,21 @@ const DomSerializerImpl = (settings: DomSerializerSettings, editor: Editor): Dom
   const htmlParser = DomParser(settings, schema);
   DomSerializerFilters.register(htmlParser, settings, dom);
 
+  let sanitizationReport: SanitizationReport = { items: [] };
+
+  // The filters can turn internal nodes like the media placeholders back into real content, so the policy is applied again
+  const sanitizeFiltered = (rootNode: AstNode) => {
+    const parserReport = htmlParser.getSanitizationReport();
+    const filteredReport = settings.sanitization_policy ? Sanitization.sanitize(schema, rootNode, settings.sanitization_policy) : { items: [] };
+    sanitizationReport = { ...parserReport, items: parserReport.items.concat(filteredReport.items) };
+  };
+
   const serialize = (node: Element, parserArgs: ParserArgs = {}): string | AstNode => {
     const args = { format: 'html', ...parserArgs };
     const targetNode = DomSerializerPreProcess.process(editor, node, args);
     const html = getHtmlFromNode(dom, targetNode, args);
     const rootNode = parseHtml(htmlParser, html, args);
+    sanitizeFiltered(rootNode);
     return args.format === 'tree' ? rootNode : toHtml(editor, settings, schema, rootNode, args);
   };
 
@@ -119,7 +133,8 @@ const DomSerializerImpl = (settings: DomSerializerSettings, editor: Editor): Dom
     addTempAttr: Fun.curry(addTempAttr, htmlParser, tempAttrs),
     getTempAttrs: Fun.constant(tempAttrs),
     getNodeFilters: htmlParser.getNodeFilters,
-    getAttributeFilters: htmlParser.getAttributeFilters
+    getAttributeFilters: htmlParser.getAttributeFilters,
+    getSanitizationReport: () => sanitizationReport
   };
 };
 
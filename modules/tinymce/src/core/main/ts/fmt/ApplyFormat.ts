@@ -25,6 +25,7 @@ import * as Zwsp from '../text/Zwsp';
 import * as CaretFormat from './CaretFormat';
 import * as ExpandRange from './ExpandRange';
 import { isCaretNode } from './FormatContainer';
+import * as FormatGroups from './FormatGroups';
 import { ApplyFormat, BlockFormat, FormatVars, InlineFormat } from './FormatTypes';
 import * as FormatUtils from './FormatUtils';
 import * as Hooks from './Hooks';
@@ -61,6 +62,13 @@ const canFormatBR = (editor: Editor, format: ApplyFormat, node: HTMLBRElement, p
   }
 };
 
+const toDomRange = (dom: DOMUtils, rng: RangeLikeObject): Range => {
+  const domRng = dom.createRng();
+  domRng.setStart(rng.startContainer, rng.startOffset);
+  domRng.setEnd(rng.endContainer, rng.endOffset);
+  return domRng;
+};
+
 const applyFormat = (ed: Editor, name: string, vars?: FormatVars, node?: Node | RangeLikeObject) => {
   const formatList = ed.formatter.get(name) as ApplyFormat[];
   const format = formatList[0];
@@ -322,6 +330,13 @@ const applyFormat = (ed: Editor, name: string, vars?: FormatVars, node?: Node |
   }
 
   if (format) {
+    // Remove the other formats in the group of the format, using a DOM range so it's updated when the content is split
+    if (FormatGroups.isExclusive(formatList)) {
+      const target = Type.isNullable(node) || FormatUtils.isNode(node) ? node : toDomRange(dom, node);
+      FormatGroups.removeConflictingFormats(ed, name, target);
+      node = target;
+    }
+
     if (node) {
       if (FormatUtils.isNode(node)) {
         if (!applyNodeStyle(formatList, node)) {
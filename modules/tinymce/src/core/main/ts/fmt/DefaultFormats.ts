@@ -13,19 +13,20 @@ import { Formats, FormatVars } from './FormatTypes';
 const get = (dom: DOMUtils) => {
   const formats: Formats = {
     valigntop: [
-      { selector: 'td,th', styles: { verticalAlign: 'top' }}
+      { selector: 'td,th', styles: { verticalAlign: 'top' }, group: 'valign' }
     ],
 
     valignmiddle: [
-      { selector: 'td,th', styles: { verticalAlign: 'middle' }}
+      { selector: 'td,th', styles: { verticalAlign: 'middle' }, group: 'valign' }
     ],
 
     valignbottom: [
-      { selector: 'td,th', styles: { verticalAlign: 'bottom' }}
+      { selector: 'td,th', styles: { verticalAlign: 'bottom' }, group: 'valign' }
     ],
 
     alignleft: [
       {
+        group: 'align',
         selector: 'figure.image',
         collapsed: false,
         classes: 'align-left',
@@ -66,6 +67,7 @@ const get = (dom: DOMUtils) => {
 
     aligncenter: [
       {
+        group: 'align',
         selector: 'figure,p,h1,h2,h3,h4,h5,h6,td,th,tr,div,ul,ol,li',
         styles: {
           textAlign: 'center'
@@ -104,6 +106,7 @@ const get = (dom: DOMUtils) => {
 
     alignright: [
       {
+        group: 'align',
         selector: 'figure.image',
         collapsed: false,
         classes: 'align-right',
@@ -144,6 +147,7 @@ const get = (dom: DOMUtils) => {
 
     alignjustify: [
       {
+        group: 'align',
         selector: 'figure,p,h1,h2,h3,h4,h5,h6,td,th,tr,div,ul,ol,li',
         styles: {
           textAlign: 'justify'
@@ -184,8 +188,8 @@ const get = (dom: DOMUtils) => {
     lineheight: { selector: 'h1,h2,h3,h4,h5,h6,p,li,td,th,div', defaultBlock: 'p', styles: { lineHeight: '%value' }},
     fontsize_class: { inline: 'span', attributes: { class: '%value' }},
     blockquote: { block: 'blockquote', wrapper: true, remove: 'all' },
-    subscript: { inline: 'sub' },
-    superscript: { inline: 'sup' },
+    subscript: { inline: 'sub', group: 'script' },
+    superscript: { inline: 'sup', group: 'script' },
     code: { inline: 'code' },
 
     link: {
@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional } from '@ephox/katamari';
+
+import Editor from '../api/Editor';
+import * as RemoveFormat from './RemoveFormat';
+
+interface FormatGroupLike {
+  group?: string;
+  exclusive?: boolean;
+}
+
+// The group of a format is defined by the first format variant that specifies one
+const getGroupFormat = (formatList: FormatGroupLike[] | undefined): Optional<FormatGroupLike> =>
+  Arr.find(formatList ?? [], (format) => Obj.hasNonNullableKey(format, 'group'));
+
+const getGroupName = (formatList: FormatGroupLike[] | undefined): Optional<string> =>
+  getGroupFormat(formatList).map((format) => format.group);
+
+// Formats in a group are mutually exclusive unless they opt out, in which case the group is only used by the UI
+const isExclusive = (formatList: FormatGroupLike[] | undefined): boolean =>
+  getGroupFormat(formatList).exists((format) => format.exclusive !== false);
+
+const getGroup = (formats: Record<string, FormatGroupLike[]>, group: string): string[] =>
+  Arr.filter(Obj.keys(formats), (name) => getGroupName(formats[name]).exists((groupName) => groupName === group));
+
+// Removes the other formats in the group of an exclusive format, before the format is applied
+const removeConflictingFormats = (editor: Editor, name: string, node?: Node | Range): void => {
+  const formatList = editor.formatter.get(name);
+  getGroupFormat(formatList).filter((format) => format.exclusive !== false).each((format) => {
+    Arr.each(getGroup(editor.formatter.get(), format.group), (otherName) => {
+      if (otherName !== name) {
+        RemoveFormat.remove(editor, otherName, undefined, node);
+      }
+    });
+  });
+};
+
+export {
+  getGroupName,
+  isExclusive,
+  getGroup,
+  removeConflictingFormats
+};
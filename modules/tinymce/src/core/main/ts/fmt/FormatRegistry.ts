@@ -10,6 +10,7 @@ import { Arr, Obj, Type } from '@ephox/katamari';
 import Editor from '../api/Editor';
 import * as Options from '../api/Options';
 import * as DefaultFormats from './DefaultFormats';
+import * as FormatGroups from './FormatGroups';
 import { Format, Formats } from './FormatTypes';
 import { isInlineFormat, isSelectorFormat } from './FormatUtils';
 
@@ -21,6 +22,7 @@ export interface FormatRegistry {
   has: (name: string) => boolean;
   register: (name: string | Formats, format?: Format[] | Format) => void;
   unregister: (name: string) => Formats;
+  getGroup: (group: string) => string[];
 }
 
 export const FormatRegistry = (editor: Editor): FormatRegistry => {
@@ -85,6 +87,8 @@ export const FormatRegistry = (editor: Editor): FormatRegistry => {
     return formats;
   };
 
+  const getGroup = (group: string): string[] => FormatGroups.getGroup(formats, group);
+
   register(DefaultFormats.get(editor.dom));
   register(Options.getFormats(editor));
 
@@ -92,6 +96,7 @@ export const FormatRegistry = (editor: Editor): FormatRegistry => {
     get: get as FormatRegistry['get'],
     has,
     register,
-    unregister
+    unregister,
+    getGroup
   };
 };
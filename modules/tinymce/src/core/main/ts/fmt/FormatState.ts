@@ -0,0 +1,155 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional, Strings, Type } from '@ephox/katamari';
+
+import Editor from '../api/Editor';
+import * as NodeType from '../dom/NodeType';
+import * as ElementSelection from '../selection/ElementSelection';
+import * as RangeWalk from '../selection/RangeWalk';
+import * as Zwsp from '../text/Zwsp';
+import * as FontInfo from './FontInfo';
+import { Format, FormatVars } from './FormatTypes';
+import * as FormatUtils from './FormatUtils';
+import * as MatchFormat from './MatchFormat';
+
+export type FormatMatchState = 'full' | 'partial' | 'none';
+
+export interface FormatState {
+  // The match state of each registered format, or each of the specified formats, for the text in the range
+  readonly formats: Record<string, FormatMatchState>;
+  // The formats matched at the start of the range, ordered from the closest element outwards
+  readonly closest: string[];
+  // The variables of the variable formats matched at the start of the range, for example the font size or color
+  readonly vars: Record<string, FormatVars>;
+}
+
+const isContentText = (node: Node): node is Text =>
+  NodeType.isText(node) && !Strings.isEmpty(Zwsp.trim(node.data).trim());
+
+const getTextNodes = (editor: Editor, rng: Range): Text[] => {
+  const textNodes: Text[] = [];
+
+  const collect = (node: Node) => {
+    if (isContentText(node)) {
+      textNodes.push(node);
+    } else if (!NodeType.isBogus(node)) {
+      Arr.each(node.childNodes, collect);
+    }
+  };
+
+  if (!rng.collapsed) {
+    RangeWalk.walk(editor.dom, rng, (nodes) => Arr.each(nodes, collect));
+  }
+
+  return textNodes;
+};
+
+// Extracts the variables of a variable format, for example { value: 'red' } from a span matching { color: '%value' }
+const getFormatVars = (editor: Editor, node: Element, format: Format): FormatVars => {
+  const vars: FormatVars = {};
+  Arr.each([ 'styles', 'attributes' ] as const, (key) => {
+    const items = format[key];
+    if (Type.isObject(items) && !Type.isArray(items)) {
+      Obj.each(items, (value, name) => {
+        const variable = Type.isString(value) ? /^%(\w+)$/.exec(value) : null;
+        if (variable !== null) {
+          vars[variable[1]] = key === 'styles' ? FormatUtils.getStyle(editor.dom, node, name) : editor.dom.getAttrib(node, name);
+        }
+      });
+    }
+  });
+  return vars;
+};
+
+// The format is partially matched as soon as an element differs from the first, so the rest aren't matched
+const getMatchState = (elements: Node[], isMatch: (elm: Node) => boolean): FormatMatchState => {
+  const matched = isMatch(elements[0]);
+  if (Arr.exists(elements.slice(1), (elm) => isMatch(elm) !== matched)) {
+    return 'partial';
+  } else {
+    return matched ? 'full' : 'none';
+  }
+};
+
+const getState = (editor: Editor, rng: Range, formatNames?: string[]): FormatState => {
+  const dom = editor.dom;
+  const root = dom.getRoot();
+  const registered = editor.formatter.get();
+  // Matching the formats against all the selected text is the expensive part, so it can be limited to some formats
+  const matchedNames = Type.isArray(formatNames) ? Arr.filter(formatNames, (name) => Obj.has(registered, name)) : Obj.keys(registered);
+  const isVariableFormat: Record<string, boolean> = {};
+  Arr.each(matchedNames, (name) => {
+    isVariableFormat[name] = FormatUtils.isVariableFormatName(editor, name);
+  });
+
+  // Variable formats like forecolor match any value, as there are no variables to match against. The results are
+  // cached per element, so the elements that share the same parents only match each format once.
+  const cache = new Map<Node, Record<string, Optional<Format>>>();
+  const matchNodeCached = (node: Node, name: string, similar: boolean): Optional<Format> => {
+    const results = cache.get(node) ?? {};
+    cache.set(node, results);
+    const key = similar ? name + '|similar' : name;
+    if (!Obj.has(results, key)) {
+      results[key] = Optional.from(MatchFormat.matchNode(editor, node, name, {}, similar));
+    }
+    return results[key];
+  };
+
+  const matchNode = (node: Node, name: string): Optional<Format> =>
+    matchNodeCached(node, name, isVariableFormat[name]);
+
+  // Matches the format the same way as formatter.match, by finding the closest element with a similar format and
+  // doing an exact check on it
+  const matchParents = (node: Node, name: string): boolean => {
+    for (let current = node; Type.isNonNullable(current) && current !== root; current = current.parentNode) {
+      if (current.parentNode === root || MatchFormat.matchesUnInheritedFormatSelector(editor, current, name) || matchNodeCached(current, name, true).isSome()) {
+        return matchNode(current, name).isSome();
+      }
+    }
+    return false;
+  };
+
+  const startElement = ElementSelection.getStart(root, rng, true);
+  const textNodes = getTextNodes(editor, rng);
+  const elements = textNodes.length > 0 ? Array.from(new Set(Arr.map(textNodes, (text) => text.parentNode))) : [ startElement ];
+
+  const formats: Record<string, FormatMatchState> = {};
+  Arr.each(matchedNames, (name) => {
+    formats[name] = getMatchState(elements, (elm) => matchParents(elm, name));
+  });
+
+  const parents = Arr.filter(FormatUtils.getParents(dom, startElement), (node) => node !== root && NodeType.isElement(node) && !NodeType.isBogus(node)) as Element[];
+  const closest: string[] = [];
+  const vars: Record<string, FormatVars> = {};
+  Arr.each(parents, (parent) => {
+    Arr.each(matchedNames, (name) => {
+      if (!Arr.contains(closest, name)) {
+        matchNode(parent, name).each((format) => {
+          closest.push(name);
+          if (isVariableFormat[name]) {
+            vars[name] = getFormatVars(editor, parent, format);
+          }
+        });
+      }
+    });
+  });
+
+  // The font family and size are always resolved, since they have a computed value when no format specifies them
+  vars.fontname = { value: FontInfo.getFontFamily(root, startElement) };
+  vars.fontsize = { value: FontInfo.getFontSize(root, startElement) };
+
+  return {
+    formats,
+    closest,
+    vars
+  };
+};
+
+export {
+  getState
+};
@@ -21,7 +21,9 @@ export interface BaseFormat<T> {
   classes?: string | string[];
   collapsed?: boolean;
   exact?: boolean;
+  exclusive?: boolean;
   expand?: boolean;
+  group?: string;
   links?: boolean;
   mixed?: boolean;
   block_expand?: boolean;
@@ -46,14 +46,12 @@ const mergeBackgroundColorAndFontSize = (dom: DOMUtils, format: ApplyFormat, var
 };
 
 const mergeSubSup = (dom: DOMUtils, format: ApplyFormat, vars: FormatVars, node: Node) => {
-  // Remove font size on all children of a sub/sup and remove the inverse element
+  // Remove font size on all children of a sub/sup, the inverse element is removed by the format group
   if (FormatUtils.isInlineFormat(format) && (format.inline === 'sub' || format.inline === 'sup')) {
     processChildElements(node,
       hasStyle(dom, 'fontSize'),
       applyStyle(dom, 'fontSize', '')
     );
-
-    dom.remove(dom.select(format.inline === 'sup' ? 'sub' : 'sup', node), true);
   }
 };
 
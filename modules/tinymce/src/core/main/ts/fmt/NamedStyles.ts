@@ -0,0 +1,118 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional, Strings } from '@ephox/katamari';
+
+import DOMUtils from '../api/dom/DOMUtils';
+import { Format } from './FormatTypes';
+
+export type NamedStyleType = 'paragraph' | 'character';
+
+export interface NamedStyleSpec {
+  title?: string;
+  type?: NamedStyleType;
+  based_on?: string;
+  block?: string;
+  styles?: Record<string, string>;
+}
+
+export interface NamedStyle {
+  readonly name: string;
+  readonly title: string;
+  readonly type: NamedStyleType;
+  readonly basedOn?: string;
+  // The block element of paragraph styles and the styles including the styles of the style it's based on
+  readonly block: string;
+  readonly styles: Record<string, string>;
+  // The class that marks the elements the style is applied to, it's also the name of the registered format
+  readonly className: string;
+  readonly spec: NamedStyleSpec;
+}
+
+export type NamedStyleSpecs = Record<string, NamedStyleSpec>;
+
+const classPrefix = 'style-';
+
+const getClassName = (name: string): string => classPrefix + name;
+
+// The style names are used in class names and selectors, so they are limited to the characters that don't need escaping
+const isValidName = (name: string): boolean => /^[a-z][a-z0-9_\-]*$/i.test(name);
+
+const resolve = (specs: NamedStyleSpecs, name: string, visited: string[] = []): Optional<NamedStyle> =>
+  Obj.get(specs, name).map((spec) => {
+    // Styles that are based on each other only inherit up to the first style that's repeated
+    const base = Optional.from(spec.based_on)
+      .filter((baseName) => !Arr.contains(visited, baseName) && baseName !== name)
+      .bind((baseName) => resolve(specs, baseName, visited.concat([ name ])));
+
+    const type = spec.type ?? base.map((b) => b.type).getOr('paragraph');
+
+    return {
+      name,
+      title: spec.title ?? name,
+      type,
+      basedOn: spec.based_on,
+      block: spec.block ?? base.filter((b) => b.type === type).map((b) => b.block).getOr('p'),
+      styles: { ...base.map((b) => b.styles).getOr({}), ...spec.styles },
+      className: getClassName(name),
+      spec
+    };
+  });
+
+// Returns the names of the styles that inherit from the specified style, directly or through other styles
+const getDependents = (specs: NamedStyleSpecs, name: string): string[] => {
+  const isBasedOn = (styleName: string, visited: string[]): boolean =>
+    Obj.get(specs, styleName).bind((spec) => Optional.from(spec.based_on)).exists((baseName) =>
+      baseName === name || (!Arr.contains(visited, baseName) && isBasedOn(baseName, visited.concat([ styleName ])))
+    );
+
+  return Arr.filter(Obj.keys(specs), (styleName) => styleName !== name && isBasedOn(styleName, []));
+};
+
+const toFormat = (style: NamedStyle): Format => {
+  if (style.type === 'character') {
+    return { inline: 'span', classes: [ style.className ], styles: { ...style.styles }};
+  } else {
+    return { block: style.block, classes: [ style.className ], styles: { ...style.styles }};
+  }
+};
+
+/*
+ * Replaces the class and the styles of the old style on the element with the class and styles of the new style.
+ * Paragraph styles also rename the element to the block of the new style and character style spans that are
+ * left without any attributes are unwrapped.
+ */
+const restyle = (dom: DOMUtils, elm: Element, oldStyle: Optional<NamedStyle>, newStyle: Optional<NamedStyle>): void => {
+  oldStyle.each((style) => {
+    dom.removeClass(elm, style.className);
+    Obj.each(style.styles, (_value, prop) => dom.setStyle(elm, prop, ''));
+  });
+
+  const target = newStyle.fold(() => elm, (style) => {
+    const renamed = style.type === 'paragraph' && elm.nodeName.toLowerCase() !== style.block ? dom.rename(elm, style.block) : elm;
+    dom.addClass(renamed, style.className);
+    dom.setStyles(renamed, style.styles);
+    return renamed;
+  });
+
+  if (Strings.isEmpty(dom.getAttrib(target, 'style'))) {
+    dom.setAttrib(target, 'style', null);
+  }
+
+  if (newStyle.isNone() && target.nodeName === 'SPAN' && target.attributes.length === 0) {
+    dom.remove(target, true);
+  }
+};
+
+export {
+  getClassName,
+  isValidName,
+  resolve,
+  getDependents,
+  toFormat,
+  restyle
+};
@@ -0,0 +1,122 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Obj } from '@ephox/katamari';
+
+import DOMUtils from '../api/dom/DOMUtils';
+import DomParser from '../api/html/DomParser';
+import AstNode from '../api/html/Node';
+import Tools from '../api/util/Tools';
+import { getPath } from './ParserUtils';
+
+declare const escape: any;
+
+export interface ContentFilterSettings {
+  readonly convertURL: (url: string, name: string, elm?: string) => string;
+  readonly preserveCdata: boolean;
+}
+
+// Replaces the content matching the protect patterns with comments, so that it's kept as is by the parser
+const protect = (patterns: RegExp[], content: string): string => {
+  Tools.each(patterns, (pattern) => {
+    content = content.replace(pattern, (str) => {
+      return '<!--mce:protected ' + escape(str) + '-->';
+    });
+  });
+
+  return content;
+};
+
+const register = (parser: DomParser, dom: DOMUtils, settings: ContentFilterSettings): void => {
+  // Convert src and href into data-mce-src, data-mce-href and data-mce-style
+  parser.addAttributeFilter('src,href,style,tabindex', (nodes, name, args) => {
+    let i = nodes.length, node: AstNode, value: string;
+    const internalName = 'data-mce-' + name;
+
+    while (i--) {
+      node = nodes[i];
+      value = node.attr(name);
+
+      // Add internal attribute if we need to we don't on a refresh of the document
+      if (value && !node.attr(internalName)) {
+        // Don't duplicate these since they won't get modified by any browser
+        if (value.indexOf('data:') === 0 || value.indexOf('blob:') === 0) {
+          continue;
+        }
+
+        if (name === 'style') {
+          const styles = dom.parseStyle(value);
+          value = dom.serializeStyle(styles, node.name);
+
+          // Report the styles that aren't valid according to the schema
+          const validStyles = dom.parseStyle(value);
+          Obj.each(styles, (style, prop) => {
+            if (!Obj.has(validStyles, prop)) {
+              args.filtered?.push({ type: 'style', name: prop, value: style, path: getPath(node), reason: 'invalid-style' });
+            }
+          });
+
+          if (!value.length) {
+            value = null;
+          }
+
+          node.attr(internalName, value);
+          node.attr(name, value);
+        } else if (name === 'tabindex') {
+          node.attr(internalName, value);
+          node.attr(name, null);
+        } else {
+          node.attr(internalName, settings.convertURL(value, name, node.name));
+        }
+      }
+    }
+  });
+
+  // Keep scripts from executing
+  parser.addNodeFilter('script', (nodes: AstNode[]) => {
+    let i = nodes.length;
+
+    while (i--) {
+      const node = nodes[i];
+      const type = node.attr('type') || 'no/type';
+      if (type.indexOf('mce-') !== 0) {
+        node.attr('type', 'mce-' + type);
+      }
+    }
+  });
+
+  if (settings.preserveCdata) {
+    parser.addNodeFilter('#cdata', (nodes: AstNode[]) => {
+      let i = nodes.length;
+
+      while (i--) {
+        const node = nodes[i];
+        node.type = 8;
+        node.name = '#comment';
+        node.value = '[CDATA[' + dom.encode(node.value) + ']]';
+      }
+    });
+  }
+
+  parser.addNodeFilter('p,h1,h2,h3,h4,h5,h6,div', (nodes: AstNode[]) => {
+    let i = nodes.length;
+    const nonEmptyElements = parser.schema.getNonEmptyElements();
+
+    while (i--) {
+      const node = nodes[i];
+
+      if (node.isEmpty(nonEmptyElements) && node.getAll('br').length === 0) {
+        node.append(new AstNode('br', 1)).shortEnded = true;
+      }
+    }
+  });
+};
+
+export {
+  protect,
+  register
+};
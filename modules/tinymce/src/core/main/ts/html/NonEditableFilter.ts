@@ -5,17 +5,24 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
+import DOMUtils from '../api/dom/DOMUtils';
+import DomSerializer from '../api/dom/Serializer';
 import Editor from '../api/Editor';
-import { SetContentEvent } from '../api/EventTypes';
+import DomParser from '../api/html/DomParser';
 import AstNode from '../api/html/Node';
 import * as Options from '../api/Options';
-import { EditorEvent } from '../api/util/EventDispatcher';
 import Tools from '../api/util/Tools';
 
+export interface NonEditableFilterSettings {
+  readonly editableClass: string;
+  readonly nonEditableClass: string;
+  readonly nonEditableRegExps: RegExp[];
+}
+
 const hasClass = (checkClassName: string) => (node: AstNode): boolean =>
   (' ' + node.attr('class') + ' ').indexOf(checkClassName) !== -1;
 
-const replaceMatchWithSpan = (editor: Editor, content: string, cls: string) => {
+const replaceMatchWithSpan = (dom: DOMUtils, content: string, cls: string) => {
   // eslint-disable-next-line prefer-arrow/prefer-arrow-functions
   return function (match: string): string {
     const args = arguments, index = args[args.length - 2];
@@ -38,44 +45,34 @@ const replaceMatchWithSpan = (editor: Editor, content: string, cls: string) => {
     }
 
     return (
-      '<span class="' + cls + '" data-mce-content="' + editor.dom.encode(args[0]) + '">' +
-      editor.dom.encode(typeof args[1] === 'string' ? args[1] : args[0]) + '</span>'
+      '<span class="' + cls + '" data-mce-content="' + dom.encode(args[0]) + '">' +
+      dom.encode(typeof args[1] === 'string' ? args[1] : args[0]) + '</span>'
     );
   };
 };
 
-const convertRegExpsToNonEditable = (editor: Editor, nonEditableRegExps: RegExp[], e: EditorEvent<SetContentEvent>): void => {
-  let i = nonEditableRegExps.length, content = e.content;
-
-  // Don't replace the variables when raw is used for example on undo/redo
-  if (e.format === 'raw') {
-    return;
-  }
+const convertRegExpsToNonEditable = (dom: DOMUtils, settings: NonEditableFilterSettings, content: string): string => {
+  const nonEditableRegExps = settings.nonEditableRegExps;
+  let i = nonEditableRegExps.length;
 
   while (i--) {
-    content = content.replace(nonEditableRegExps[i], replaceMatchWithSpan(editor, content, Options.getNonEditableClass(editor)));
+    content = content.replace(nonEditableRegExps[i], replaceMatchWithSpan(dom, content, settings.nonEditableClass));
   }
 
-  e.content = content;
+  return content;
 };
 
-const setup = (editor: Editor): void => {
+const register = (parser: DomParser, serializer: DomSerializer, settings: NonEditableFilterSettings): void => {
   const contentEditableAttrName = 'contenteditable';
 
-  const editClass = ' ' + Tools.trim(Options.getEditableClass(editor)) + ' ';
-  const nonEditClass = ' ' + Tools.trim(Options.getNonEditableClass(editor)) + ' ';
+  const editClass = ' ' + Tools.trim(settings.editableClass) + ' ';
+  const nonEditClass = ' ' + Tools.trim(settings.nonEditableClass) + ' ';
 
   const hasEditClass = hasClass(editClass);
   const hasNonEditClass = hasClass(nonEditClass);
-  const nonEditableRegExps = Options.getNonEditableRegExps(editor);
+  const nonEditableRegExps = settings.nonEditableRegExps;
 
-  if (nonEditableRegExps.length > 0) {
-    editor.on('BeforeSetContent', (e) => {
-      convertRegExpsToNonEditable(editor, nonEditableRegExps, e);
-    });
-  }
-
-  editor.parser.addAttributeFilter('class', (nodes) => {
+  parser.addAttributeFilter('class', (nodes) => {
     let i = nodes.length;
 
     while (i--) {
@@ -89,7 +86,7 @@ const setup = (editor: Editor): void => {
     }
   });
 
-  editor.serializer.addAttributeFilter(contentEditableAttrName, (nodes) => {
+  serializer.addAttributeFilter(contentEditableAttrName, (nodes) => {
     let i = nodes.length;
 
     while (i--) {
@@ -110,6 +107,27 @@ const setup = (editor: Editor): void => {
   });
 };
 
+const setup = (editor: Editor): void => {
+  const settings: NonEditableFilterSettings = {
+    editableClass: Options.getEditableClass(editor),
+    nonEditableClass: Options.getNonEditableClass(editor),
+    nonEditableRegExps: Options.getNonEditableRegExps(editor)
+  };
+
+  if (settings.nonEditableRegExps.length > 0) {
+    editor.on('BeforeSetContent', (e) => {
+      // Don't replace the variables when raw is used for example on undo/redo
+      if (e.format !== 'raw') {
+        e.content = convertRegExpsToNonEditable(editor.dom, settings, e.content);
+      }
+    });
+  }
+
+  register(editor.parser, editor.serializer, settings);
+};
+
 export {
-  setup
+  setup,
+  register,
+  convertRegExpsToNonEditable
 };
@@ -38,7 +38,17 @@ const isEmpty = (schema: Schema, nonEmptyElements: SchemaMap, whitespaceElements
 const isLineBreakNode = (node: AstNode | undefined, blockElements: SchemaMap): boolean =>
   node && (Obj.has(blockElements, node.name) || node.name === 'br');
 
+// Returns the names of the node and its ancestor elements, starting from the top most element below the root
+const getPath = (node: AstNode | null): string[] => {
+  const path: string[] = [];
+  for (let current = node; current && current.type === 1; current = current.parent) {
+    path.unshift(current.name);
+  }
+  return path;
+};
+
 export {
+  getPath,
   paddEmptyNode,
   isPaddedWithNbsp,
   hasOnlyChild,
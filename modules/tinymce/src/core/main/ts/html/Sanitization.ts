@@ -0,0 +1,207 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Fun, Obj, Type } from '@ephox/katamari';
+
+import { FilteredContentItem } from '../api/html/DomParser';
+import AstNode from '../api/html/Node';
+import Schema from '../api/html/Schema';
+import Styles from '../api/html/Styles';
+import { getPath } from './ParserUtils';
+
+export interface SanitizationRules {
+  // Element names that are kept, anything else is unwrapped or removed
+  readonly elements?: string[];
+  // Attribute names that are kept for each element name, '*' applies to all elements
+  readonly attributes?: Record<string, string[]>;
+  // URL schemes allowed in URL attributes, relative URLs are always allowed
+  readonly url_schemes?: string[];
+  // CSS property names that are kept in style attributes
+  readonly css_properties?: string[];
+}
+
+export interface SanitizationPolicy extends SanitizationRules {
+  // Rules that override the base rules for a parsing context such as 'paste' or 'setcontent'
+  readonly contexts?: Record<string, SanitizationRules>;
+}
+
+export type SanitizationReason = 'element-not-allowed' | 'attribute-not-allowed' | 'url-scheme-not-allowed' | 'css-property-not-allowed';
+
+export interface SanitizationReportItem extends FilteredContentItem {
+  // The name of the element that was removed or that the attribute or style was removed from
+  readonly element: string;
+  readonly reason: SanitizationReason;
+}
+
+export interface SanitizationReport {
+  readonly context?: string;
+  readonly items: SanitizationReportItem[];
+}
+
+interface ResolvedRules {
+  readonly elements: Record<string, boolean> | null;
+  readonly attributes: Record<string, Record<string, boolean>> | null;
+  readonly urlSchemes: Record<string, boolean> | null;
+  readonly cssProperties: Record<string, boolean> | null;
+}
+
+const urlAttributes: Record<string, boolean> = Arr.mapToObject([
+  'href', 'src', 'action', 'formaction', 'cite', 'poster', 'background', 'longdesc', 'usemap', 'xlink:href', 'data-mce-href', 'data-mce-src'
+], Fun.always);
+
+const styleAttributes = [ 'style', 'data-mce-style' ];
+
+const toLookup = (names: string[] | undefined): Record<string, boolean> | null =>
+  Type.isArray(names) ? Arr.mapToObject(Arr.map(names, (name) => name.toLowerCase()), Fun.always) : null;
+
+const resolveRules = (policy: SanitizationPolicy, context: string | undefined): ResolvedRules => {
+  const contextRules = Type.isString(context) ? Obj.get(policy.contexts || {}, context).getOr({}) : {};
+  const rules: SanitizationRules = { ...policy, ...contextRules };
+
+  return {
+    elements: toLookup(rules.elements),
+    attributes: Type.isObject(rules.attributes) ? Obj.map(rules.attributes, toLookup) : null,
+    urlSchemes: toLookup(rules.url_schemes),
+    cssProperties: toLookup(rules.css_properties)
+  };
+};
+
+// The bookmarks and carets of the editor are spans marked as internal, which are kept even if spans aren't allowed.
+// The incoming content can contain the same markers, so the attributes of internal spans are sanitized like any other
+// and other elements are never trusted because of their markers.
+const isInternalSpan = (node: AstNode): boolean =>
+  node.name === 'span' && Type.isNonNullable(node.attr('data-mce-type'));
+
+// The media plugin keeps the attributes and content of embedded objects in placeholder attributes, which are turned back
+// into real attributes and content when serializing. So the placeholder attributes are sanitized as the real attributes.
+const placeholderPrefix = 'data-mce-p-';
+
+const isPlaceholderAttribute = (name: string): boolean =>
+  name.indexOf(placeholderPrefix) === 0 || name === 'data-mce-html';
+
+const isInternalAttribute = (name: string): boolean =>
+  name.indexOf('data-mce-') === 0 && !isPlaceholderAttribute(name) && !Obj.has(urlAttributes, name) && name !== 'data-mce-style';
+
+const getRealName = (name: string): string =>
+  name.indexOf(placeholderPrefix) === 0 ? name.substring(placeholderPrefix.length) : name;
+
+const getScheme = (url: string): string | null => {
+  // Browsers ignore whitespace and control characters in URL schemes, so they are ignored here as well
+  // eslint-disable-next-line no-control-regex
+  const match = /^([a-z][a-z0-9+.\-]*):/i.exec(url.replace(/[\s\u0000-\u001F]+/g, ''));
+  return match ? match[1].toLowerCase() : null;
+};
+
+const isAllowedAttribute = (rules: ResolvedRules, node: AstNode, name: string, context: string | undefined): boolean => {
+  if (name === 'data-mce-html') {
+    // The placeholder content can't be checked against the policy, so it's only kept when it wasn't in the incoming content
+    return !Type.isString(context);
+  } else if (rules.attributes === null || isInternalAttribute(name) || name === 'id' && isInternalSpan(node)) {
+    // The bookmarks are found again by their id
+    return true;
+  } else {
+    const globalAttributes = rules.attributes['*'] || {};
+    const elementAttributes = rules.attributes[node.name] || {};
+    const realName = getRealName(name);
+    const attributeName = realName.indexOf('data-mce-') === 0 ? realName.substring('data-mce-'.length) : realName;
+    return Obj.has(globalAttributes, attributeName) || Obj.has(elementAttributes, attributeName);
+  }
+};
+
+const isAllowedUrl = (rules: ResolvedRules, url: string): boolean => {
+  const scheme = getScheme(url);
+  return rules.urlSchemes === null || scheme === null || Obj.has(rules.urlSchemes, scheme);
+};
+
+const sanitizeStyles = (rules: ResolvedRules, schema: Schema, node: AstNode, name: string, report: SanitizationReportItem[]): void => {
+  const styles = Styles({}, schema);
+  const props = styles.parse(node.attr(name));
+  const allowed: Record<string, string> = {};
+
+  Obj.each(props, (value, prop) => {
+    if (Obj.has(rules.cssProperties, prop.toLowerCase())) {
+      allowed[prop] = value;
+    } else if (name !== 'data-mce-style') {
+      report.push({ type: 'style', element: node.name, name: prop, value, path: getPath(node), reason: 'css-property-not-allowed' });
+    }
+  });
+
+  const css = styles.serialize(allowed, node.name);
+  node.attr(name, css.length > 0 ? css : null);
+};
+
+const sanitizeAttributes = (rules: ResolvedRules, schema: Schema, node: AstNode, context: string | undefined, report: SanitizationReportItem[]): void => {
+  Arr.each(Arr.map(node.attributes || [], (attr) => attr.name), (name) => {
+    const value = node.attr(name);
+    const realName = getRealName(name);
+    if (!isAllowedAttribute(rules, node, name, context)) {
+      node.attr(name, null);
+      report.push({ type: 'attribute', element: node.name, name, value, path: getPath(node), reason: 'attribute-not-allowed' });
+    } else if (Obj.has(urlAttributes, realName) && !isAllowedUrl(rules, value)) {
+      node.attr(name, null);
+      report.push({ type: 'attribute', element: node.name, name, value, path: getPath(node), reason: 'url-scheme-not-allowed' });
+    } else if (rules.cssProperties !== null && Arr.contains(styleAttributes, realName)) {
+      sanitizeStyles(rules, schema, node, name, report);
+    }
+  });
+};
+
+const removeElement = (schema: Schema, node: AstNode): void => {
+  // Elements with raw text content or without any content don't have children that are worth keeping
+  if (node.shortEnded || Obj.has(schema.getSpecialElements(), node.name)) {
+    node.remove();
+  } else {
+    node.unwrap();
+  }
+};
+
+const getElements = (root: AstNode): AstNode[] => {
+  const elements: AstNode[] = [];
+  for (let node = root.firstChild; node; node = node.walk()) {
+    if (node.type === 1) {
+      elements.push(node);
+    }
+  }
+  return elements;
+};
+
+const isAttached = (root: AstNode, node: AstNode): boolean => {
+  let parent = node.parent;
+  while (parent && parent !== root) {
+    parent = parent.parent;
+  }
+  return parent === root;
+};
+
+/*
+ * Applies the sanitization policy to all elements below the root node and returns the removed elements, attributes
+ * and styles. Elements that are not allowed are unwrapped so their text content is kept.
+ */
+const sanitize = (schema: Schema, root: AstNode, policy: SanitizationPolicy, context?: string): SanitizationReport => {
+  const rules = resolveRules(policy, context);
+  const items: SanitizationReportItem[] = [];
+
+  Arr.each(getElements(root), (node) => {
+    // The node may have been removed along with an element that wasn't allowed
+    if (!isAttached(root, node)) {
+      return;
+    }
+
+    if (rules.elements !== null && !Obj.has(rules.elements, node.name) && !isInternalSpan(node)) {
+      items.push({ type: 'element', element: node.name, name: node.name, path: getPath(node.parent), reason: 'element-not-allowed' });
+      removeElement(schema, node);
+    } else {
+      sanitizeAttributes(rules, schema, node, context, items);
+    }
+  });
+
+  return { context, items };
+};
+
+export {
+  sanitize
+};
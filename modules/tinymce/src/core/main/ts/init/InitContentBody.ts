@@ -18,9 +18,10 @@ import EditorUpload from '../api/EditorUpload';
 import * as Events from '../api/Events';
 import Formatter from '../api/Formatter';
 import DomParser, { DomParserSettings } from '../api/html/DomParser';
-import AstNode from '../api/html/Node';
 import Schema, { SchemaSettings } from '../api/html/Schema';
 import * as Options from '../api/Options';
+import StyleManager from '../api/StyleManager';
+import TextPatterns from '../api/TextPatterns';
 import UndoManager from '../api/UndoManager';
 import Delay from '../api/util/Delay';
 import Tools from '../api/util/Tools';
@@ -28,9 +29,11 @@ import * as CaretFinder from '../caret/CaretFinder';
 import CaretPosition from '../caret/CaretPosition';
 import * as Placeholder from '../content/Placeholder';
 import * as DeleteCommands from '../delete/DeleteCommands';
+import * as ContentDelta from '../delta/ContentDelta';
 import * as NodeType from '../dom/NodeType';
 import * as TouchEvents from '../events/TouchEvents';
 import * as ForceBlocks from '../ForceBlocks';
+import * as ContentFilters from '../html/ContentFilters';
 import * as NonEditableFilter from '../html/NonEditableFilter';
 import * as KeyboardOverrides from '../keyboard/KeyboardOverrides';
 import { NodeChange } from '../NodeChange';
@@ -39,11 +42,8 @@ import * as DetailsElement from '../selection/DetailsElement';
 import * as MultiClickSelection from '../selection/MultiClickSelection';
 import { hasAnyRanges } from '../selection/SelectionUtils';
 import SelectionOverrides from '../SelectionOverrides';
-import * as TextPattern from '../textpatterns/TextPatterns';
 import Quirks from '../util/Quirks';
 
-declare const escape: any;
-
 const DOM = DOMUtils.DOM;
 
 const appendStyle = (editor: Editor, text: string) => {
@@ -84,6 +84,7 @@ const mkParserSettings = (editor: Editor): DomParserSettings => {
     preserve_cdata: getOption('preserve_cdata'),
     remove_trailing_brs: getOption('remove_trailing_brs'),
     inline_styles: getOption('inline_styles'),
+    sanitization_policy: getOption('sanitization_policy'),
     root_name: getRootName(editor),
     validate: true,
     blob_cache: blobCache,
@@ -125,7 +126,12 @@ const mkSerializerSettings = (editor: Editor): DomSerializerSettings => {
       entity_encoding: getOption('entity_encoding'),
       indent: getOption('indent'),
       indent_after: getOption('indent_after'),
-      indent_before: getOption('indent_before')
+      indent_before: getOption('indent_before'),
+      pretty_print: getOption('pretty_print'),
+      pretty_print_indent_size: getOption('pretty_print_indent_size'),
+      pretty_print_max_width: getOption('pretty_print_max_width'),
+      pretty_print_preserve: getOption('pretty_print_preserve'),
+      pretty_print_wrap_attributes: getOption('pretty_print_wrap_attributes')
     })
   };
 };
@@ -133,79 +139,9 @@ const mkSerializerSettings = (editor: Editor): DomSerializerSettings => {
 const createParser = (editor: Editor): DomParser => {
   const parser = DomParser(mkParserSettings(editor), editor.schema);
 
-  // Convert src and href into data-mce-src, data-mce-href and data-mce-style
-  parser.addAttributeFilter('src,href,style,tabindex', (nodes, name) => {
-    let i = nodes.length, node: AstNode, value: string;
-    const dom = editor.dom;
-    const internalName = 'data-mce-' + name;
-
-    while (i--) {
-      node = nodes[i];
-      value = node.attr(name);
-
-      // Add internal attribute if we need to we don't on a refresh of the document
-      if (value && !node.attr(internalName)) {
-        // Don't duplicate these since they won't get modified by any browser
-        if (value.indexOf('data:') === 0 || value.indexOf('blob:') === 0) {
-          continue;
-        }
-
-        if (name === 'style') {
-          value = dom.serializeStyle(dom.parseStyle(value), node.name);
-
-          if (!value.length) {
-            value = null;
-          }
-
-          node.attr(internalName, value);
-          node.attr(name, value);
-        } else if (name === 'tabindex') {
-          node.attr(internalName, value);
-          node.attr(name, null);
-        } else {
-          node.attr(internalName, editor.convertURL(value, name, node.name));
-        }
-      }
-    }
-  });
-
-  // Keep scripts from executing
-  parser.addNodeFilter('script', (nodes: AstNode[]) => {
-    let i = nodes.length;
-
-    while (i--) {
-      const node = nodes[i];
-      const type = node.attr('type') || 'no/type';
-      if (type.indexOf('mce-') !== 0) {
-        node.attr('type', 'mce-' + type);
-      }
-    }
-  });
-
-  if (editor.options.get('preserve_cdata')) {
-    parser.addNodeFilter('#cdata', (nodes: AstNode[]) => {
-      let i = nodes.length;
-
-      while (i--) {
-        const node = nodes[i];
-        node.type = 8;
-        node.name = '#comment';
-        node.value = '[CDATA[' + editor.dom.encode(node.value) + ']]';
-      }
-    });
-  }
-
-  parser.addNodeFilter('p,h1,h2,h3,h4,h5,h6,div', (nodes: AstNode[]) => {
-    let i = nodes.length;
-    const nonEmptyElements = editor.schema.getNonEmptyElements();
-
-    while (i--) {
-      const node = nodes[i];
-
-      if (node.isEmpty(nonEmptyElements) && node.getAll('br').length === 0) {
-        node.append(new AstNode('br', 1)).shortEnded = true;
-      }
-    }
+  ContentFilters.register(parser, editor.dom, {
+    convertURL: (url, name, elm) => editor.convertURL(url, name, elm),
+    preserveCdata: editor.options.get('preserve_cdata')
   });
 
   return parser;
@@ -342,11 +278,7 @@ const preInit = (editor: Editor) => {
   const protect = Options.getProtect(editor);
   if (protect) {
     editor.on('BeforeSetContent', (e) => {
-      Tools.each(protect, (pattern) => {
-        e.content = e.content.replace(pattern, (str) => {
-          return '<!--mce:protected ' + escape(str) + '-->';
-        });
-      });
+      e.content = ContentFilters.protect(protect, e.content);
     });
   }
 
@@ -427,6 +359,8 @@ const contentBodyLoaded = (editor: Editor): void => {
   editor.selection = EditorSelection(editor.dom, editor.getWin(), editor.serializer, editor);
   editor.annotator = Annotator(editor);
   editor.formatter = Formatter(editor);
+  editor.styleManager = StyleManager(editor);
+  editor.textPatterns = TextPatterns(editor);
   editor.undoManager = UndoManager(editor);
   editor._nodeChangeDispatcher = new NodeChange(editor);
   editor._selectionOverrides = SelectionOverrides(editor);
@@ -434,10 +368,10 @@ const contentBodyLoaded = (editor: Editor): void => {
   TouchEvents.setup(editor);
   DetailsElement.setup(editor);
   NonEditableFilter.setup(editor);
+  ContentDelta.setup(editor);
 
   if (!Rtc.isRtc(editor)) {
     MultiClickSelection.setup(editor);
-    TextPattern.setup(editor);
   }
 
   const caret = KeyboardOverrides.setup(editor);
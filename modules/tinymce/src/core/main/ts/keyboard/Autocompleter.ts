@@ -5,19 +5,26 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Optional, Singleton, Throttler, Thunk, Type } from '@ephox/katamari';
+import { Arr, Optional, Singleton, Throttler, Thunk, Type } from '@ephox/katamari';
 
 import Editor from '../api/Editor';
-import { fireAutocompleterEnd, fireAutocompleterStart, fireAutocompleterUpdate } from '../api/Events';
+import { fireAutocompleterEnd, fireAutocompleterLoading, fireAutocompleterStart, fireAutocompleterUpdate } from '../api/Events';
 import { AutocompleteContext, getContext } from '../autocomplete/AutocompleteContext';
 import { AutocompleteLookupInfo, lookup, lookupWithContext } from '../autocomplete/AutocompleteLookup';
 import * as Autocompleters from '../autocomplete/Autocompleters';
-import { AutocompleterReloadArgs } from '../autocomplete/AutocompleteTypes';
+import { AutocompleteLookupData, AutocompleterReloadArgs } from '../autocomplete/AutocompleteTypes';
 import * as Rtc from '../Rtc';
 
 interface ActiveAutocompleter {
   readonly triggerChar: string;
   readonly matchLength: number;
+  // The results of the first lookup may be aborted, so the start event is fired for the first results that are shown
+  readonly started: boolean;
+}
+
+interface ActiveLookup {
+  readonly info: AutocompleteLookupInfo;
+  readonly lookupData: AutocompleteLookupData[];
 }
 
 const setupEditorInput = (editor: Editor, load: (fetchOptions?: Record<string, any>) => void) => {
@@ -44,10 +51,35 @@ const setupEditorInput = (editor: Editor, load: (fetchOptions?: Record<string, a
 
 export const setup = (editor: Editor): void => {
   const activeAutocompleter = Singleton.value<ActiveAutocompleter>();
+  const activeLookup = Singleton.value<ActiveLookup>();
+  const pendingRequest = Singleton.value<AbortController>();
 
   const isActive = activeAutocompleter.isSet;
 
+  const abortPendingRequest = () => {
+    pendingRequest.on((controller) => controller.abort());
+    pendingRequest.clear();
+  };
+
+  // Only the results of the latest request are used, so any request that's still pending is aborted
+  const startRequest = (): AbortSignal => {
+    abortPendingRequest();
+    const controller = new window.AbortController();
+    pendingRequest.set(controller);
+    return controller.signal;
+  };
+
+  const finishRequest = (signal: AbortSignal) => {
+    pendingRequest.on((controller) => {
+      if (controller.signal === signal) {
+        pendingRequest.clear();
+      }
+    });
+  };
+
   const cancelIfNecessary = () => {
+    abortPendingRequest();
+    activeLookup.clear();
     if (isActive()) {
       Rtc.removeAutocompleterDecoration(editor);
       fireAutocompleterEnd(editor);
@@ -55,6 +87,20 @@ export const setup = (editor: Editor): void => {
     }
   };
 
+  // Fetches that reject because they were aborted aren't errors. Otherwise the loading state is ended by showing
+  // the last results again, or by closing the autocompleter if no results have been shown yet.
+  const onRequestError = (signal: AbortSignal) => (err: unknown) => {
+    if (!signal.aborted) {
+      finishRequest(signal);
+      // eslint-disable-next-line no-console
+      console.error(err);
+      activeLookup.get().fold(
+        cancelIfNecessary,
+        ({ lookupData }) => fireAutocompleterUpdate(editor, { lookupData })
+      );
+    }
+  };
+
   const commenceIfNecessary = (context: AutocompleteContext) => {
     if (!isActive()) {
       // Create the wrapper
@@ -63,12 +109,9 @@ export const setup = (editor: Editor): void => {
       // store the element/context
       activeAutocompleter.set({
         triggerChar: context.triggerChar,
-        matchLength: context.text.length
+        matchLength: context.text.length,
+        started: false
       });
-
-      return true;
-    } else {
-      return false;
     }
   };
 
@@ -78,20 +121,28 @@ export const setup = (editor: Editor): void => {
   // first time, and after that it's value is stored.
   const getAutocompleters: () => Autocompleters.AutocompleterDatabase = Thunk.cached(() => Autocompleters.register(editor));
 
-  const doLookup = (fetchOptions?: Record<string, any>): Optional<AutocompleteLookupInfo> =>
+  const doLookup = (signal: AbortSignal, fetchOptions?: Record<string, any>): Optional<AutocompleteLookupInfo> =>
     activeAutocompleter.get().map(
       (ac) => getContext(editor.dom, editor.selection.getRng(), ac.triggerChar)
-        .bind((newContext) => lookupWithContext(editor, getAutocompleters, newContext, fetchOptions))
-    ).getOrThunk(() => lookup(editor, getAutocompleters));
+        .bind((newContext) => lookupWithContext(editor, getAutocompleters, newContext, fetchOptions ?? {}, signal))
+    ).getOrThunk(() => lookup(editor, getAutocompleters, signal));
 
   const load = (fetchOptions?: Record<string, any>) => {
-    doLookup(fetchOptions).fold(
+    const signal = startRequest();
+    doLookup(signal, fetchOptions).fold(
       cancelIfNecessary,
       (lookupInfo) => {
-        const wasNecessary = commenceIfNecessary(lookupInfo.context);
+        commenceIfNecessary(lookupInfo.context);
+        fireAutocompleterLoading(editor);
 
         // Wait for the results to return and then display the menu
         lookupInfo.lookupData.then((lookupData) => {
+          // The results of an aborted request are outdated, so they're ignored
+          if (signal.aborted) {
+            return;
+          }
+          finishRequest(signal);
+
           // Lookup the active autocompleter to make sure it's still active, if it isn't then do nothing
           activeAutocompleter.get().map((ac) => {
             const context = lookupInfo.context;
@@ -105,10 +156,12 @@ export const setup = (editor: Editor): void => {
               } else {
                 activeAutocompleter.set({
                   ...ac,
-                  matchLength: context.text.length
+                  matchLength: context.text.length,
+                  started: true
                 });
+                activeLookup.set({ info: lookupInfo, lookupData });
 
-                if (wasNecessary) {
+                if (!ac.started) {
                   fireAutocompleterStart(editor, { lookupData });
                 } else {
                   fireAutocompleterUpdate(editor, { lookupData });
@@ -116,16 +169,34 @@ export const setup = (editor: Editor): void => {
               }
             }
           });
-        });
+        }, onRequestError(signal));
       }
     );
   };
 
+  const loadMore = () => {
+    const hasMore = (active: ActiveLookup) => Arr.exists(active.lookupData, (data) => data.hasMore);
+    activeLookup.get().filter(hasMore).each(({ info, lookupData }) => {
+      const signal = startRequest();
+      fireAutocompleterLoading(editor);
+
+      info.loadMore(lookupData, signal).then((newLookupData) => {
+        if (!signal.aborted) {
+          finishRequest(signal);
+          activeLookup.set({ info, lookupData: newLookupData });
+          fireAutocompleterUpdate(editor, { lookupData: newLookupData });
+        }
+      }, onRequestError(signal));
+    });
+  };
+
   editor.addCommand('mceAutocompleterReload', (_ui, value: AutocompleterReloadArgs) => {
     const fetchOptions: Record<string, any> = Type.isObject(value) ? value.fetchOptions : {};
     load(fetchOptions);
   });
 
+  editor.addCommand('mceAutocompleterLoadMore', loadMore);
+
   editor.addCommand('mceAutocompleterClose', cancelIfNecessary);
 
   setupEditorInput(editor, load);
@@ -0,0 +1,271 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+const punctuationRegExp = /^[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]$/;
+const entityRegExp = /^&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z][a-zA-Z0-9]{1,31});/;
+const autolinkRegExp = /^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^<>\s]*)>/;
+const emailAutolinkRegExp = /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/;
+const inlineHtmlRegExp = /^(?:<[a-zA-Z][a-zA-Z0-9-]*(?:\s+[a-zA-Z_:][a-zA-Z0-9_.:-]*(?:\s*=\s*(?:[^\s"'=<>`]+|'[^']*'|"[^"]*"))?)*\s*\/?>|<\/[a-zA-Z][a-zA-Z0-9-]*\s*>|<!--[\s\S]*?-->)/;
+const linkDestinationRegExp = /^\(\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?\s*\)/;
+
+const isWhitespace = (chr: string | undefined): boolean => chr === undefined || /\s/.test(chr);
+const isPunctuation = (chr: string | undefined): boolean => chr !== undefined && punctuationRegExp.test(chr);
+const isAlphaNumeric = (chr: string | undefined): boolean => chr !== undefined && /[a-zA-Z0-9]/.test(chr);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Encodes text for output while keeping any entity references the author wrote intact
+const encodeText = (text: string): string =>
+  text.replace(/[<>"]|&(?:#\d{1,7};|#[xX][0-9a-fA-F]{1,6};|[a-zA-Z][a-zA-Z0-9]{1,31};)?/g, (match) => {
+    if (match.length > 1) {
+      return match;
+    } else {
+      return escapeHtml(match);
+    }
+  });
+
+const unescapeBackslashes = (text: string): string => text.replace(/\\([!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~])/g, '$1');
+
+const encodeAttribute = (text: string): string => encodeText(unescapeBackslashes(text));
+
+const findCodeSpanEnd = (text: string, start: number, length: number): number => {
+  let index = start;
+  while (index < text.length) {
+    const next = text.indexOf('`', index);
+    if (next === -1) {
+      return -1;
+    }
+
+    let end = next;
+    while (text.charAt(end) === '`') {
+      end++;
+    }
+
+    if (end - next === length) {
+      return next;
+    }
+    index = end;
+  }
+  return -1;
+};
+
+const getRunLength = (text: string, index: number, chr: string): number => {
+  let end = index;
+  while (text.charAt(end) === chr) {
+    end++;
+  }
+  return end - index;
+};
+
+const isLeftFlanking = (text: string, start: number, end: number): boolean => {
+  const before = text.charAt(start - 1) || undefined;
+  const after = text.charAt(end) || undefined;
+  return !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+};
+
+const isRightFlanking = (text: string, start: number, end: number): boolean => {
+  const before = text.charAt(start - 1) || undefined;
+  const after = text.charAt(end) || undefined;
+  return !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+};
+
+const canOpen = (text: string, start: number, end: number, chr: string): boolean => {
+  const left = isLeftFlanking(text, start, end);
+  // Underscores are not allowed to start intraword emphasis
+  return chr === '_' ? left && !isAlphaNumeric(text.charAt(start - 1)) : left;
+};
+
+const canClose = (text: string, start: number, end: number, chr: string): boolean => {
+  const right = isRightFlanking(text, start, end);
+  return chr === '_' ? right && !isAlphaNumeric(text.charAt(end)) : right;
+};
+
+// Finds the delimiter run that closes an opening run, skipping over escapes and code spans
+const findClosingDelimiter = (text: string, start: number, chr: string, length: number): number => {
+  let index = start;
+  while (index < text.length) {
+    const current = text.charAt(index);
+    if (current === '\\') {
+      index += 2;
+    } else if (current === '`') {
+      const tickLength = getRunLength(text, index, '`');
+      const end = findCodeSpanEnd(text, index + tickLength, tickLength);
+      index = end === -1 ? index + tickLength : end + tickLength;
+    } else if (current === chr) {
+      const runLength = getRunLength(text, index, chr);
+      const runEnd = index + runLength;
+      if (runLength >= length && index > start && canClose(text, index, runEnd, chr)) {
+        // A longer closing run closes the outermost delimiter, so match against the end of the run
+        return runEnd - length;
+      }
+      index = runEnd;
+    } else {
+      index++;
+    }
+  }
+  return -1;
+};
+
+const findClosingBracket = (text: string, start: number): number => {
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const chr = text.charAt(index);
+    if (chr === '\\') {
+      index++;
+    } else if (chr === '`') {
+      const tickLength = getRunLength(text, index, '`');
+      const end = findCodeSpanEnd(text, index + tickLength, tickLength);
+      index = end === -1 ? index + tickLength - 1 : end + tickLength - 1;
+    } else if (chr === '[') {
+      depth++;
+    } else if (chr === ']') {
+      if (depth === 0) {
+        return index;
+      }
+      depth--;
+    }
+  }
+  return -1;
+};
+
+const parseLinkDestination = (text: string): { href: string; title: string; length: number } | null => {
+  const match = linkDestinationRegExp.exec(text);
+  if (match) {
+    const rawHref = match[1].replace(/^<([\s\S]*)>$/, '$1');
+    const rawTitle = match[2] ? match[2].slice(1, -1) : '';
+    return { href: rawHref, title: rawTitle, length: match[0].length };
+  } else {
+    return null;
+  }
+};
+
+const emphasisTags: Record<string, string[]> = {
+  '*': [ 'em', 'strong' ],
+  '_': [ 'em', 'strong' ],
+  '~': [ 'del', 'del' ]
+};
+
+/**
+ * Converts the inline markdown syntax of a block (emphasis, code spans, links, images, autolinks,
+ * hard line breaks and raw inline html) into html.
+ */
+const parseInline = (text: string): string => {
+  let html = '';
+  let index = 0;
+
+  while (index < text.length) {
+    const chr = text.charAt(index);
+    const rest = text.slice(index);
+
+    if (chr === '\\') {
+      const next = text.charAt(index + 1);
+      if (next === '\n') {
+        html += '<br>\n';
+        index += 2;
+        continue;
+      } else if (isPunctuation(next)) {
+        html += escapeHtml(next);
+        index += 2;
+        continue;
+      }
+    } else if (chr === '`') {
+      const tickLength = getRunLength(text, index, '`');
+      const end = findCodeSpanEnd(text, index + tickLength, tickLength);
+      if (end !== -1) {
+        const code = text.slice(index + tickLength, end).replace(/\n/g, ' ');
+        const stripped = /^ [\s\S]*[^ ][\s\S]* $/.test(code) ? code.slice(1, -1) : code;
+        html += '<code>' + escapeHtml(stripped) + '</code>';
+        index = end + tickLength;
+      } else {
+        html += text.slice(index, index + tickLength);
+        index += tickLength;
+      }
+      continue;
+    } else if (chr === '<') {
+      const autolink = autolinkRegExp.exec(rest);
+      const emailLink = emailAutolinkRegExp.exec(rest);
+      const inlineHtml = inlineHtmlRegExp.exec(rest);
+      if (autolink) {
+        html += '<a href="' + encodeText(autolink[1]) + '">' + encodeText(autolink[1]) + '</a>';
+        index += autolink[0].length;
+        continue;
+      } else if (emailLink) {
+        html += '<a href="mailto:' + encodeText(emailLink[1]) + '">' + encodeText(emailLink[1]) + '</a>';
+        index += emailLink[0].length;
+        continue;
+      } else if (inlineHtml) {
+        html += inlineHtml[0];
+        index += inlineHtml[0].length;
+        continue;
+      }
+    } else if (chr === '!' && text.charAt(index + 1) === '[' || chr === '[') {
+      const isImage = chr === '!';
+      const labelStart = index + (isImage ? 2 : 1);
+      const labelEnd = findClosingBracket(text, labelStart);
+      if (labelEnd !== -1) {
+        const destination = parseLinkDestination(text.slice(labelEnd + 1));
+        if (destination) {
+          const label = text.slice(labelStart, labelEnd);
+          const titleAttr = destination.title ? ' title="' + encodeAttribute(destination.title) + '"' : '';
+          if (isImage) {
+            const alt = label.replace(/[*_~`]/g, '');
+            html += '<img src="' + encodeAttribute(destination.href) + '" alt="' + encodeAttribute(alt) + '"' + titleAttr + '>';
+          } else {
+            html += '<a href="' + encodeAttribute(destination.href) + '"' + titleAttr + '>' + parseInline(label) + '</a>';
+          }
+          index = labelEnd + 1 + destination.length;
+          continue;
+        }
+      }
+    } else if (chr === '*' || chr === '_' || chr === '~') {
+      const runLength = getRunLength(text, index, chr);
+      const runEnd = index + runLength;
+      // Strikethrough only supports the double tilde syntax
+      const isValidRun = chr !== '~' || runLength === 2;
+      if (isValidRun && canOpen(text, index, runEnd, chr)) {
+        const length = Math.min(runLength, chr === '~' ? 2 : 3);
+        const close = findClosingDelimiter(text, runEnd, chr, length);
+        if (close !== -1) {
+          const inner = parseInline(text.slice(index + length, close));
+          const tags = emphasisTags[chr];
+          const wrapped = length === 3 ? '<em><strong>' + inner + '</strong></em>' : '<' + tags[length - 1] + '>' + inner + '</' + tags[length - 1] + '>';
+          html += text.slice(index, runEnd - length) + wrapped;
+          index = close + length;
+          continue;
+        }
+      }
+      html += text.slice(index, runEnd);
+      index = runEnd;
+      continue;
+    } else if (chr === '&') {
+      const entity = entityRegExp.exec(rest);
+      if (entity) {
+        html += entity[0];
+        index += entity[0].length;
+        continue;
+      }
+    } else if (chr === '\n') {
+      // Two or more trailing spaces before a line ending is a hard line break
+      const isHardBreak = / {2,}$/.test(html);
+      html = html.replace(/ +$/, '') + (isHardBreak ? '<br>\n' : '\n');
+      index++;
+      continue;
+    }
+
+    html += escapeHtml(chr);
+    index++;
+  }
+
+  return html;
+};
+
+export {
+  parseInline,
+  escapeHtml,
+  encodeText
+};
@@ -0,0 +1,332 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr } from '@ephox/katamari';
+
+import { escapeHtml, parseInline } from './InlineParser';
+
+type Alignment = 'left' | 'center' | 'right' | '';
+
+interface ListMarker {
+  readonly ordered: boolean;
+  readonly bullet: string;
+  readonly start: number;
+  readonly indent: number;
+}
+
+const blankRegExp = /^[ \t]*$/;
+const fenceRegExp = /^( {0,3})(`{3,}|~{3,})[ \t]*([^`\s]*)[^`]*$/;
+const atxHeadingRegExp = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const setextHeadingRegExp = /^ {0,3}(=+|-+)[ \t]*$/;
+const thematicBreakRegExp = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const blockquoteRegExp = /^ {0,3}> ?/;
+const listItemRegExp = /^( {0,3})([*+-]|(\d{1,9})[.)])(?:([ \t]+)(.*)|[ \t]*$)/;
+const indentedCodeRegExp = /^(?: {4}|\t)/;
+const tableDelimiterRegExp = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const htmlBlockNames = [
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'center', 'col', 'colgroup', 'dd', 'details', 'dialog', 'dir', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h[1-6]', 'head', 'header', 'hr', 'html', 'iframe', 'legend', 'li', 'link', 'main', 'menu',
+  'nav', 'ol', 'optgroup', 'option', 'p', 'param', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'title', 'tr', 'ul',
+  'video', 'audio', 'script', 'style'
+];
+const htmlBlockRegExp = new RegExp('^ {0,3}(?:<!--|<\\/?(?:' + htmlBlockNames.join('|') + ')(?=[\\s/>]|$))', 'i');
+
+const isBlank = (line: string): boolean => blankRegExp.test(line);
+
+const expandTabs = (line: string): string => line.replace(/^\t+/, (tabs) => '    '.repeat(tabs.length));
+
+const getListMarker = (line: string): ListMarker | null => {
+  const match = listItemRegExp.exec(expandTabs(line));
+  if (match) {
+    const spacing = match[4] || ' ';
+    // Content indented 5 or more spaces after the marker is an indented code block, so only the first space counts
+    const padding = spacing.length > 4 ? 1 : spacing.length;
+    return {
+      ordered: match[3] !== undefined,
+      bullet: match[3] !== undefined ? match[2].slice(-1) : match[2],
+      start: match[3] !== undefined ? parseInt(match[3], 10) : 1,
+      indent: match[1].length + match[2].length + padding
+    };
+  } else {
+    return null;
+  }
+};
+
+const splitTableRow = (line: string): string[] => {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1');
+  const cells: string[] = [];
+  let current = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const chr = trimmed.charAt(i);
+    if (chr === '\\' && trimmed.charAt(i + 1) === '|') {
+      current += '|';
+      i++;
+    } else if (chr === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += chr;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const getAlignment = (cell: string): Alignment => {
+  const left = cell.charAt(0) === ':';
+  const right = cell.charAt(cell.length - 1) === ':';
+  if (left && right) {
+    return 'center';
+  } else if (right) {
+    return 'right';
+  } else if (left) {
+    return 'left';
+  } else {
+    return '';
+  }
+};
+
+const isTableStart = (lines: string[], index: number): boolean => {
+  const header = lines[index];
+  const delimiter = lines[index + 1];
+  return delimiter !== undefined && header.indexOf('|') !== -1 && tableDelimiterRegExp.test(delimiter) &&
+    splitTableRow(header).length === splitTableRow(delimiter).length;
+};
+
+// Checks if a line starts a block that is able to interrupt a paragraph
+const interruptsParagraph = (line: string): boolean => {
+  const marker = getListMarker(line);
+  return fenceRegExp.test(line) || atxHeadingRegExp.test(line) || thematicBreakRegExp.test(line) ||
+    blockquoteRegExp.test(line) || htmlBlockRegExp.test(line) ||
+    (marker !== null && !isBlank(line.slice(marker.indent)) && (!marker.ordered || marker.start === 1));
+};
+
+const renderCell = (tag: string, content: string, align: Alignment): string => {
+  const style = align ? ` style="text-align: ${align};"` : '';
+  return `<${tag}${style}>${parseInline(content)}</${tag}>`;
+};
+
+const parseTable = (lines: string[], start: number): { html: string; end: number } => {
+  const headers = splitTableRow(lines[start]);
+  const alignments = Arr.map(splitTableRow(lines[start + 1]), getAlignment);
+  const rows: string[][] = [];
+
+  let index = start + 2;
+  while (index < lines.length && !isBlank(lines[index]) && !interruptsParagraph(lines[index])) {
+    rows.push(splitTableRow(lines[index]));
+    index++;
+  }
+
+  const headerHtml = Arr.map(headers, (cell, i) => renderCell('th', cell, alignments[i])).join('');
+  const bodyHtml = Arr.map(rows, (row) => {
+    const cells = Arr.map(headers, (_header, i) => renderCell('td', row[i] || '', alignments[i]));
+    return '<tr>' + cells.join('') + '</tr>';
+  }).join('\n');
+
+  const html = '<table>\n<thead>\n<tr>' + headerHtml + '</tr>\n</thead>\n' +
+    (rows.length > 0 ? '<tbody>\n' + bodyHtml + '\n</tbody>\n' : '') + '</table>';
+
+  return { html, end: index };
+};
+
+const stripIndent = (line: string, indent: number): string => {
+  const expanded = expandTabs(line);
+  const leading = /^ */.exec(expanded)[0].length;
+  return expanded.slice(Math.min(leading, indent));
+};
+
+/**
+ * Parses a list of markdown lines into html block elements. When tight is enabled, paragraphs
+ * are not wrapped in p elements, which is how CommonMark renders the contents of tight list items.
+ */
+const parseBlocks = (lines: string[], tight: boolean = false): string => {
+  const blocks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = fenceRegExp.exec(line);
+    if (fence) {
+      const fenceIndent = fence[1].length;
+      const fenceChars = fence[2];
+      const language = fence[3];
+      const closeRegExp = new RegExp('^ {0,3}' + fenceChars.charAt(0) + '{' + fenceChars.length + ',}[ \\t]*$');
+      const codeLines: string[] = [];
+      index++;
+      while (index < lines.length && !closeRegExp.test(lines[index])) {
+        codeLines.push(stripIndent(lines[index], fenceIndent));
+        index++;
+      }
+      // Skip the closing fence
+      index++;
+      const classAttr = language ? ` class="language-${escapeHtml(language)}"` : '';
+      blocks.push(`<pre${classAttr}><code>` + escapeHtml(codeLines.join('\n')) + '</code></pre>');
+      continue;
+    }
+
+    const heading = atxHeadingRegExp.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push(`<h${level}>` + parseInline(heading[2] || '') + `</h${level}>`);
+      index++;
+      continue;
+    }
+
+    if (thematicBreakRegExp.test(line)) {
+      blocks.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (blockquoteRegExp.test(line)) {
+      const quoteLines: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        const current = lines[index];
+        if (blockquoteRegExp.test(current)) {
+          quoteLines.push(current.replace(blockquoteRegExp, ''));
+        } else if (interruptsParagraph(current)) {
+          break;
+        } else {
+          // Lazy continuation line of a paragraph inside the quote
+          quoteLines.push(current);
+        }
+        index++;
+      }
+      blocks.push('<blockquote>\n' + parseBlocks(quoteLines) + '\n</blockquote>');
+      continue;
+    }
+
+    const marker = getListMarker(line);
+    if (marker) {
+      const items: string[][] = [];
+      let loose = false;
+      let current: string[] = [];
+      let currentIndent = marker.indent;
+      let previousBlank = false;
+
+      while (index < lines.length) {
+        const itemLine = lines[index];
+        const itemMarker = getListMarker(itemLine);
+        const expandedLine = expandTabs(itemLine);
+        const isSameList = itemMarker !== null && itemMarker.ordered === marker.ordered && itemMarker.bullet === marker.bullet &&
+          !(indentedCodeRegExp.test(expandedLine) && current.length > 0) && /^ */.exec(expandedLine)[0].length < currentIndent;
+
+        if (isSameList) {
+          if (current.length > 0) {
+            items.push(current);
+          }
+          loose = loose || previousBlank && items.length > 0;
+          const firstLine = expandedLine.slice(itemMarker.indent);
+          current = [ firstLine ];
+          currentIndent = itemMarker.indent;
+          previousBlank = false;
+        } else if (isBlank(itemLine)) {
+          current.push('');
+          previousBlank = true;
+        } else if (/^ */.exec(expandedLine)[0].length >= currentIndent) {
+          if (previousBlank && Arr.exists(current, (l) => !isBlank(l))) {
+            loose = loose || !Arr.exists(current.slice(1), (l) => getListMarker(l) !== null || indentedCodeRegExp.test(l));
+          }
+          current.push(stripIndent(itemLine, currentIndent));
+          previousBlank = false;
+        } else if (!previousBlank && !interruptsParagraph(itemLine) && !isTableStart(lines, index)) {
+          // Lazy paragraph continuation
+          current.push(itemLine.trim());
+        } else {
+          break;
+        }
+        index++;
+      }
+      items.push(current);
+
+      // Trailing blank lines belong to the surrounding document, not the list
+      const tag = marker.ordered ? 'ol' : 'ul';
+      const startAttr = marker.ordered && marker.start !== 1 ? ` start="${marker.start}"` : '';
+      const itemsHtml = Arr.map(items, (itemLines) => {
+        while (itemLines.length > 0 && isBlank(itemLines[itemLines.length - 1])) {
+          itemLines.pop();
+        }
+        return '<li>' + parseBlocks(itemLines, !loose) + '</li>';
+      });
+      blocks.push(`<${tag}${startAttr}>\n` + itemsHtml.join('\n') + `\n</${tag}>`);
+      continue;
+    }
+
+    if (indentedCodeRegExp.test(line)) {
+      const codeLines: string[] = [];
+      while (index < lines.length && (indentedCodeRegExp.test(lines[index]) || isBlank(lines[index]))) {
+        codeLines.push(stripIndent(lines[index], 4));
+        index++;
+      }
+      while (codeLines.length > 0 && isBlank(codeLines[codeLines.length - 1])) {
+        codeLines.pop();
+      }
+      blocks.push('<pre><code>' + escapeHtml(codeLines.join('\n')) + '</code></pre>');
+      continue;
+    }
+
+    if (htmlBlockRegExp.test(line)) {
+      const htmlLines: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        htmlLines.push(lines[index]);
+        index++;
+      }
+      blocks.push(htmlLines.join('\n'));
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const table = parseTable(lines, index);
+      blocks.push(table.html);
+      index = table.end;
+      continue;
+    }
+
+    // Paragraph, which may turn out to be a setext heading
+    const paragraphLines: string[] = [ line.replace(/^[ \t]+/, '') ];
+    let setextLevel = 0;
+    index++;
+    while (index < lines.length && !isBlank(lines[index])) {
+      const current = lines[index];
+      const setext = setextHeadingRegExp.exec(current);
+      if (setext) {
+        setextLevel = setext[1].charAt(0) === '=' ? 1 : 2;
+        index++;
+        break;
+      } else if (interruptsParagraph(current) || isTableStart(lines, index)) {
+        break;
+      }
+      paragraphLines.push(current.replace(/^[ \t]+/, ''));
+      index++;
+    }
+
+    const content = parseInline(paragraphLines.join('\n').replace(/[ \t]+$/, ''));
+    if (setextLevel > 0) {
+      blocks.push(`<h${setextLevel}>` + content + `</h${setextLevel}>`);
+    } else {
+      blocks.push(tight ? content : '<p>' + content + '</p>');
+    }
+  }
+
+  return blocks.join('\n');
+};
+
+/**
+ * Converts a CommonMark (with GFM tables and strikethrough) document into html.
+ */
+const toHtml = (markdown: string): string =>
+  parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+
+export {
+  toHtml
+};
@@ -0,0 +1,269 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Type } from '@ephox/katamari';
+
+import AstNode from '../api/html/Node';
+import Schema from '../api/html/Schema';
+import HtmlSerializer from '../api/html/Serializer';
+
+type Alignment = 'left' | 'center' | 'right' | '';
+
+const containerElements: Record<string, boolean> = {
+  div: true, section: true, article: true, header: true, footer: true, aside: true, nav: true, main: true, address: true
+};
+
+// Inline elements without a markdown equivalent that are kept as raw inline html
+const htmlInlineElements: Record<string, boolean> = {
+  u: true, sup: true, sub: true, mark: true, ins: true, kbd: true, abbr: true, small: true
+};
+
+const entityRegExp = /&(?:#\d{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z][a-zA-Z0-9]{1,31});/g;
+
+const escapeText = (text: string): string =>
+  text
+    .replace(/[\\`*_[\]<>~]/g, '\\$&')
+    // Underscores within words can't start emphasis so they don't need to be escaped
+    .replace(/([a-zA-Z0-9])\\_(?=[a-zA-Z0-9])/g, '$1_')
+    .replace(entityRegExp, '\\$&')
+    .replace(/\u00a0/g, '&nbsp;');
+
+// Escapes characters at the start of a line that would otherwise be treated as the start of a block
+const escapeLineStart = (text: string): string =>
+  text.replace(/^([ \t]*)(#|>|[-+](?=\s|$)|(\d+)([.)])(?=\s|$))/, (match, indent, _marker, digits, delimiter) =>
+    digits ? indent + digits + '\\' + delimiter : indent + '\\' + match.slice(indent.length)
+  );
+
+const escapeAttribute = (text: string): string => text.replace(/[\\"]/g, '\\$&');
+
+const escapeDestination = (url: string): string => /[\s()<>]/.test(url) ? '<' + url.replace(/[<>]/g, encodeURIComponent) + '>' : url;
+
+const serializeDestination = (url: string, title: string | undefined): string =>
+  escapeDestination(url) + (title ? ' "' + escapeAttribute(title) + '"' : '');
+
+const getLongestRun = (text: string, chr: string): number =>
+  Arr.foldl(text.match(new RegExp('\\' + chr + '+', 'g')) || [], (acc, run) => Math.max(acc, run.length), 0);
+
+const wrapInline = (delimiter: string, content: string): string => {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content);
+  return match[2].length === 0 ? content : match[1] + delimiter + match[2] + delimiter + match[3];
+};
+
+const getTextContent = (node: AstNode): string => {
+  if (node.type === 3) {
+    return node.value;
+  } else if (node.name === 'br') {
+    return '\n';
+  } else {
+    return Arr.map(node.children(), getTextContent).join('');
+  }
+};
+
+const serializeCodeSpan = (node: AstNode): string => {
+  const code = getTextContent(node).replace(/\n/g, ' ');
+  const ticks = '`'.repeat(getLongestRun(code, '`') + 1);
+  const padding = /^`|`$|^ .* $/.test(code) ? ' ' : '';
+  return code.length > 0 ? ticks + padding + code + padding + ticks : '';
+};
+
+const getAlignment = (cell: AstNode): Alignment => {
+  const style = cell.attr('style') || '';
+  const match = /text-align:\s*(left|center|right)/.exec(style);
+  const align = match ? match[1] : cell.attr('align');
+  return align === 'left' || align === 'center' || align === 'right' ? align : '';
+};
+
+const indentLines = (text: string, firstPrefix: string, restPrefix: string): string =>
+  Arr.map(text.split('\n'), (line, i) => {
+    if (i === 0) {
+      return firstPrefix + line;
+    } else {
+      return line.length > 0 ? restPrefix + line : line;
+    }
+  }).join('\n');
+
+const MarkdownSerializer = (schema: Schema) => {
+  const blockElements = schema.getBlockElements();
+  const htmlSerializer = HtmlSerializer({ validate: false }, schema);
+
+  const isBlock = (node: AstNode): boolean => node.type === 1 && Type.isNonNullable(blockElements[node.name]);
+
+  const serializeInlineChildren = (node: AstNode, inTable: boolean): string =>
+    Arr.map(node.children(), (child) => serializeInline(child, inTable)).join('');
+
+  const serializeInline = (node: AstNode, inTable: boolean): string => {
+    if (node.type === 3) {
+      const text = escapeText(node.value.replace(/\s+/g, ' '));
+      return inTable ? text.replace(/\|/g, '\\|') : text;
+    } else if (node.type !== 1) {
+      return '';
+    }
+
+    const content = () => serializeInlineChildren(node, inTable);
+
+    switch (node.name) {
+      case 'strong':
+      case 'b':
+        return wrapInline('**', content());
+      case 'em':
+      case 'i':
+        return wrapInline('*', content());
+      case 's':
+      case 'del':
+      case 'strike':
+        return wrapInline('~~', content());
+      case 'code':
+        return serializeCodeSpan(node);
+      case 'br':
+        return inTable ? '<br>' : '\\\n';
+      case 'img':
+        return '![' + escapeText(node.attr('alt') || '') + '](' + serializeDestination(node.attr('src') || '', node.attr('title')) + ')';
+      case 'a':
+        return node.attr('href') ? '[' + content() + '](' + serializeDestination(node.attr('href'), node.attr('title')) + ')' : content();
+      default:
+        if (htmlInlineElements[node.name]) {
+          return '<' + node.name + '>' + content() + '</' + node.name + '>';
+        } else if (node.shortEnded) {
+          return htmlSerializer.serialize(node);
+        } else {
+          return content();
+        }
+    }
+  };
+
+  const serializeParagraph = (nodes: AstNode[]): string => {
+    const text = Arr.map(nodes, (node) => serializeInline(node, false)).join('');
+    // Line breaks at the end of a block are not rendered so don't output them
+    const trimmed = text.replace(/^[ \t]+/, '').replace(/(?:\s|\\\n)+$/, '');
+    return Arr.map(trimmed.split('\n'), escapeLineStart).join('\n');
+  };
+
+  const serializeCodeBlock = (node: AstNode): string => {
+    const codeNode = node.firstChild && node.firstChild === node.lastChild && node.firstChild.name === 'code' ? node.firstChild : node;
+    const languageClass = /\blanguage-([^\s]+)/.exec(node.attr('class') || codeNode.attr('class') || '');
+    const code = getTextContent(node).replace(/\n$/, '');
+    const fence = '`'.repeat(Math.max(3, getLongestRun(code, '`') + 1));
+    return fence + (languageClass ? languageClass[1] : '') + '\n' + code + '\n' + fence;
+  };
+
+  const serializeList = (node: AstNode): string => {
+    const ordered = node.name === 'ol';
+    const start = ordered ? parseInt(node.attr('start') || '1', 10) : 1;
+    const items = Arr.filter(node.children(), (child) => child.name === 'li');
+    const hasParagraphs = Arr.exists(items, (item) => Arr.exists(item.children(), (child) => child.name === 'p'));
+
+    return Arr.map(items, (item, i) => {
+      const marker = ordered ? (start + i) + '. ' : '- ';
+      const content = serializeBlocks(item, hasParagraphs ? '\n\n' : '\n');
+      return indentLines(content, marker, ' '.repeat(marker.length));
+    }).join(hasParagraphs ? '\n\n' : '\n');
+  };
+
+  const serializeTable = (node: AstNode): string => {
+    const rows = Arr.filter(node.getAll('tr'), (row) => Arr.exists(row.children(), (cell) => cell.name === 'td' || cell.name === 'th'));
+    const hasMergedCells = Arr.exists(node.getAll('td').concat(node.getAll('th')), (cell) => Type.isNonNullable(cell.attr('colspan')) || Type.isNonNullable(cell.attr('rowspan')));
+    const hasBlockContent = Arr.exists(node.getAll('td').concat(node.getAll('th')), (cell) => Arr.exists(cell.children(), (child) => isBlock(child) && child.name !== 'p'));
+
+    // GFM tables can't represent merged cells or block content so keep the html
+    if (rows.length === 0 || hasMergedCells || hasBlockContent) {
+      return htmlSerializer.serialize(node);
+    }
+
+    const cellRows = Arr.map(rows, (row) => Arr.filter(row.children(), (cell) => cell.name === 'td' || cell.name === 'th'));
+    const columns = Arr.foldl(cellRows, (acc, cells) => Math.max(acc, cells.length), 0);
+    const renderRow = (cells: AstNode[]) => {
+      const values = Arr.range(columns, (i) => i < cells.length ? serializeCellContent(cells[i]) : '');
+      return '| ' + values.join(' | ') + ' |';
+    };
+
+    const alignments = Arr.range(columns, (i) => i < cellRows[0].length ? getAlignment(cellRows[0][i]) : '');
+    const delimiters = Arr.map(alignments, (align) => {
+      switch (align) {
+        case 'left':
+          return ':---';
+        case 'center':
+          return ':---:';
+        case 'right':
+          return '---:';
+        default:
+          return '---';
+      }
+    });
+
+    return [
+      renderRow(cellRows[0]),
+      '| ' + delimiters.join(' | ') + ' |'
+    ].concat(Arr.map(cellRows.slice(1), renderRow)).join('\n');
+  };
+
+  const serializeCellContent = (cell: AstNode): string =>
+    Arr.map(cell.children(), (child) => child.name === 'p' ? serializeInlineChildren(child, true) : serializeInline(child, true))
+      .join('<br>')
+      .replace(/\n/g, ' ')
+      .trim();
+
+  const serializeBlock = (node: AstNode): string => {
+    const name = node.name;
+
+    if (/^h[1-6]$/.test(name)) {
+      const level = parseInt(name.charAt(1), 10);
+      return '#'.repeat(level) + ' ' + serializeParagraph(node.children()).replace(/\\?\n/g, ' ');
+    } else if (name === 'p') {
+      return serializeParagraph(node.children());
+    } else if (name === 'pre') {
+      return serializeCodeBlock(node);
+    } else if (name === 'blockquote') {
+      return Arr.map(serializeBlocks(node, '\n\n').split('\n'), (line) => line.length > 0 ? '> ' + line : '>').join('\n');
+    } else if (name === 'ul' || name === 'ol') {
+      return serializeList(node);
+    } else if (name === 'hr') {
+      return '---';
+    } else if (name === 'table') {
+      return serializeTable(node);
+    } else if (containerElements[name] || name === 'li') {
+      return serializeBlocks(node, '\n\n');
+    } else {
+      return htmlSerializer.serialize(node);
+    }
+  };
+
+  const serializeBlocks = (node: AstNode, separator: string): string => {
+    const blocks: string[] = [];
+    let inlineNodes: AstNode[] = [];
+
+    const flushInlines = () => {
+      if (inlineNodes.length > 0) {
+        blocks.push(serializeParagraph(inlineNodes));
+        inlineNodes = [];
+      }
+    };
+
+    Arr.each(node.children(), (child) => {
+      if (isBlock(child)) {
+        flushInlines();
+        blocks.push(serializeBlock(child));
+      } else if (child.type === 1 || child.type === 3) {
+        inlineNodes.push(child);
+      }
+    });
+    flushInlines();
+
+    return Arr.filter(blocks, (block) => block.trim().length > 0 && block !== '&nbsp;').join(separator);
+  };
+
+  /**
+   * Serializes the specified node tree into a CommonMark string, using GFM for tables and strikethrough.
+   */
+  const serialize = (node: AstNode): string =>
+    serializeBlocks(node, '\n\n');
+
+  return {
+    serialize
+  };
+};
+
+export default MarkdownSerializer;
@@ -11,6 +11,7 @@ import { Css, PredicateFilter, SugarElement, SugarNode } from '@ephox/sugar';
 import DOMUtils from '../api/dom/DOMUtils';
 import DomTreeWalker from '../api/dom/TreeWalker';
 import Editor from '../api/Editor';
+import Schema from '../api/html/Schema';
 import * as Options from '../api/Options';
 import { EditorEvent } from '../api/util/EventDispatcher';
 import * as Bookmarks from '../bookmark/Bookmarks';
@@ -46,6 +47,12 @@ const containerAndSiblingName = (container, nodeName) => {
   return container.nodeName === nodeName || (container.previousSibling && container.previousSibling.nodeName === nodeName);
 };
 
+// Custom blocks that can't contain text only contain other blocks, so they are handled like the root
+const isCustomContainerBlock = (schema: Schema, node: Node) => {
+  const name = node.nodeName.toLowerCase();
+  return Obj.has(schema.getCustomElements(), name) && !schema.isValidChild(name, '#text');
+};
+
 // Returns true if the block can be split into two blocks or not
 const canSplitBlock = (dom, node) => {
   return node &&
@@ -178,10 +185,10 @@ const wrapSelfAndSiblingsInDefaultBlock = (editor: Editor, newBlockName, rng, co
 
   // Not in a block element or in a table cell or caption
   parentBlock = dom.getParent(container, dom.isBlock);
-  if (!parentBlock || !canSplitBlock(dom, parentBlock)) {
+  if (!parentBlock || !canSplitBlock(dom, parentBlock) || isCustomContainerBlock(editor.schema, parentBlock)) {
     parentBlock = parentBlock || editableRoot;
 
-    if (parentBlock === editor.getBody() || isTableCell(parentBlock)) {
+    if (parentBlock === editor.getBody() || isTableCell(parentBlock) || isCustomContainerBlock(editor.schema, parentBlock)) {
       rootBlockName = parentBlock.nodeName.toLowerCase();
     } else {
       rootBlockName = parentBlock.parentNode.nodeName.toLowerCase();
@@ -9,8 +9,10 @@ import { Fun, Optional } from '@ephox/katamari';
 import { SugarElement } from '@ephox/sugar';
 
 import Editor from '../api/Editor';
+import AstNode from '../api/html/Node';
 import { Content, ContentFormat, GetSelectionContentArgs } from '../content/ContentTypes';
 import { postProcessGetContent, preProcessGetContent } from '../content/PrePostProcess';
+import MarkdownSerializer from '../markdown/MarkdownSerializer';
 import * as CharType from '../text/CharType';
 import * as Zwsp from '../text/Zwsp';
 import * as EventProcessRanges from './EventProcessRanges';
@@ -77,6 +79,9 @@ const getSerializedContent = (editor: Editor, args: GetSelectionContentArgs): Co
 const extractSelectedContent = (editor: Editor, args: GetSelectionContentArgs): Content => {
   if (args.format === 'text') {
     return getTextContent(editor);
+  } else if (args.format === 'markdown') {
+    const tree = getSerializedContent(editor, { ...args, format: 'tree' }) as AstNode;
+    return editor.selection.isCollapsed() ? '' : MarkdownSerializer(editor.schema).serialize(tree);
   } else {
     const content = getSerializedContent(editor, args);
 
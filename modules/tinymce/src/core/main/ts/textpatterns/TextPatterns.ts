@@ -8,28 +8,26 @@
 import { Arr, Cell, Results } from '@ephox/katamari';
 
 import Editor from '../api/Editor';
-import * as Options from '../api/Options';
 import * as Pattern from './core/Pattern';
-import { PatternSet, RawPattern } from './core/PatternTypes';
+import { Pattern as TextPattern, PatternSet, RawPattern } from './core/PatternTypes';
 import * as Keyboard from './keyboard/Keyboard';
 
-const generatePatternSet = (patterns: RawPattern[]): PatternSet => {
+const normalizePatterns = (patterns: RawPattern[]): TextPattern[] => {
   const normalized = Results.partition(Arr.map(patterns, Pattern.normalizePattern));
   // eslint-disable-next-line no-console
   Arr.each(normalized.errors, (err) => console.error(err.message, err.pattern));
-  return Pattern.createPatternSet(normalized.values);
+  return normalized.values;
 };
 
-const setup = (editor: Editor): void => {
-  const patterns = Options.getTextPatterns(editor);
+const generatePatternSet = (patterns: RawPattern[]): PatternSet =>
+  Pattern.createPatternSet(normalizePatterns(patterns));
 
-  if (patterns.length > 0) {
-    const patternSet = generatePatternSet(patterns);
-    Keyboard.setup(editor, Cell(patternSet));
-  }
+const setup = (editor: Editor, patternsState: Cell<PatternSet>): void => {
+  Keyboard.setup(editor, patternsState);
 };
 
 export {
   setup,
+  normalizePatterns,
   generatePatternSet
 };
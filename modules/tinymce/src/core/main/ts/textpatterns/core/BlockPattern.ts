@@ -15,7 +15,7 @@ import * as Options from '../../api/Options';
 import Tools from '../../api/util/Tools';
 import { generatePathRange, resolvePathRange } from '../utils/PathRange';
 import * as Utils from '../utils/Utils';
-import { BlockPattern, BlockPatternMatch, Pattern } from './PatternTypes';
+import { BlockPattern, BlockPatternMatch } from './PatternTypes';
 
 const stripPattern = (dom: DOMUtils, block: Node, pattern: BlockPattern): void => {
   // The pattern could be across fragmented text nodes, so we need to find the end
@@ -63,7 +63,7 @@ const applyPattern = (editor: Editor, match: BlockPatternMatch): boolean => {
 };
 
 // Finds a matching pattern to the specified text
-const findPattern = <P extends Pattern>(patterns: P[], text: string): Optional<P> => {
+const findPattern = <P extends BlockPattern>(patterns: P[], text: string): Optional<P> => {
   const nuText = text.replace(Unicode.nbsp, ' ');
   return Arr.find(patterns, (pattern) => text.indexOf(pattern.start) === 0 || nuText.indexOf(pattern.start) === 0);
 };
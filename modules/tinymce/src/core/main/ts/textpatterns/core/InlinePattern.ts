@@ -5,19 +5,20 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Id, Optional, Strings } from '@ephox/katamari';
+import { Arr, Id, Optional, Optionals, Strings } from '@ephox/katamari';
 
 import * as Spot from '../../alien/Spot';
 import * as TextSearch from '../../alien/TextSearch';
 import DOMUtils from '../../api/dom/DOMUtils';
 import Editor from '../../api/Editor';
+import Entities from '../../api/html/Entities';
 import { createMarker, Marker, rangeFromMarker, removeMarker } from '../utils/Marker';
 import { generatePathRange, generatePathRangeFromRange } from '../utils/PathRange';
 import * as Utils from '../utils/Utils';
-import { InlinePattern, InlinePatternMatch } from './PatternTypes';
+import { InlinePattern, InlinePatternMatch, InlineReplacePattern, InlineStringPattern } from './PatternTypes';
 
 interface PatternDetails {
-  readonly pattern: InlinePattern;
+  readonly pattern: InlineStringPattern;
   readonly remainingPatterns: InlinePattern[];
   readonly position: Spot.SpotPoint<Text>;
 }
@@ -32,9 +33,42 @@ interface InlinePatternMatchWithMarkers extends InlinePatternMatch {
   readonly startMarker: Marker;
 }
 
-const isReplacementPattern = (pattern: InlinePattern): boolean =>
+const isReplacementPattern = (pattern: InlineStringPattern): boolean =>
   pattern.start.length === 0;
 
+// Replaces the $& and $n tokens in the replacement with the matched text and capture groups, which are encoded as they're inserted as HTML
+const expandReplacement = (replacement: string, match: RegExpExecArray): string =>
+  replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === '$') {
+      return '$';
+    } else {
+      const index = ref === '&' ? 0 : parseInt(ref, 10);
+      return index < match.length ? Entities.encodeAllRaw(match[index] ?? '') : token;
+    }
+  });
+
+// Regex patterns are resolved to the replacement of the text they match, so they're applied like replacement patterns
+const resolveReplacePattern = (pattern: InlineReplacePattern, text: string): Optional<InlineStringPattern> => {
+  const regex = new RegExp('(?:' + pattern.regex.source + ')$', pattern.regex.flags.replace(/[gy]/g, ''));
+  return Optional.from(regex.exec(text))
+    .filter((match) => match[0].length > 0)
+    .map((match) => ({
+      type: 'inline-command',
+      start: '',
+      end: match[0],
+      cmd: 'mceInsertContent',
+      value: expandReplacement(pattern.replacement, match)
+    }));
+};
+
+const matchesPatternEnd = (pattern: InlinePattern, text: string): Optional<InlineStringPattern> => {
+  if (pattern.type === 'inline-replace') {
+    return resolveReplacePattern(pattern, text);
+  } else {
+    return Optionals.someIf(Strings.endsWith(text, pattern.end), pattern);
+  }
+};
+
 const matchesPattern = (patternContent: string) => (element: Text, offset: number): number => {
   const text = element.data;
   const searchText = text.substring(0, offset);
@@ -52,7 +86,7 @@ const matchesPattern = (patternContent: string) => (element: Text, offset: numbe
   }
 };
 
-const findPatternStartFromSpot = (dom: DOMUtils, pattern: InlinePattern, block: Node, spot: Spot.SpotPoint<Text>): Optional<Range> => {
+const findPatternStartFromSpot = (dom: DOMUtils, pattern: InlineStringPattern, block: Node, spot: Spot.SpotPoint<Text>): Optional<Range> => {
   const startPattern = pattern.start;
   const startSpot = TextSearch.repeatLeft(dom, spot.container, spot.offset, matchesPattern(startPattern), block);
   return startSpot.bind((spot) => {
@@ -82,7 +116,7 @@ const findPatternStartFromSpot = (dom: DOMUtils, pattern: InlinePattern, block:
   });
 };
 
-const findPatternStart = (dom: DOMUtils, pattern: InlinePattern, node: Node, offset: number, block: Node, requireGap = false): Optional<Range> => {
+const findPatternStart = (dom: DOMUtils, pattern: InlineStringPattern, node: Node, offset: number, block: Node, requireGap = false): Optional<Range> => {
   if (pattern.start.length === 0 && !requireGap) {
     const rng = dom.createRng();
     rng.setStart(node, offset);
@@ -167,10 +201,11 @@ const findPatternsRec = (editor: Editor, patterns: InlinePattern[], node: Node,
     const text = rng.toString();
 
     for (let i = 0; i < patterns.length; i++) {
-      const pattern = patterns[i];
-      if (!Strings.endsWith(text, pattern.end)) {
+      const patternOpt = matchesPatternEnd(patterns[i], text);
+      if (patternOpt.isNone()) {
         continue;
       }
+      const pattern = patternOpt.getOrDie();
 
       // Generate a new array without the current pattern
       const patternsWithoutCurrent = patterns.slice();
@@ -193,7 +228,7 @@ const findPatternsRec = (editor: Editor, patterns: InlinePattern[], node: Node,
   });
 };
 
-const applyPattern = (editor: Editor, pattern: InlinePattern, patternRange: Range): void => {
+const applyPattern = (editor: Editor, pattern: InlineStringPattern, patternRange: Range): void => {
   editor.selection.setRng(patternRange);
   if (pattern.type === 'inline-format') {
     Arr.each(pattern.format, (format) => {
@@ -204,7 +239,7 @@ const applyPattern = (editor: Editor, pattern: InlinePattern, patternRange: Rang
   }
 };
 
-const applyReplacementPattern = (editor: Editor, pattern: InlinePattern, marker: Marker, isRoot: (e: Node) => boolean): void => {
+const applyReplacementPattern = (editor: Editor, pattern: InlineStringPattern, marker: Marker, isRoot: (e: Node) => boolean): void => {
   // Remove the original text
   const markerRange = rangeFromMarker(editor.dom, marker);
   Utils.deleteRng(editor.dom, markerRange, isRoot);
@@ -213,7 +248,7 @@ const applyReplacementPattern = (editor: Editor, pattern: InlinePattern, marker:
   applyPattern(editor, pattern, markerRange);
 };
 
-const applyPatternWithContent = (editor: Editor, pattern: InlinePattern, startMarker: Marker, endMarker: Marker, isRoot: (e: Node) => boolean): void => {
+const applyPatternWithContent = (editor: Editor, pattern: InlineStringPattern, startMarker: Marker, endMarker: Marker, isRoot: (e: Node) => boolean): void => {
   const dom = editor.dom;
 
   // Create the marker ranges for the patterns start/end content
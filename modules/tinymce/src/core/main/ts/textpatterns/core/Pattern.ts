@@ -5,24 +5,24 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Result, Type } from '@ephox/katamari';
+import { Arr, Optional, Result, Type } from '@ephox/katamari';
 
-import { BlockPattern, InlineCmdPattern, InlinePattern, Pattern, PatternError, PatternSet, RawPattern } from './PatternTypes';
+import { BlockPattern, InlineCmdPattern, InlinePattern, InlineReplacePattern, Pattern, PatternError, PatternSet, RawPattern } from './PatternTypes';
 
 const isInlinePattern = (pattern: Pattern): pattern is InlinePattern =>
-  pattern.type === 'inline-command' || pattern.type === 'inline-format';
+  pattern.type === 'inline-command' || pattern.type === 'inline-format' || pattern.type === 'inline-replace';
 
 const isBlockPattern = (pattern: Pattern): pattern is BlockPattern =>
   pattern.type === 'block-command' || pattern.type === 'block-format';
 
-const sortPatterns = <T extends Pattern>(patterns: T[]): T[] => Arr.sort(patterns, (a, b) => {
+const sortPatterns = <T extends BlockPattern>(patterns: T[]): T[] => Arr.sort(patterns, (a, b) => {
   if (a.start.length === b.start.length) {
     return 0;
   }
   return a.start.length > b.start.length ? -1 : 1;
 });
 
-const normalizePattern = (pattern: RawPattern): Result<Pattern, PatternError> => {
+const normalizePatternType = (pattern: RawPattern): Result<Pattern, PatternError> => {
   const err = (message: string) => Result.error({ message, pattern });
   const formatOrCmd = <T> (name: string, onFormat: (formats: string[]) => T, onCommand: (cmd: string, value: any) => T): Result<T, PatternError> => {
     if (pattern.format !== undefined) {
@@ -50,6 +50,17 @@ const normalizePattern = (pattern: RawPattern): Result<Pattern, PatternError> =>
   if (!Type.isObject(pattern)) {
     return err('Raw pattern is not an object');
   }
+  if (Type.is(pattern.start, RegExp)) {
+    // regex replacement pattern
+    if (!Type.isString(pattern.replacement)) {
+      return err('Regex pattern has non-string `replacement` parameter');
+    }
+    return Result.value<InlineReplacePattern>({
+      type: 'inline-replace',
+      regex: pattern.start,
+      replacement: pattern.replacement
+    });
+  }
   if (!Type.isString(pattern.start)) {
     return err('Raw pattern is missing `start` parameter');
   }
@@ -104,7 +115,7 @@ const normalizePattern = (pattern: RawPattern): Result<Pattern, PatternError> =>
   }
 };
 
-const denormalizePattern = (pattern: Pattern): RawPattern => {
+const denormalizePatternType = (pattern: Pattern): RawPattern => {
   if (pattern.type === 'block-command') {
     return {
       start: pattern.start,
@@ -136,6 +147,46 @@ const denormalizePattern = (pattern: Pattern): RawPattern => {
       end: pattern.end,
       format: pattern.format.length === 1 ? pattern.format[0] : pattern.format
     };
+  } else if (pattern.type === 'inline-replace') {
+    return {
+      start: pattern.regex,
+      replacement: pattern.replacement
+    };
+  }
+};
+
+const normalizeTriggers = (trigger: any): Optional<string[]> => {
+  const triggers = Type.isArray(trigger) ? trigger : [ trigger ];
+  return Optional.some(triggers as string[]).filter((chars) => chars.length > 0 && Arr.forall(chars, (chr) => Type.isString(chr) && chr.length === 1));
+};
+
+const normalizePattern = (pattern: RawPattern): Result<Pattern, PatternError> =>
+  normalizePatternType(pattern).bind((normalized) => {
+    const err = (message: string) => Result.error<Pattern, PatternError>({ message, pattern });
+    if (!Type.isUndefined(pattern.context) && !Type.isFunction(pattern.context)) {
+      return err('Pattern has non-function `context` parameter');
+    }
+
+    const withContext: Pattern = Type.isFunction(pattern.context) ? { ...normalized, context: pattern.context } : normalized;
+    if (Type.isUndefined(pattern.trigger)) {
+      return Result.value(withContext);
+    } else if (!isInlinePattern(withContext)) {
+      return err('Block pattern has `trigger` parameter, block patterns are only applied on enter');
+    } else {
+      return normalizeTriggers(pattern.trigger).fold(
+        () => err('Inline pattern `trigger` parameter is not a character or an array of characters'),
+        (triggers) => Result.value({ ...withContext, triggers })
+      );
+    }
+  });
+
+const denormalizePattern = (pattern: Pattern): RawPattern => {
+  const raw = denormalizePatternType(pattern);
+  const withContext = Type.isFunction(pattern.context) ? { ...raw, context: pattern.context } : raw;
+  if (isInlinePattern(pattern) && Type.isArray(pattern.triggers)) {
+    return { ...withContext, trigger: pattern.triggers.length === 1 ? pattern.triggers[0] : pattern.triggers };
+  } else {
+    return withContext;
   }
 };
 
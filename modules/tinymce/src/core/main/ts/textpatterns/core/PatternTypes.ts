@@ -14,6 +14,8 @@ export interface RawPattern {
   cmd?: any;
   value?: any;
   replacement?: any;
+  context?: any;
+  trigger?: any;
 }
 
 export interface PatternError {
@@ -21,7 +23,19 @@ export interface PatternError {
   readonly pattern: RawPattern;
 }
 
-interface InlineBasePattern {
+// Returns true if the pattern can be applied in the element that contains the cursor
+export type PatternContext = (element: Element) => boolean;
+
+interface BasePattern {
+  readonly context?: PatternContext;
+}
+
+interface InlineTriggerPattern extends BasePattern {
+  // The characters that apply the pattern when they're typed, instead of enter, space and the standard punctuation
+  readonly triggers?: string[];
+}
+
+interface InlineBasePattern extends InlineTriggerPattern {
   readonly start: string;
   readonly end: string;
 }
@@ -37,9 +51,19 @@ export interface InlineCmdPattern extends InlineBasePattern {
   readonly value?: any;
 }
 
-export type InlinePattern = InlineFormatPattern | InlineCmdPattern;
+export interface InlineReplacePattern extends InlineTriggerPattern {
+  readonly type: 'inline-replace';
+  readonly regex: RegExp;
+  // The HTML that replaces the matched text, where $& and $1 to $99 are replaced with the matched text and capture groups
+  readonly replacement: string;
+}
+
+// The patterns that are matched by their literal start and end text
+export type InlineStringPattern = InlineFormatPattern | InlineCmdPattern;
+
+export type InlinePattern = InlineStringPattern | InlineReplacePattern;
 
-interface BlockBasePattern {
+interface BlockBasePattern extends BasePattern {
   readonly start: string;
 }
 
@@ -71,7 +95,7 @@ export interface BlockPatternMatch extends PatternMatch<BlockPattern> {
   readonly range: PathRange;
 }
 
-export interface InlinePatternMatch extends PatternMatch<InlinePattern> {
+export interface InlinePatternMatch extends PatternMatch<InlineStringPattern> {
   readonly startRng: PathRange;
   readonly endRng: PathRange;
 }
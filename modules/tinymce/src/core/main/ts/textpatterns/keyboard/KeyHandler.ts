@@ -54,13 +54,15 @@ const handleEnter = (editor: Editor, patternSet: PatternSet): boolean => {
   return false;
 };
 
-const handleInlineKey = (editor: Editor, patternSet: PatternSet): void => {
+const handleInlineKey = (editor: Editor, patternSet: PatternSet): boolean => {
   const inlineMatches = InlinePattern.findPatterns(editor, patternSet.inlinePatterns, true);
   if (inlineMatches.length > 0) {
     editor.undoManager.transact(() => {
       InlinePattern.applyMatches(editor, inlineMatches);
     });
+    return true;
   }
+  return false;
 };
 
 const checkKeyEvent = <T>(codes: T[], event: KeyboardEvent, predicate: (code: T, event: KeyboardEvent) => boolean): boolean => {
@@ -5,36 +5,85 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Cell } from '@ephox/katamari';
+import { Arr, Cell, Optional, Singleton, Type } from '@ephox/katamari';
 
 import Editor from '../../api/Editor';
 import Delay from '../../api/util/Delay';
 import VK from '../../api/util/VK';
-import { PatternSet } from '../core/PatternTypes';
+import { InlinePattern, Pattern, PatternSet } from '../core/PatternTypes';
 import * as KeyHandler from './KeyHandler';
 
+// The characters that apply the inline patterns that don't have trigger characters, besides enter
+const defaultTriggers = [ ' ', ',', '.', ';', ':', '!', '?' ];
+
+const hasPatterns = (patternSet: PatternSet): boolean =>
+  patternSet.inlinePatterns.length > 0 || patternSet.blockPatterns.length > 0;
+
+// Space is handled on keyup, so the other characters are the ones handled on keypress
+const getKeypressTriggers = (patternSet: PatternSet): string[] => {
+  const triggers = Arr.bind(patternSet.inlinePatterns, (pattern) => pattern.triggers ?? []);
+  return Arr.filter(Arr.unique(defaultTriggers.concat(triggers)), (chr) => chr !== ' ');
+};
+
+const isTriggeredBy = (trigger: Optional<string>) => (pattern: InlinePattern): boolean =>
+  Type.isUndefined(pattern.triggers) ?
+    trigger.forall((chr) => Arr.contains(defaultTriggers, chr)) :
+    trigger.exists((chr) => Arr.contains(pattern.triggers, chr));
+
+// Gets the patterns that can be applied in the element that contains the cursor for the typed character, or none for enter
+const getPatternSet = (editor: Editor, patternsState: Cell<PatternSet>, trigger: Optional<string>): PatternSet => {
+  const patternSet = patternsState.get();
+  const element = editor.selection.getNode();
+  const isInContext = <T extends Pattern>(pattern: T) => Type.isUndefined(pattern.context) || pattern.context(element);
+  return {
+    inlinePatterns: Arr.filter(patternSet.inlinePatterns, (pattern) => isTriggeredBy(trigger)(pattern) && isInContext(pattern)),
+    blockPatterns: trigger.isNone() ? Arr.filter(patternSet.blockPatterns, isInContext) : []
+  };
+};
+
 const setup = (editor: Editor, patternsState: Cell<PatternSet>): void => {
-  const charCodes = [ ',', '.', ';', ':', '!', '?' ];
   const keyCodes = [ 32 ];
+  // The cursor position after the last pattern applied by typing a trigger character, which backspace reverts
+  const lastApplied = Singleton.value<{ container: Node; offset: number }>();
+
+  const handleInlineKey = (trigger: string) => {
+    if (KeyHandler.handleInlineKey(editor, getPatternSet(editor, patternsState, Optional.some(trigger)))) {
+      const rng = editor.selection.getRng();
+      lastApplied.set({ container: rng.startContainer, offset: rng.startOffset });
+    }
+  };
+
+  const isAtLastApplied = () => lastApplied.get().exists(({ container, offset }) => {
+    const rng = editor.selection.getRng();
+    return rng.collapsed && rng.startContainer === container && rng.startOffset === offset;
+  });
 
   editor.on('keydown', (e) => {
-    if (e.keyCode === 13 && !VK.modifierPressed(e)) {
-      if (KeyHandler.handleEnter(editor, patternsState.get())) {
+    if (e.keyCode === VK.BACKSPACE && !VK.modifierPressed(e) && isAtLastApplied() && editor.undoManager.hasUndo()) {
+      e.preventDefault();
+      editor.undoManager.undo();
+    } else if (e.keyCode === 13 && !VK.modifierPressed(e) && hasPatterns(patternsState.get())) {
+      if (KeyHandler.handleEnter(editor, getPatternSet(editor, patternsState, Optional.none()))) {
         e.preventDefault();
       }
     }
+    lastApplied.clear();
   }, true);
 
+  editor.on('mousedown SetContent', lastApplied.clear);
+
   editor.on('keyup', (e) => {
-    if (KeyHandler.checkKeyCode(keyCodes, e)) {
-      KeyHandler.handleInlineKey(editor, patternsState.get());
+    if (KeyHandler.checkKeyCode(keyCodes, e) && hasPatterns(patternsState.get())) {
+      handleInlineKey(' ');
     }
   });
 
   editor.on('keypress', (e) => {
-    if (KeyHandler.checkCharCode(charCodes, e)) {
+    const patternSet = patternsState.get();
+    if (hasPatterns(patternSet) && KeyHandler.checkCharCode(getKeypressTriggers(patternSet), e)) {
+      const trigger = String.fromCharCode(e.charCode);
       Delay.setEditorTimeout(editor, () => {
-        KeyHandler.handleInlineKey(editor, patternsState.get());
+        handleInlineKey(trigger);
       });
     }
   });
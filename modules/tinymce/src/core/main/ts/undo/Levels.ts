@@ -5,12 +5,13 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Thunk, Type } from '@ephox/katamari';
+import { Arr, Fun, Optional, Thunk, Type } from '@ephox/katamari';
 import { Html, Remove, SelectorFilter, SugarElement } from '@ephox/sugar';
 
 import Editor from '../api/Editor';
 import { isPathBookmark } from '../bookmark/BookmarkTypes';
 import * as TrimHtml from '../dom/TrimHtml';
+import * as Diff from './Diff';
 import * as Fragments from './Fragments';
 import { UndoLevel, UndoLevelType } from './UndoManagerTypes';
 
@@ -18,6 +19,11 @@ import { UndoLevel, UndoLevelType } from './UndoManagerTypes';
 // innerHTML on a detached element will still make http requests to the images
 const lazyTempDocument = Thunk.cached(() => document.implementation.createHTMLDocument('undo'));
 
+// Complete levels created from the editor keep their content as fragments instead of a single string. The fragments that
+// didn't change since the previous level are shared with that level, so every level after the first only retains the
+// fragments it changed and the content string is only joined together when it's requested.
+const sharedFragments = new WeakMap<UndoLevel, string[]>();
+
 const hasIframes = (html: string) => {
   return html.indexOf('</iframe>') !== -1;
 };
@@ -42,15 +48,58 @@ const createCompleteLevel = (content: string): UndoLevel => {
   };
 };
 
-const createFromEditor = (editor: Editor): UndoLevel => {
+const createSharedLevel = (fragments: string[]): UndoLevel => {
+  const level: UndoLevel = {
+    type: UndoLevelType.Complete,
+    fragments: null,
+    get content() {
+      return sharedFragments.get(level).join('');
+    },
+    set content(content: string) {
+      sharedFragments.set(level, [ content ]);
+    },
+    bookmark: null,
+    beforeBookmark: null
+  };
+  sharedFragments.set(level, fragments);
+  return level;
+};
+
+const getFragments = (level: UndoLevel): Optional<string[]> => {
+  if (level.type === UndoLevelType.Fragmented) {
+    return Optional.from(level.fragments);
+  } else {
+    return Optional.from(sharedFragments.get(level));
+  }
+};
+
+// Replaces the fragments that are equal to fragments in the previous level with the previous level's strings
+const shareFragments = (previousFragments: string[], fragments: string[]): string[] => {
+  let previousIndex = 0;
+  return Arr.bind(Diff.diff(previousFragments, fragments), ([ op, value ]: [ number, string ]) => {
+    if (op === Diff.KEEP) {
+      return [ previousFragments[previousIndex++] ];
+    } else if (op === Diff.DELETE) {
+      previousIndex++;
+      return [];
+    } else {
+      return [ value ];
+    }
+  });
+};
+
+const createFromEditor = (editor: Editor, previousLevel?: UndoLevel): UndoLevel => {
   const fragments = Fragments.read(editor.getBody());
   const trimmedFragments = Arr.bind(fragments, (html) => {
     const trimmed = TrimHtml.trimInternal(editor.serializer, html);
     return trimmed.length > 0 ? [ trimmed ] : [];
   });
-  const content = trimmedFragments.join('');
+  const levelFragments = Optional.from(previousLevel).bind(getFragments).fold(
+    Fun.constant(trimmedFragments),
+    (previousFragments) => shareFragments(previousFragments, trimmedFragments)
+  );
 
-  return hasIframes(content) ? createFragmentedLevel(trimmedFragments) : createCompleteLevel(content);
+  return Arr.exists(levelFragments, hasIframes) ? createFragmentedLevel(levelFragments) : createSharedLevel(levelFragments);
 };
 
 const applyToEditor = (editor: Editor, level: UndoLevel, before: boolean) => {
@@ -83,6 +132,11 @@ const getCleanLevelContent = (level: UndoLevel): string => {
   return Html.get(elm);
 };
 
+const hasEqualFragments = (level1: UndoLevel, level2: UndoLevel): boolean =>
+  getFragments(level1).exists((fragments1) => getFragments(level2).exists((fragments2) =>
+    fragments1.length === fragments2.length && Arr.forall(fragments1, (fragment, i) => fragment === fragments2[i])
+  ));
+
 const hasEqualContent = (level1: UndoLevel, level2: UndoLevel): boolean => getLevelContent(level1) === getLevelContent(level2);
 
 const hasEqualCleanedContent = (level1: UndoLevel, level2: UndoLevel): boolean => getCleanLevelContent(level1) === getCleanLevelContent(level2);
@@ -91,7 +145,7 @@ const hasEqualCleanedContent = (level1: UndoLevel, level2: UndoLevel): boolean =
 const isEq = (level1: UndoLevel, level2: UndoLevel): boolean => {
   if (!level1 || !level2) {
     return false;
-  } else if (hasEqualContent(level1, level2)) {
+  } else if (hasEqualFragments(level1, level2) || hasEqualContent(level1, level2)) {
     return true;
   } else {
     return hasEqualCleanedContent(level1, level2);
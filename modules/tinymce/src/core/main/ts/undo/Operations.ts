@@ -5,6 +5,8 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
+import { Arr, Obj, Type } from '@ephox/katamari';
+
 import Editor from '../api/Editor';
 import * as Options from '../api/Options';
 import Tools from '../api/util/Tools';
@@ -12,7 +14,7 @@ import * as GetBookmark from '../bookmark/GetBookmark';
 import * as Levels from './Levels';
 import { isUnlocked } from './Locks';
 import { endTyping, setTyping } from './TypingState';
-import { Index, Locks, UndoBookmark, UndoLevel, UndoManager } from './UndoManagerTypes';
+import { Index, Locks, UndoBookmark, UndoHistoryEntry, UndoLevel, UndoLevelMetadata, UndoManager } from './UndoManagerTypes';
 
 export const beforeChange = (editor: Editor, locks: Locks, beforeBookmark: UndoBookmark) => {
   if (isUnlocked(locks)) {
@@ -21,10 +23,10 @@ export const beforeChange = (editor: Editor, locks: Locks, beforeBookmark: UndoB
 };
 
 export const addUndoLevel = (editor: Editor, undoManager: UndoManager, index: Index, locks: Locks, beforeBookmark: UndoBookmark, level?: UndoLevel, event?: Event) => {
-  const currentLevel = Levels.createFromEditor(editor);
+  const currentLevel = Levels.createFromEditor(editor, undoManager.data[index.get()]);
 
-  level = level || {} as UndoLevel;
-  level = Tools.extend(level, currentLevel);
+  // Copy any custom properties onto the current level rather than the other way around, so the current level keeps sharing its fragments
+  level = Tools.extend(currentLevel, Obj.filter((level || {}) as Record<string, unknown>, (_value, key) => !Obj.has(currentLevel, key as keyof UndoLevel)));
 
   if (isUnlocked(locks) === false || editor.removed) {
     return null;
@@ -149,11 +151,41 @@ export const hasUndo = (editor: Editor, undoManager: UndoManager, index: Index)
 
 export const hasRedo = (undoManager: UndoManager, index: Index) => index.get() < undoManager.data.length - 1 && !undoManager.typing;
 
-export const transact = (undoManager: UndoManager, locks: Locks, callback: () => void) => {
+export const jumpTo = (editor: Editor, undoManager: UndoManager, locks: Locks, index: Index, targetIndex: number) => {
+  let level: UndoLevel;
+
+  if (undoManager.typing) {
+    undoManager.add();
+    undoManager.typing = false;
+    setTyping(undoManager, false, locks);
+  }
+
+  const currentIndex = index.get();
+  if (targetIndex >= 0 && targetIndex < undoManager.data.length && targetIndex !== currentIndex) {
+    const isUndo = targetIndex < currentIndex;
+    index.set(targetIndex);
+    level = undoManager.data[targetIndex];
+    Levels.applyToEditor(editor, level, isUndo);
+    editor.setDirty(true);
+    editor.fire(isUndo ? 'Undo' : 'Redo', { level });
+  }
+
+  return level;
+};
+
+export const getHistory = (undoManager: UndoManager, index: Index): UndoHistoryEntry[] =>
+  Arr.map(undoManager.data, (level, i) => ({
+    index: i,
+    label: level.label,
+    metadata: level.metadata,
+    current: i === index.get()
+  }));
+
+export const transact = (undoManager: UndoManager, locks: Locks, callback: () => void, label?: string, metadata?: UndoLevelMetadata) => {
   endTyping(undoManager, locks);
   undoManager.beforeChange();
   undoManager.ignore(callback);
-  return undoManager.add();
+  return undoManager.add(Type.isString(label) || Type.isNonNullable(metadata) ? { label, metadata } as UndoLevel : undefined);
 };
 
 export const ignore = (locks: Locks, callback: () => void) => {
@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Type } from '@ephox/katamari';
+
+import Editor from '../api/Editor';
+import { Bookmark, isRangeBookmark } from '../bookmark/BookmarkTypes';
+import * as Diff from './Diff';
+import * as Levels from './Levels';
+import { Index, UndoHistory, UndoHistoryLevel, UndoHistoryPatch, UndoLevel, UndoLevelType, UndoManager } from './UndoManagerTypes';
+
+/**
+ * This module exports and imports the undo stack to/from a JSON serializable format. Each level
+ * is stored as a patch against the previous level so that small edits to large documents
+ * don't store the whole document for every level.
+ *
+ * @class tinymce.undo.Serialization
+ * @private
+ */
+
+const historyVersion = 1;
+
+// Complete levels are split on tag boundaries so that the diff works on tokens, which can be losslessly joined back together
+const getLevelParts = (level: UndoLevel): string[] => {
+  if (level.type === UndoLevelType.Fragmented) {
+    return level.fragments;
+  } else {
+    return level.content.length > 0 ? level.content.split(/(?=<)/) : [];
+  }
+};
+
+const createPatch = (previousParts: string[], parts: string[]): UndoHistoryPatch =>
+  Arr.foldl(Diff.diff(previousParts, parts), (patch: UndoHistoryPatch, [ op, value ]: [ number, string ]) => {
+    const last = patch[patch.length - 1];
+    if (last && last[0] === op) {
+      if (op === Diff.INSERT) {
+        (last[1] as string[]).push(value);
+      } else {
+        last[1] = (last[1] as number) + 1;
+      }
+    } else {
+      patch.push(op === Diff.INSERT ? [ op, [ value ]] : [ op, 1 ]);
+    }
+    return patch;
+  }, []);
+
+const applyPatch = (previousParts: string[], patch: UndoHistoryPatch): string[] => {
+  const parts: string[] = [];
+  let index = 0;
+  Arr.each(patch, ([ op, value ]) => {
+    if (op === Diff.KEEP) {
+      const count = value as number;
+      parts.push(...previousParts.slice(index, index + count));
+      index += count;
+    } else if (op === Diff.DELETE) {
+      index += value as number;
+    } else if (op === Diff.INSERT) {
+      parts.push(...(value as string[]));
+    }
+  });
+  return parts;
+};
+
+const toSerializableBookmark = (bookmark: Bookmark | null): Bookmark | null =>
+  Type.isNonNullable(bookmark) && !isRangeBookmark(bookmark) ? bookmark : null;
+
+const isCount = (value: unknown): value is number =>
+  Type.isNumber(value) && value >= 0 && Math.floor(value) === value;
+
+// The history may come from storage, so each operation is checked before anything is imported
+const isValidPatchOperation = (operation: unknown): boolean => {
+  if (!Type.isArray(operation) || operation.length !== 2) {
+    return false;
+  }
+
+  const [ op, value ] = operation;
+  if (op === Diff.KEEP || op === Diff.DELETE) {
+    return isCount(value);
+  } else if (op === Diff.INSERT) {
+    return Type.isArray(value) && Arr.forall(value, Type.isString);
+  } else {
+    return false;
+  }
+};
+
+const isValidBookmark = (bookmark: unknown): boolean =>
+  Type.isNullable(bookmark) || Type.isObject(bookmark);
+
+const isValidLevel = (level: UndoHistoryLevel): boolean =>
+  Type.isObject(level) && Type.isArray(level.patch) && Arr.forall(level.patch, isValidPatchOperation) &&
+    isValidBookmark(level.bookmark) && isValidBookmark(level.beforeBookmark);
+
+const isValidHistory = (history: UndoHistory): boolean =>
+  Type.isObject(history) && history.version === historyVersion && Type.isArray(history.levels) && history.levels.length > 0 &&
+    isCount(history.index) && history.index < history.levels.length && Arr.forall(history.levels, isValidLevel);
+
+const exportHistory = (undoManager: UndoManager, index: Index): UndoHistory => {
+  const levels = Arr.foldl(undoManager.data, (acc, level) => {
+    const parts = getLevelParts(level);
+    const historyLevel: UndoHistoryLevel = {
+      type: level.type,
+      patch: createPatch(acc.previousParts, parts),
+      bookmark: toSerializableBookmark(level.bookmark),
+      beforeBookmark: toSerializableBookmark(level.beforeBookmark),
+      label: level.label,
+      metadata: level.metadata
+    };
+    return { previousParts: parts, levels: acc.levels.concat([ historyLevel ]) };
+  }, { previousParts: [] as string[], levels: [] as UndoHistoryLevel[] }).levels;
+
+  return {
+    version: historyVersion,
+    index: Math.min(index.get(), Math.max(levels.length - 1, 0)),
+    levels
+  };
+};
+
+const importHistory = (editor: Editor, undoManager: UndoManager, index: Index, history: UndoHistory): boolean => {
+  if (!isValidHistory(history)) {
+    return false;
+  }
+
+  const levels = Arr.foldl(history.levels, (acc, historyLevel) => {
+    const parts = applyPatch(acc.previousParts, historyLevel.patch);
+    const level = historyLevel.type === UndoLevelType.Fragmented ? Levels.createFragmentedLevel(parts) : Levels.createCompleteLevel(parts.join(''));
+    level.bookmark = historyLevel.bookmark;
+    level.beforeBookmark = historyLevel.beforeBookmark;
+    if (Type.isString(historyLevel.label)) {
+      level.label = historyLevel.label;
+    }
+    if (Type.isObject(historyLevel.metadata)) {
+      level.metadata = historyLevel.metadata;
+    }
+    return { previousParts: parts, levels: acc.levels.concat([ level ]) };
+  }, { previousParts: [] as string[], levels: [] as UndoLevel[] }).levels;
+
+  undoManager.data = levels;
+  undoManager.typing = false;
+  index.set(history.index);
+  editor.fire('ImportUndos', { index: history.index });
+
+  // The history may have been exported while typing, so make sure the current content is also part of the history
+  undoManager.add();
+  return true;
+};
+
+export {
+  exportHistory,
+  importHistory
+};
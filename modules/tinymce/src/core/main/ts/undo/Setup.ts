@@ -5,13 +5,14 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Cell } from '@ephox/katamari';
+import { Cell, Singleton, Type } from '@ephox/katamari';
 
 import Editor from '../api/Editor';
+import { ExecCommandEvent } from '../api/EventTypes';
 import { EditorEvent } from '../api/util/EventDispatcher';
 import * as Levels from './Levels';
 import { endTyping, setTyping } from './TypingState';
-import { Locks, UndoLevel, UndoManager } from './UndoManagerTypes';
+import { Locks, UndoLevel, UndoLevelMetadata, UndoManager } from './UndoManagerTypes';
 
 // Avoid adding non-typing undo levels for commands that could cause duplicate undo levels to be created
 // or do not alter the editor content or selection in any way
@@ -27,12 +28,19 @@ const shouldIgnoreCommand = (cmd: string): boolean => {
   }
 };
 
+// Only keep primitive command values since the metadata should be serializable, for example html strings but not dom nodes
+const getCommandMetadata = (e: EditorEvent<ExecCommandEvent>): UndoLevelMetadata => {
+  const value = e.value;
+  return Type.isString(value) || Type.isNumber(value) || Type.isBoolean(value) ? { command: e.command, value } : { command: e.command };
+};
+
 export const registerEvents = (editor: Editor, undoManager: UndoManager, locks: Locks) => {
   const isFirstTypedCharacter = Cell(false);
+  const lastFormatChange = Singleton.value<UndoLevelMetadata>();
 
-  const addNonTypingUndoLevel = (e?) => {
+  const addNonTypingUndoLevel = (e?, level: Partial<UndoLevel> = {}) => {
     setTyping(undoManager, false, locks);
-    undoManager.add({} as UndoLevel, e);
+    undoManager.add(level as UndoLevel, e);
   };
 
   // Add initial undo level when the editor is initialized
@@ -55,10 +63,28 @@ export const registerEvents = (editor: Editor, undoManager: UndoManager, locks:
     const cmd = e.command;
 
     if (!shouldIgnoreCommand(cmd)) {
-      addNonTypingUndoLevel(e);
+      addNonTypingUndoLevel(e, { label: cmd, metadata: getCommandMetadata(e) });
     }
   });
 
+  // Label undo levels with the last format that was applied or removed, unless the level already has a label
+  // like the command or transaction name, in which case the format is only added to the metadata
+  editor.on('FormatApply', (e) => {
+    lastFormatChange.set({ format: e.format, action: 'apply' });
+  });
+
+  editor.on('FormatRemove', (e) => {
+    lastFormatChange.set({ format: e.format, action: 'remove' });
+  });
+
+  editor.on('BeforeAddUndo', (e) => {
+    lastFormatChange.get().each((metadata) => {
+      e.level.label = e.level.label ?? metadata.format as string;
+      e.level.metadata = { ...metadata, ...e.level.metadata };
+    });
+    lastFormatChange.clear();
+  });
+
   editor.on('ObjectResizeStart cut', () => {
     undoManager.beforeChange();
   });
@@ -144,7 +170,7 @@ export const registerEvents = (editor: Editor, undoManager: UndoManager, locks:
     }
   });
 
-  editor.on('AddUndo Undo Redo ClearUndos', (e) => {
+  editor.on('AddUndo Undo Redo ClearUndos ImportUndos', (e) => {
     if (!e.isDefaultPrevented()) {
       editor.nodeChanged();
     }
@@ -21,6 +21,35 @@ export interface UndoLevel {
   content: string;
   bookmark: Bookmark;
   beforeBookmark: Bookmark;
+  label?: string;
+  metadata?: UndoLevelMetadata;
+}
+
+export type UndoLevelMetadata = Record<string, string | number | boolean>;
+
+export interface UndoHistoryEntry {
+  index: number;
+  label?: string;
+  metadata?: UndoLevelMetadata;
+  current: boolean;
+}
+
+// Patch operations are [ Diff.KEEP, count ], [ Diff.DELETE, count ] or [ Diff.INSERT, parts ]
+export type UndoHistoryPatch = Array<[ number, number | string[] ]>;
+
+export interface UndoHistoryLevel {
+  type: UndoLevelType;
+  patch: UndoHistoryPatch;
+  bookmark: Bookmark | null;
+  beforeBookmark: Bookmark | null;
+  label?: string;
+  metadata?: UndoLevelMetadata;
+}
+
+export interface UndoHistory {
+  version: number;
+  index: number;
+  levels: UndoHistoryLevel[];
 }
 
 export interface UndoManager {
@@ -34,9 +63,13 @@ export interface UndoManager {
   reset: () => void;
   hasUndo: () => boolean;
   hasRedo: () => boolean;
-  transact: (callback: () => void) => UndoLevel;
+  transact: (callback: () => void, label?: string, metadata?: UndoLevelMetadata) => UndoLevel;
   ignore: (callback: () => void) => void;
   extra: (callback1: () => void, callback2: () => void) => void;
+  exportHistory: () => UndoHistory;
+  importHistory: (history: UndoHistory) => boolean;
+  getHistory: () => UndoHistoryEntry[];
+  jumpTo: (index: number) => UndoLevel;
 }
 
 export type Index = Cell<number>;
@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Type } from '@ephox/katamari';
+
+import { URLConverterCallback } from '../api/OptionTypes';
+import URI from '../api/util/URI';
+
+export interface ConvertUrlSettings {
+  readonly convert_urls: boolean;
+  readonly relative_urls: boolean;
+  readonly remove_script_host: boolean;
+  readonly urlconverter_callback?: URLConverterCallback;
+}
+
+const convertUrl = (settings: ConvertUrlSettings, documentBaseURI: URI, scope: {}, url: string, name: string, elm?): string => {
+  // Use callback instead
+  const urlConverterCallback = settings.urlconverter_callback;
+  if (Type.isFunction(urlConverterCallback)) {
+    return urlConverterCallback.call(scope, url, elm, true, name);
+  }
+
+  // Don't convert link href since thats the CSS files that gets loaded into the editor also skip local file URLs
+  if (!settings.convert_urls || (elm && elm.nodeName === 'LINK') || url.indexOf('file:') === 0 || url.length === 0) {
+    return url;
+  }
+
+  // Convert to relative
+  if (settings.relative_urls) {
+    return documentBaseURI.toRelative(url);
+  }
+
+  // Convert to absolute
+  return documentBaseURI.toAbsolute(url, settings.remove_script_host);
+};
+
+export {
+  convertUrl
+};
@@ -0,0 +1,54 @@
+import { context, describe, it } from '@ephox/bedrock-client';
+import { assert } from 'chai';
+
+import * as MarkdownParser from 'tinymce/core/markdown/MarkdownParser';
+
+describe('atomic.tinymce.core.markdown.MarkdownParserTest', () => {
+  const testToHtml = (label: string, markdown: string, expected: string) => {
+    it(label, () => {
+      assert.equal(MarkdownParser.toHtml(markdown), expected);
+    });
+  };
+
+  context('Blocks', () => {
+    testToHtml('Paragraphs', 'a\nb\n\nc', '<p>a\nb</p>\n<p>c</p>');
+    testToHtml('ATX headings', '# a\n###### b ##', '<h1>a</h1>\n<h6>b</h6>');
+    testToHtml('Setext headings', 'a\n===\nb\n---', '<h1>a</h1>\n<h2>b</h2>');
+    testToHtml('Thematic break', 'a\n\n***\n\nb', '<p>a</p>\n<hr>\n<p>b</p>');
+    testToHtml('Blockquote with lazy continuation', '> a\nb\n>\n> c', '<blockquote>\n<p>a\nb</p>\n<p>c</p>\n</blockquote>');
+    testToHtml('Fenced code block with language', '```js\nlet a = 1 < 2;\n```', '<pre class="language-js"><code>let a = 1 &lt; 2;</code></pre>');
+    testToHtml('Indented code block', '    a\n      b', '<pre><code>a\n  b</code></pre>');
+    testToHtml('Html block is kept', '<div class="x">\n*a*\n</div>', '<div class="x">\n*a*\n</div>');
+  });
+
+  context('Lists', () => {
+    testToHtml('Tight bullet list', '- a\n- b', '<ul>\n<li>a</li>\n<li>b</li>\n</ul>');
+    testToHtml('Loose bullet list', '- a\n\n- b', '<ul>\n<li><p>a</p></li>\n<li><p>b</p></li>\n</ul>');
+    testToHtml('Ordered list with start', '3. a\n4. b', '<ol start="3">\n<li>a</li>\n<li>b</li>\n</ol>');
+    testToHtml('Nested list', '- a\n  - b\n- c', '<ul>\n<li>a\n<ul>\n<li>b</li>\n</ul></li>\n<li>c</li>\n</ul>');
+    testToHtml('Changing bullet starts a new list', '- a\n* b', '<ul>\n<li>a</li>\n</ul>\n<ul>\n<li>b</li>\n</ul>');
+  });
+
+  context('Tables', () => {
+    testToHtml('Table with alignment and escaped pipes',
+      '| a | b |\n| :-: | --: |\n| 1 | 2 \\| 3 |',
+      '<table>\n<thead>\n<tr><th style="text-align: center;">a</th><th style="text-align: right;">b</th></tr>\n</thead>\n' +
+      '<tbody>\n<tr><td style="text-align: center;">1</td><td style="text-align: right;">2 | 3</td></tr>\n</tbody>\n</table>'
+    );
+    testToHtml('Missing cells are padded', 'a | b\n--- | ---\n1', '<table>\n<thead>\n<tr><th>a</th><th>b</th></tr>\n</thead>\n<tbody>\n<tr><td>1</td><td></td></tr>\n</tbody>\n</table>');
+    testToHtml('Delimiter row with a different cell count is not a table', 'a | b\n---', '<h2>a | b</h2>');
+  });
+
+  context('Inlines', () => {
+    testToHtml('Emphasis and strong', '*a* _b_ **c** __d__ ***e***', '<p><em>a</em> <em>b</em> <strong>c</strong> <strong>d</strong> <em><strong>e</strong></em></p>');
+    testToHtml('Nested emphasis', '**a *b* c**', '<p><strong>a <em>b</em> c</strong></p>');
+    testToHtml('Intraword underscores', 'snake_case_name', '<p>snake_case_name</p>');
+    testToHtml('Strikethrough', '~~a~~', '<p><del>a</del></p>');
+    testToHtml('Code spans', '`a < b` `` c`d ``', '<p><code>a &lt; b</code> <code>c`d</code></p>');
+    testToHtml('Links and images', '[a *b*](http://x.com "t") ![c](d.png)', '<p><a href="http://x.com" title="t">a <em>b</em></a> <img src="d.png" alt="c"></p>');
+    testToHtml('Autolinks', '<http://x.com> <a@b.com>', '<p><a href="http://x.com">http://x.com</a> <a href="mailto:a@b.com">a@b.com</a></p>');
+    testToHtml('Backslash escapes', '\\*a\\* \\[b]', '<p>*a* [b]</p>');
+    testToHtml('Hard line breaks', 'a  \nb\\\nc', '<p>a<br>\nb<br>\nc</p>');
+    testToHtml('Entities and inline html', '&copy; <sup>2</sup> a & b', '<p>&copy; <sup>2</sup> a &amp; b</p>');
+  });
+});
@@ -7,6 +7,7 @@ import { assert } from 'chai';
 
 import Editor from 'tinymce/core/api/Editor';
 import { AddUndoEvent } from 'tinymce/core/api/EventTypes';
+import { EditorEvent } from 'tinymce/core/api/util/EventDispatcher';
 import { UndoLevel } from 'tinymce/core/undo/UndoManagerTypes';
 
 import * as HtmlUtils from '../module/test/HtmlUtils';
@@ -130,6 +131,30 @@ describe('browser.tinymce.core.UndoManagerTest', () => {
     assert.isFalse(editor.undoManager.typing);
   });
 
+  it('Undo and redo levels that share fragments', () => {
+    const editor = hook.editor();
+    editor.undoManager.clear();
+    editor.setContent('<p>a</p><p>b</p><p>c</p>');
+    editor.undoManager.add();
+
+    editor.getBody().lastChild.textContent = 'd';
+    editor.undoManager.add();
+    editor.getBody().firstChild.textContent = 'e';
+    const level = editor.undoManager.add({ custom: 'value' } as unknown as UndoLevel);
+
+    assert.equal((level as unknown as Record<string, string>).custom, 'value', 'Custom level properties should be kept');
+    assert.equal(level.content, '<p>e</p><p>b</p><p>d</p>');
+    assert.lengthOf(editor.undoManager.data, 3);
+
+    editor.undoManager.undo();
+    TinyAssertions.assertContent(editor, '<p>a</p><p>b</p><p>d</p>');
+    editor.undoManager.undo();
+    TinyAssertions.assertContent(editor, '<p>a</p><p>b</p><p>c</p>');
+    editor.undoManager.redo();
+    editor.undoManager.redo();
+    TinyAssertions.assertContent(editor, '<p>e</p><p>b</p><p>d</p>');
+  });
+
   it('Events', () => {
     const editor = hook.editor();
     let add, undo, redo;
@@ -553,6 +578,70 @@ describe('browser.tinymce.core.UndoManagerTest', () => {
     assert.equal(editor.getContent(), '<p><em><strong>a</strong></em></p>');
   });
 
+  it('Undo levels are labelled with the command, format or transaction name', () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>a</p>');
+    LegacyUnit.setSelection(editor, 'p', 0, 'p', 1);
+
+    editor.execCommand('Bold');
+    editor.formatter.apply('italic');
+    editor.undoManager.add();
+    editor.undoManager.transact(() => {
+      editor.formatter.apply('underline');
+    }, 'Underline text', { source: 'test' });
+    editor.undoManager.transact(() => {
+      editor.setContent('<p>b</p>');
+    });
+    editor.undoManager.transact(() => {
+      editor.setContent('<p>c</p>');
+    }, undefined, { source: 'test' });
+
+    const data = editor.undoManager.data;
+    assert.lengthOf(data, 6);
+    assert.isUndefined(data[0].label);
+    assert.equal(data[1].label, 'Bold');
+    assert.deepEqual(data[1].metadata, { command: 'Bold', format: 'bold', action: 'apply' });
+    assert.equal(data[2].label, 'italic');
+    assert.deepEqual(data[2].metadata, { format: 'italic', action: 'apply' });
+    assert.equal(data[3].label, 'Underline text');
+    assert.deepEqual(data[3].metadata, { format: 'underline', action: 'apply', source: 'test' });
+    assert.isUndefined(data[4].label);
+    assert.isUndefined(data[4].metadata);
+    assert.isUndefined(data[5].label);
+    assert.deepEqual(data[5].metadata, { source: 'test' });
+  });
+
+  it('getHistory and jumpTo', () => {
+    const editor = hook.editor();
+    const events: string[] = [];
+    const logEvent = (e: EditorEvent<{}>) => events.push(e.type);
+    editor.on('Undo Redo', logEvent);
+
+    editor.resetContent('<p>a</p>');
+    editor.undoManager.transact(() => editor.setContent('<p>b</p>'), 'First');
+    editor.undoManager.transact(() => editor.setContent('<p>c</p>'), 'Second');
+
+    assert.deepEqual(editor.undoManager.getHistory(), [
+      { index: 0, label: undefined, metadata: undefined, current: false },
+      { index: 1, label: 'First', metadata: undefined, current: false },
+      { index: 2, label: 'Second', metadata: undefined, current: true }
+    ]);
+
+    assert.equal(editor.undoManager.jumpTo(0).content, '<p>a</p>');
+    TinyAssertions.assertContent(editor, '<p>a</p>');
+    assert.isTrue(editor.undoManager.getHistory()[0].current);
+    assert.isTrue(editor.undoManager.hasRedo());
+
+    assert.equal(editor.undoManager.jumpTo(2).label, 'Second');
+    TinyAssertions.assertContent(editor, '<p>c</p>');
+    assert.isFalse(editor.undoManager.hasRedo());
+
+    assert.isUndefined(editor.undoManager.jumpTo(2), 'Jumping to the current level should do nothing');
+    assert.isUndefined(editor.undoManager.jumpTo(3), 'Jumping to an invalid level should do nothing');
+    assert.deepEqual(events, [ 'undo', 'redo' ]);
+    editor.off('Undo Redo', logEvent);
+  });
+
   it('undo filter for mceRepaint is case insensitive', () => {
     const editor = hook.editor();
     editor.undoManager.clear();
@@ -0,0 +1,163 @@
+import { context, describe, it } from '@ephox/bedrock-client';
+import { Arr, Obj } from '@ephox/katamari';
+import { Hierarchy } from '@ephox/sugar';
+import { TinyAssertions, TinyDom, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { AnnotationRemovedEvent } from 'tinymce/core/api/EventTypes';
+import { EditorEvent } from 'tinymce/core/api/util/EventDispatcher';
+
+describe('browser.tinymce.core.annotate.AnnotationLifecycleTest', () => {
+  const events: Array<{ type: string; uid: string; nodes?: number }> = [];
+
+  const registerAlpha = (ed: Editor) => {
+    ed.annotator.register('alpha', {
+      decorate: (_uid, data) => ({
+        attributes: {
+          'data-test-anything': data.anything
+        },
+        classes: data.classes ?? [ ]
+      })
+    });
+  };
+
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    base_url: '/project/tinymce/js/tinymce',
+    indent: false,
+    setup: (ed: Editor) => {
+      ed.on('init', () => registerAlpha(ed));
+
+      ed.on('AnnotationRemoved', (e) => {
+        events.push({ type: e.type, uid: e.uid });
+      });
+
+      ed.on('AnnotationChanged', (e) => {
+        events.push({ type: e.type, uid: e.uid, nodes: e.nodes.length });
+      });
+    }
+  }, [], true);
+
+  // Replacing the content removes the annotations from the previous test, so those events are ignored
+  const setContent = (editor: Editor, content: string) => {
+    editor.setContent(content);
+    events.length = 0;
+  };
+
+  const marker = (uid: string, anything: string, content: string, classes: string = '') =>
+    `<span class="mce-annotation${classes}" data-mce-annotation-uid="${uid}" data-mce-annotation="alpha" data-test-anything="${anything}">${content}</span>`;
+
+  const annotateRange = (editor: Editor, path: number[], start: number, end: number, data: Record<string, any>) => {
+    const rng = editor.dom.createRng();
+    const text = Hierarchy.follow(TinyDom.body(editor), path).getOrDie().dom;
+    rng.setStart(text, start);
+    rng.setEnd(text, end);
+    editor.annotator.annotateRange('alpha', rng, data);
+  };
+
+  it('TBA: annotateRange annotates the range without moving the selection', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>abcdef</p><p>ghi</p>');
+    TinySelections.setCursor(editor, [ 1, 0 ], 1);
+    annotateRange(editor, [ 0, 0 ], 1, 3, { uid: 'id-one', anything: 'one' });
+
+    TinyAssertions.assertContent(editor, `<p>a${marker('id-one', 'one', 'bc')}def</p><p>ghi</p>`);
+    TinyAssertions.assertCursor(editor, [ 1, 0 ], 1);
+    assert.deepEqual(events, [], 'Annotating should not fire any events');
+  });
+
+  it('TBA: annotateRange annotates the surrounding word for a collapsed range', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>one two three</p>');
+    annotateRange(editor, [ 0, 0 ], 5, 5, { uid: 'id-one', anything: 'one' });
+    TinyAssertions.assertContent(editor, `<p>one ${marker('id-one', 'one', 'two')} three</p>`);
+  });
+
+  it('TBA: update redecorates every marker of the annotation', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>abc</p><p>def</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 1, 0 ], 2);
+    editor.annotator.annotate('alpha', { uid: 'id-one', anything: 'one' });
+    editor.annotator.update('alpha', 'id-one', { anything: 'two', classes: [ 'updated' ] });
+
+    TinyAssertions.assertContent(editor, `<p>a${marker('id-one', 'two', 'bc', ' updated')}</p><p>${marker('id-one', 'two', 'de', ' updated')}f</p>`);
+    assert.deepEqual(events, [], 'Updating should not fire any events');
+  });
+
+  it('TBA: AnnotationRemoved is fired when the annotated content is deleted', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>abcdef</p>');
+    annotateRange(editor, [ 0, 0 ], 1, 3, { uid: 'id-one', anything: 'one' });
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 2 ], 1);
+    editor.execCommand('Delete');
+
+    TinyAssertions.assertContent(editor, '<p>ef</p>');
+    assert.deepEqual(events, [{ type: 'annotationremoved', uid: 'id-one' }]);
+  });
+
+  it('TBA: AnnotationChanged is fired when an annotation is split', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>abcdef</p>');
+    annotateRange(editor, [ 0, 0 ], 1, 5, { uid: 'id-one', anything: 'one' });
+    TinySelections.setCursor(editor, [ 0, 1, 0 ], 2);
+    editor.execCommand('mceInsertNewLine');
+
+    assert.deepEqual(events, [{ type: 'annotationchanged', uid: 'id-one', nodes: 2 }]);
+    assert.lengthOf(Arr.flatten(Obj.values(editor.annotator.getAll('alpha'))), 2);
+  });
+
+  it('TBA: Only the annotations in the changed content are reported', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>abcdef</p><p>ghijkl</p>');
+    annotateRange(editor, [ 0, 0 ], 1, 3, { uid: 'id-one', anything: 'one' });
+    annotateRange(editor, [ 1, 0 ], 1, 3, { uid: 'id-two', anything: 'two' });
+    TinySelections.setSelection(editor, [ 1, 0 ], 0, [ 1, 2 ], 1);
+    editor.execCommand('Delete');
+    editor.undoManager.undo();
+    editor.undoManager.redo();
+
+    assert.deepEqual(events, [
+      { type: 'annotationremoved', uid: 'id-two' },
+      { type: 'annotationremoved', uid: 'id-two' }
+    ]);
+    assert.deepEqual(Obj.keys(editor.annotator.getAll('alpha')), [ 'id-one' ]);
+  });
+
+  it('TBA: Removing an annotation with the api does not fire any events', () => {
+    const editor = hook.editor();
+    setContent(editor, '<p>abcdef</p>');
+    annotateRange(editor, [ 0, 0 ], 1, 3, { uid: 'id-one', anything: 'one' });
+    editor.annotator.removeAll('alpha');
+    editor.nodeChanged();
+
+    TinyAssertions.assertContent(editor, '<p>abcdef</p>');
+    assert.deepEqual(events, []);
+  });
+
+  context('Listeners added after the editor is initialized', () => {
+    const lateHook = TinyHooks.bddSetupLight<Editor>({
+      base_url: '/project/tinymce/js/tinymce',
+      indent: false,
+      setup: (ed: Editor) => {
+        ed.on('init', () => registerAlpha(ed));
+      }
+    }, [], true);
+
+    it('TBA: The first edit after a listener is added is reported', () => {
+      const editor = lateHook.editor();
+      editor.setContent(`<p>a${marker('id-one', 'one', 'bc')}def</p>`);
+
+      const removed: string[] = [];
+      const onRemoved = (e: EditorEvent<AnnotationRemovedEvent>) => {
+        removed.push(e.uid);
+      };
+      editor.on('AnnotationRemoved', onRemoved);
+      TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 2 ], 1);
+      editor.execCommand('Delete');
+      editor.off('AnnotationRemoved', onRemoved);
+
+      TinyAssertions.assertContent(editor, '<p>ef</p>');
+      assert.deepEqual(removed, [ 'id-one' ]);
+    });
+  });
+});
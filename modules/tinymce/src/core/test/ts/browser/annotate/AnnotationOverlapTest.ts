@@ -0,0 +1,112 @@
+import { Waiter } from '@ephox/agar';
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr, Cell } from '@ephox/katamari';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import { annotate, assertGetAll } from '../../module/test/AnnotationAsserts';
+
+describe('browser.tinymce.core.annotate.AnnotationOverlapTest', () => {
+  const changes = Cell<Array<{ state: boolean; uid: string | null; uids: string[] }>>([]);
+
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    base_url: '/project/tinymce/js/tinymce',
+    indent: false,
+    setup: (ed: Editor) => {
+      ed.on('init', () => {
+        ed.annotator.register('alpha', {
+          decorate: () => ({ })
+        });
+
+        ed.annotator.register('beta', {
+          decorate: () => ({ })
+        });
+
+        ed.annotator.annotationChanged('alpha', (state, _name, data) => {
+          changes.set(changes.get().concat([{
+            state,
+            uid: state ? data.uid : null,
+            uids: state ? Arr.map(data.annotations, (annotation) => annotation.uid) : []
+          }]));
+        });
+      });
+    }
+  }, [], true);
+
+  const marker = (name: string, uid: string, content: string) =>
+    `<span class="mce-annotation" data-mce-annotation-uid="${uid}" data-mce-annotation="${name}">${content}</span>`;
+
+  it('TBA: annotations of different names can partially overlap', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>abcdefgh</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 5);
+    annotate(editor, 'alpha', 'a1', { });
+    TinySelections.setSelection(editor, [ 0, 1, 0 ], 2, [ 0, 2 ], 2);
+    annotate(editor, 'beta', 'b1', { });
+
+    TinyAssertions.assertContent(editor, `<p>a${marker('alpha', 'a1', 'bc' + marker('beta', 'b1', 'de'))}${marker('beta', 'b1', 'fg')}h</p>`);
+    assertGetAll(editor, { a1: 1 }, 'alpha');
+    assertGetAll(editor, { b1: 2 }, 'beta');
+
+    TinySelections.setCursor(editor, [ 0, 1, 0 ], 1);
+    editor.annotator.remove('alpha');
+    TinyAssertions.assertContent(editor, `<p>abc${marker('beta', 'b1', 'defg')}h</p>`);
+  });
+
+  it('TBA: an annotation that covers an existing annotation nests it', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>abcdefgh</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 2, [ 0, 0 ], 4);
+    annotate(editor, 'alpha', 'a1', { });
+    TinySelections.setSelection(editor, [ 0 ], 0, [ 0 ], 3);
+    annotate(editor, 'beta', 'b1', { });
+
+    TinyAssertions.assertContent(editor, `<p>${marker('beta', 'b1', 'ab' + marker('alpha', 'a1', 'cd') + 'efgh')}</p>`);
+
+    editor.annotator.removeAll('beta');
+    TinyAssertions.assertContent(editor, `<p>ab${marker('alpha', 'a1', 'cd')}efgh</p>`);
+  });
+
+  it('TBA: annotations of the same name can overlap and be extended', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>abcdefgh</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 5);
+    annotate(editor, 'alpha', 'a1', { });
+    TinySelections.setSelection(editor, [ 0, 1, 0 ], 2, [ 0, 2 ], 2);
+    annotate(editor, 'alpha', 'a2', { });
+    assertGetAll(editor, { a1: 1, a2: 2 }, 'alpha');
+
+    // Annotating over the edge of an existing marker for the same uid extends that marker
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 1, 0 ], 1);
+    annotate(editor, 'alpha', 'a1', { });
+    TinyAssertions.assertContent(editor, `<p>${marker('alpha', 'a1', 'abc' + marker('alpha', 'a2', 'de'))}${marker('alpha', 'a2', 'fg')}h</p>`);
+
+    editor.annotator.removeAll('alpha');
+    TinyAssertions.assertContent(editor, '<p>abcdefgh</p>');
+  });
+
+  it('TBA: annotationChanged reports every annotation at the cursor', async () => {
+    const editor = hook.editor();
+    editor.setContent('<p>abcdefgh</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 7);
+    annotate(editor, 'alpha', 'a1', { });
+    TinySelections.setSelection(editor, [ 0, 1, 0 ], 2, [ 0, 1, 0 ], 4);
+    annotate(editor, 'alpha', 'a2', { });
+    TinySelections.setCursor(editor, [ 0, 0 ], 0);
+    await Waiter.pWait(100);
+    changes.set([]);
+
+    TinySelections.setCursor(editor, [ 0, 1, 1, 0 ], 1);
+    await Waiter.pTryUntil('Wait for the nested annotations', () => assert.deepEqual(changes.get(), [
+      { state: true, uid: 'a2', uids: [ 'a2', 'a1' ] }
+    ]));
+
+    TinySelections.setCursor(editor, [ 0, 1, 0 ], 1);
+    await Waiter.pTryUntil('Wait for the outer annotation', () => assert.deepEqual(changes.get(), [
+      { state: true, uid: 'a2', uids: [ 'a2', 'a1' ] },
+      { state: true, uid: 'a1', uids: [ 'a1' ] }
+    ]));
+  });
+});
@@ -0,0 +1,86 @@
+import { afterEach, before, describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { ContentFilteredEvent } from 'tinymce/core/api/EventTypes';
+import { EditorEvent } from 'tinymce/core/api/util/EventDispatcher';
+
+describe('browser.tinymce.core.content.ContentFilteredTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    invalid_styles: { '*': 'position' },
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, []);
+
+  let events: Array<{ context: string; items: ContentFilteredEvent['items'] }> = [];
+
+  before(() => {
+    hook.editor().on('ContentFiltered', (e: EditorEvent<ContentFilteredEvent>) => {
+      events.push({ context: e.context, items: e.items });
+    });
+  });
+
+  afterEach(() => {
+    events = [];
+  });
+
+  it('TBA: setContent fires ContentFiltered with the removed elements, attributes and styles', () => {
+    const editor = hook.editor();
+    editor.setContent('<p onclick="alert(1)">a<o:p>b</o:p><a href="javascript:alert(1)">c</a><span style="color: red; position: fixed;">d</span></p>');
+    TinyAssertions.assertContent(editor, '<p>ab<a>c</a><span style="color: red;">d</span></p>');
+    assert.deepEqual(events, [{
+      context: 'setcontent',
+      items: [
+        { type: 'attribute', name: 'onclick', value: 'alert(1)', path: [ 'p' ], reason: 'invalid-attribute' },
+        { type: 'element', name: 'o:p', path: [ 'p' ], reason: 'invalid-element' },
+        { type: 'attribute', name: 'href', value: 'javascript:alert(1)', path: [ 'p', 'a' ], reason: 'unsafe-url' },
+        { type: 'style', name: 'position', value: 'fixed', path: [ 'p', 'span' ], reason: 'invalid-style' }
+      ]
+    }]);
+  });
+
+  it('TBA: ContentFiltered is not fired when nothing is removed or events are disabled', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>a</p>');
+    editor.setContent('<p onclick="alert(1)">a</p>', { no_events: true });
+    TinyAssertions.assertContent(editor, '<p>a</p>');
+    assert.deepEqual(events, []);
+  });
+
+  it('TBA: setContent with the report option returns the content and the removed items', () => {
+    const editor = hook.editor();
+    const report = editor.setContent('<p>a<o:p>b</o:p></p>', { report: true });
+    assert.equal(report.content, '<p>ab</p>');
+    assert.deepEqual(report.items, [
+      { type: 'element', name: 'o:p', path: [ 'p' ], reason: 'invalid-element' }
+    ]);
+    TinyAssertions.assertContent(editor, '<p>ab</p>');
+
+    const cleanReport = editor.setContent('<p>a</p>', { report: true });
+    assert.deepEqual(cleanReport.items, []);
+  });
+
+  it('TBA: Pasting content fires ContentFiltered with the paste context', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>a</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 1);
+    editor.insertContent('<strong onmouseover="alert(1)">b</strong>', { paste: true });
+    TinyAssertions.assertContent(editor, '<p>a<strong>b</strong></p>');
+    assert.deepEqual(events, [{
+      context: 'paste',
+      items: [
+        { type: 'attribute', name: 'onmouseover', value: 'alert(1)', path: [ 'strong' ], reason: 'invalid-attribute' }
+      ]
+    }]);
+  });
+
+  it('TBA: Inserting content with events disabled does not fire ContentFiltered', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>a</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 1);
+    editor.insertContent('<strong onmouseover="alert(1)">b</strong>', { no_events: true });
+    TinyAssertions.assertContent(editor, '<p>a<strong>b</strong></p>');
+    assert.deepEqual(events, []);
+  });
+});
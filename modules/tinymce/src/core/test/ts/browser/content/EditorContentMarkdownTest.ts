@@ -0,0 +1,74 @@
+import { describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+describe('browser.tinymce.core.content.EditorContentMarkdownTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    base_url: '/project/tinymce/js/tinymce'
+  }, []);
+
+  it('Set content as markdown', () => {
+    const editor = hook.editor();
+    editor.setContent('# Title\n\nSome **bold** and *italic* text\n\n- a\n- b', { format: 'markdown' });
+    TinyAssertions.assertContent(editor, '<h1>Title</h1>\n<p>Some <strong>bold</strong> and <em>italic</em> text</p>\n<ul>\n<li>a</li>\n<li>b</li>\n</ul>');
+  });
+
+  it('Get content as markdown', () => {
+    const editor = hook.editor();
+    editor.setContent(
+      '<h2>Title</h2><p>A <a href="https://www.tiny.cloud">link</a> and <code>code</code></p>' +
+      '<ol><li>one</li><li>two<ul><li>nested</li></ul></li></ol><blockquote><p>quote</p></blockquote>'
+    );
+    assert.equal(
+      editor.getContent({ format: 'markdown' }),
+      '## Title\n\nA [link](https://www.tiny.cloud) and `code`\n\n1. one\n2. two\n   - nested\n\n> quote'
+    );
+  });
+
+  it('Get content with code blocks and tables as markdown', () => {
+    const editor = hook.editor();
+    editor.setContent(
+      '<pre class="language-javascript">const a = `b`;</pre>' +
+      '<table><thead><tr><th style="text-align: right;">a</th><th>b</th></tr></thead><tbody><tr><td>1</td><td>2|3</td></tr></tbody></table>'
+    );
+    assert.equal(
+      editor.getContent({ format: 'markdown' }),
+      '```javascript\nconst a = `b`;\n```\n\n| a | b |\n| ---: | --- |\n| 1 | 2\\|3 |'
+    );
+  });
+
+  it('Markdown content should round trip', () => {
+    const editor = hook.editor();
+    const markdown = '### Heading\n\nText with ~~strike~~ and a \\*literal\\* star\\\nafter a break\n\n- [x](http://x.com "title")\n- ![alt](image.png)\n\n---\n\n| a | b |\n| :---: | --- |\n| 1 | 2 |';
+    editor.setContent(markdown, { format: 'markdown' });
+    assert.equal(editor.getContent({ format: 'markdown' }), markdown);
+  });
+
+  it('Markdown fires the content events with the markdown format', () => {
+    const editor = hook.editor();
+    const formats: string[] = [];
+    const collect = (e: { format: string }) => formats.push(e.format);
+    editor.on('BeforeGetContent GetContent BeforeSetContent SetContent', collect);
+    editor.setContent('a', { format: 'markdown' });
+    editor.getContent({ format: 'markdown' });
+    editor.off('BeforeGetContent GetContent BeforeSetContent SetContent', collect);
+    assert.deepEqual(formats, [ 'markdown', 'markdown', 'markdown', 'markdown' ]);
+  });
+
+  it('Get selection content as markdown', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>a <strong>bold</strong> b</p>');
+    TinySelections.setSelection(editor, [ 0, 1, 0 ], 0, [ 0, 2 ], 2);
+    assert.equal(editor.selection.getContent({ format: 'markdown' }), '**bold** b');
+  });
+
+  it('Insert markdown content', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>ab</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 1);
+    editor.insertContent('**x**', { format: 'markdown' });
+    TinyAssertions.assertContent(editor, '<p>a<strong>x</strong>b</p>');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr, Fun } from '@ephox/katamari';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { ContentOperation } from 'tinymce/core/delta/DeltaTypes';
+import * as NodePath from 'tinymce/core/dom/NodePath';
+
+describe('browser.tinymce.core.delta.ContentDeltaTest', () => {
+  const deltas: ContentOperation[][] = [];
+
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    base_url: '/project/tinymce/js/tinymce',
+    indent: false,
+    setup: (ed: Editor) => {
+      ed.on('ContentDelta', (e) => {
+        deltas.push(e.operations);
+      });
+    }
+  }, [], true);
+
+  const applyOperations = (root: Node, operations: ContentOperation[]) => Arr.each(operations, (op) => {
+    if ('operations' in op) {
+      applyOperations(root, op.operations);
+    } else if (op.type === 'insert-text') {
+      const text = NodePath.resolve(root, op.path) as Text;
+      text.insertData(op.offset, op.text);
+    } else if (op.type === 'delete-range') {
+      const node = NodePath.resolve(root, op.path);
+      if (node.nodeType === 3) {
+        (node as Text).deleteData(op.offset, op.length);
+      } else {
+        for (let i = 0; i < op.length; i++) {
+          node.removeChild(node.childNodes[op.offset]);
+        }
+      }
+    } else if (op.type === 'set-attribute') {
+      const elm = NodePath.resolve(root, op.path) as Element;
+      if (op.value === null) {
+        elm.removeAttribute(op.name);
+      } else {
+        elm.setAttribute(op.name, op.value);
+      }
+    } else {
+      const parent = NodePath.resolve(root, op.path.slice(1));
+      const template = document.createElement('template');
+      template.innerHTML = op.html;
+      // Empty text nodes are inserted with empty html
+      const node = template.content.firstChild ?? document.createTextNode('');
+      parent.insertBefore(node, parent.childNodes[op.path[0]] ?? null);
+    }
+  });
+
+  const resetContent = (editor: Editor, content: string) => {
+    editor.resetContent(content);
+    deltas.length = 0;
+  };
+
+  // Applying the operations to a copy of the previous content should produce the current content
+  const assertReplay = (editor: Editor, before: Node) => {
+    Arr.each(deltas, (operations) => applyOperations(before, operations));
+    assert.equal(editor.serializer.serialize(before as Element, { getInner: true }), editor.getContent(), 'Replayed content should match the editor content');
+  };
+
+  const pickTypes = (operations: ContentOperation[]) => Arr.map(operations, (op) => op.type);
+
+  it('TBA: Typing produces an insert-text operation', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const before = editor.getBody().cloneNode(true);
+    const text = editor.getBody().firstChild.firstChild as Text;
+    text.appendData('de');
+    editor.undoManager.add();
+
+    assert.deepEqual(deltas, [[{ type: 'insert-text', path: [ 0, 0 ], offset: 3, text: 'de' }]]);
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Pressing enter produces a split-block operation', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const before = editor.getBody().cloneNode(true);
+    TinySelections.setCursor(editor, [ 0, 0 ], 1);
+    editor.execCommand('mceInsertNewLine');
+
+    assert.lengthOf(deltas, 1);
+    assert.deepInclude(deltas[0][0], { type: 'split-block', path: [ 0 ], offset: 1 });
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Applying a format produces an apply-format operation', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const before = editor.getBody().cloneNode(true);
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+    editor.execCommand('Bold');
+
+    assert.deepEqual(pickTypes(deltas[0]), [ 'apply-format' ]);
+    assert.deepInclude(deltas[0][0], { format: 'bold' });
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Changing an attribute produces a set-attribute operation', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const before = editor.getBody().cloneNode(true);
+    editor.dom.setAttrib(editor.getBody().firstChild as Element, 'title', 'x');
+    editor.undoManager.add();
+
+    assert.deepEqual(deltas, [[{ type: 'set-attribute', path: [ 0 ], name: 'title', value: 'x' }]]);
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Inserted nodes are serialized without the internal attributes and bogus elements', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const before = editor.getBody().cloneNode(true);
+    editor.dom.add(editor.getBody(), 'p', { 'data-mce-style': 'color: red;', 'style': 'color: red;' }, 'def<span data-mce-bogus="all">x</span><br data-mce-bogus="1">');
+    editor.undoManager.add();
+
+    assert.deepEqual(deltas, [[{ type: 'insert-node', path: [ 1 ], html: '<p style="color: red;">def</p>' }]]);
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Internal attributes and bogus elements do not produce operations', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p><p>def</p>');
+    const before = editor.getBody().cloneNode(true);
+    const firstBlock = editor.getBody().firstChild as Element;
+    editor.dom.setAttrib(firstBlock, 'data-mce-selected', '1');
+    editor.getBody().insertBefore(editor.dom.create('p', { 'data-mce-bogus': 'all', 'data-mce-caret': 'before' }, '<br>'), firstBlock);
+    editor.dom.setAttrib(editor.getBody().lastChild as Element, 'title', 'x');
+    editor.undoManager.add();
+
+    assert.deepEqual(deltas, [[{ type: 'set-attribute', path: [ 1 ], name: 'title', value: 'x' }]]);
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Operations are batched per undo level and emitted for undo and redo', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const before = editor.getBody().cloneNode(true);
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 3);
+    editor.execCommand('Italic');
+    editor.undoManager.undo();
+    editor.undoManager.redo();
+
+    assert.lengthOf(deltas, 3);
+    assertReplay(editor, before);
+  });
+
+  it('TBA: Working out the operations does not change the editor content', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    const observer = new MutationObserver(Fun.noop);
+    observer.observe(editor.getBody(), { childList: true, subtree: true, characterData: true, attributes: true });
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+    editor.dom.add(editor.getBody(), 'p', {}, 'def');
+    observer.takeRecords();
+    editor.undoManager.add();
+
+    const records = observer.takeRecords();
+    observer.disconnect();
+    assert.lengthOf(deltas, 1);
+    assert.lengthOf(records, 0, 'The editor content should not be changed');
+    TinyAssertions.assertSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+  });
+
+  it('TBA: No operations are emitted when the content has not changed', () => {
+    const editor = hook.editor();
+    resetContent(editor, '<p>abc</p>');
+    editor.undoManager.add();
+    assert.deepEqual(deltas, []);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+describe('browser.tinymce.core.fmt.FormatGroupsTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    indent: false,
+    formats: {
+      callout: { block: 'div', classes: 'callout', group: 'box' },
+      note: { block: 'div', classes: 'note', group: 'box' },
+      highlight: { inline: 'mark', classes: 'highlight', group: 'marker' },
+      strike: { inline: 'mark', classes: 'strike', group: 'marker' },
+      tag: { inline: 'span', classes: 'tag', group: 'marker', exclusive: false }
+    },
+    base_url: '/project/tinymce/js/tinymce'
+  }, []);
+
+  it('TBA: getGroup returns the names of the formats in a group', () => {
+    const editor = hook.editor();
+    assert.deepEqual(editor.formatter.getGroup('script'), [ 'subscript', 'superscript' ]);
+    assert.deepEqual(editor.formatter.getGroup('align'), [ 'alignleft', 'aligncenter', 'alignright', 'alignjustify' ]);
+    assert.deepEqual(editor.formatter.getGroup('marker'), [ 'highlight', 'strike', 'tag' ]);
+    assert.deepEqual(editor.formatter.getGroup('unknown'), []);
+  });
+
+  it('TBA: Applying a format removes the other formats in its group from the selection', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>a<sub>bc</sub>d</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 2 ], 1);
+    editor.formatter.apply('superscript');
+    TinyAssertions.assertContent(editor, '<p><sup>abcd</sup></p>');
+  });
+
+  it('TBA: Applying a block format removes the classes of the other block formats in its group', () => {
+    const editor = hook.editor();
+    editor.setContent('<div class="callout">a</div>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 1);
+    editor.formatter.apply('note');
+    TinyAssertions.assertContent(editor, '<div class="note">a</div>');
+  });
+
+  it('TBA: Formats that are not exclusive are grouped without removing the other formats', () => {
+    const editor = hook.editor();
+    editor.setContent('<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 3);
+    editor.formatter.apply('highlight');
+    editor.formatter.apply('strike');
+    editor.formatter.apply('tag');
+    TinyAssertions.assertContent(editor, '<p><span class="tag"><mark class="strike">abc</mark></span></p>');
+  });
+
+  it('TBA: Applying an alignment removes the other alignments', () => {
+    const editor = hook.editor();
+    editor.setContent('<p style="text-align: center;">a</p><p style="text-align: right;">b</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 1, 0 ], 1);
+    editor.execCommand('JustifyLeft');
+    TinyAssertions.assertContent(editor, '<p style="text-align: left;">a</p><p style="text-align: left;">b</p>');
+    editor.execCommand('JustifyNone');
+    TinyAssertions.assertContent(editor, '<p>a</p><p>b</p>');
+  });
+});
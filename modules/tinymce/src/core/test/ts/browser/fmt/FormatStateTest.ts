@@ -0,0 +1,78 @@
+import { describe, it } from '@ephox/bedrock-client';
+import { TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+describe('browser.tinymce.core.fmt.FormatStateTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, []);
+
+  const content = '<p style="text-align: center;"><strong>ab</strong>cd <span style="color: red; font-size: 18px;">ef</span></p><h1>gh</h1>';
+
+  it('TBA: A collapsed selection fully matches the formats of the caret position', () => {
+    const editor = hook.editor();
+    editor.setContent(content);
+    TinySelections.setCursor(editor, [ 0, 0, 0 ], 1);
+    const state = editor.formatter.getState();
+    assert.equal(state.formats.bold, 'full');
+    assert.equal(state.formats.aligncenter, 'full');
+    assert.equal(state.formats.p, 'full');
+    assert.equal(state.formats.italic, 'none');
+    assert.equal(state.formats.h1, 'none');
+    assert.deepEqual(state.closest, [ 'bold', 'removeformat', 'aligncenter', 'p' ]);
+  });
+
+  it('TBA: A selection partially matches the formats applied to some of the selected text', () => {
+    const editor = hook.editor();
+    editor.setContent(content);
+    TinySelections.setSelection(editor, [ 0, 0, 0 ], 0, [ 0, 1 ], 2);
+    const state = editor.formatter.getState();
+    assert.equal(state.formats.bold, 'partial');
+    assert.equal(state.formats.p, 'full');
+  });
+
+  it('TBA: A selection across blocks partially matches the block formats', () => {
+    const editor = hook.editor();
+    editor.setContent(content);
+    TinySelections.setSelection(editor, [ 0, 0, 0 ], 0, [ 1, 0 ], 2);
+    const state = editor.formatter.getState();
+    assert.equal(state.formats.p, 'partial');
+    assert.equal(state.formats.h1, 'partial');
+    assert.equal(state.formats.aligncenter, 'partial');
+  });
+
+  it('TBA: The variables of the matched formats are resolved', () => {
+    const editor = hook.editor();
+    editor.setContent(content);
+    TinySelections.setSelection(editor, [ 0, 2, 0 ], 0, [ 0, 2, 0 ], 2);
+    const state = editor.formatter.getState();
+    assert.equal(state.formats.forecolor, 'full');
+    assert.equal(state.formats.fontsize, 'full');
+    assert.deepEqual(state.vars.forecolor, { value: 'red' });
+    assert.deepEqual(state.vars.fontsize, { value: '18px' });
+  });
+
+  it('TBA: The state of a specified range is returned instead of the selection', () => {
+    const editor = hook.editor();
+    editor.setContent(content);
+    TinySelections.setCursor(editor, [ 1, 0 ], 1);
+    const rng = editor.dom.createRng();
+    rng.setStart(editor.dom.select('strong')[0].firstChild, 1);
+    rng.setEnd(editor.dom.select('strong')[0].firstChild, 1);
+    const state = editor.formatter.getState(rng);
+    assert.equal(state.formats.bold, 'full');
+    assert.equal(state.formats.h1, 'none');
+  });
+
+  it('TBA: Only the specified formats are matched against the selected text and its parents', () => {
+    const editor = hook.editor();
+    editor.setContent(content);
+    TinySelections.setSelection(editor, [ 0, 0, 0 ], 0, [ 1, 0 ], 2);
+    const state = editor.formatter.getState(undefined, [ 'bold', 'h1', 'unknown' ]);
+    assert.deepEqual(state.formats, { bold: 'partial', h1: 'partial' });
+    assert.deepEqual(state.closest, [ 'bold' ]);
+  });
+});
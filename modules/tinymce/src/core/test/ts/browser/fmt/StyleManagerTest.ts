@@ -0,0 +1,107 @@
+import { beforeEach, describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+describe('browser.tinymce.core.fmt.StyleManagerTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    indent: false,
+    named_styles: {
+      note: { title: 'Note', styles: { color: 'gray' }},
+      warning: { based_on: 'note', block: 'div', styles: { 'font-weight': 'bold' }},
+      term: { type: 'character', styles: { 'font-style': 'italic' }}
+    },
+    base_url: '/project/tinymce/js/tinymce'
+  }, []);
+
+  const setupStyledContent = (editor: Editor) => {
+    editor.setContent('<p>a</p><p>b c</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 1);
+    editor.styleManager.apply('note');
+    TinySelections.setSelection(editor, [ 1, 0 ], 0, [ 1, 0 ], 1);
+    editor.styleManager.apply('warning');
+    TinySelections.setSelection(editor, [ 1, 0 ], 2, [ 1, 0 ], 3);
+    editor.styleManager.apply('term');
+  };
+
+  beforeEach(() => {
+    const styleManager = hook.editor().styleManager;
+    styleManager.register('note', { title: 'Note', styles: { color: 'gray' }});
+    styleManager.register('warning', { based_on: 'note', block: 'div', styles: { 'font-weight': 'bold' }});
+    styleManager.register('term', { type: 'character', styles: { 'font-style': 'italic' }});
+  });
+
+  it('TBA: Resolves the styles inherited from the style a style is based on', () => {
+    const warning = hook.editor().styleManager.get('warning');
+    assert.equal(warning.type, 'paragraph');
+    assert.equal(warning.block, 'div');
+    assert.equal(warning.className, 'style-warning');
+    assert.deepEqual(warning.styles, { 'color': 'gray', 'font-weight': 'bold' });
+    assert.deepEqual(Arr.map(hook.editor().styleManager.getAll(), (style) => style.name), [ 'note', 'warning', 'term' ]);
+  });
+
+  it('TBA: Applies paragraph and character styles to the selection', () => {
+    const editor = hook.editor();
+    setupStyledContent(editor);
+    TinyAssertions.assertContent(editor,
+      '<p class="style-note" style="color: gray;">a</p>' +
+      '<div class="style-warning" style="color: gray; font-weight: bold;">b <span class="style-term" style="font-style: italic;">c</span></div>'
+    );
+    assert.isTrue(editor.styleManager.match('term'));
+    assert.isTrue(editor.styleManager.match('warning'));
+    assert.isFalse(editor.styleManager.match('note'));
+  });
+
+  it('TBA: Changing a style updates the elements with the style and the styles based on it', () => {
+    const editor = hook.editor();
+    setupStyledContent(editor);
+    editor.styleManager.register('note', { title: 'Note', styles: { 'color': 'blue', 'font-size': '12px' }});
+    editor.styleManager.register('warning', { based_on: 'note', styles: { 'font-weight': 'bold' }});
+    TinyAssertions.assertContent(editor,
+      '<p class="style-note" style="color: blue; font-size: 12px;">a</p>' +
+      '<p class="style-warning" style="color: blue; font-size: 12px; font-weight: bold;">b <span class="style-term" style="font-style: italic;">c</span></p>'
+    );
+  });
+
+  it('TBA: Removing a style removes it from the content and rebases the styles based on it', () => {
+    const editor = hook.editor();
+    setupStyledContent(editor);
+    editor.styleManager.unregister('note');
+    editor.styleManager.unregister('term');
+    TinyAssertions.assertContent(editor, '<p>a</p><div class="style-warning" style="font-weight: bold;">b c</div>');
+    assert.isUndefined(editor.styleManager.get('note'));
+    assert.isUndefined(editor.styleManager.get('warning').basedOn);
+    assert.isFalse(editor.formatter.has('style-term'));
+
+    editor.undoManager.undo();
+    TinyAssertions.assertContent(editor,
+      '<p>a</p><div class="style-warning" style="font-weight: bold;">b <span class="style-term" style="font-style: italic;">c</span></div>'
+    );
+  });
+
+  it('TBA: Fires a NamedStyleChanged event when a style is registered or removed', () => {
+    const editor = hook.editor();
+    const events: string[] = [];
+    const onChange = (e: { name: string; action: string }) => events.push(`${e.action}:${e.name}`);
+    editor.on('NamedStyleChanged', onChange);
+    editor.styleManager.register('aside', { type: 'paragraph', styles: { color: 'green' }});
+    editor.styleManager.unregister('aside');
+    editor.styleManager.unregister('unknown');
+    editor.off('NamedStyleChanged', onChange);
+    assert.deepEqual(events, [ 'register:aside', 'unregister:aside' ]);
+  });
+
+  it('TBA: Style names that are not valid class names are rejected', () => {
+    const editor = hook.editor();
+    assert.isFalse(editor.styleManager.register('two words', { styles: { color: 'red' }}));
+    assert.isFalse(editor.styleManager.register('a.b', { styles: { color: 'red' }}));
+    assert.isFalse(editor.styleManager.register('1st', { styles: { color: 'red' }}));
+    assert.isUndefined(editor.styleManager.get('two words'));
+    assert.isFalse(editor.options.set('named_styles', { 'a:b': { styles: { color: 'red' }}}));
+
+    assert.isTrue(editor.styleManager.register('side-note_2', { styles: { color: 'red' }}));
+    editor.styleManager.unregister('side-note_2');
+  });
+});
@@ -0,0 +1,67 @@
+import { context, describe, it } from '@ephox/bedrock-client';
+import { TinyHooks } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import ContentPipeline, { ContentPipelineSettings } from 'tinymce/core/api/html/ContentPipeline';
+
+describe('browser.tinymce.core.html.ContentPipelineTest', () => {
+  const settings: ContentPipelineSettings = {
+    protect: [ /<\?php.*?\?>/g ],
+    noneditable_regexp: /\{\{[^}]+\}\}/g,
+    document_base_url: 'http://localhost/base/'
+  };
+
+  context('Normalization', () => {
+    const pipeline = ContentPipeline(settings);
+
+    it('TBA: Content is wrapped in root blocks and invalid elements are converted or removed', () => {
+      assert.equal(pipeline.process('text <b>bold</b>'), '<p>text <strong>bold</strong></p>');
+      assert.equal(pipeline.process('<p><font color="red">a</font></p><script>alert(1)</script>'), '<p><span style="color: red;">a</span></p>');
+    });
+
+    it('TBA: Empty content is returned as an empty string', () => {
+      assert.equal(pipeline.process(''), '');
+      assert.equal(pipeline.process('   '), '');
+      assert.equal(pipeline.process('<p>&nbsp;</p>'), '');
+    });
+
+    it('TBA: Protected and noneditable content is kept as is', () => {
+      assert.equal(pipeline.process('<p>a <?php echo 1; ?> b</p>'), '<p>a <?php echo 1; ?> b</p>');
+      assert.equal(pipeline.process('<p>Hello {{name}}</p>'), '<p>Hello {{name}}</p>');
+    });
+
+    it('TBA: URLs are converted relative to the document base url', () => {
+      assert.equal(
+        pipeline.process('<p><a href="http://localhost/base/page.html">a</a><img src="http://localhost/img.png"></p>'),
+        '<p><a href="page.html">a</a><img src="../img.png" /></p>'
+      );
+      assert.equal(
+        ContentPipeline({ ...settings, relative_urls: false }).process('<p><a href="page.html">a</a></p>'),
+        '<p><a href="/base/page.html">a</a></p>'
+      );
+    });
+
+    it('TBA: Block elements are indented and styles are normalized', () => {
+      assert.equal(
+        pipeline.process('<p style="color:red;font-weight:bold">a</p><ul><li>b</li></ul>'),
+        '<p style="color: red; font-weight: bold;">a</p>\n<ul>\n<li>b</li>\n</ul>'
+      );
+    });
+  });
+
+  context('Editor', () => {
+    const hook = TinyHooks.bddSetupLight<Editor>({
+      ...settings,
+      base_url: '/project/tinymce/js/tinymce'
+    }, []);
+
+    it('TBA: The pipeline output is identical to the editor content', () => {
+      const editor = hook.editor();
+      const pipeline = ContentPipeline(settings);
+      const html = '<div class="mceNonEditable">a</div><p>{{b}} <?php c ?></p><p></p><pre>  d\n  e</pre><p><a href="http://localhost/base/f.html">f</a></p>';
+      editor.setContent(html);
+      assert.equal(pipeline.process(html), editor.getContent());
+    });
+  });
+});
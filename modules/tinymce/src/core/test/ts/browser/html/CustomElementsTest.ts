@@ -0,0 +1,62 @@
+import { context, describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import DomParser from 'tinymce/core/api/html/DomParser';
+import Schema, { CustomElementSpec } from 'tinymce/core/api/html/Schema';
+import HtmlSerializer from 'tinymce/core/api/html/Serializer';
+import * as InsertNewLine from 'tinymce/core/newline/InsertNewLine';
+
+describe('browser.tinymce.core.html.CustomElementsTest', () => {
+  const customElements: Record<string, CustomElementSpec> = {
+    'x-callout': { children: [ 'p', 'ul' ], attributes: [ 'kind', 'data-*' ], default_attributes: { kind: 'info' }},
+    'x-tag': { type: 'inline', children: [ '#text' ], attributes: [ 'name' ] },
+    'x-embed': { type: 'void', attributes: [ 'src' ] }
+  };
+
+  context('DomParser and Serializer', () => {
+    const schema = Schema({ custom_elements: customElements });
+    const serializer = HtmlSerializer({}, schema);
+
+    const parse = (html: string) => serializer.serialize(DomParser({}, schema).parse(html));
+
+    it('TBA: Attributes are filtered and default attributes are added', () => {
+      assert.equal(
+        parse('<x-callout data-id="1" title="a"><p>a<x-tag name="b" title="c">b</x-tag></p></x-callout>'),
+        '<x-callout kind="info" data-id="1"><p>a<x-tag name="b">b</x-tag></p></x-callout>'
+      );
+    });
+
+    it('TBA: Children that are not allowed are moved out of custom elements', () => {
+      assert.equal(parse('<x-callout kind="tip"><p>a</p><h1>b</h1></x-callout>'), '<x-callout kind="tip"><p>a</p></x-callout><h1>b</h1>');
+    });
+
+    it('TBA: Void custom elements are written with an end tag and without content', () => {
+      assert.equal(parse('<p>a<x-embed src="b.html">c</x-embed>d</p>'), '<p>a<x-embed src="b.html"></x-embed>cd</p>');
+    });
+  });
+
+  context('Editor', () => {
+    const hook = TinyHooks.bddSetupLight<Editor>({
+      custom_elements: customElements,
+      indent: false,
+      base_url: '/project/tinymce/js/tinymce'
+    }, []);
+
+    it('TBA: Void and inline custom elements are wrapped in root blocks but block custom elements are not', () => {
+      const editor = hook.editor();
+      editor.setContent('<x-embed src="a.html"></x-embed><x-tag name="b">c</x-tag><x-callout><p>d</p></x-callout>');
+      TinyAssertions.assertContent(editor, '<p><x-embed src="a.html"></x-embed><x-tag name="b">c</x-tag></p><x-callout kind="info"><p>d</p></x-callout>');
+    });
+
+    it('TBA: Enter in a custom block that can not contain text wraps the text in a paragraph', () => {
+      const editor = hook.editor();
+      editor.getBody().innerHTML = '<x-callout kind="info">ab</x-callout>';
+      TinySelections.setCursor(editor, [ 0, 0 ], 2);
+      InsertNewLine.insert(editor);
+      TinyAssertions.assertContent(editor, '<x-callout kind="info"><p>ab</p><p>&nbsp;</p></x-callout>');
+      TinyAssertions.assertSelection(editor, [ 0, 1 ], 0, [ 0, 1 ], 0);
+    });
+  });
+});
@@ -816,4 +816,21 @@ describe('browser.tinymce.core.html.DomParserTest', () => {
       '</table>'
     );
   });
+
+  it('validate', () => {
+    const validationSchema = Schema({ valid_elements: 'p,a[href],span[style]', invalid_styles: 'position' });
+    const validationParser = DomParser({}, validationSchema);
+    const html = '<p onclick="alert(1)">a<em>b</em><span style="color: red; position: fixed;">c</span><a href="javascript:alert(1)">d</a></p>';
+
+    assert.deepEqual(validationParser.validate(html), {
+      valid: false,
+      items: [
+        { type: 'attribute', name: 'onclick', value: 'alert(1)', path: [ 'p' ], reason: 'invalid-attribute' },
+        { type: 'element', name: 'em', path: [ 'p' ], reason: 'invalid-element' },
+        { type: 'attribute', name: 'href', value: 'javascript:alert(1)', path: [ 'p', 'a' ], reason: 'unsafe-url' },
+        { type: 'style', name: 'position', value: 'fixed', path: [ 'p', 'span' ], reason: 'invalid-style' }
+      ]
+    });
+    assert.deepEqual(validationParser.validate('<p>a<span style="color: red;">b</span></p>'), { valid: true, items: [] });
+  });
 });
@@ -0,0 +1,175 @@
+import { context, describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import DomParser, { SanitizationPolicy } from 'tinymce/core/api/html/DomParser';
+import Schema from 'tinymce/core/api/html/Schema';
+import HtmlSerializer from 'tinymce/core/api/html/Serializer';
+import MediaPlugin from 'tinymce/plugins/media/Plugin';
+
+describe('browser.tinymce.core.html.SanitizationTest', () => {
+  const schema = Schema();
+  const serializer = HtmlSerializer({}, schema);
+
+  const sanitize = (policy: SanitizationPolicy, html: string, sanitizeContext?: string) => {
+    const parser = DomParser({ sanitization_policy: policy, allow_script_urls: true }, schema);
+    const root = parser.parse(html, { sanitize_context: sanitizeContext });
+    return { html: serializer.serialize(root), report: parser.getSanitizationReport() };
+  };
+
+  context('DomParser', () => {
+    it('TBA: Elements that are not allowed are unwrapped and raw text elements are removed', () => {
+      const result = sanitize({ elements: [ 'p', 'strong' ] }, '<p><strong>a</strong><em>b</em><img src="x.png"></p><p><textarea>c</textarea></p>');
+      assert.equal(result.html, '<p><strong>a</strong>b</p><p></p>');
+      assert.deepEqual(result.report, {
+        context: undefined,
+        items: [
+          { type: 'element', element: 'em', name: 'em', path: [ 'p' ], reason: 'element-not-allowed' },
+          { type: 'element', element: 'img', name: 'img', path: [ 'p' ], reason: 'element-not-allowed' },
+          { type: 'element', element: 'textarea', name: 'textarea', path: [ 'p' ], reason: 'element-not-allowed' }
+        ]
+      });
+    });
+
+    it('TBA: Attributes are allowed globally or per element', () => {
+      const result = sanitize({ attributes: { '*': [ 'title' ], 'a': [ 'href' ] }}, '<p title="t" class="c"><a href="#a" title="u" target="_self">a</a></p>');
+      assert.equal(result.html, '<p title="t"><a title="u" href="#a">a</a></p>');
+      assert.deepEqual(result.report.items, [
+        { type: 'attribute', element: 'p', name: 'class', value: 'c', path: [ 'p' ], reason: 'attribute-not-allowed' },
+        { type: 'attribute', element: 'a', name: 'target', value: '_self', path: [ 'p', 'a' ], reason: 'attribute-not-allowed' }
+      ]);
+    });
+
+    it('TBA: URLs with a scheme that is not allowed are removed', () => {
+      const result = sanitize(
+        { url_schemes: [ 'https', 'mailto' ] },
+        '<p><a href="https://tiny.cloud">a</a><a href="mailto:a@b.c">b</a><a href="page.html">c</a><a href="java\nscript:alert(1)">d</a><a href="ftp://tiny.cloud">e</a></p>'
+      );
+      assert.equal(result.html, '<p><a href="https://tiny.cloud">a</a><a href="mailto:a@b.c">b</a><a href="page.html">c</a><a>d</a><a>e</a></p>');
+      assert.deepEqual(result.report.items, [
+        { type: 'attribute', element: 'a', name: 'href', value: 'java\nscript:alert(1)', path: [ 'p', 'a' ], reason: 'url-scheme-not-allowed' },
+        { type: 'attribute', element: 'a', name: 'href', value: 'ftp://tiny.cloud', path: [ 'p', 'a' ], reason: 'url-scheme-not-allowed' }
+      ]);
+    });
+
+    it('TBA: CSS properties that are not allowed are removed from styles', () => {
+      const result = sanitize({ css_properties: [ 'color' ] }, '<p style="color: red; position: fixed;">a</p><p style="top: 0;">b</p>');
+      assert.equal(result.html, '<p style="color: red;">a</p><p>b</p>');
+      assert.deepEqual(result.report.items, [
+        { type: 'style', element: 'p', name: 'position', value: 'fixed', path: [ 'p' ], reason: 'css-property-not-allowed' },
+        { type: 'style', element: 'p', name: 'top', value: '0', path: [ 'p' ], reason: 'css-property-not-allowed' }
+      ]);
+    });
+
+    it('TBA: Context rules override the base rules', () => {
+      const policy: SanitizationPolicy = { elements: [ 'p', 'strong', 'em' ], contexts: { paste: { elements: [ 'p' ] }}};
+      assert.equal(sanitize(policy, '<p><strong>a</strong><em>b</em></p>').html, '<p><strong>a</strong><em>b</em></p>');
+      assert.equal(sanitize(policy, '<p><strong>a</strong><em>b</em></p>', 'setcontent').html, '<p><strong>a</strong><em>b</em></p>');
+
+      const result = sanitize(policy, '<p><strong>a</strong><em>b</em></p>', 'paste');
+      assert.equal(result.html, '<p>ab</p>');
+      assert.equal(result.report.context, 'paste');
+      assert.lengthOf(result.report.items, 2);
+    });
+
+    it('TBA: Elements marked as internal are sanitized like any other', () => {
+      const result = sanitize(
+        { elements: [ 'p', 'a' ], attributes: { a: [ 'href' ] }, url_schemes: [ 'https' ] },
+        '<p><a href="javascript:alert(1)" onclick="alert(1)" title="t" data-mce-type="x">a</a>' +
+        '<img src="x.png" onerror="alert(1)" data-mce-type="x"><span id="s" title="t" data-mce-type="bookmark">b</span></p>'
+      );
+      assert.equal(result.html, '<p><a data-mce-type="x">a</a><span id="s" data-mce-type="bookmark">b</span></p>');
+      assert.deepEqual(result.report.items, [
+        { type: 'attribute', element: 'a', name: 'title', value: 't', path: [ 'p', 'a' ], reason: 'attribute-not-allowed' },
+        { type: 'element', element: 'img', name: 'img', path: [ 'p' ], reason: 'element-not-allowed' },
+        { type: 'attribute', element: 'span', name: 'title', value: 't', path: [ 'p', 'span' ], reason: 'attribute-not-allowed' }
+      ]);
+    });
+  });
+
+  context('Editor', () => {
+    const hook = TinyHooks.bddSetupLight<Editor>({
+      sanitization_policy: {
+        elements: [ 'p', 'a', 'strong', 'em' ],
+        attributes: { a: [ 'href' ] },
+        url_schemes: [ 'https' ],
+        contexts: {
+          paste: { elements: [ 'p', 'a' ] }
+        }
+      },
+      base_url: '/project/tinymce/js/tinymce'
+    }, []);
+
+    it('TBA: The policy is applied when setting the content', () => {
+      const editor = hook.editor();
+      editor.setContent('<h1>a</h1><p><strong>b</strong><a href="https://tiny.cloud" target="_blank">c</a><a href="http://tiny.cloud">d</a></p>');
+      TinyAssertions.assertContent(editor, '<p>a</p><p><strong>b</strong><a href="https://tiny.cloud">c</a><a>d</a></p>');
+
+      const report = editor.parser.getSanitizationReport();
+      assert.equal(report.context, 'setcontent');
+      assert.deepEqual(report.items, [
+        { type: 'element', element: 'h1', name: 'h1', path: [], reason: 'element-not-allowed' },
+        { type: 'attribute', element: 'a', name: 'target', value: '_blank', path: [ 'p', 'a' ], reason: 'attribute-not-allowed' },
+        { type: 'attribute', element: 'a', name: 'href', value: 'http://tiny.cloud', path: [ 'p', 'a' ], reason: 'url-scheme-not-allowed' }
+      ]);
+    });
+
+    it('TBA: The paste context rules are applied when inserting pasted content', () => {
+      const editor = hook.editor();
+      editor.setContent('<p>a</p>');
+      TinySelections.setCursor(editor, [ 0, 0 ], 1);
+      editor.insertContent('<strong>b</strong><em>c</em>', { paste: true });
+      TinyAssertions.assertContent(editor, '<p>abc</p>');
+
+      editor.insertContent('<strong>d</strong>');
+      TinyAssertions.assertContent(editor, '<p>abc<strong>d</strong></p>');
+    });
+
+    it('TBA: The policy is applied to incoming elements marked as internal', () => {
+      const editor = hook.editor();
+      editor.setContent('<p><a href="javascript:alert(1)" onclick="alert(1)" data-mce-type="x">a</a><img src="x.png" onerror="alert(1)" data-mce-type="x"></p>');
+      TinyAssertions.assertContent(editor, '<p><a>a</a></p>');
+      TinyAssertions.assertContentPresence(editor, { 'img': 0, 'a[href]': 0, 'a[onclick]': 0 });
+
+      TinySelections.setCursor(editor, [ 0, 0, 0 ], 1);
+      editor.insertContent('<img src="x.png" onerror="alert(1)" data-mce-type="bookmark"><span style="position: fixed;" data-mce-type="bookmark">b</span>', { paste: true });
+      TinyAssertions.assertContentPresence(editor, { 'img': 0, 'span[style]': 0 });
+    });
+  });
+
+  context('Media placeholders', () => {
+    const hook = TinyHooks.bddSetupLight<Editor>({
+      plugins: 'media',
+      sanitization_policy: {
+        elements: [ 'p', 'img', 'iframe' ],
+        attributes: { img: [ 'src' ], iframe: [ 'src' ] },
+        url_schemes: [ 'https' ]
+      },
+      base_url: '/project/tinymce/js/tinymce'
+    }, [ MediaPlugin ]);
+
+    it('TBA: The placeholder attributes are sanitized as the attributes of the embedded object', () => {
+      const editor = hook.editor();
+      editor.setContent(
+        '<p><img src="x.png" data-mce-object="iframe" data-mce-p-src="javascript:alert(1)" data-mce-p-onload="alert(1)" ' +
+        'data-mce-html="%3Cscript%3Ealert(1)%3C/script%3E"></p>'
+      );
+      TinyAssertions.assertContent(editor, '<p><iframe></iframe></p>');
+      assert.deepEqual(editor.parser.getSanitizationReport().items, [
+        { type: 'attribute', element: 'img', name: 'data-mce-p-src', value: 'javascript:alert(1)', path: [ 'p', 'img' ], reason: 'url-scheme-not-allowed' },
+        { type: 'attribute', element: 'img', name: 'data-mce-p-onload', value: 'alert(1)', path: [ 'p', 'img' ], reason: 'attribute-not-allowed' },
+        { type: 'attribute', element: 'img', name: 'data-mce-html', value: '%3Cscript%3Ealert(1)%3C/script%3E', path: [ 'p', 'img' ], reason: 'attribute-not-allowed' }
+      ]);
+    });
+
+    it('TBA: The policy is applied to the objects restored from the placeholders when serializing', () => {
+      const editor = hook.editor();
+      editor.setContent('<p><img src="x.png" data-mce-object="script" data-mce-p-src="https://tiny.cloud/x.js"></p>');
+      assert.notInclude(editor.getContent(), '<script');
+      assert.deepEqual(editor.serializer.getSanitizationReport().items, [
+        { type: 'element', element: 'script', name: 'script', path: [ 'p' ], reason: 'element-not-allowed' }
+      ]);
+    });
+  });
+});
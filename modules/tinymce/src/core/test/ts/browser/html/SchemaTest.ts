@@ -345,6 +345,69 @@ describe('browser.tinymce.core.html.SchemaTest', () => {
     assert.isString(schema.getCustomElements().block);
   });
 
+  it('addCustomElements with custom element specs', () => {
+    const schema = Schema();
+    schema.addCustomElements({
+      'x-callout': { children: [ 'p', 'ul' ], attributes: [ 'kind', 'data-*' ], default_attributes: { kind: 'info' }},
+      'x-tag': { type: 'inline', children: [ '#text' ] },
+      'x-embed': { type: 'void', attributes: [ 'src' ] }
+    });
+
+    assert.isObject(schema.getBlockElements()['x-callout']);
+    assert.isTrue(schema.isValidChild('body', 'x-callout'));
+    assert.isTrue(schema.isValidChild('x-callout', 'p'));
+    assert.isFalse(schema.isValidChild('x-callout', 'h1'));
+    assert.deepEqual(schema.getElementRule('x-callout').attributes, { kind: { defaultValue: 'info' }});
+    assert.deepEqual(schema.getElementRule('x-callout').attributesDefault, [{ name: 'kind', value: 'info' }]);
+    assert.lengthOf(schema.getElementRule('x-callout').attributePatterns, 1);
+
+    assert.isUndefined(schema.getBlockElements()['x-tag']);
+    assert.isTrue(schema.isValidChild('p', 'x-tag'));
+    assert.isTrue(schema.isValidChild('x-tag', '#text'));
+    assert.isFalse(schema.isValidChild('x-tag', 'strong'));
+
+    assert.isObject(schema.getShortEndedElements()['x-embed']);
+    assert.isObject(schema.getNonEmptyElements()['x-embed']);
+    assert.isTrue(schema.isValidChild('p', 'x-embed'));
+    assert.deepEqual(Obj.keys(schema.children['x-embed']), []);
+  });
+
+  it('toJSON', () => {
+    const schema = Schema({
+      valid_elements: '@[id],a[!href|target<_blank?_self|rel=noopener],x-*[data-*]',
+      valid_styles: { '*': 'color', 'a': 'font-size' },
+      invalid_styles: 'position',
+      valid_classes: 'x'
+    });
+    const json = schema.toJSON();
+
+    assert.deepEqual(Obj.keys(json.elements), [ 'a', 'span' ]);
+    assert.deepEqual({ ...json.elements.a, children: [] }, {
+      block: false,
+      void: false,
+      attributes: [ 'id', 'href', 'target', 'rel' ],
+      attributePatterns: [],
+      attributeValues: { target: [ '_self', '_blank' ] },
+      requiredAttributes: [ 'href' ],
+      defaultAttributes: { rel: 'noopener' },
+      forcedAttributes: {},
+      children: [],
+      parentsRequired: []
+    });
+    assert.include(json.elements.a.children, '#text');
+    assert.deepEqual(json.elementPatterns['^x-.*$'].attributePatterns, [ '^data-.*$' ]);
+    assert.deepEqual(json.validStyles, { '*': [ 'color' ], 'a': [ 'font-size' ] });
+    assert.deepEqual(json.invalidStyles, { '*': [ 'position' ] });
+    assert.deepEqual(json.validClasses, { '*': [ 'x' ] });
+    assert.doesNotThrow(() => JSON.stringify(json));
+
+    const defaultJson = Schema().toJSON();
+    assert.isTrue(defaultJson.elements.p.block);
+    assert.isTrue(defaultJson.elements.img.void);
+    assert.deepEqual(defaultJson.elements.li.parentsRequired, [ 'ul', 'ol' ]);
+    assert.isNull(defaultJson.validStyles);
+  });
+
   it('isValid', () => {
     const schema = Schema({ valid_elements: 'a[href],i[*]' });
 
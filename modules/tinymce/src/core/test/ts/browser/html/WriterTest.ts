@@ -152,4 +152,68 @@ describe('browser.tinymce.core.html.WriterTest', () => {
     writer.end('p');
     assert.equal(writer.getContent(), `<p title="&lt;&gt;&quot;'&amp;&aring;&auml;&ouml;">&lt;&gt;"'&amp;&aring;&auml;&ouml;</p>`);
   });
+
+  it('Pretty print blocks', () => {
+    const writer = Writer({ pretty_print: true, indent_before: 'p,ul,li', indent_after: 'p,ul,li' });
+    writer.start('p');
+    writer.text('\n  a   b ');
+    writer.end('p');
+    writer.text('\n');
+    writer.start('ul');
+    writer.start('li');
+    writer.text('c');
+    writer.start('ul');
+    writer.start('li');
+    writer.text('d');
+    writer.end('li');
+    writer.end('ul');
+    writer.end('li');
+    writer.end('ul');
+    assert.equal(writer.getContent(), '<p>a b</p>\n<ul>\n  <li>c\n    <ul>\n      <li>d</li>\n    </ul>\n  </li>\n</ul>');
+  });
+
+  it('Pretty print indent size and max width', () => {
+    const writer = Writer({ pretty_print: true, pretty_print_indent_size: 4, pretty_print_max_width: 20, indent_before: 'div', indent_after: 'div' });
+    writer.start('div');
+    writer.text('one two three four five six');
+    writer.start('em');
+    writer.text('seven');
+    writer.end('em');
+    writer.end('div');
+    assert.equal(writer.getContent(), '<div>one two three\n    four five six<em>seven</em></div>');
+  });
+
+  it('Pretty print attribute wrapping', () => {
+    const attrs = [{ name: 'href', value: 'https://www.tiny.cloud/' }, { name: 'title', value: 'Tiny' }];
+    let writer: Writer;
+
+    writer = Writer({ pretty_print: true, pretty_print_max_width: 30, indent_before: 'p', indent_after: 'p' });
+    writer.start('p');
+    writer.start('a', attrs);
+    writer.text('a');
+    writer.end('a');
+    writer.end('p');
+    assert.equal(writer.getContent(), '<p><a\n  href="https://www.tiny.cloud/"\n  title="Tiny">a</a></p>');
+
+    writer = Writer({ pretty_print: true, pretty_print_max_width: 30, pretty_print_wrap_attributes: false, indent_before: 'p', indent_after: 'p' });
+    writer.start('p');
+    writer.start('a', attrs);
+    writer.text('a');
+    writer.end('a');
+    writer.end('p');
+    assert.equal(writer.getContent(), '<p><a href="https://www.tiny.cloud/" title="Tiny">a</a></p>');
+  });
+
+  it('Pretty print preserves the whitespace in pre and textarea', () => {
+    const writer = Writer({ pretty_print: true, pretty_print_max_width: 10, indent_before: 'div,pre', indent_after: 'div,pre' });
+    writer.start('div');
+    writer.start('pre');
+    writer.text('  a b c d e f g  \n  h ');
+    writer.end('pre');
+    writer.start('textarea');
+    writer.text(' i\n   j ');
+    writer.end('textarea');
+    writer.end('div');
+    assert.equal(writer.getContent(), '<div>\n  <pre>  a b c d e f g  \n  h </pre>\n  <textarea> i\n   j </textarea>\n</div>');
+  });
 });
@@ -0,0 +1,74 @@
+import { beforeEach, describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks } from '@ephox/wrap-mcagar';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Utils from '../../module/test/TextPatternsUtils';
+
+describe('browser.tinymce.core.textpatterns.RegexReplacementTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    text_patterns: [
+      { start: /\(c\)/, replacement: '&copy;' },
+      { start: /\b1\/2/, replacement: '&frac12;' },
+      { start: /(\w) --/, replacement: '$1 &mdash;' },
+      { start: /\b([A-Z]+-\d+)/, replacement: '<a href="https://tracker.example.com/$1">$&</a>' },
+      { start: /\[(.+)\]/, replacement: '<code>$1</code>' },
+      { start: '*', end: '*', format: 'italic' }
+    ],
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ ]);
+
+  beforeEach(() => {
+    const editor = hook.editor();
+    editor.setContent('');
+  });
+
+  it('TBA: Apply regex replacement pattern on space', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, 'Copyright (c)');
+    TinyAssertions.assertContent(editor, '<p>Copyright &copy;&nbsp;</p>');
+  });
+
+  it('TBA: Do not apply regex replacement pattern when the regex does not match in context', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, 'a1/2');
+    TinyAssertions.assertContent(editor, '<p>a1/2&nbsp;</p>');
+  });
+
+  it('TBA: Do not apply regex replacement pattern when the match does not end at the cursor', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '1/2 cup');
+    TinyAssertions.assertContent(editor, '<p>1/2 cup&nbsp;</p>');
+  });
+
+  it('TBA: Apply regex replacement pattern with capture groups on space', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, 'this --');
+    TinyAssertions.assertContent(editor, '<p>this &mdash;&nbsp;</p>');
+  });
+
+  it('TBA: Apply regex replacement pattern with html on space', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, 'see ABC-123');
+    TinyAssertions.assertContent(editor, '<p>see <a href="https://tracker.example.com/ABC-123">ABC-123</a>&nbsp;</p>');
+  });
+
+  it('TBA: Apply regex replacement pattern with html on enter', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressEnter(editor, 'see ABC-123');
+    TinyAssertions.assertContent(editor, '<p>see <a href="https://tracker.example.com/ABC-123">ABC-123</a></p><p>&nbsp;</p>');
+  });
+
+  it('TBA: Captured text is encoded when it is inserted', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '[&lt;b&gt;]');
+    TinyAssertions.assertContent(editor, '<p><code>&lt;b&gt;</code>&nbsp;</p>');
+  });
+
+  it('TBA: Apply regex replacement pattern and inline pattern on space', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '*ABC-1*');
+    TinyAssertions.assertContent(editor, '<p><em><a href="https://tracker.example.com/ABC-1">ABC-1</a></em>&nbsp;</p>');
+  });
+});
@@ -0,0 +1,70 @@
+import { Keys } from '@ephox/agar';
+import { beforeEach, describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { TinyAssertions, TinyContentActions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Utils from '../../module/test/TextPatternsUtils';
+
+describe('browser.tinymce.core.textpatterns.TextPatternsApiTest', () => {
+  const isNotInCode = (elm: Element) => elm.closest('code') === null;
+
+  const hook = TinyHooks.bddSetup<Editor>({
+    text_patterns: [
+      { start: '*', end: '*', format: 'italic', context: isNotInCode },
+      { start: '#', format: 'h1' }
+    ],
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ ]);
+
+  beforeEach(() => {
+    const editor = hook.editor();
+    editor.setContent('');
+  });
+
+  it('TBA: list returns the patterns from the text_patterns option', () => {
+    const editor = hook.editor();
+    assert.deepEqual(editor.textPatterns.list(), [
+      { start: '*', end: '*', format: 'italic', context: isNotInCode },
+      { start: '#', format: 'h1' }
+    ]);
+  });
+
+  it('TBA: Apply pattern when the context matches', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '*a*');
+    TinyAssertions.assertContent(editor, '<p><em>a</em>&nbsp;</p>');
+  });
+
+  it('TBA: Do not apply pattern when the context does not match', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '<code>*a*</code>', 3, [ 0, 0, 0 ]);
+    TinyAssertions.assertContent(editor, '<p><code>*a*&nbsp;</code></p>');
+  });
+
+  it('TBA: Apply added patterns and stop applying removed patterns', () => {
+    const editor = hook.editor();
+    editor.textPatterns.add({ start: '`', end: '`', format: 'code' });
+    editor.textPatterns.add([
+      { start: '~', end: '~', format: 'strikethrough', context: (elm) => elm.closest('li') !== null }
+    ]);
+    editor.textPatterns.remove({ start: '*', end: '*' });
+    assert.deepEqual(Arr.map(editor.textPatterns.list(), (pattern) => pattern.start), [ '#', '`', '~' ]);
+
+    Utils.setContentAndPressSpace(editor, '`a`');
+    TinyAssertions.assertContent(editor, '<p><code>a</code>&nbsp;</p>');
+    Utils.setContentAndPressSpace(editor, '*a*');
+    TinyAssertions.assertContent(editor, '<p>*a*&nbsp;</p>');
+    Utils.setContentAndPressSpace(editor, '~a~');
+    TinyAssertions.assertContent(editor, '<p>~a~&nbsp;</p>');
+
+    editor.setContent('<ul><li>~a~</li></ul>');
+    TinySelections.setCursor(editor, [ 0, 0, 0 ], 3);
+    editor.execCommand('mceInsertContent', false, ' ');
+    TinyContentActions.keystroke(editor, Keys.space());
+    TinyAssertions.assertContent(editor, '<ul><li><span style="text-decoration: line-through;">a</span>&nbsp;</li></ul>');
+  });
+});
@@ -0,0 +1,87 @@
+import { Keys, Waiter } from '@ephox/agar';
+import { beforeEach, describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyContentActions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Utils from '../../module/test/TextPatternsUtils';
+
+describe('browser.tinymce.core.textpatterns.TriggerPatternsTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    text_patterns: [
+      { start: '*', end: '*', format: 'italic' },
+      { start: ':smile', replacement: '&#128516;', trigger: ' ' },
+      { start: /@@date/, replacement: '2021-12-01', trigger: [ ' ', ')' ] },
+      { start: '~', end: '~', format: 'strikethrough', trigger: '-' }
+    ],
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ ]);
+
+  beforeEach(() => {
+    const editor = hook.editor();
+    editor.setContent('');
+  });
+
+  const pTypeTrigger = async (editor: Editor, content: string, trigger: string, expected: string) => {
+    editor.setContent('<p>' + content + trigger + '</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], content.length + 1);
+    TinyContentActions.keypress(editor, trigger.charCodeAt(0));
+    await Waiter.pTryUntil('did not get expected content', () => TinyAssertions.assertContent(editor, expected));
+  };
+
+  it('TBA: list returns the trigger characters of the patterns', () => {
+    const editor = hook.editor();
+    assert.deepEqual(editor.textPatterns.list()[1], { start: ':smile', replacement: '&#128516;', trigger: ' ' });
+    assert.deepEqual(editor.textPatterns.list()[2].trigger, [ ' ', ')' ]);
+  });
+
+  it('TBA: Apply pattern with a space trigger on space', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, 'hi :smile');
+    TinyAssertions.assertContent(editor, '<p>hi 😄&nbsp;</p>');
+  });
+
+  it('TBA: Apply pattern with a punctuation trigger on the trigger character', async () => {
+    const editor = hook.editor();
+    await pTypeTrigger(editor, '(@@date', ')', '<p>(2021-12-01)</p>');
+  });
+
+  it('TBA: Apply pattern with a trigger that is not standard punctuation', async () => {
+    const editor = hook.editor();
+    await pTypeTrigger(editor, '~a~', '-', '<p><span style="text-decoration: line-through;">a</span>-</p>');
+  });
+
+  it('TBA: Do not apply pattern with triggers on the standard punctuation', async () => {
+    const editor = hook.editor();
+    await pTypeTrigger(editor, '*a*', '.', '<p><em>a</em>.</p>');
+    editor.setContent('<p>~a~.</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 4);
+    TinyContentActions.keypress(editor, '.'.charCodeAt(0));
+    await Waiter.pWait(50);
+    TinyAssertions.assertContent(editor, '<p>~a~.</p>');
+  });
+
+  it('TBA: Do not apply pattern with triggers on enter', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressEnter(editor, 'hi :smile');
+    TinyAssertions.assertContent(editor, '<p>hi :smile</p><p>&nbsp;</p>');
+  });
+
+  it('TBA: Backspace after applying a pattern reverts to the typed text', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '*a*');
+    TinyAssertions.assertContent(editor, '<p><em>a</em>&nbsp;</p>');
+    TinyContentActions.keystroke(editor, Keys.backspace());
+    TinyAssertions.assertContent(editor, '<p>*a*&nbsp;</p>');
+  });
+
+  it('TBA: Backspace after moving the cursor does not revert the pattern', () => {
+    const editor = hook.editor();
+    Utils.setContentAndPressSpace(editor, '*a*');
+    TinyContentActions.keystroke(editor, Keys.left());
+    TinyContentActions.keystroke(editor, Keys.backspace());
+    TinyAssertions.assertContent(editor, '<p><em>a</em>&nbsp;</p>');
+  });
+});
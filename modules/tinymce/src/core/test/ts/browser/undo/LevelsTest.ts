@@ -91,6 +91,31 @@ describe('browser.tinymce.core.undo.LevelsTest', () => {
     });
   });
 
+  it('createFromEditor with a previous level', () => {
+    const editor = hook.editor();
+    editor.getBody().innerHTML = '<p>a</p><p>b</p><p>c</p>';
+    const previousLevel = Levels.createFromEditor(editor);
+
+    editor.getBody().innerHTML = '<p>a</p><p>B</p><p>c</p><p>d</p>';
+    const level = Levels.createFromEditor(editor, previousLevel);
+    assert.deepEqual(level, {
+      beforeBookmark: null,
+      bookmark: null,
+      content: '<p>a</p><p>B</p><p>c</p><p>d</p>',
+      fragments: null,
+      type: UndoLevelType.Complete
+    });
+    assert.strictEqual(previousLevel.content, '<p>a</p><p>b</p><p>c</p>', 'Previous level should be unchanged');
+    assert.isTrue(Levels.isEq(level, Levels.createFromEditor(editor, level)), 'Levels sharing fragments should be equal');
+    assert.isTrue(Levels.isEq(level, Levels.createCompleteLevel('<p>a</p><p>B</p><p>c</p><p>d</p>')), 'Level should be equal to a complete level with the same content');
+
+    level.content = '<p>e</p>';
+    assert.strictEqual(level.content, '<p>e</p>', 'Setting the content should replace the shared fragments');
+
+    editor.getBody().innerHTML = '<iframe src="about:blank"></iframe><p>a</p>';
+    assert.deepEqual(Levels.createFromEditor(editor, previousLevel).fragments, [ '<iframe src="about:blank"></iframe>', '<p>a</p>' ]);
+  });
+
   it('applyToEditor to equal content with complete level', () => {
     const editor = hook.editor();
     const level = Levels.createCompleteLevel('<p>a</p>');
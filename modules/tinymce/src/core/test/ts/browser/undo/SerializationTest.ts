@@ -0,0 +1,126 @@
+import { describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyHooks } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { UndoHistory } from 'tinymce/core/undo/UndoManagerTypes';
+
+describe('browser.tinymce.core.undo.SerializationTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    add_unload_trigger: false,
+    disable_nodechange: true,
+    indent: false,
+    entities: 'raw',
+    base_url: '/project/tinymce/js/tinymce'
+  }, []);
+
+  const addLevels = (editor: Editor, contents: string[]) => {
+    editor.resetContent('<p>a</p>');
+    contents.forEach((content) => {
+      editor.setContent(content);
+      editor.undoManager.add();
+    });
+  };
+
+  const roundTrip = (history: UndoHistory): UndoHistory => JSON.parse(JSON.stringify(history));
+
+  it('Exported history stores patches against the previous level', () => {
+    const editor = hook.editor();
+    addLevels(editor, [ '<p>a</p><p>b</p>', '<p>a</p><p>c</p>' ]);
+
+    const history = editor.undoManager.exportHistory();
+    assert.equal(history.version, 1);
+    assert.equal(history.index, 2);
+    assert.lengthOf(history.levels, 3);
+    assert.deepEqual(history.levels[0].patch, [[ 1, [ '<p>a', '</p>' ]]]);
+    assert.deepEqual(history.levels[2].patch, [[ 0, 2 ], [ 1, [ '<p>c' ]], [ 2, 1 ], [ 0, 1 ]]);
+  });
+
+  it('Imported history can be undone and redone', () => {
+    const editor = hook.editor();
+    addLevels(editor, [ '<p>b</p>', '<p>c</p>' ]);
+    const history = roundTrip(editor.undoManager.exportHistory());
+
+    editor.resetContent('<p>c</p>');
+    assert.isFalse(editor.undoManager.hasUndo());
+
+    assert.isTrue(editor.undoManager.importHistory(history));
+    assert.lengthOf(editor.undoManager.data, 3);
+    assert.isTrue(editor.undoManager.hasUndo());
+
+    editor.undoManager.undo();
+    TinyAssertions.assertContent(editor, '<p>b</p>');
+    editor.undoManager.undo();
+    TinyAssertions.assertContent(editor, '<p>a</p>');
+    editor.undoManager.redo();
+    editor.undoManager.redo();
+    TinyAssertions.assertContent(editor, '<p>c</p>');
+  });
+
+  it('Imported history keeps the level labels and metadata', () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>a</p>');
+    editor.undoManager.transact(() => editor.setContent('<p>b</p>'), 'Replace', { source: 'test' });
+    const history = roundTrip(editor.undoManager.exportHistory());
+
+    editor.resetContent('<p>b</p>');
+    assert.isTrue(editor.undoManager.importHistory(history));
+    assert.equal(editor.undoManager.data[1].label, 'Replace');
+    assert.deepEqual(editor.undoManager.data[1].metadata, { source: 'test' });
+  });
+
+  it('Importing keeps content that is newer than the current level', () => {
+    const editor = hook.editor();
+    addLevels(editor, [ '<p>b</p>' ]);
+    const history = roundTrip(editor.undoManager.exportHistory());
+
+    editor.resetContent('<p>d</p>');
+    assert.isTrue(editor.undoManager.importHistory(history));
+    TinyAssertions.assertContent(editor, '<p>d</p>');
+    assert.lengthOf(editor.undoManager.data, 3);
+
+    editor.undoManager.undo();
+    TinyAssertions.assertContent(editor, '<p>b</p>');
+  });
+
+  it('Importing fires the ImportUndos event', () => {
+    const editor = hook.editor();
+    addLevels(editor, [ '<p>b</p>' ]);
+    const history = roundTrip(editor.undoManager.exportHistory());
+    const indexes: number[] = [];
+    const onImport = (e: { index: number }) => indexes.push(e.index);
+
+    editor.on('ImportUndos', onImport);
+    editor.undoManager.importHistory(history);
+    editor.off('ImportUndos', onImport);
+    assert.deepEqual(indexes, [ 1 ]);
+  });
+
+  it('Invalid history is not imported', () => {
+    const editor = hook.editor();
+    addLevels(editor, [ '<p>b</p>' ]);
+
+    assert.isFalse(editor.undoManager.importHistory({ version: 2, index: 0, levels: [] }));
+    assert.isFalse(editor.undoManager.importHistory({ version: 1, index: 5, levels: [{ type: null, patch: [], bookmark: null, beforeBookmark: null }] }));
+    assert.lengthOf(editor.undoManager.data, 2);
+  });
+
+  it('History with invalid patch operations is not imported', () => {
+    const editor = hook.editor();
+    addLevels(editor, [ '<p>b</p>' ]);
+    const createHistory = (patch: unknown): UndoHistory =>
+      ({ version: 1, index: 0, levels: [{ type: 'complete', patch, bookmark: null, beforeBookmark: null }] } as UndoHistory);
+
+    assert.isFalse(editor.undoManager.importHistory(createHistory([ null ])));
+    assert.isFalse(editor.undoManager.importHistory(createHistory([[ 1 ]])));
+    assert.isFalse(editor.undoManager.importHistory(createHistory([[ 1, '<p>a</p>' ]])));
+    assert.isFalse(editor.undoManager.importHistory(createHistory([[ 1, [ 5 ]]])));
+    assert.isFalse(editor.undoManager.importHistory(createHistory([[ 0, -1 ]])));
+    assert.isFalse(editor.undoManager.importHistory(createHistory([[ 2, '1' ]])));
+    assert.isFalse(editor.undoManager.importHistory(createHistory([[ 3, 1 ]])));
+    assert.isFalse(editor.undoManager.importHistory({ ...createHistory([[ 1, [ '<p>a</p>' ]]]), index: 0.5 }));
+    assert.lengthOf(editor.undoManager.data, 2);
+
+    assert.isTrue(editor.undoManager.importHistory(createHistory([[ 1, [ '<p>a', '</p>' ]]])));
+  });
+});
@@ -54,12 +54,18 @@ const register = (editor: Editor): void => {
     processor: timeProcessor,
     default: '20m'
   });
+
+  registerOption('autosave_undo_history', {
+    processor: 'boolean',
+    default: false
+  });
 };
 
 const shouldAskBeforeUnload = option<boolean>('autosave_ask_before_unload');
 const shouldRestoreWhenEmpty = option<boolean>('autosave_restore_when_empty');
 const getAutoSaveInterval = option<number>('autosave_interval');
 const getAutoSaveRetention = option<number>('autosave_retention');
+const shouldStoreUndoHistory = option<boolean>('autosave_undo_history');
 const getForcedRootBlock = option('forced_root_block');
 
 const getAutoSavePrefix = (editor: Editor): string => {
@@ -77,5 +83,6 @@ export {
   shouldRestoreWhenEmpty,
   getAutoSaveInterval,
   getAutoSaveRetention,
+  shouldStoreUndoHistory,
   getForcedRootBlock
 };
@@ -46,6 +46,7 @@ const removeDraft = (editor: Editor, fire?: boolean): void => {
 
   LocalStorage.removeItem(prefix + 'draft');
   LocalStorage.removeItem(prefix + 'time');
+  LocalStorage.removeItem(prefix + 'undo');
 
   if (fire !== false) {
     Events.fireRemoveDraft(editor);
@@ -58,15 +59,32 @@ const storeDraft = (editor: Editor): void => {
   if (!isEmpty(editor) && editor.isDirty()) {
     LocalStorage.setItem(prefix + 'draft', editor.getContent({ format: 'raw', no_events: true }));
     LocalStorage.setItem(prefix + 'time', new Date().getTime().toString());
+
+    if (Options.shouldStoreUndoHistory(editor)) {
+      LocalStorage.setItem(prefix + 'undo', JSON.stringify(editor.undoManager.exportHistory()));
+    }
+
     Events.fireStoreDraft(editor);
   }
 };
 
+const restoreUndoHistory = (editor: Editor, prefix: string): void => {
+  const history = LocalStorage.getItem(prefix + 'undo');
+  if (Options.shouldStoreUndoHistory(editor) && Type.isString(history)) {
+    try {
+      editor.undoManager.importHistory(JSON.parse(history));
+    } catch (e) {
+      // The stored history is corrupt, so just keep the current undo levels
+    }
+  }
+};
+
 const restoreDraft = (editor: Editor): void => {
   const prefix = Options.getAutoSavePrefix(editor);
 
   if (hasDraft(editor)) {
     editor.setContent(LocalStorage.getItem(prefix + 'draft'), { format: 'raw' });
+    restoreUndoHistory(editor, prefix);
     Events.fireRestoreDraft(editor);
   }
 };
@@ -3,6 +3,7 @@ import { TinyHooks } from '@ephox/wrap-mcagar';
 import { assert } from 'chai';
 
 import Editor from 'tinymce/core/api/Editor';
+import LocalStorage from 'tinymce/core/api/util/LocalStorage';
 import Plugin from 'tinymce/plugins/autosave/Plugin';
 
 describe('browser.tinymce.plugins.autosave.AutoSavePluginTest', () => {
@@ -79,6 +80,37 @@ describe('browser.tinymce.plugins.autosave.AutoSavePluginTest', () => {
     editor.plugins.autosave.removeDraft();
   });
 
+  it('TBA: undo history is only stored when enabled', () => {
+    const editor = hook.editor();
+    const prefix = editor.options.get('autosave_prefix').replace(/{path}/g, document.location.pathname)
+      .replace(/{query}/g, document.location.search)
+      .replace(/{hash}/g, document.location.hash)
+      .replace(/{id}/g, editor.id);
+
+    editor.setContent('X');
+    editor.undoManager.add();
+    editor.plugins.autosave.storeDraft();
+    assert.isNull(LocalStorage.getItem(prefix + 'undo'), 'Check that the undo history is not stored by default');
+    editor.plugins.autosave.removeDraft();
+
+    editor.options.set('autosave_undo_history', true);
+    editor.resetContent('<p>X</p>');
+    editor.setContent('<p>Y</p>');
+    editor.undoManager.add();
+    editor.plugins.autosave.storeDraft();
+    assert.isString(LocalStorage.getItem(prefix + 'undo'), 'Check that the undo history is stored');
+
+    editor.resetContent('<p>Z</p>');
+    editor.plugins.autosave.restoreDraft();
+    assert.equal(editor.getContent(), '<p>Y</p>', 'Check that the draft was restored');
+    editor.undoManager.undo();
+    assert.equal(editor.getContent(), '<p>X</p>', 'Check that the undo history was restored');
+
+    editor.plugins.autosave.removeDraft();
+    assert.isNull(LocalStorage.getItem(prefix + 'undo'), 'Check that the undo history is removed with the draft');
+    editor.options.unset('autosave_undo_history');
+  });
+
   it('TBA: recognises location hash change', () => {
     const editor = hook.editor();
     assert.isFalse(editor.plugins.autosave.hasDraft(), 'Check if it starts with a draft');
@@ -7,6 +7,8 @@
 
 import Editor from 'tinymce/core/api/Editor';
 
+import * as Options from '../api/Options';
+
 const setContent = (editor: Editor, html: string): void => {
   // We get a lovely "Wrong document" error in IE 11 if we
   // don't move the focus to the editor before creating an undo
@@ -22,7 +24,7 @@ const setContent = (editor: Editor, html: string): void => {
 };
 
 const getContent = (editor: Editor): string => {
-  return editor.getContent({ source_view: true });
+  return editor.getContent({ source_view: true, pretty_print: Options.shouldPrettyPrint(editor) });
 };
 
 export {
@@ -0,0 +1,50 @@
+import { context, describe, it } from '@ephox/bedrock-client';
+import { TinyHooks, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import Plugin from 'tinymce/plugins/code/Plugin';
+
+describe('browser.tinymce.plugins.code.CodePrettyPrintTest', () => {
+  const toolbarButtonSelector = '[role="toolbar"] button[aria-label="Source code"]';
+
+  const pAssertTextareaContent = async (editor: Editor, expected: string) => {
+    TinyUiActions.clickOnToolbar(editor, toolbarButtonSelector);
+    await TinyUiActions.pWaitForDialog(editor);
+    const textarea: HTMLTextAreaElement = document.querySelector('div[role="dialog"] textarea');
+    assert.equal(textarea.value, expected, 'Should have correct value');
+    TinyUiActions.cancelDialog(editor);
+  };
+
+  context('pretty_print enabled', () => {
+    const hook = TinyHooks.bddSetupLight<Editor>({
+      plugins: 'code',
+      toolbar: 'code',
+      pretty_print: true,
+      base_url: '/project/tinymce/js/tinymce'
+    }, [ Plugin ]);
+
+    it('TBA: The source code and the editor content are pretty printed', async () => {
+      const editor = hook.editor();
+      editor.setContent('<ul><li>a</li></ul>');
+      assert.equal(editor.getContent(), '<ul>\n  <li>a</li>\n</ul>');
+      await pAssertTextareaContent(editor, '<ul>\n  <li>a</li>\n</ul>');
+    });
+  });
+
+  context('code_pretty_print enabled', () => {
+    const hook = TinyHooks.bddSetupLight<Editor>({
+      plugins: 'code',
+      toolbar: 'code',
+      code_pretty_print: true,
+      base_url: '/project/tinymce/js/tinymce'
+    }, [ Plugin ]);
+
+    it('TBA: Only the source code is pretty printed', async () => {
+      const editor = hook.editor();
+      editor.setContent('<ul><li>a</li></ul>');
+      assert.equal(editor.getContent(), '<ul>\n<li>a</li>\n</ul>');
+      await pAssertTextareaContent(editor, '<ul>\n  <li>a</li>\n</ul>');
+    });
+  });
+});
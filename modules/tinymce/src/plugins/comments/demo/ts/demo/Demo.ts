@@ -0,0 +1,12 @@
+declare let tinymce: any;
+
+tinymce.init({
+  selector: 'textarea.tinymce',
+  plugins: 'comments code',
+  toolbar: 'addcomment comments | bold italic | code',
+  comments_author: 'Demo user',
+  skin_url: '../../../../../js/tinymce/skins/ui/oxide',
+  height: 600
+});
+
+export {};
@@ -0,0 +1,30 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import PluginManager from 'tinymce/core/api/PluginManager';
+
+import * as Api from './api/Api';
+import * as Commands from './api/Commands';
+import * as Options from './api/Options';
+import * as InMemoryStorage from './core/InMemoryStorage';
+import * as Threads from './core/Threads';
+import * as Buttons from './ui/Buttons';
+import * as Sidebar from './ui/Sidebar';
+
+export default (): void => {
+  PluginManager.add('comments', (editor) => {
+    Options.register(editor);
+    const storage = Options.getStorage(editor).getOrThunk(InMemoryStorage.create);
+
+    Threads.setup(editor);
+    Commands.register(editor, storage);
+    Buttons.register(editor);
+    Sidebar.register(editor, storage);
+
+    return Api.get(editor, storage);
+  });
+};
@@ -0,0 +1,33 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+
+import { CommentsStorage, CommentThread } from '../core/CommentTypes';
+import * as Threads from '../core/Threads';
+
+export interface CommentsApi {
+  readonly addComment: (content: string) => Promise<string>;
+  readonly reply: (uid: string, content: string) => Promise<void>;
+  readonly resolve: (uid: string) => Promise<void>;
+  readonly deleteThread: (uid: string) => Promise<void>;
+  readonly deleteComment: (uid: string, commentUid: string) => Promise<void>;
+  readonly getThreads: () => Promise<CommentThread[]>;
+}
+
+const get = (editor: Editor, storage: CommentsStorage): CommentsApi => ({
+  addComment: (content) => Threads.addThread(editor, storage, content),
+  reply: (uid, content) => Threads.reply(editor, storage, uid, content),
+  resolve: (uid) => Threads.resolve(editor, storage, uid),
+  deleteThread: (uid) => Threads.deleteThread(editor, storage, uid),
+  deleteComment: (uid, commentUid) => Threads.deleteComment(editor, storage, uid, commentUid),
+  getThreads: () => Threads.getThreads(editor, storage)
+});
+
+export {
+  get
+};
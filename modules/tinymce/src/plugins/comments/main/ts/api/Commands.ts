@@ -0,0 +1,55 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Optional, Type } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import { CommentsStorage } from '../core/CommentTypes';
+import * as Threads from '../core/Threads';
+
+interface ReplyArgs {
+  readonly uid: string;
+  readonly content: string;
+}
+
+// The thread is either passed as the command value or is the one at the selection
+const getThreadUid = (editor: Editor, uid?: string): Optional<string> =>
+  Type.isString(uid) ? Optional.some(uid) : Threads.getThreadAtSelection(editor);
+
+const isReplyArgs = (args: Partial<ReplyArgs> | undefined): args is ReplyArgs =>
+  Type.isObject(args) && Type.isString(args.uid) && Type.isString(args.content) && args.content.length > 0;
+
+const register = (editor: Editor, storage: CommentsStorage): void => {
+  editor.addCommand('mceAddComment', (_ui, content: string) => {
+    if (Type.isString(content) && content.length > 0) {
+      Threads.addThread(editor, storage, content).catch(Threads.handleError(editor));
+    }
+  });
+
+  editor.addCommand('mceReplyComment', (_ui, args?: Partial<ReplyArgs>) => {
+    if (isReplyArgs(args)) {
+      Threads.reply(editor, storage, args.uid, args.content).catch(Threads.handleError(editor));
+    }
+  });
+
+  editor.addCommand('mceResolveComment', (_ui, uid?: string) => {
+    getThreadUid(editor, uid).each((threadUid) => {
+      Threads.resolve(editor, storage, threadUid).catch(Threads.handleError(editor));
+    });
+  });
+
+  editor.addCommand('mceDeleteCommentThread', (_ui, uid?: string) => {
+    getThreadUid(editor, uid).each((threadUid) => {
+      Threads.deleteThread(editor, storage, threadUid).catch(Threads.handleError(editor));
+    });
+  });
+};
+
+export {
+  register
+};
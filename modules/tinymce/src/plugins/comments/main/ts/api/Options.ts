@@ -0,0 +1,47 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Optional, Type } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { EditorOptions } from 'tinymce/core/api/OptionTypes';
+
+import { CommentsStorage } from '../core/CommentTypes';
+
+const option: {
+  <K extends keyof EditorOptions>(name: K): (editor: Editor) => EditorOptions[K] | undefined;
+  <T>(name: string): (editor: Editor) => T | undefined;
+} = (name: string) => (editor: Editor) =>
+  editor.options.get(name);
+
+const isStorage = (value: unknown): value is CommentsStorage =>
+  Type.isObject(value) && Arr.forall([ 'getThread', 'getThreads', 'saveThread', 'deleteThread' ], (name) => Type.isFunction(value[name]));
+
+const register = (editor: Editor): void => {
+  const registerOption = editor.options.register;
+
+  registerOption('comments_author', {
+    processor: 'string',
+    default: 'Anonymous'
+  });
+
+  registerOption('comments_storage', {
+    processor: (value) => {
+      const valid = isStorage(value);
+      return valid ? { value, valid } : { valid: false, message: 'Must be an object with getThread, getThreads, saveThread and deleteThread functions.' };
+    }
+  });
+};
+
+const getAuthor = option<string>('comments_author');
+const getStorage = (editor: Editor): Optional<CommentsStorage> => Optional.from(editor.options.get('comments_storage'));
+
+export {
+  register,
+  getAuthor,
+  getStorage
+};
@@ -0,0 +1,27 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+export interface Comment {
+  readonly uid: string;
+  readonly author: string;
+  readonly content: string;
+  readonly createdAt: string;
+}
+
+export interface CommentThread {
+  readonly uid: string;
+  readonly comments: Comment[];
+  readonly resolved: boolean;
+}
+
+// Storage providers are asynchronous so that threads can be kept on a server
+export interface CommentsStorage {
+  readonly getThread: (uid: string) => Promise<CommentThread | null>;
+  readonly getThreads: () => Promise<CommentThread[]>;
+  readonly saveThread: (thread: CommentThread) => Promise<void>;
+  readonly deleteThread: (uid: string) => Promise<void>;
+}
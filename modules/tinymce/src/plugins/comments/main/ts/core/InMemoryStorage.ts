@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Obj } from '@ephox/katamari';
+
+import { CommentsStorage, CommentThread } from './CommentTypes';
+
+const create = (): CommentsStorage => {
+  const threads: Record<string, CommentThread> = {};
+
+  return {
+    getThread: (uid) => Promise.resolve(Obj.get(threads, uid).getOrNull()),
+    getThreads: () => Promise.resolve(Obj.values(threads)),
+    saveThread: (thread) => {
+      threads[thread.uid] = thread;
+      return Promise.resolve();
+    },
+    deleteThread: (uid) => {
+      delete threads[uid];
+      return Promise.resolve();
+    }
+  };
+};
+
+export {
+  create
+};
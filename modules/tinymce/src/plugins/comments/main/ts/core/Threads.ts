@@ -0,0 +1,125 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Id, Obj, Optional, Type } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Events from '../api/Events';
+import * as Options from '../api/Options';
+import { Comment, CommentsStorage, CommentThread } from './CommentTypes';
+
+const annotationName = 'comment';
+
+const setup = (editor: Editor): void => {
+  editor.on('init', () => {
+    // Persistent anchors are kept in the serialized content, so threads can be found again when the content is loaded
+    editor.annotator.register(annotationName, {
+      persistent: true,
+      decorate: () => ({
+        classes: [ 'tox-comment' ]
+      })
+    });
+  });
+};
+
+const createComment = (editor: Editor, content: string): Comment => ({
+  uid: Id.generate('mce-comment'),
+  author: Options.getAuthor(editor),
+  content,
+  createdAt: new Date().toISOString()
+});
+
+const getAnchors = (editor: Editor): Record<string, Element[]> =>
+  editor.annotator.getAll(annotationName);
+
+const removeAnchors = (editor: Editor, uid: string, label: string): void => {
+  Obj.get(getAnchors(editor), uid).each((anchors) => {
+    editor.undoManager.transact(() => {
+      Arr.each(anchors, (anchor) => editor.dom.remove(anchor, true));
+    }, label);
+  });
+};
+
+const getThreadAtSelection = (editor: Editor): Optional<string> =>
+  Optional.from(editor.dom.getParent(editor.selection.getStart(), `[data-mce-annotation="${annotationName}"]`))
+    .map((anchor) => editor.dom.getAttrib(anchor, 'data-mce-annotation-uid'));
+
+const getThread = (storage: CommentsStorage, uid: string): Promise<CommentThread> =>
+  storage.getThread(uid).then((thread) => Type.isNonNullable(thread) ? thread : Promise.reject(new Error(`Comment thread "${uid}" was not found.`)));
+
+const addThread = (editor: Editor, storage: CommentsStorage, content: string): Promise<string> => {
+  const uid = Id.generate('mce-thread');
+  const thread: CommentThread = { uid, comments: [ createComment(editor, content) ], resolved: false };
+
+  // The anchor is added straight away, as the selection may have changed by the time the storage responds
+  editor.annotator.annotate(annotationName, { uid });
+  return storage.saveThread(thread).then(() => {
+    Events.fireCommentChange(editor, uid);
+    return uid;
+  }, (err) => {
+    removeAnchors(editor, uid, 'Delete comment');
+    return Promise.reject(err);
+  });
+};
+
+const reply = (editor: Editor, storage: CommentsStorage, uid: string, content: string): Promise<void> =>
+  getThread(storage, uid).then((thread) => storage.saveThread({
+    ...thread,
+    comments: thread.comments.concat([ createComment(editor, content) ])
+  })).then(() => Events.fireCommentChange(editor, uid));
+
+const resolve = (editor: Editor, storage: CommentsStorage, uid: string): Promise<void> =>
+  getThread(storage, uid).then((thread) => storage.saveThread({ ...thread, resolved: true })).then(() => {
+    removeAnchors(editor, uid, 'Resolve comment');
+    Events.fireCommentChange(editor, uid);
+  });
+
+const deleteThread = (editor: Editor, storage: CommentsStorage, uid: string): Promise<void> =>
+  storage.deleteThread(uid).then(() => {
+    removeAnchors(editor, uid, 'Delete comment');
+    Events.fireCommentChange(editor, uid);
+  });
+
+// Deleting the comment that started a thread deletes the whole thread
+const deleteComment = (editor: Editor, storage: CommentsStorage, uid: string, commentUid: string): Promise<void> =>
+  getThread(storage, uid).then((thread) => {
+    const isFirst = Arr.head(thread.comments).exists((comment) => comment.uid === commentUid);
+    if (isFirst) {
+      return deleteThread(editor, storage, uid);
+    } else {
+      return storage.saveThread({
+        ...thread,
+        comments: Arr.filter(thread.comments, (comment) => comment.uid !== commentUid)
+      }).then(() => Events.fireCommentChange(editor, uid));
+    }
+  });
+
+// The storage requests are asynchronous, so the failures of the commands and the sidebar are shown as notifications
+const handleError = (editor: Editor) => (error: unknown): void => {
+  const message = error instanceof Error ? error.message : 'The comments storage request failed.';
+  editor.notificationManager.open({ type: 'error', text: message });
+};
+
+// Only the threads that are anchored in the content are returned, in the order that they appear
+const getThreads = (editor: Editor, storage: CommentsStorage): Promise<CommentThread[]> => {
+  const uids = Obj.keys(getAnchors(editor));
+  return Promise.all(Arr.map(uids, (uid) => storage.getThread(uid))).then((threads) => Arr.filter(threads, Type.isNonNullable));
+};
+
+export {
+  annotationName,
+  handleError,
+  setup,
+  getThreadAtSelection,
+  addThread,
+  reply,
+  resolve,
+  deleteThread,
+  deleteComment,
+  getThreads
+};
@@ -0,0 +1,41 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Focus, SelectorFind, SugarElement } from '@ephox/sugar';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Sidebar from './Sidebar';
+
+// Comments are written in the sidebar, so the sidebar is opened and the new comment field focused
+const openNewComment = (editor: Editor): void => {
+  if (editor.queryCommandValue('ToggleSidebar') !== Sidebar.sidebarName) {
+    editor.execCommand('ToggleSidebar', false, Sidebar.sidebarName);
+  }
+
+  SelectorFind.descendant<HTMLTextAreaElement>(SugarElement.fromDom(editor.getContainer()), '.tox-comments__new textarea').each(Focus.focus);
+};
+
+const register = (editor: Editor): void => {
+  const onAction = () => openNewComment(editor);
+
+  editor.ui.registry.addButton('addcomment', {
+    icon: 'comment-add',
+    tooltip: 'Add comment',
+    onAction
+  });
+
+  editor.ui.registry.addMenuItem('addcomment', {
+    text: 'Add comment',
+    icon: 'comment-add',
+    onAction
+  });
+};
+
+export {
+  register
+};
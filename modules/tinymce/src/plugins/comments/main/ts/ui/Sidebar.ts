@@ -0,0 +1,237 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Cell, Fun, Obj, Optional, Optionals } from '@ephox/katamari';
+import { Attribute, Class, Classes, DomEvent, EventUnbinder, Insert, InsertAll, Remove, SelectorFilter, SugarElement, Value } from '@ephox/sugar';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import { Comment, CommentsStorage, CommentThread } from '../core/CommentTypes';
+import * as Threads from '../core/Threads';
+
+interface Rendered<T extends HTMLElement> {
+  readonly element: SugarElement<T>;
+  readonly unbinders: EventUnbinder[];
+}
+
+const sidebarName = 'comments';
+const refreshEvents = 'CommentChange SetContent Undo Redo';
+const visibleClass = 'tox-comments-visible';
+const activeClass = 'tox-comment-thread--active';
+const threadUidAttr = 'data-thread-uid';
+
+const renderText = <K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text: string): SugarElement<HTMLElementTagNameMap[K]> => {
+  const elm = SugarElement.fromTag(tag);
+  Class.add(elm, className);
+  Insert.append(elm, SugarElement.fromText(text));
+  return elm;
+};
+
+const renderButton = (text: string, classes: string[], onClick: () => void): Rendered<HTMLButtonElement> => {
+  const button = renderText('button', 'tox-button', text);
+  Classes.add(button, classes);
+  Attribute.set(button, 'type', 'button');
+  const unbinder = DomEvent.bind(button, 'click', (e) => {
+    // Stops the click from also selecting the thread that the button is in
+    e.stop();
+    onClick();
+  });
+  return { element: button, unbinders: [ unbinder ] };
+};
+
+const renderTextarea = (placeholder: string): SugarElement<HTMLTextAreaElement> => {
+  const textarea = SugarElement.fromTag('textarea');
+  Class.add(textarea, 'tox-textarea');
+  Attribute.setAll(textarea, { placeholder, 'aria-label': placeholder });
+  return textarea;
+};
+
+// A textarea with a submit button, the value is only submitted when it isn't empty
+const renderForm = (editor: Editor, placeholder: string, submitText: string, onSubmit: (content: string) => void, extraButtons: Rendered<HTMLButtonElement>[] = []): Rendered<HTMLDivElement> => {
+  const form = SugarElement.fromTag('div');
+  Class.add(form, 'tox-comment__reply');
+  const textarea = renderTextarea(editor.translate(placeholder));
+  const submit = renderButton(editor.translate(submitText), [], () => {
+    const content = Value.get(textarea).trim();
+    if (content.length > 0) {
+      onSubmit(content);
+      Value.set(textarea, '');
+    }
+  });
+  const buttons = extraButtons.concat([ submit ]);
+
+  InsertAll.append(form, [ textarea as SugarElement<HTMLElement> ].concat(Arr.map(buttons, (button) => button.element)));
+  return { element: form, unbinders: Arr.bind(buttons, (button) => button.unbinders) };
+};
+
+const renderComment = (editor: Editor, storage: CommentsStorage, thread: CommentThread, comment: Comment): Rendered<HTMLDivElement> => {
+  const elm = SugarElement.fromTag('div');
+  Class.add(elm, 'tox-comment');
+
+  const user = SugarElement.fromTag('div');
+  Class.add(user, 'tox-user');
+  Insert.append(user, renderText('span', 'tox-user__name', comment.author));
+  const header = SugarElement.fromTag('div');
+  Class.add(header, 'tox-comment__header');
+  InsertAll.append(header, [ user, renderText('span', 'tox-comment__date', new Date(comment.createdAt).toLocaleString()) ]);
+
+  const body = SugarElement.fromTag('div');
+  Class.add(body, 'tox-comment__body');
+  Insert.append(body, renderText('p', 'tox-comment__content', comment.content));
+
+  const remove = renderButton(editor.translate('Delete'), [ 'tox-button--naked' ], () => {
+    Threads.deleteComment(editor, storage, thread.uid, comment.uid).catch(Threads.handleError(editor));
+  });
+  const actions = SugarElement.fromTag('div');
+  Class.add(actions, 'tox-comment__edit');
+  Insert.append(actions, remove.element);
+
+  InsertAll.append(elm, [ header, body, actions ]);
+  return { element: elm, unbinders: remove.unbinders };
+};
+
+const renderThread = (editor: Editor, storage: CommentsStorage, thread: CommentThread, activeUid: Optional<string>): Rendered<HTMLDivElement> => {
+  const elm = SugarElement.fromTag('div');
+  Class.add(elm, 'tox-comment-thread');
+  Attribute.set(elm, threadUidAttr, thread.uid);
+  if (Optionals.is(activeUid, thread.uid)) {
+    Class.add(elm, activeClass);
+  }
+
+  const comments = Arr.map(thread.comments, (comment) => renderComment(editor, storage, thread, comment));
+  const resolve = renderButton(editor.translate('Resolve'), [ 'tox-button--secondary' ], () => {
+    Threads.resolve(editor, storage, thread.uid).catch(Threads.handleError(editor));
+  });
+  const reply = renderForm(editor, 'Reply...', 'Reply', (content) => {
+    Threads.reply(editor, storage, thread.uid, content).catch(Threads.handleError(editor));
+  }, [ resolve ]);
+
+  const select = DomEvent.bind(elm, 'click', (e) => {
+    // Clicking in the reply form shouldn't move the selection away from the editor content
+    if (e.target.dom.nodeName !== 'TEXTAREA') {
+      Obj.get(editor.annotator.getAll(Threads.annotationName), thread.uid).bind(Arr.head).each((anchor) => {
+        editor.selection.select(anchor);
+        editor.selection.scrollIntoView();
+      });
+    }
+  });
+
+  InsertAll.append(elm, Arr.map(comments, (comment) => comment.element).concat([ reply.element ]));
+  return { element: elm, unbinders: [ select ].concat(Arr.bind(comments, (comment) => comment.unbinders), reply.unbinders) };
+};
+
+const renderThreads = (editor: Editor, storage: CommentsStorage, container: SugarElement<HTMLElement>, threads: CommentThread[], activeUid: Optional<string>): EventUnbinder[] => {
+  Remove.empty(container);
+  if (threads.length === 0) {
+    Insert.append(container, renderText('p', 'tox-comments__empty', editor.translate('No comments')));
+    return [];
+  } else {
+    const rendered = Arr.map(threads, (thread) => renderThread(editor, storage, thread, activeUid));
+    InsertAll.append(container, Arr.map(rendered, (thread) => thread.element));
+    return Arr.bind(rendered, (thread) => thread.unbinders);
+  }
+};
+
+const renderPanel = (editor: Editor, storage: CommentsStorage): { panel: SugarElement<HTMLDivElement>; threads: SugarElement<HTMLDivElement>; unbinders: EventUnbinder[] } => {
+  const panel = SugarElement.fromTag('div');
+  Classes.add(panel, [ 'tox-comments', 'tox-comment__scroll' ]);
+
+  const conversations = SugarElement.fromTag('div');
+  Class.add(conversations, 'tox-conversations');
+
+  const newComment = SugarElement.fromTag('div');
+  Classes.add(newComment, [ 'tox-comment', 'tox-comments__new' ]);
+  const form = renderForm(editor, 'Add a comment...', 'Comment', (content) => {
+    Threads.addThread(editor, storage, content).catch(Threads.handleError(editor));
+  });
+  Insert.append(newComment, form.element);
+
+  const threads = SugarElement.fromTag('div');
+  Class.add(threads, 'tox-comments__threads');
+  Attribute.set(threads, 'aria-label', editor.translate('Comments'));
+
+  InsertAll.append(conversations, [ newComment, threads ]);
+  Insert.append(panel, conversations);
+  return { panel, threads, unbinders: form.unbinders };
+};
+
+const register = (editor: Editor, storage: CommentsStorage): void => {
+  const activeThread = Cell<Optional<string>>(Optional.none());
+  let container = Optional.none<SugarElement<HTMLElement>>();
+  let panelUnbinders: EventUnbinder[] = [];
+  let threadUnbinders: EventUnbinder[] = [];
+  let renderCount = 0;
+  let refresh = Fun.noop;
+
+  const unbindThreads = () => {
+    Arr.each(threadUnbinders, (unbinder) => unbinder.unbind());
+    threadUnbinders = [];
+  };
+
+  const updateActiveThread = () => {
+    container.each((threads) => {
+      Arr.each(SelectorFilter.children(threads, `[${threadUidAttr}]`), (thread) => {
+        const isActive = Optionals.is(activeThread.get(), Attribute.get(thread, threadUidAttr));
+        (isActive ? Class.add : Class.remove)(thread, activeClass);
+      });
+    });
+  };
+
+  editor.on('init', () => {
+    editor.annotator.annotationChanged(Threads.annotationName, (state, _name, data) => {
+      activeThread.set(state ? Optional.some(data.uid) : Optional.none());
+      updateActiveThread();
+    });
+  });
+
+  // The threads are loaded from the storage only while the sidebar is visible
+  editor.ui.registry.addSidebar(sidebarName, {
+    icon: 'comment',
+    tooltip: 'Comments',
+    onShow: (api) => {
+      const element = SugarElement.fromDom(api.element());
+      const { panel, threads, unbinders } = renderPanel(editor, storage);
+      Insert.append(element, panel);
+      panelUnbinders = unbinders;
+      container = Optional.some(threads);
+
+      refresh = () => {
+        // The storage is asynchronous, so only the latest render is applied
+        const current = ++renderCount;
+        Threads.getThreads(editor, storage).then((data) => {
+          if (current === renderCount) {
+            unbindThreads();
+            threadUnbinders = renderThreads(editor, storage, threads, data, activeThread.get());
+          }
+        }, (error) => {
+          if (current === renderCount) {
+            Threads.handleError(editor)(error);
+          }
+        });
+      };
+
+      refresh();
+      editor.on(refreshEvents, refresh);
+      editor.dom.addClass(editor.getBody(), visibleClass);
+    },
+    onHide: (api) => {
+      editor.off(refreshEvents, refresh);
+      editor.dom.removeClass(editor.getBody(), visibleClass);
+      renderCount++;
+      unbindThreads();
+      Arr.each(panelUnbinders, (unbinder) => unbinder.unbind());
+      panelUnbinders = [];
+      container = Optional.none();
+      Remove.empty(SugarElement.fromDom(api.element()));
+    }
+  });
+};
+
+export {
+  sidebarName,
+  register
+};
@@ -0,0 +1,54 @@
+import { UiControls, UiFinder, Waiter } from '@ephox/agar';
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { SugarBody, TextContent } from '@ephox/sugar';
+import { TinyAssertions, TinyDom, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import Plugin from 'tinymce/plugins/comments/Plugin';
+
+describe('browser.tinymce.plugins.comments.CommentsSidebarTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'comments',
+    toolbar: 'addcomment comments',
+    comments_author: 'Ann',
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const getThreadContents = () =>
+    Arr.map(UiFinder.findAllIn(SugarBody.body(), '.tox-comment-thread'), (thread) =>
+      Arr.map(UiFinder.findAllIn(thread, '.tox-comment__content'), (comment) => TextContent.get(comment))
+    );
+
+  const pAssertThreads = (expected: string[][]) =>
+    Waiter.pTryUntil('Wait for the threads to render', () => assert.deepEqual(getThreadContents(), expected, 'Checking the listed threads'));
+
+  it('TBA: adds, replies to and resolves a comment from the sidebar', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Add comment"]');
+    await Waiter.pTryUntil('Wait for the empty list', () => UiFinder.exists(SugarBody.body(), '.tox-comments__empty'));
+    assert.isTrue(TinyDom.body(editor).dom.classList.contains('tox-comments-visible'), 'Anchors should be visible');
+
+    const newComment = UiFinder.findIn<HTMLTextAreaElement>(SugarBody.body(), '.tox-comments__new textarea').getOrDie();
+    UiControls.setValue(newComment, 'First');
+    TinyUiActions.clickOnUi(editor, '.tox-comments__new button:contains("Comment")');
+    await pAssertThreads([[ 'First' ]]);
+    TinyAssertions.assertContentPresence(editor, { 'span.tox-comment': 1 });
+
+    const reply = UiFinder.findIn<HTMLTextAreaElement>(SugarBody.body(), '.tox-comment-thread textarea').getOrDie();
+    UiControls.setValue(reply, 'Reply');
+    TinyUiActions.clickOnUi(editor, '.tox-comment-thread button:contains("Reply")');
+    await pAssertThreads([[ 'First', 'Reply' ]]);
+
+    TinyUiActions.clickOnUi(editor, '.tox-comment-thread button:contains("Resolve")');
+    await pAssertThreads([]);
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Comments"]');
+    assert.isFalse(TinyDom.body(editor).dom.classList.contains('tox-comments-visible'), 'Anchors should not be visible');
+  });
+});
@@ -0,0 +1,210 @@
+import { Waiter } from '@ephox/agar';
+import { context, describe, it } from '@ephox/bedrock-client';
+import { Arr, Obj } from '@ephox/katamari';
+import { TinyAssertions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { CommentsApi } from 'tinymce/plugins/comments/api/Api';
+import { CommentsStorage, CommentThread } from 'tinymce/plugins/comments/core/CommentTypes';
+import Plugin from 'tinymce/plugins/comments/Plugin';
+
+describe('browser.tinymce.plugins.comments.CommentsTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'comments',
+    comments_author: 'Ann',
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const getApi = (editor: Editor) => editor.plugins.comments as CommentsApi;
+
+  const getContents = (threads: CommentThread[]) =>
+    Arr.map(threads, (thread) => Arr.map(thread.comments, (comment) => comment.content));
+
+  const pAddComment = (editor: Editor, content: string, path: number[], start: number, end: number) => {
+    TinySelections.setSelection(editor, path, start, path, end);
+    return getApi(editor).addComment(content);
+  };
+
+  it('TBA: Adding a comment anchors a thread to the selection', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    const uid = await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+    TinyAssertions.assertContentPresence(editor, { [`span[data-mce-annotation="comment"][data-mce-annotation-uid="${uid}"]`]: 1 });
+
+    const threads = await getApi(editor).getThreads();
+    assert.lengthOf(threads, 1);
+    assert.equal(threads[0].uid, uid);
+    assert.isFalse(threads[0].resolved);
+    assert.equal(threads[0].comments[0].author, 'Ann');
+    assert.equal(threads[0].comments[0].content, 'First');
+  });
+
+  it('TBA: Comment anchors are kept in the serialized content', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    const uid = await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+    const content = editor.getContent();
+    assert.include(content, `data-mce-annotation-uid="${uid}"`);
+
+    editor.setContent(content);
+    assert.deepEqual(getContents(await getApi(editor).getThreads()), [[ 'First' ]]);
+  });
+
+  it('TBA: Threads are listed in document order with their replies', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p><p>def</p>');
+    const second = await pAddComment(editor, 'Second', [ 1, 0 ], 0, 1);
+    await pAddComment(editor, 'First', [ 0, 0 ], 0, 1);
+    await getApi(editor).reply(second, 'Reply');
+    assert.deepEqual(getContents(await getApi(editor).getThreads()), [[ 'First' ], [ 'Second', 'Reply' ]]);
+  });
+
+  it('TBA: Resolving a thread removes its anchors', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    const uid = await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+    await getApi(editor).resolve(uid);
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+    assert.deepEqual(await getApi(editor).getThreads(), []);
+  });
+
+  it('TBA: Deleting the first comment deletes the thread', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    const uid = await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+    await getApi(editor).reply(uid, 'Reply');
+
+    const [ first, reply ] = (await getApi(editor).getThreads())[0].comments;
+    await getApi(editor).deleteComment(uid, reply.uid);
+    assert.deepEqual(getContents(await getApi(editor).getThreads()), [[ 'First' ]]);
+
+    await getApi(editor).deleteComment(uid, first.uid);
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+    assert.deepEqual(await getApi(editor).getThreads(), []);
+  });
+
+  it('TBA: Commands act on the thread at the selection', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+    TinySelections.setCursor(editor, [ 0, 1, 0 ], 1);
+    editor.execCommand('mceDeleteCommentThread');
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+  });
+
+  it('TBA: Replying to an unknown thread is rejected', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    try {
+      await getApi(editor).reply('unknown', 'Reply');
+      assert.fail('Replying should have been rejected');
+    } catch (e) {
+      assert.include(e.message, 'was not found');
+    }
+  });
+
+  context('Custom storage', () => {
+    const saved: CommentThread[] = [];
+    const storage: CommentsStorage = {
+      getThread: (uid) => Promise.resolve(Arr.find(saved, (thread) => thread.uid === uid).getOrNull()),
+      getThreads: () => Promise.resolve(saved),
+      saveThread: (thread) => {
+        if (thread.comments[0].content === 'Fail') {
+          // Storages can reject with any kind of error, not just the base Error
+          return Promise.reject(new TypeError('Failed to save'));
+        }
+        saved.push(thread);
+        return Promise.resolve();
+      },
+      deleteThread: () => Promise.resolve()
+    };
+
+    const customHook = TinyHooks.bddSetupLight<Editor>({
+      plugins: 'comments',
+      comments_storage: storage,
+      base_url: '/project/tinymce/js/tinymce'
+    }, [ Plugin ]);
+
+    it('TBA: Threads are saved to the configured storage', async () => {
+      const editor = customHook.editor();
+      editor.resetContent('<p>abc</p>');
+      const uid = await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+      assert.deepEqual(Arr.map(saved, (thread) => thread.uid), [ uid ]);
+      assert.equal(saved[0].comments[0].author, 'Anonymous');
+    });
+
+    it('TBA: The anchor is removed when the storage fails to save the thread', async () => {
+      const editor = customHook.editor();
+      editor.resetContent('<p>abc</p>');
+      try {
+        await pAddComment(editor, 'Fail', [ 0, 0 ], 1, 2);
+        assert.fail('Adding the comment should have been rejected');
+      } catch (e) {
+        assert.equal(e.message, 'Failed to save');
+      }
+      TinyAssertions.assertContent(editor, '<p>abc</p>');
+    });
+
+    it('TBA: A notification is shown when the storage fails to save the thread of a command', async () => {
+      const editor = customHook.editor();
+      editor.resetContent('<p>abc</p>');
+      TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+      editor.execCommand('mceAddComment', false, 'Fail');
+      await Waiter.pTryUntil('Wait for the error notification', () => {
+        const notifications = editor.notificationManager.getNotifications();
+        assert.lengthOf(notifications, 1);
+        assert.include(notifications[0].getEl().textContent, 'Failed to save');
+      });
+      Arr.each(editor.notificationManager.getNotifications(), (notification) => notification.close());
+      TinyAssertions.assertContent(editor, '<p>abc</p>');
+    });
+  });
+
+  context('Class based storage', () => {
+    class ClassStorage implements CommentsStorage {
+      private readonly threads: Record<string, CommentThread> = {};
+
+      public getThread(uid: string): Promise<CommentThread | null> {
+        return Promise.resolve(Obj.get(this.threads, uid).getOrNull());
+      }
+
+      public getThreads(): Promise<CommentThread[]> {
+        return Promise.resolve(Obj.values(this.threads));
+      }
+
+      public saveThread(thread: CommentThread): Promise<void> {
+        this.threads[thread.uid] = thread;
+        return Promise.resolve();
+      }
+
+      public deleteThread(uid: string): Promise<void> {
+        delete this.threads[uid];
+        return Promise.resolve();
+      }
+    }
+
+    const classHook = TinyHooks.bddSetupLight<Editor>({
+      plugins: 'comments',
+      comments_storage: new ClassStorage(),
+      base_url: '/project/tinymce/js/tinymce'
+    }, [ Plugin ]);
+
+    it('TBA: The storage methods are called with the storage as this', async () => {
+      const editor = classHook.editor();
+      editor.resetContent('<p>abc</p>');
+      const uid = await pAddComment(editor, 'First', [ 0, 0 ], 1, 2);
+      await getApi(editor).reply(uid, 'Reply');
+      assert.deepEqual(getContents(await getApi(editor).getThreads()), [[ 'First', 'Reply' ]]);
+    });
+
+    it('TBA: Replying without arguments is ignored', () => {
+      const editor = classHook.editor();
+      editor.resetContent('<p>abc</p>');
+      editor.execCommand('mceReplyComment');
+      editor.execCommand('mceReplyComment', false, { uid: 'unknown' });
+      TinyAssertions.assertContent(editor, '<p>abc</p>');
+    });
+  });
+});
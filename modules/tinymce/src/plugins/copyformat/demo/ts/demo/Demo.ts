@@ -0,0 +1,11 @@
+declare let tinymce: any;
+
+tinymce.init({
+  selector: 'textarea.tinymce',
+  plugins: 'copyformat code',
+  toolbar: 'copyformat | bold italic underline forecolor fontsize | alignleft aligncenter | code',
+  content_css: '../../../../../js/tinymce/skins/content/default/content.css',
+  height: 600
+});
+
+export {};
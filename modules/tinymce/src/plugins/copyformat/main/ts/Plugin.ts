@@ -0,0 +1,27 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Cell, Optional } from '@ephox/katamari';
+
+import PluginManager from 'tinymce/core/api/PluginManager';
+
+import * as Commands from './api/Commands';
+import * as Options from './api/Options';
+import * as Bindings from './core/Bindings';
+import { CopyFormatState } from './core/CopyFormat';
+import * as Buttons from './ui/Buttons';
+
+export default (): void => {
+  PluginManager.add('copyformat', (editor) => {
+    Options.register(editor);
+
+    const copyState = Cell<Optional<CopyFormatState>>(Optional.none());
+    Commands.register(editor, copyState);
+    Buttons.register(editor, copyState);
+    Bindings.setup(editor, copyState);
+  });
+};
@@ -0,0 +1,36 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Cell, Optional, Type } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as CopyFormat from '../core/CopyFormat';
+
+interface CopyFormatCommandValue {
+  readonly sticky?: boolean;
+}
+
+const register = (editor: Editor, copyState: Cell<Optional<CopyFormat.CopyFormatState>>): void => {
+  editor.addCommand('mceCopyFormat', (_ui, value?: CopyFormatCommandValue) => {
+    const sticky = Type.isObject(value) && Type.isBoolean(value.sticky) ? value.sticky : undefined;
+    CopyFormat.toggle(editor, copyState, sticky);
+  });
+
+  editor.addCommand('mceCopyFormatApply', () => {
+    CopyFormat.applyToSelection(editor, copyState);
+  });
+
+  editor.addQueryStateHandler('mceCopyFormat', () => copyState.get().isSome());
+
+  editor.addShortcut('meta+alt+c', 'Copy formatting', 'mceCopyFormat');
+  editor.addShortcut('meta+alt+v', 'Paste formatting', 'mceCopyFormatApply');
+};
+
+export {
+  register
+};
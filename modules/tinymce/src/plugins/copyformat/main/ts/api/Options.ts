@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+import { EditorOptions } from 'tinymce/core/api/OptionTypes';
+
+const option: {
+  <K extends keyof EditorOptions>(name: K): (editor: Editor) => EditorOptions[K] | undefined;
+  <T>(name: string): (editor: Editor) => T | undefined;
+} = (name: string) => (editor: Editor) =>
+  editor.options.get(name);
+
+const register = (editor: Editor): void => {
+  const registerOption = editor.options.register;
+
+  registerOption('copyformat_sticky', {
+    processor: 'boolean',
+    default: false
+  });
+
+  // Formats that are never copied, since they need variables or would remove the copied formatting
+  registerOption('copyformat_ignored_formats', {
+    processor: 'string[]',
+    default: [ 'link', 'removeformat' ]
+  });
+};
+
+const isSticky = option<boolean>('copyformat_sticky');
+const getIgnoredFormats = option<string[]>('copyformat_ignored_formats');
+
+export {
+  register,
+  isSticky,
+  getIgnoredFormats
+};
@@ -0,0 +1,31 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Cell, Optional } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import VK from 'tinymce/core/api/util/VK';
+
+import * as CopyFormat from './CopyFormat';
+
+const setup = (editor: Editor, copyState: Cell<Optional<CopyFormat.CopyFormatState>>): void => {
+  // The copied formatting is applied once the selection has been made with the mouse
+  editor.on('mouseup', () => {
+    CopyFormat.applyToSelection(editor, copyState);
+  });
+
+  editor.on('keydown', (e) => {
+    if (e.keyCode === VK.ESC && copyState.get().isSome()) {
+      e.preventDefault();
+      CopyFormat.deactivate(editor, copyState);
+    }
+  });
+};
+
+export {
+  setup
+};
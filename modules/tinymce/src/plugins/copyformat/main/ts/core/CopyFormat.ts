@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Cell, Obj, Optional } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Events from '../api/Events';
+import * as Options from '../api/Options';
+
+export interface CapturedFormats {
+  readonly formats: string[];
+  readonly styles: Record<string, string>;
+}
+
+export interface CopyFormatState {
+  readonly captured: CapturedFormats;
+  readonly sticky: boolean;
+}
+
+// The inline styles are applied with a format that is registered when painting, so it's never captured itself
+const stylesFormatName = 'copyformat_styles';
+
+const getInlineStyles = (editor: Editor, node: Node): Record<string, string> => {
+  const dom = editor.dom;
+  const inlineParents = dom.getParents(node, (elm) => !dom.isBlock(elm), editor.getBody());
+
+  // The parents are ordered from the innermost element, so the inner styles override the outer styles
+  return Arr.foldr(inlineParents, (styles, elm) => ({ ...styles, ...dom.parseStyle(dom.getAttrib(elm, 'style')) }), {});
+};
+
+const capture = (editor: Editor): CapturedFormats => {
+  const ignoredFormats = Options.getIgnoredFormats(editor);
+  const formats = Arr.filter(Obj.keys(editor.formatter.get()), (name) =>
+    name !== stylesFormatName && !Arr.contains(ignoredFormats, name) && editor.formatter.match(name)
+  );
+
+  return {
+    formats,
+    styles: getInlineStyles(editor, editor.selection.getStart())
+  };
+};
+
+const paint = (editor: Editor, captured: CapturedFormats): void => {
+  const formatter = editor.formatter;
+
+  editor.undoManager.transact(() => {
+    // The formatting of the selection is replaced, not merged with the copied formatting
+    if (formatter.has('removeformat')) {
+      formatter.remove('removeformat');
+    }
+
+    Arr.each(captured.formats, (name) => formatter.apply(name));
+
+    if (!Obj.isEmpty(captured.styles)) {
+      formatter.register(stylesFormatName, { inline: 'span', styles: captured.styles });
+      formatter.apply(stylesFormatName);
+    }
+  });
+
+  editor.nodeChanged();
+};
+
+const activate = (editor: Editor, copyState: Cell<Optional<CopyFormatState>>, sticky: boolean): void => {
+  copyState.set(Optional.some({ captured: capture(editor), sticky }));
+  Events.fireCopyFormatToggle(editor, true);
+};
+
+const deactivate = (editor: Editor, copyState: Cell<Optional<CopyFormatState>>): void => {
+  if (copyState.get().isSome()) {
+    copyState.set(Optional.none());
+    Events.fireCopyFormatToggle(editor, false);
+  }
+};
+
+const toggle = (editor: Editor, copyState: Cell<Optional<CopyFormatState>>, sticky?: boolean): void => {
+  if (copyState.get().isSome()) {
+    deactivate(editor, copyState);
+  } else {
+    activate(editor, copyState, sticky ?? Options.isSticky(editor));
+  }
+};
+
+const applyToSelection = (editor: Editor, copyState: Cell<Optional<CopyFormatState>>): void => {
+  copyState.get().each((state) => {
+    if (!editor.selection.isCollapsed()) {
+      paint(editor, state.captured);
+
+      if (!state.sticky) {
+        deactivate(editor, copyState);
+      }
+    }
+  });
+};
+
+export {
+  capture,
+  paint,
+  toggle,
+  deactivate,
+  applyToSelection
+};
@@ -0,0 +1,44 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Cell, Optional } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { Menu, Toolbar } from 'tinymce/core/api/ui/Ui';
+import { EditorEvent } from 'tinymce/core/api/util/EventDispatcher';
+
+import { CopyFormatState } from '../core/CopyFormat';
+
+const toggleActiveState = (editor: Editor, copyState: Cell<Optional<CopyFormatState>>) => (api: Toolbar.ToolbarToggleButtonInstanceApi | Menu.ToggleMenuItemInstanceApi) => {
+  api.setActive(copyState.get().isSome());
+  const editorEventCallback = (e: EditorEvent<{ state: boolean }>) => api.setActive(e.state);
+  editor.on('CopyFormatToggle', editorEventCallback);
+  return () => editor.off('CopyFormatToggle', editorEventCallback);
+};
+
+const register = (editor: Editor, copyState: Cell<Optional<CopyFormatState>>): void => {
+  const onAction = () => editor.execCommand('mceCopyFormat');
+
+  editor.ui.registry.addToggleButton('copyformat', {
+    icon: 'format-painter',
+    tooltip: 'Copy format',
+    onAction,
+    onSetup: toggleActiveState(editor, copyState)
+  });
+
+  editor.ui.registry.addToggleMenuItem('copyformat', {
+    text: 'Copy format',
+    icon: 'format-painter',
+    shortcut: 'Meta+Alt+C',
+    onAction,
+    onSetup: toggleActiveState(editor, copyState)
+  });
+};
+
+export {
+  register
+};
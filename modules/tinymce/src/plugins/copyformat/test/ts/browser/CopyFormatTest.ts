@@ -0,0 +1,81 @@
+import { Keys } from '@ephox/agar';
+import { afterEach, describe, it } from '@ephox/bedrock-client';
+import { TinyAssertions, TinyContentActions, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import Plugin from 'tinymce/plugins/copyformat/Plugin';
+
+describe('browser.tinymce.plugins.copyformat.CopyFormatTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'copyformat',
+    toolbar: 'copyformat',
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const toolbarButtonSelector = 'button[aria-label="Copy format"]';
+
+  const pAssertActive = async (editor: Editor, expected: boolean) => {
+    assert.equal(editor.queryCommandState('mceCopyFormat'), expected, 'Copy format active state');
+    await TinyUiActions.pWaitForUi(editor, `${toolbarButtonSelector}[aria-pressed="${expected}"]`);
+  };
+
+  afterEach(() => {
+    const editor = hook.editor();
+    if (editor.queryCommandState('mceCopyFormat')) {
+      editor.execCommand('mceCopyFormat');
+    }
+  });
+
+  it('TBA: Copies the formats and inline styles at the caret and applies them to the next selection once', async () => {
+    const editor = hook.editor();
+    editor.setContent('<p><strong><span style="color: red;">ab</span></strong></p><p>cd ef</p>');
+    TinySelections.setCursor(editor, [ 0, 0, 0, 0 ], 1);
+    TinyUiActions.clickOnToolbar(editor, toolbarButtonSelector);
+    await pAssertActive(editor, true);
+
+    TinySelections.setSelection(editor, [ 1, 0 ], 0, [ 1, 0 ], 2);
+    editor.execCommand('mceCopyFormatApply');
+    TinyAssertions.assertContent(editor, '<p><strong><span style="color: red;">ab</span></strong></p><p><span style="color: red;"><strong>cd</strong></span> ef</p>');
+    await pAssertActive(editor, false);
+  });
+
+  it('TBA: Replaces the existing formatting of the selection, including block formats', () => {
+    const editor = hook.editor();
+    editor.setContent('<h2 style="text-align: center;"><em>ab</em></h2><p><strong>cd</strong></p>');
+    TinySelections.setCursor(editor, [ 0, 0, 0 ], 1);
+    editor.execCommand('mceCopyFormat');
+    TinySelections.setSelection(editor, [ 1, 0, 0 ], 0, [ 1, 0, 0 ], 2);
+    editor.execCommand('mceCopyFormatApply');
+    TinyAssertions.assertContent(editor, '<h2 style="text-align: center;"><em>ab</em></h2><h2 style="text-align: center;"><em>cd</em></h2>');
+  });
+
+  it('TBA: Sticky mode stays active until it is toggled off or escape is pressed', async () => {
+    const editor = hook.editor();
+    editor.setContent('<p><em>a</em></p><p>b</p><p>c</p>');
+    TinySelections.setCursor(editor, [ 0, 0, 0 ], 1);
+    editor.execCommand('mceCopyFormat', false, { sticky: true });
+
+    TinySelections.setSelection(editor, [ 1, 0 ], 0, [ 1, 0 ], 1);
+    editor.execCommand('mceCopyFormatApply');
+    TinySelections.setSelection(editor, [ 2, 0 ], 0, [ 2, 0 ], 1);
+    editor.execCommand('mceCopyFormatApply');
+    TinyAssertions.assertContent(editor, '<p><em>a</em></p><p><em>b</em></p><p><em>c</em></p>');
+    await pAssertActive(editor, true);
+
+    TinyContentActions.keystroke(editor, Keys.escape());
+    await pAssertActive(editor, false);
+  });
+
+  it('TBA: A collapsed selection does not apply the formatting', async () => {
+    const editor = hook.editor();
+    editor.setContent('<p><em>a</em></p><p>b</p>');
+    TinySelections.setCursor(editor, [ 0, 0, 0 ], 1);
+    editor.execCommand('mceCopyFormat');
+    TinySelections.setCursor(editor, [ 1, 0 ], 1);
+    editor.execCommand('mceCopyFormatApply');
+    TinyAssertions.assertContent(editor, '<p><em>a</em></p><p>b</p>');
+    await pAssertActive(editor, true);
+  });
+});
@@ -33,7 +33,9 @@ const urls = Arr.map<PartialPluginUrl, PluginUrl>([
   { key: 'charmap', name: 'Character Map' },
   { key: 'code', name: 'Code' },
   { key: 'codesample', name: 'Code Sample' },
+  { key: 'comments', name: 'Comments' },
   { key: 'colorpicker', name: 'Color Picker' },
+  { key: 'copyformat', name: 'Copy Format' },
   { key: 'directionality', name: 'Directionality' },
   { key: 'emoticons', name: 'Emoticons' },
   { key: 'fullscreen', name: 'Full Screen' },
@@ -49,11 +51,15 @@ const urls = Arr.map<PartialPluginUrl, PluginUrl>([
   { key: 'paste', name: 'Paste' },
   { key: 'preview', name: 'Preview' },
   { key: 'quickbars', name: 'Quick Toolbars' },
+  { key: 'rtc', name: 'Real-Time Collaboration' },
   { key: 'save', name: 'Save' },
   { key: 'searchreplace', name: 'Search and Replace' },
+  { key: 'stylemanager', name: 'Style Manager' },
   { key: 'table', name: 'Table' },
   { key: 'template', name: 'Template' },
   { key: 'textcolor', name: 'Text Color' },
+  { key: 'trackchanges', name: 'Track Changes' },
+  { key: 'usermentions', name: 'User Mentions' },
   { key: 'visualblocks', name: 'Visual Blocks' },
   { key: 'visualchars', name: 'Visual Characters' },
   { key: 'wordcount', name: 'Word Count' },
@@ -73,7 +79,6 @@ const urls = Arr.map<PartialPluginUrl, PluginUrl>([
   { key: 'pageembed', name: 'Page Embed', type: PluginType.Premium },
   { key: 'permanentpen', name: 'Permanent Pen', type: PluginType.Premium },
   { key: 'powerpaste', name: 'PowerPaste', type: PluginType.Premium },
-  { key: 'rtc', name: 'Real-Time Collaboration', type: PluginType.Premium },
   { key: 'tinymcespellchecker', name: 'Spell Checker Pro', type: PluginType.Premium },
   { key: 'tinycomments', name: 'Tiny Comments', type: PluginType.Premium, slug: 'comments' },
   { key: 'tinydrive', name: 'Tiny Drive', type: PluginType.Premium },
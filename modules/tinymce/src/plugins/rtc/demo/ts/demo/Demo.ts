@@ -0,0 +1,17 @@
+declare let tinymce: any;
+
+const textareas: HTMLTextAreaElement[] = Array.prototype.slice.call(document.querySelectorAll('textarea.tinymce'));
+
+textareas.forEach((textarea) => {
+  tinymce.init({
+    target: textarea,
+    plugins: 'rtc code',
+    toolbar: 'undo redo | bold italic | code',
+    rtc_user: textarea.getAttribute('data-user'),
+    rtc_channel: 'tinymce-rtc-demo',
+    skin_url: '../../../../../js/tinymce/skins/ui/oxide',
+    height: 300
+  });
+});
+
+export {};
@@ -0,0 +1,22 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import PluginManager from 'tinymce/core/api/PluginManager';
+
+import * as Options from './api/Options';
+import * as Runtime from './core/Runtime';
+
+export default (): void => {
+  PluginManager.add('rtc', (editor) => {
+    Options.register(editor);
+
+    // The core calls setup while initializing the editor, the returned runtime then replaces the local undo manager
+    return {
+      setup: () => Runtime.setup(editor)
+    };
+  });
+};
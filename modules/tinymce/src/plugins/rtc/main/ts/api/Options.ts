@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Optional, Type } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { EditorOptions } from 'tinymce/core/api/OptionTypes';
+
+import { Transport } from '../core/RtcTypes';
+
+const option: {
+  <K extends keyof EditorOptions>(name: K): (editor: Editor) => EditorOptions[K] | undefined;
+  <T>(name: string): (editor: Editor) => T | undefined;
+} = (name: string) => (editor: Editor) =>
+  editor.options.get(name);
+
+const isTransport = (value: unknown): value is Transport =>
+  Type.isObject(value) && Arr.forall([ 'send', 'listen', 'close' ], (name) => Type.isFunction(value[name]));
+
+const register = (editor: Editor): void => {
+  const registerOption = editor.options.register;
+
+  registerOption('rtc_user', {
+    processor: 'string',
+    default: 'Anonymous'
+  });
+
+  registerOption('rtc_channel', {
+    processor: 'string',
+    default: 'tinymce-rtc'
+  });
+
+  registerOption('rtc_transport', {
+    processor: (value) => {
+      const valid = isTransport(value);
+      return valid ? { value, valid } : { valid: false, message: 'Must be an object with send, listen and close functions.' };
+    }
+  });
+};
+
+const getUser = option<string>('rtc_user');
+const getChannel = option<string>('rtc_channel');
+const getTransport = (editor: Editor): Optional<Transport> => Optional.from(editor.options.get('rtc_transport'));
+
+export {
+  register,
+  getUser,
+  getChannel,
+  getTransport
+};
@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Message, Transport } from './RtcTypes';
+
+// Connects every editor using the same channel name in the same browser, including editors in other tabs
+const create = (name: string): Transport => {
+  const channel = new window.BroadcastChannel(name);
+
+  return {
+    send: (message) => channel.postMessage(message),
+    listen: (callback) => {
+      channel.addEventListener('message', (e: MessageEvent<Message>) => callback(e.data));
+    },
+    close: () => channel.close()
+  };
+};
+
+export {
+  create
+};
@@ -0,0 +1,77 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Optional } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import { compareIds, Model } from './Model';
+import { CursorPosition } from './RtcTypes';
+
+const isText = (node: Node): node is Text => node.nodeType === 3;
+const isElement = (node: Node): node is Element => node.nodeType === 1;
+
+// Bogus elements like the fake caret and whitespace between blocks aren't part of the shared document
+const isContentNode = (node: Node): boolean =>
+  isElement(node) ? !node.hasAttribute('data-mce-bogus') : isText(node) && node.data.trim().length > 0;
+
+const getContentNodes = (editor: Editor): Node[] =>
+  Arr.filter(editor.getBody().childNodes, isContentNode);
+
+const serializeNode = (editor: Editor, node: Node): string =>
+  isElement(node) ? editor.serializer.serialize(node) : editor.dom.encode(node.textContent);
+
+const getBlockIndex = (editor: Editor, container: Node): Optional<number> => {
+  const body = editor.getBody();
+  let node = container;
+  while (node && node.parentNode !== body) {
+    node = node.parentNode;
+  }
+  return Optional.from(node).bind((block) => Arr.indexOf(getContentNodes(editor), block));
+};
+
+// Positions are stored as the block id and the text offset within the block, so they survive the block being replaced
+const getPosition = (editor: Editor, model: Model, rng: Range): Optional<CursorPosition> =>
+  getBlockIndex(editor, rng.startContainer).bind((index) =>
+    Optional.from(model.getVisible()[index]).map((item) => {
+      const block = getContentNodes(editor)[index];
+      const textRng = editor.dom.createRng();
+      textRng.setStart(block, 0);
+      textRng.setEnd(rng.startContainer, rng.startOffset);
+      return { id: item.id, offset: textRng.toString().length };
+    })
+  );
+
+const resolvePosition = (editor: Editor, model: Model, position: CursorPosition): Optional<Range> =>
+  Arr.findIndex(model.getVisible(), (item) => compareIds(item.id, position.id) === 0)
+    .bind((index) => Optional.from(getContentNodes(editor)[index]))
+    .map((block) => {
+      const rng = editor.dom.createRng();
+      const walker = editor.getDoc().createTreeWalker(block, NodeFilter.SHOW_TEXT);
+      let remaining = position.offset;
+      let text = walker.nextNode() as Text | null;
+      rng.setStart(block, 0);
+
+      while (text) {
+        if (remaining <= text.data.length) {
+          rng.setStart(text, remaining);
+          break;
+        }
+        remaining -= text.data.length;
+        text = walker.nextNode() as Text | null;
+      }
+
+      rng.collapse(true);
+      return rng;
+    });
+
+export {
+  getContentNodes,
+  serializeNode,
+  getPosition,
+  resolvePosition
+};
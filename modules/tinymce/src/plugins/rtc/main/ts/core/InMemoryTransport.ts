@@ -0,0 +1,64 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr } from '@ephox/katamari';
+
+import { Message, Transport } from './RtcTypes';
+
+export interface InMemoryHub {
+  readonly connect: () => Transport;
+}
+
+interface Connection {
+  readonly deliver: (message: Message) => void;
+}
+
+/*
+ * Connects editors on the same page, mostly useful for testing. Messages are delivered asynchronously and in order,
+ * and are copied so that editors never share any objects, just like a real transport.
+ */
+const create = (): InMemoryHub => {
+  let connections: Connection[] = [];
+  let queue = Promise.resolve();
+
+  const connect = (): Transport => {
+    const callbacks: Array<(message: Message) => void> = [];
+    const connection: Connection = {
+      deliver: (message) => Arr.each(callbacks, (callback) => callback(message))
+    };
+    connections.push(connection);
+
+    return {
+      send: (message) => {
+        const data = JSON.stringify(message);
+        const recipients = Arr.filter(connections, (other) => other !== connection);
+        queue = queue.then(() => {
+          Arr.each(recipients, (recipient) => {
+            // The recipient may have been closed while the message was queued
+            if (Arr.contains(connections, recipient)) {
+              recipient.deliver(JSON.parse(data));
+            }
+          });
+        });
+      },
+      listen: (callback) => {
+        callbacks.push(callback);
+      },
+      close: () => {
+        connections = Arr.filter(connections, (other) => other !== connection);
+      }
+    };
+  };
+
+  return {
+    connect
+  };
+};
+
+export {
+  create
+};
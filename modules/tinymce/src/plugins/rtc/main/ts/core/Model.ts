@@ -0,0 +1,195 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional } from '@ephox/katamari';
+
+import { DeleteOperation, InsertOperation, ItemId, Operation, UpdateOperation } from './RtcTypes';
+
+/*
+ * The document is modelled as a replicated growable array (RGA) of the top level blocks, where the html of each block
+ * is a last writer wins register. Deleted blocks are kept as tombstones so that concurrent inserts next to them can
+ * still be positioned. Concurrent edits to different blocks merge, while concurrent edits to the same block resolve
+ * to the edit with the highest timestamp on every site.
+ */
+
+interface Item {
+  readonly id: ItemId;
+  html: string;
+  stamp: ItemId;
+  deleted: boolean;
+}
+
+export interface VisibleItem {
+  readonly id: ItemId;
+  readonly html: string;
+}
+
+export type Change =
+  { readonly type: 'insert'; readonly index: number; readonly html: string } |
+  { readonly type: 'update'; readonly index: number; readonly html: string } |
+  { readonly type: 'delete'; readonly index: number };
+
+export interface Model {
+  readonly site: string;
+  readonly seed: (blocks: string[]) => void;
+  readonly getVisible: () => VisibleItem[];
+  readonly getOperations: () => Operation[];
+  readonly findVisible: (id: ItemId) => Optional<VisibleItem>;
+  readonly createInsert: (origin: ItemId | null, html: string) => InsertOperation;
+  readonly createUpdate: (id: ItemId, html: string) => UpdateOperation;
+  readonly createDelete: (id: ItemId) => DeleteOperation;
+  readonly receive: (operations: Operation[]) => Change[];
+}
+
+const compareIds = (a: ItemId, b: ItemId): number => {
+  if (a.clock !== b.clock) {
+    return a.clock - b.clock;
+  } else if (a.site === b.site) {
+    return 0;
+  } else {
+    return a.site < b.site ? -1 : 1;
+  }
+};
+
+const idKey = (id: ItemId) => `${id.clock}@${id.site}`;
+
+// A small string hash, only used to give identical initial content identical ids on every site
+const hash = (value: string): string => {
+  let result = 5381;
+  for (let i = 0; i < value.length; i++) {
+    result = (result * 33 + value.charCodeAt(i)) % 4294967296;
+  }
+  return result.toString(36);
+};
+
+const create = (site: string): Model => {
+  const items: Item[] = [];
+  const lookup: Record<string, Item> = {};
+  const log: Operation[] = [];
+  let pending: Operation[] = [];
+  let clock = 0;
+
+  const indexOf = (id: ItemId) => Arr.findIndex(items, (item) => compareIds(item.id, id) === 0).getOr(-1);
+
+  const visibleIndex = (index: number) => Arr.filter(items.slice(0, index), (item) => !item.deleted).length;
+
+  const nextId = (): ItemId => ({ clock: ++clock, site });
+
+  const integrateInsert = (op: InsertOperation): Optional<Change[]> => {
+    if (Obj.has(lookup, idKey(op.id))) {
+      return Optional.some([]);
+    }
+
+    const originIndex = op.origin === null ? -1 : indexOf(op.origin);
+    if (op.origin !== null && originIndex === -1) {
+      return Optional.none();
+    }
+
+    // Inserts after the same origin are ordered by descending id, which gives the same order on every site
+    let index = originIndex + 1;
+    while (index < items.length && compareIds(items[index].id, op.id) > 0) {
+      index++;
+    }
+
+    const item: Item = { id: op.id, html: op.html, stamp: op.id, deleted: false };
+    items.splice(index, 0, item);
+    lookup[idKey(op.id)] = item;
+    return Optional.some([{ type: 'insert', index: visibleIndex(index), html: op.html }]);
+  };
+
+  const integrateUpdate = (op: UpdateOperation): Optional<Change[]> =>
+    Obj.get(lookup, idKey(op.id)).map((item) => {
+      if (compareIds(op.stamp, item.stamp) > 0) {
+        item.html = op.html;
+        item.stamp = op.stamp;
+        return item.deleted ? [] : [{ type: 'update', index: visibleIndex(indexOf(item.id)), html: op.html }];
+      } else {
+        return [];
+      }
+    });
+
+  const integrateDelete = (op: DeleteOperation): Optional<Change[]> =>
+    Obj.get(lookup, idKey(op.id)).map((item) => {
+      if (item.deleted) {
+        return [];
+      } else {
+        const index = visibleIndex(indexOf(item.id));
+        item.deleted = true;
+        return [{ type: 'delete', index }];
+      }
+    });
+
+  const integrateOperation = (op: Operation): Optional<Change[]> => {
+    if (op.type === 'insert') {
+      return integrateInsert(op);
+    } else if (op.type === 'update') {
+      return integrateUpdate(op);
+    } else {
+      return integrateDelete(op);
+    }
+  };
+
+  const integrate = (op: Operation): Optional<Change[]> => {
+    const result = integrateOperation(op);
+    result.each(() => {
+      clock = Math.max(clock, op.id.clock, op.type === 'update' ? op.stamp.clock : 0);
+      log.push(op);
+    });
+    return result;
+  };
+
+  // Operations that depend on an item that hasn't been received yet are kept until the item arrives
+  const receive = (operations: Operation[]): Change[] => {
+    const changes: Change[] = [];
+    let queue = pending.concat(operations);
+    let integrated = true;
+    while (integrated) {
+      integrated = false;
+      const remaining: Operation[] = [];
+      Arr.each(queue, (op) => {
+        integrate(op).fold(
+          () => {
+            remaining.push(op);
+          },
+          (opChanges) => {
+            integrated = true;
+            changes.push(...opChanges);
+          }
+        );
+      });
+      queue = remaining;
+    }
+    pending = queue;
+    return changes;
+  };
+
+  const seed = (blocks: string[]) => {
+    Arr.foldl(blocks, (origin: ItemId | null, html, i) => {
+      const id = { clock: i + 1, site: 'seed-' + hash(blocks.slice(0, i + 1).join('')) };
+      receive([{ type: 'insert', id, origin, html }]);
+      return id;
+    }, null);
+  };
+
+  return {
+    site,
+    seed,
+    getVisible: () => Arr.map(Arr.filter(items, (item) => !item.deleted), (item) => ({ id: item.id, html: item.html })),
+    getOperations: () => log.slice(0),
+    findVisible: (id) => Obj.get(lookup, idKey(id)).filter((item) => !item.deleted).map((item) => ({ id: item.id, html: item.html })),
+    // The created operations aren't applied to the model until they are received
+    createInsert: (origin, html) => ({ type: 'insert', id: nextId(), origin, html }),
+    createUpdate: (id, html) => ({ type: 'update', id, stamp: nextId(), html }),
+    createDelete: (id) => ({ type: 'delete', id }),
+    receive
+  };
+};
+
+export {
+  create,
+  compareIds
+};
@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+// Ids are Lamport timestamps, so every id is unique and ids can be totally ordered
+export interface ItemId {
+  readonly clock: number;
+  readonly site: string;
+}
+
+export interface InsertOperation {
+  readonly type: 'insert';
+  readonly id: ItemId;
+  readonly origin: ItemId | null;
+  readonly html: string;
+}
+
+export interface UpdateOperation {
+  readonly type: 'update';
+  readonly id: ItemId;
+  readonly stamp: ItemId;
+  readonly html: string;
+}
+
+export interface DeleteOperation {
+  readonly type: 'delete';
+  readonly id: ItemId;
+}
+
+export type Operation = InsertOperation | UpdateOperation | DeleteOperation;
+
+export interface CursorPosition {
+  readonly id: ItemId;
+  readonly offset: number;
+}
+
+export type Message =
+  { readonly type: 'operations'; readonly site: string; readonly operations: Operation[] } |
+  { readonly type: 'sync-request'; readonly site: string } |
+  { readonly type: 'sync-state'; readonly site: string; readonly operations: Operation[] } |
+  { readonly type: 'cursor'; readonly site: string; readonly user: string; readonly position: CursorPosition | null };
+
+// Messages only contain plain data, so that they can be sent between tabs or serialized to send to a server
+export interface Transport {
+  readonly send: (message: Message) => void;
+  readonly listen: (callback: (message: Message) => void) => void;
+  readonly close: () => void;
+}
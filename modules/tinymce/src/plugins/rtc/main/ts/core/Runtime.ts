@@ -0,0 +1,99 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Fun, Id, Throttler } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import HtmlSerializer from 'tinymce/core/api/html/Serializer';
+import { RtcRuntimeApi } from 'tinymce/core/Rtc';
+
+import * as Options from '../api/Options';
+import * as Cursors from '../ui/Cursors';
+import * as BroadcastChannelTransport from './BroadcastChannelTransport';
+import * as Content from './Content';
+import * as Model from './Model';
+import { Message } from './RtcTypes';
+import * as Sync from './Sync';
+import * as UndoStack from './UndoStack';
+
+// The core doesn't load the initial content when a RTC plugin is used, since it's normally loaded from the server
+const loadInitialContent = (editor: Editor, model: Model.Model) => {
+  const elm = editor.getElement();
+  const html = elm.nodeName === 'TEXTAREA' || elm.nodeName === 'INPUT' ? (elm as HTMLTextAreaElement).value : elm.innerHTML;
+  const content = HtmlSerializer({ validate: false }, editor.schema).serialize(editor.parser.parse(html, { isRootContent: true, insert: true }));
+  const forcedRootBlock = editor.options.get('forced_root_block');
+  editor.dom.setHTML(editor.getBody(), content.length > 0 ? content : editor.dom.createHTML(forcedRootBlock, {}, '<br data-mce-bogus="1">'));
+
+  // Editors with the same initial content get the same initial blocks, so they can be merged without duplicating the content
+  model.seed(Arr.map(Content.getContentNodes(editor), (node) => Content.serializeNode(editor, node)));
+};
+
+const bindEvents = (editor: Editor, undoStack: UndoStack.UndoStack, cursors: Cursors.Cursors) => {
+  const typing = Throttler.last(() => undoStack.add(), 500);
+
+  editor.on('input', () => {
+    undoStack.commit();
+    typing.throttle();
+  });
+
+  editor.on('ExecCommand SetContent blur', () => {
+    typing.cancel();
+    undoStack.add();
+  });
+
+  editor.on('NodeChange', cursors.broadcast);
+  editor.on('ResizeEditor ScrollContent', cursors.render);
+};
+
+const setup = (editor: Editor): Promise<RtcRuntimeApi> => {
+  const transport = Options.getTransport(editor).getOrThunk(() => BroadcastChannelTransport.create(Options.getChannel(editor)));
+  const model = Model.create(Id.generate('rtc'));
+  loadInitialContent(editor, model);
+
+  const sync = Sync.create(editor, model, transport);
+  const undoStack = UndoStack.create(editor, sync);
+  const cursors = Cursors.create(editor, model, transport, Options.getUser(editor));
+
+  transport.listen((message: Message) => {
+    if (message.type === 'operations' || message.type === 'sync-state') {
+      // Local changes need to be in the model before the remote changes are applied to the content
+      undoStack.commit();
+      sync.receive(message.operations);
+      cursors.render();
+    } else if (message.type === 'sync-request') {
+      sync.sendState();
+      cursors.broadcast();
+    } else if (message.type === 'cursor') {
+      cursors.update(message.site, message.user, message.position);
+    }
+  });
+
+  // Ask the other editors for the operations that happened before this editor was connected
+  transport.send({ type: 'sync-request', site: model.site });
+
+  editor.on('remove', () => {
+    cursors.destroy();
+    transport.close();
+  });
+
+  return Promise.resolve({
+    init: {
+      bindEvents: () => bindEvents(editor, undoStack, cursors)
+    },
+    undoManager: undoStack,
+    raw: {
+      getRawModel: Fun.constant(model)
+    },
+    rtc: {
+      isRemote: false
+    }
+  });
+};
+
+export {
+  setup
+};
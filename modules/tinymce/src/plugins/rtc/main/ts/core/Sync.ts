@@ -0,0 +1,163 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Content from './Content';
+import { Change, Model, VisibleItem } from './Model';
+import { ItemId, Operation, Transport } from './RtcTypes';
+
+// The local changes are recorded with the content they replaced, so that they can be reverted by the undo manager
+export type LocalChange =
+  { readonly type: 'insert'; readonly id: ItemId } |
+  { readonly type: 'update'; readonly id: ItemId; readonly before: string; readonly after: string } |
+  { readonly type: 'delete'; readonly id: ItemId; readonly html: string };
+
+export interface Sync {
+  readonly commit: () => LocalChange[];
+  readonly revert: (changes: LocalChange[]) => LocalChange[];
+  readonly receive: (operations: Operation[]) => void;
+  readonly sendState: () => void;
+}
+
+interface Diff {
+  readonly operations: Operation[];
+  readonly changes: LocalChange[];
+}
+
+// Matches the unchanged blocks at the start and the end, then pairs up the changed blocks in between
+const diff = (model: Model, visible: VisibleItem[], current: string[]): Diff => {
+  let start = 0;
+  while (start < visible.length && start < current.length && visible[start].html === current[start]) {
+    start++;
+  }
+
+  let end = 0;
+  while (end < visible.length - start && end < current.length - start && visible[visible.length - end - 1].html === current[current.length - end - 1]) {
+    end++;
+  }
+
+  const removed = visible.slice(start, visible.length - end);
+  const added = current.slice(start, current.length - end);
+  const common = Math.min(removed.length, added.length);
+
+  const updates: Diff[] = Arr.range(common, (i) => ({
+    operations: [ model.createUpdate(removed[i].id, added[i]) ],
+    changes: [{ type: 'update', id: removed[i].id, before: removed[i].html, after: added[i] }]
+  }));
+
+  const deletes: Diff[] = Arr.map(removed.slice(common), (item) => ({
+    operations: [ model.createDelete(item.id) ],
+    changes: [{ type: 'delete', id: item.id, html: item.html }]
+  }));
+
+  const initialOrigin = Arr.last(visible.slice(0, start + common)).map((item) => item.id).getOrNull();
+  const inserts = Arr.foldl(added.slice(common), (acc, html) => {
+    const op = model.createInsert(acc.origin, html);
+    return { origin: op.id, diffs: acc.diffs.concat([{ operations: [ op ], changes: [{ type: 'insert', id: op.id }] }]) };
+  }, { origin: initialOrigin, diffs: [] as Diff[] });
+
+  const diffs = updates.concat(deletes, inserts.diffs);
+  return {
+    operations: Arr.bind(diffs, (d) => d.operations),
+    changes: Arr.bind(diffs, (d) => d.changes)
+  };
+};
+
+const create = (editor: Editor, model: Model, transport: Transport): Sync => {
+  const send = (operations: Operation[]) => {
+    if (operations.length > 0) {
+      transport.send({ type: 'operations', site: model.site, operations });
+    }
+  };
+
+  const applyChange = (change: Change) => {
+    const body = editor.getBody();
+    const nodes = Content.getContentNodes(editor);
+    if (change.type === 'delete') {
+      editor.dom.remove(nodes[change.index]);
+    } else {
+      const fragment = editor.dom.createFragment(change.html);
+      if (change.type === 'update') {
+        body.replaceChild(fragment, nodes[change.index]);
+      } else if (change.index < nodes.length) {
+        body.insertBefore(fragment, nodes[change.index]);
+      } else {
+        const last = nodes[nodes.length - 1];
+        body.insertBefore(fragment, last ? last.nextSibling : body.firstChild);
+      }
+    }
+  };
+
+  // The model and the content are in sync before the changes are applied, so the changes can be applied by index
+  const apply = (operations: Operation[]) => {
+    const rng = editor.selection.getRng();
+    const position = Content.getPosition(editor, model, rng);
+    const changes = model.receive(operations);
+    Arr.each(changes, applyChange);
+
+    // Restore the selection if the block it was in got replaced
+    if (changes.length > 0 && !editor.getBody().contains(rng.startContainer)) {
+      position.bind((pos) => Content.resolvePosition(editor, model, pos)).each((newRng) => editor.selection.setRng(newRng));
+    }
+  };
+
+  const commit = (): LocalChange[] => {
+    const current = Arr.map(Content.getContentNodes(editor), (node) => Content.serializeNode(editor, node));
+    const { operations, changes } = diff(model, model.getVisible(), current);
+    model.receive(operations);
+    send(operations);
+    return changes;
+  };
+
+  const revertChange = (change: LocalChange): Diff => {
+    const visible = model.findVisible(change.id);
+    if (change.type === 'delete') {
+      // The deleted block is kept as a tombstone, so it can be used as the origin to insert the content back in the same place
+      const op = model.createInsert(change.id, change.html);
+      return { operations: [ op ], changes: [{ type: 'insert', id: op.id }] };
+    } else if (change.type === 'update') {
+      return visible.fold(
+        () => ({ operations: [], changes: [] }),
+        (item) => ({ operations: [ model.createUpdate(change.id, change.before) ], changes: [{ type: 'update', id: change.id, before: item.html, after: change.before }] })
+      );
+    } else {
+      return visible.fold(
+        () => ({ operations: [], changes: [] }),
+        (item) => ({ operations: [ model.createDelete(change.id) ], changes: [{ type: 'delete', id: change.id, html: item.html }] })
+      );
+    }
+  };
+
+  const revert = (changes: LocalChange[]): LocalChange[] => {
+    const diffs = Arr.map(Arr.reverse(changes), revertChange);
+    const operations = Arr.bind(diffs, (d) => d.operations);
+    apply(operations);
+    send(operations);
+    return Arr.bind(diffs, (d) => d.changes);
+  };
+
+  const sendState = () => {
+    const operations = model.getOperations();
+    if (operations.length > 0) {
+      transport.send({ type: 'sync-state', site: model.site, operations });
+    }
+  };
+
+  return {
+    commit,
+    revert,
+    receive: apply,
+    sendState
+  };
+};
+
+export {
+  create
+};
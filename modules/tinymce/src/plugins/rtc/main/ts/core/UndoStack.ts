@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Fun } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { RtcRuntimeApi } from 'tinymce/core/Rtc';
+import { UndoLevel } from 'tinymce/core/undo/UndoManagerTypes';
+
+import { LocalChange, Sync } from './Sync';
+
+export type UndoStack = RtcRuntimeApi['undoManager'] & {
+  readonly commit: () => void;
+};
+
+/*
+ * Each undo level is the list of local changes made to the shared model, so undoing a level only reverts the blocks
+ * changed by this editor and keeps the changes made by other editors since then.
+ */
+const create = (editor: Editor, sync: Sync): UndoStack => {
+  let pending: LocalChange[] = [];
+  let undoLevels: LocalChange[][] = [];
+  let redoLevels: LocalChange[][] = [];
+  let locks = 0;
+
+  const createLevel = (): UndoLevel => ({
+    type: 'complete' as UndoLevel['type'],
+    fragments: null,
+    content: editor.getContent({ format: 'raw', no_events: true }),
+    bookmark: null,
+    beforeBookmark: null
+  });
+
+  const commit = () => {
+    pending = pending.concat(sync.commit());
+  };
+
+  const add = (): UndoLevel | null => {
+    commit();
+    if (locks > 0 || pending.length === 0) {
+      return null;
+    }
+
+    undoLevels.push(pending);
+    pending = [];
+    redoLevels = [];
+
+    const level = createLevel();
+    editor.setDirty(true);
+    editor.fire('AddUndo', { level, lastLevel: null, originalEvent: null });
+    editor.fire('change', { level, lastLevel: null });
+    return level;
+  };
+
+  const move = (from: LocalChange[][], to: LocalChange[][], event: 'Undo' | 'Redo'): UndoLevel | null => {
+    add();
+    const changes = from.pop();
+    if (changes === undefined) {
+      return null;
+    }
+
+    to.push(sync.revert(changes));
+    const level = createLevel();
+    editor.setDirty(true);
+    editor.fire(event, { level });
+    return level;
+  };
+
+  const ignore = (callback: () => void) => {
+    locks++;
+    try {
+      callback();
+    } finally {
+      locks--;
+    }
+  };
+
+  const transact = (callback: () => void): UndoLevel | null => {
+    add();
+    ignore(callback);
+    return add();
+  };
+
+  const clear = () => {
+    pending = [];
+    undoLevels = [];
+    redoLevels = [];
+    editor.fire('ClearUndos');
+  };
+
+  return {
+    commit,
+    beforeChange: Fun.noop,
+    add,
+    undo: () => move(undoLevels, redoLevels, 'Undo'),
+    redo: () => move(redoLevels, undoLevels, 'Redo'),
+    hasUndo: () => undoLevels.length > 0,
+    hasRedo: () => redoLevels.length > 0,
+    transact,
+    reset: clear,
+    clear,
+    ignore,
+    // The first callback is reverted as part of the second level, so undoing the second level restores the first callback
+    extra: (callback1, callback2) => {
+      if (transact(callback1)) {
+        pending = sync.revert(undoLevels[undoLevels.length - 1]);
+        ignore(callback2);
+        add();
+      }
+    }
+  };
+};
+
+export {
+  create
+};
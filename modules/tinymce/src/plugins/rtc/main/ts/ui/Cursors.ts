@@ -0,0 +1,123 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Optional } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Content from '../core/Content';
+import { Model } from '../core/Model';
+import { CursorPosition, Transport } from '../core/RtcTypes';
+
+interface RemoteCursor {
+  readonly user: string;
+  readonly position: CursorPosition;
+}
+
+export interface Cursors {
+  readonly broadcast: () => void;
+  readonly update: (site: string, user: string, position: CursorPosition | null) => void;
+  readonly render: () => void;
+  readonly destroy: () => void;
+}
+
+const colors = [ '#2d6ade', '#c92a2a', '#2b8a3e', '#e67700', '#862e9c', '#0b7285' ];
+
+const getColor = (site: string) => {
+  const code = Arr.foldl(site.split(''), (acc, c) => acc + c.charCodeAt(0), 0);
+  return colors[code % colors.length];
+};
+
+// Collapsed ranges in empty blocks don't have any client rects, so the block is used instead
+const getRect = (rng: Range): Optional<DOMRect> => {
+  const rects = rng.getClientRects();
+  if (rects.length > 0) {
+    return Optional.some(rects[0]);
+  } else {
+    const container = rng.startContainer;
+    return container.nodeType === 1 ? Optional.some((container as Element).getBoundingClientRect()) : Optional.none();
+  }
+};
+
+// The cursors are rendered outside of the editor body so they never become part of the content
+const getContainer = (editor: Editor): HTMLElement =>
+  editor.inline ? editor.getDoc().body : editor.getDoc().documentElement;
+
+const create = (editor: Editor, model: Model, transport: Transport, user: string): Cursors => {
+  const cursors: Record<string, RemoteCursor> = {};
+  let overlay = Optional.none<HTMLElement>();
+
+  const renderCursor = (site: string, cursor: RemoteCursor): Optional<HTMLElement> =>
+    Content.resolvePosition(editor, model, cursor.position).bind(getRect).map((rect) => {
+      const win = editor.getWin();
+      const color = getColor(site);
+      const caret = editor.dom.create('div', { 'class': 'tox-rtc-cursor', 'data-rtc-site': site });
+      editor.dom.setStyles(caret, {
+        'position': 'absolute',
+        'left': rect.left + win.pageXOffset,
+        'top': rect.top + win.pageYOffset,
+        'height': rect.height,
+        'border-left': `2px solid ${color}`,
+        'pointer-events': 'none'
+      });
+
+      const label = editor.dom.create('span', { class: 'tox-rtc-cursor__label' }, editor.dom.encode(cursor.user));
+      editor.dom.setStyles(label, {
+        'position': 'absolute',
+        'bottom': '100%',
+        'left': '-2px',
+        'padding': '1px 4px',
+        'background-color': color,
+        'color': '#fff',
+        'font': '11px sans-serif',
+        'white-space': 'nowrap'
+      });
+      caret.appendChild(label);
+      return caret;
+    });
+
+  const render = () => {
+    overlay.each((elm) => editor.dom.remove(elm));
+    const container = editor.dom.create('div', { 'class': 'tox-rtc-cursors', 'data-mce-bogus': 'all', 'contenteditable': 'false' });
+    Obj.each(cursors, (cursor, site) => {
+      renderCursor(site, cursor).each((elm) => container.appendChild(elm));
+    });
+    getContainer(editor).appendChild(container);
+    overlay = Optional.some(container);
+  };
+
+  const broadcast = () => {
+    const position = Content.getPosition(editor, model, editor.selection.getRng()).getOrNull();
+    transport.send({ type: 'cursor', site: model.site, user, position });
+  };
+
+  const update = (site: string, remoteUser: string, position: CursorPosition | null) => {
+    if (position === null) {
+      delete cursors[site];
+    } else {
+      cursors[site] = { user: remoteUser, position };
+    }
+    render();
+  };
+
+  const destroy = () => {
+    overlay.each((elm) => editor.dom.remove(elm));
+    overlay = Optional.none();
+    transport.send({ type: 'cursor', site: model.site, user, position: null });
+  };
+
+  return {
+    broadcast,
+    update,
+    render,
+    destroy
+  };
+};
+
+export {
+  create
+};
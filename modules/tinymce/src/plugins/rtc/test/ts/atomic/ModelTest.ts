@@ -0,0 +1,74 @@
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { assert } from 'chai';
+
+import * as Model from 'tinymce/plugins/rtc/core/Model';
+import { Operation } from 'tinymce/plugins/rtc/core/RtcTypes';
+
+describe('atomic.tinymce.plugins.rtc.ModelTest', () => {
+  const getHtml = (model: Model.Model) => Arr.map(model.getVisible(), (item) => item.html);
+
+  const createPair = () => {
+    const first = Model.create('a');
+    const second = Model.create('b');
+    first.seed([ '<p>1</p>', '<p>2</p>' ]);
+    second.seed([ '<p>1</p>', '<p>2</p>' ]);
+    return { first, second };
+  };
+
+  const local = (model: Model.Model, operations: Operation[]) => {
+    model.receive(operations);
+    return operations;
+  };
+
+  it('TBA: Identical initial content is only seeded once', () => {
+    const { first, second } = createPair();
+    first.receive(second.getOperations());
+    assert.deepEqual(getHtml(first), [ '<p>1</p>', '<p>2</p>' ]);
+  });
+
+  it('TBA: Concurrent inserts at the same position converge in any order', () => {
+    const { first, second } = createPair();
+    const origin = first.getVisible()[0].id;
+    const fromFirst = local(first, [ first.createInsert(origin, '<p>a</p>') ]);
+    const fromSecond = local(second, [ second.createInsert(origin, '<p>b</p>') ]);
+
+    first.receive(fromSecond);
+    second.receive(fromFirst);
+    assert.deepEqual(getHtml(first), getHtml(second));
+    assert.lengthOf(getHtml(first), 4);
+  });
+
+  it('TBA: Concurrent updates to the same block resolve to the same value', () => {
+    const { first, second } = createPair();
+    const id = first.getVisible()[1].id;
+    const fromFirst = local(first, [ first.createUpdate(id, '<p>x</p>') ]);
+    const fromSecond = local(second, [ second.createUpdate(id, '<p>y</p>') ]);
+
+    first.receive(fromSecond);
+    second.receive(fromFirst);
+    assert.deepEqual(getHtml(first), getHtml(second));
+  });
+
+  it('TBA: Operations are kept until the block they depend on is received', () => {
+    const { first, second } = createPair();
+    const insert = local(first, [ first.createInsert(null, '<p>a</p>') ]);
+    const update = local(first, [ first.createUpdate(insert[0].id, '<p>b</p>') ]);
+
+    assert.deepEqual(second.receive(update), []);
+    second.receive(insert);
+    assert.deepEqual(getHtml(second), [ '<p>b</p>', '<p>1</p>', '<p>2</p>' ]);
+  });
+
+  it('TBA: Deleted blocks can still be used to position inserts', () => {
+    const { first, second } = createPair();
+    const id = first.getVisible()[0].id;
+    const remove = local(first, [ first.createDelete(id) ]);
+    const insert = local(second, [ second.createInsert(id, '<p>a</p>') ]);
+
+    first.receive(insert);
+    second.receive(remove);
+    assert.deepEqual(getHtml(first), [ '<p>a</p>', '<p>2</p>' ]);
+    assert.deepEqual(getHtml(first), getHtml(second));
+  });
+});
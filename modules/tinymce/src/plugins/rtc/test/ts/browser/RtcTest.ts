@@ -0,0 +1,103 @@
+import { UiFinder, Waiter } from '@ephox/agar';
+import { describe, it } from '@ephox/bedrock-client';
+import { TinyDom, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import * as InMemoryTransport from 'tinymce/plugins/rtc/core/InMemoryTransport';
+import Plugin from 'tinymce/plugins/rtc/Plugin';
+
+describe('browser.tinymce.plugins.rtc.RtcTest', () => {
+  const hub = InMemoryTransport.create();
+
+  const setupEditor = (user: string) => TinyHooks.bddSetupLight<Editor>({
+    plugins: 'rtc',
+    rtc_transport: hub.connect(),
+    rtc_user: user,
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const hookA = setupEditor('Ann');
+  const hookB = setupEditor('Bob');
+
+  const setBlockText = (editor: Editor, index: number, text: string) => {
+    editor.getBody().childNodes[index].textContent = text;
+    editor.fire('input');
+  };
+
+  const insertBlock = (editor: Editor, index: number, text: string) => {
+    const body = editor.getBody();
+    body.insertBefore(editor.dom.create('p', {}, text), body.childNodes[index]);
+    editor.fire('input');
+  };
+
+  const pAssertConverged = (expected: string) => Waiter.pTryUntil('Wait for the editors to converge', () => {
+    assert.equal(hookA.editor().getContent(), expected);
+    assert.equal(hookB.editor().getContent(), expected);
+  });
+
+  const pReset = async () => {
+    const editorA = hookA.editor();
+    editorA.setContent('<p>one</p><p>two</p>');
+    await pAssertConverged('<p>one</p><p>two</p>');
+  };
+
+  it('TBA: Editors with the same initial content are not duplicated when they connect', async () => {
+    await Waiter.pWait(50);
+    assert.lengthOf(hookA.editor().getBody().childNodes, 1);
+    assert.lengthOf(hookB.editor().getBody().childNodes, 1);
+  });
+
+  it('TBA: Changes to different blocks are merged', async () => {
+    await pReset();
+    setBlockText(hookA.editor(), 0, 'ONE');
+    setBlockText(hookB.editor(), 1, 'TWO');
+    await pAssertConverged('<p>ONE</p><p>TWO</p>');
+  });
+
+  it('TBA: Concurrent inserts at the same position converge', async () => {
+    await pReset();
+    insertBlock(hookA.editor(), 1, 'a');
+    insertBlock(hookB.editor(), 1, 'b');
+    await Waiter.pTryUntil('Wait for the editors to converge', () => {
+      const content = hookA.editor().getContent();
+      assert.equal(hookB.editor().getContent(), content);
+      assert.include([ '<p>one</p><p>a</p><p>b</p><p>two</p>', '<p>one</p><p>b</p><p>a</p><p>two</p>' ], content);
+    });
+  });
+
+  it('TBA: Concurrent changes to the same block converge', async () => {
+    await pReset();
+    setBlockText(hookA.editor(), 0, 'a');
+    setBlockText(hookB.editor(), 0, 'b');
+    await Waiter.pTryUntil('Wait for the editors to converge', () => {
+      const content = hookA.editor().getContent();
+      assert.equal(hookB.editor().getContent(), content);
+      assert.include([ '<p>a</p><p>two</p>', '<p>b</p><p>two</p>' ], content);
+    });
+  });
+
+  it('TBA: Undo only reverts the local changes', async () => {
+    await pReset();
+    const editorA = hookA.editor();
+    setBlockText(editorA, 0, 'ONE');
+    editorA.undoManager.add();
+    setBlockText(hookB.editor(), 1, 'TWO');
+    await pAssertConverged('<p>ONE</p><p>TWO</p>');
+
+    assert.isTrue(editorA.undoManager.hasUndo());
+    editorA.undoManager.undo();
+    await pAssertConverged('<p>one</p><p>TWO</p>');
+    editorA.undoManager.redo();
+    await pAssertConverged('<p>ONE</p><p>TWO</p>');
+  });
+
+  it('TBA: Remote cursors are rendered with the user name', async () => {
+    await pReset();
+    const editorA = hookA.editor();
+    TinySelections.setCursor(editorA, [ 1, 0 ], 1);
+    editorA.nodeChanged();
+    await UiFinder.pWaitFor('Wait for the remote cursor', TinyDom.documentElement(hookB.editor()), '.tox-rtc-cursor .tox-rtc-cursor__label:contains("Ann")');
+  });
+});
@@ -0,0 +1,16 @@
+declare let tinymce: any;
+
+tinymce.init({
+  selector: 'textarea.tinymce',
+  plugins: 'stylemanager code',
+  toolbar: 'stylemanager | bold italic | code',
+  named_styles: {
+    note: { title: 'Note', type: 'paragraph', styles: { color: '#7e8c8d' }},
+    warning: { title: 'Warning', based_on: 'note', block: 'div', styles: { 'font-weight': 'bold' }},
+    term: { title: 'Term', type: 'character', styles: { 'font-style': 'italic' }}
+  },
+  content_css: '../../../../../js/tinymce/skins/content/default/content.css',
+  height: 600
+});
+
+export {};
@@ -0,0 +1,20 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Dialog from '../ui/Dialog';
+
+const register = (editor: Editor): void => {
+  editor.addCommand('mceStyleManager', () => {
+    Dialog.open(editor);
+  });
+};
+
+export {
+  register
+};
@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { NamedStyle, NamedStyleSpec } from 'tinymce/core/api/StyleManager';
+
+export interface StyleDialogData {
+  style: string;
+  name: string;
+  title: string;
+  type: string;
+  based_on: string;
+  block: string;
+  css: string;
+}
+
+const toDialogData = (editor: Editor, style?: NamedStyle): StyleDialogData => {
+  if (style) {
+    const spec = style.spec;
+    return {
+      style: style.name,
+      name: style.name,
+      title: spec.title ?? '',
+      type: style.type,
+      based_on: spec.based_on ?? '',
+      block: spec.block ?? '',
+      css: editor.dom.serializeStyle(spec.styles ?? {})
+    };
+  } else {
+    return { style: '', name: '', title: '', type: 'paragraph', based_on: '', block: '', css: '' };
+  }
+};
+
+const toSpec = (editor: Editor, data: StyleDialogData): NamedStyleSpec => {
+  const title = data.title.trim();
+  const isParagraph = data.type === 'paragraph';
+
+  // The empty fields are left out so they are inherited from the style it's based on
+  return {
+    type: isParagraph ? 'paragraph' : 'character',
+    styles: editor.dom.parseStyle(data.css),
+    ...title.length > 0 ? { title } : {},
+    ...data.based_on.length > 0 ? { based_on: data.based_on } : {},
+    ...isParagraph && data.block.length > 0 ? { block: data.block } : {}
+  };
+};
+
+const getStyleItems = (editor: Editor) => [{ text: 'New style', value: '' }].concat(
+  Arr.map(editor.styleManager.getAll(), (style) => ({ text: style.title, value: style.name }))
+);
+
+const getBasedOnItems = (editor: Editor, name: string) => [{ text: 'None', value: '' }].concat(
+  Arr.map(Arr.filter(editor.styleManager.getAll(), (style) => style.name !== name), (style) => ({ text: style.title, value: style.name }))
+);
+
+export {
+  toDialogData,
+  toSpec,
+  getStyleItems,
+  getBasedOnItems
+};
@@ -0,0 +1,28 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+
+const register = (editor: Editor): void => {
+  const onAction = () => editor.execCommand('mceStyleManager');
+
+  editor.ui.registry.addButton('stylemanager', {
+    icon: 'format',
+    tooltip: 'Manage styles',
+    onAction
+  });
+
+  editor.ui.registry.addMenuItem('stylemanager', {
+    icon: 'format',
+    text: 'Manage styles...',
+    onAction
+  });
+};
+
+export {
+  register
+};
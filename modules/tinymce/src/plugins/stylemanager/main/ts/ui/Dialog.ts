@@ -0,0 +1,174 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+import { Dialog } from 'tinymce/core/api/ui/Ui';
+
+import * as StyleData from '../core/StyleData';
+import { StyleDialogData } from '../core/StyleData';
+
+const blockItems = [
+  { text: 'Inherited', value: '' },
+  { text: 'Paragraph', value: 'p' },
+  { text: 'Heading 1', value: 'h1' },
+  { text: 'Heading 2', value: 'h2' },
+  { text: 'Heading 3', value: 'h3' },
+  { text: 'Heading 4', value: 'h4' },
+  { text: 'Heading 5', value: 'h5' },
+  { text: 'Heading 6', value: 'h6' },
+  { text: 'Div', value: 'div' },
+  { text: 'Blockquote', value: 'blockquote' },
+  { text: 'Preformatted', value: 'pre' }
+];
+
+const getDialogSpec = (editor: Editor, initialData: StyleDialogData): Dialog.DialogSpec<StyleDialogData> => {
+  const isNew = initialData.style === '';
+
+  return {
+    title: 'Manage styles',
+    size: 'normal',
+    body: {
+      type: 'panel',
+      items: [
+        {
+          type: 'selectbox',
+          name: 'style',
+          label: 'Style',
+          items: StyleData.getStyleItems(editor)
+        },
+        {
+          type: 'input',
+          name: 'name',
+          label: 'Name',
+          disabled: !isNew
+        },
+        {
+          type: 'input',
+          name: 'title',
+          label: 'Title'
+        },
+        {
+          type: 'selectbox',
+          name: 'type',
+          label: 'Type',
+          items: [
+            { text: 'Paragraph', value: 'paragraph' },
+            { text: 'Character', value: 'character' }
+          ]
+        },
+        {
+          type: 'selectbox',
+          name: 'based_on',
+          label: 'Based on',
+          items: StyleData.getBasedOnItems(editor, initialData.style)
+        },
+        {
+          type: 'selectbox',
+          name: 'block',
+          label: 'Block',
+          items: blockItems,
+          disabled: initialData.type !== 'paragraph'
+        },
+        {
+          type: 'textarea',
+          name: 'css',
+          label: 'Styles',
+          placeholder: 'color: red; font-size: 14px'
+        }
+      ]
+    },
+    buttons: [
+      {
+        type: 'custom',
+        name: 'delete',
+        text: 'Delete',
+        align: 'start',
+        disabled: isNew
+      },
+      {
+        type: 'custom',
+        name: 'apply',
+        text: 'Apply to selection',
+        disabled: isNew
+      },
+      {
+        type: 'cancel',
+        name: 'close',
+        text: 'Close'
+      },
+      {
+        type: 'submit',
+        name: 'save',
+        text: 'Save',
+        primary: true
+      }
+    ],
+    initialData
+  };
+};
+
+const open = (editor: Editor): void => {
+  const styleManager = editor.styleManager;
+
+  const redial = (api: Dialog.DialogInstanceApi<StyleDialogData>, name: string) => {
+    api.redial(getDialogSpecWithHandlers(StyleData.toDialogData(editor, styleManager.get(name))));
+    api.focus('style');
+  };
+
+  const onChange = (api: Dialog.DialogInstanceApi<StyleDialogData>, details: { name: string }) => {
+    const data = api.getData();
+    if (details.name === 'style') {
+      redial(api, data.style);
+    } else if (details.name === 'type') {
+      if (data.type === 'paragraph') {
+        api.enable('block');
+      } else {
+        api.disable('block');
+      }
+    }
+  };
+
+  const onAction = (api: Dialog.DialogInstanceApi<StyleDialogData>, details: { name: string }) => {
+    const data = api.getData();
+    if (details.name === 'delete') {
+      styleManager.unregister(data.style);
+      redial(api, '');
+    } else if (details.name === 'apply') {
+      styleManager.apply(data.style);
+      api.close();
+    }
+  };
+
+  const onSubmit = (api: Dialog.DialogInstanceApi<StyleDialogData>) => {
+    const data = api.getData();
+    const name = data.style === '' ? data.name.trim() : data.style;
+
+    // The style manager only registers the style when the name is valid
+    if (styleManager.register(name, StyleData.toSpec(editor, data))) {
+      redial(api, name);
+    } else {
+      editor.windowManager.alert(
+        'The style name should start with a letter, followed only by letters, numbers, dashes or underscores.',
+        () => api.focus('name')
+      );
+    }
+  };
+
+  const getDialogSpecWithHandlers = (initialData: StyleDialogData): Dialog.DialogSpec<StyleDialogData> => ({
+    ...getDialogSpec(editor, initialData),
+    onChange,
+    onAction,
+    onSubmit
+  });
+
+  const firstStyle = styleManager.getAll()[0];
+  editor.windowManager.open(getDialogSpecWithHandlers(StyleData.toDialogData(editor, firstStyle)));
+};
+
+export {
+  open
+};
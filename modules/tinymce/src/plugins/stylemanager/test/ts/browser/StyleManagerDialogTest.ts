@@ -0,0 +1,74 @@
+import { UiFinder, Waiter } from '@ephox/agar';
+import { afterEach, describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { SugarBody, SugarElement, Value } from '@ephox/sugar';
+import { TinyAssertions, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import Plugin from 'tinymce/plugins/stylemanager/Plugin';
+
+describe('browser.tinymce.plugins.stylemanager.StyleManagerDialogTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'stylemanager',
+    toolbar: 'stylemanager',
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const dialogSelector = 'div[role="dialog"].tox-dialog';
+
+  const pOpenDialog = async (editor: Editor) => {
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Manage styles"]');
+    await TinyUiActions.pWaitForDialog(editor);
+  };
+
+  const setDialogValue = (selector: string, value: string) => {
+    const input = UiFinder.findIn(SugarBody.body(), `${dialogSelector} ${selector}`).getOrDie() as SugarElement<HTMLInputElement>;
+    Value.set(input, value);
+  };
+
+  afterEach(() => {
+    const editor = hook.editor();
+    UiFinder.findIn(SugarBody.body(), dialogSelector).each(() => TinyUiActions.cancelDialog(editor));
+    Arr.each(editor.styleManager.getAll(), (style) => editor.styleManager.unregister(style.name));
+  });
+
+  it('TBA: Saves a new style and applies it to the selection', async () => {
+    const editor = hook.editor();
+    editor.setContent('<p>abc</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 1);
+    await pOpenDialog(editor);
+
+    setDialogValue('input', 'note');
+    setDialogValue('textarea', 'color: gray');
+    TinyUiActions.submitDialog(editor);
+    assert.deepEqual(editor.styleManager.get('note')?.styles, { color: 'gray' });
+
+    TinyUiActions.clickOnUi(editor, `${dialogSelector} button:contains("Apply to selection")`);
+    await Waiter.pTryUntil('Wait for the dialog to close', () => UiFinder.notExists(SugarBody.body(), dialogSelector));
+    TinyAssertions.assertContent(editor, '<p class="style-note" style="color: gray;">abc</p>');
+  });
+
+  it('TBA: Shows an alert for invalid style names', async () => {
+    const editor = hook.editor();
+    await pOpenDialog(editor);
+
+    setDialogValue('input', '1 note');
+    TinyUiActions.submitDialog(editor);
+    await TinyUiActions.pWaitForDialog(editor, 'div[role="dialog"].tox-dialog.tox-alert-dialog');
+    TinyUiActions.clickOnUi(editor, '.tox-alert-dialog .tox-button:contains("OK")');
+    assert.lengthOf(editor.styleManager.getAll(), 0);
+  });
+
+  it('TBA: Deletes the selected style', async () => {
+    const editor = hook.editor();
+    editor.styleManager.register('note', { styles: { color: 'gray' }});
+    editor.setContent('<p class="style-note" style="color: gray;">abc</p>');
+    await pOpenDialog(editor);
+
+    TinyUiActions.clickOnUi(editor, `${dialogSelector} button:contains("Delete")`);
+    assert.isUndefined(editor.styleManager.get('note'));
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+  });
+});
@@ -0,0 +1,13 @@
+declare let tinymce: any;
+
+tinymce.init({
+  selector: 'textarea.tinymce',
+  plugins: 'trackchanges code',
+  toolbar: 'suggest suggestions acceptsuggestion rejectsuggestion | bold italic | code',
+  trackchanges_author: 'Demo user',
+  trackchanges_default_state: true,
+  skin_url: '../../../../../js/tinymce/skins/ui/oxide',
+  height: 600
+});
+
+export {};
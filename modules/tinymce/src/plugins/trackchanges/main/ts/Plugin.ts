@@ -0,0 +1,27 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import PluginManager from 'tinymce/core/api/PluginManager';
+
+import * as Api from './api/Api';
+import * as Commands from './api/Commands';
+import * as Options from './api/Options';
+import * as Tracking from './core/Tracking';
+import * as Buttons from './ui/Buttons';
+import * as Sidebar from './ui/Sidebar';
+
+export default (): void => {
+  PluginManager.add('trackchanges', (editor) => {
+    Options.register(editor);
+    Tracking.setup(editor);
+    Commands.register(editor);
+    Buttons.register(editor);
+    Sidebar.register(editor);
+
+    return Api.get(editor);
+  });
+};
@@ -0,0 +1,25 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Suggestions from '../core/Suggestions';
+import * as Tracking from '../core/Tracking';
+
+export interface TrackChangesApi {
+  readonly isSuggesting: () => boolean;
+  readonly getSuggestions: () => Suggestions.Suggestion[];
+}
+
+const get = (editor: Editor): TrackChangesApi => ({
+  isSuggesting: () => Tracking.isSuggesting(editor),
+  getSuggestions: () => Suggestions.getSuggestions(editor)
+});
+
+export {
+  get
+};
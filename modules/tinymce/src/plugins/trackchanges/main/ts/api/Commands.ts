@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Suggestions from '../core/Suggestions';
+import * as Tracking from '../core/Tracking';
+
+const register = (editor: Editor): void => {
+  editor.addCommand('mceToggleSuggestMode', () => {
+    Tracking.toggle(editor);
+  });
+
+  editor.addCommand('mceAcceptSuggestion', (_ui, uid?: string) => {
+    Suggestions.resolveOne(editor, uid, true);
+  });
+
+  editor.addCommand('mceRejectSuggestion', (_ui, uid?: string) => {
+    Suggestions.resolveOne(editor, uid, false);
+  });
+
+  editor.addCommand('mceAcceptAllSuggestions', () => {
+    Suggestions.resolveAll(editor, true);
+  });
+
+  editor.addCommand('mceRejectAllSuggestions', () => {
+    Suggestions.resolveAll(editor, false);
+  });
+
+  editor.addQueryStateHandler('mceToggleSuggestMode', () => Tracking.isSuggesting(editor));
+};
+
+export {
+  register
+};
@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+import { EditorOptions } from 'tinymce/core/api/OptionTypes';
+
+const option: {
+  <K extends keyof EditorOptions>(name: K): (editor: Editor) => EditorOptions[K] | undefined;
+  <T>(name: string): (editor: Editor) => T | undefined;
+} = (name: string) => (editor: Editor) =>
+  editor.options.get(name);
+
+const register = (editor: Editor): void => {
+  const registerOption = editor.options.register;
+
+  registerOption('trackchanges_author', {
+    processor: 'string',
+    default: 'Anonymous'
+  });
+
+  registerOption('trackchanges_default_state', {
+    processor: 'boolean',
+    default: false
+  });
+};
+
+const getAuthor = option<string>('trackchanges_author');
+const isEnabledByDefault = option<boolean>('trackchanges_default_state');
+
+export {
+  register,
+  getAuthor,
+  isEnabledByDefault
+};
@@ -0,0 +1,180 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Id, Obj, Optional, Type, Unicode } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Events from '../api/Events';
+import * as Options from '../api/Options';
+
+export type SuggestionType = 'insert' | 'delete' | 'format';
+
+export interface SuggestionData {
+  readonly uid: string;
+  readonly type: SuggestionType;
+  readonly author: string;
+  readonly time: string;
+  readonly format?: string;
+  readonly action?: 'apply' | 'remove';
+  readonly vars?: string;
+}
+
+export interface Suggestion extends SuggestionData {
+  readonly text: string;
+  readonly elements: Element[];
+}
+
+const annotationName = 'suggestion';
+
+const attributes = {
+  type: 'data-mce-suggestion',
+  author: 'data-mce-suggestion-author',
+  time: 'data-mce-suggestion-time',
+  format: 'data-mce-suggestion-format',
+  action: 'data-mce-suggestion-action',
+  vars: 'data-mce-suggestion-vars'
+};
+
+const getSelector = (type?: SuggestionType): string => {
+  const typeSelector = Type.isString(type) ? `[${attributes.type}="${type}"]` : '';
+  return `[data-mce-annotation="${annotationName}"]${typeSelector}`;
+};
+
+const getAttributes = (data: Omit<SuggestionData, 'uid'>): Record<string, string> =>
+  Obj.filter({
+    [attributes.type]: data.type,
+    [attributes.author]: data.author,
+    [attributes.time]: data.time,
+    [attributes.format]: data.format,
+    [attributes.action]: data.action,
+    [attributes.vars]: data.vars
+  }, Type.isString);
+
+// The same markup as the annotator creates, so suggestions that are inserted as html are also found by the annotator
+const getMarkerAttributes = (data: SuggestionData): Record<string, string> => {
+  const { uid, ...rest } = data;
+  return {
+    'class': `mce-annotation mce-suggestion mce-suggestion--${data.type}`,
+    'data-mce-annotation-uid': uid,
+    'data-mce-annotation': annotationName,
+    ...getAttributes(rest)
+  };
+};
+
+const register = (editor: Editor): void => {
+  editor.annotator.register(annotationName, {
+    persistent: true,
+    decorate: (_uid, data: Omit<SuggestionData, 'uid'>) => ({
+      attributes: getAttributes(data),
+      classes: [ 'mce-suggestion', `mce-suggestion--${data.type}` ]
+    })
+  });
+};
+
+const createData = (editor: Editor, type: SuggestionType, extra: Partial<SuggestionData> = {}): SuggestionData => ({
+  uid: Id.generate('mce-suggestion'),
+  type,
+  author: Options.getAuthor(editor),
+  time: new Date().toISOString(),
+  ...extra
+});
+
+const fromElements = (editor: Editor, uid: string, elements: Element[]): Suggestion => {
+  const getAttr = (name: string) => editor.dom.getAttrib(elements[0], name);
+  const getOptionalAttr = (name: string) => Optional.from(getAttr(name)).filter((value) => value.length > 0).getOrUndefined();
+
+  return {
+    uid,
+    type: getAttr(attributes.type) as SuggestionType,
+    author: getAttr(attributes.author),
+    time: getAttr(attributes.time),
+    format: getOptionalAttr(attributes.format),
+    action: getOptionalAttr(attributes.action) as SuggestionData['action'],
+    vars: getOptionalAttr(attributes.vars),
+    text: Arr.map(elements, (elm) => elm.textContent).join('').replace(new RegExp(Unicode.zeroWidth, 'g'), ''),
+    elements
+  };
+};
+
+const getSuggestions = (editor: Editor): Suggestion[] =>
+  Obj.mapToArray(editor.annotator.getAll(annotationName), (elements, uid) => fromElements(editor, uid, elements));
+
+const getSuggestion = (editor: Editor, uid: string): Optional<Suggestion> =>
+  Arr.find(getSuggestions(editor), (suggestion) => suggestion.uid === uid);
+
+const findParent = (editor: Editor, node: Node, type?: SuggestionType): Optional<Element> =>
+  Optional.from(editor.dom.getParent(node, getSelector(type)));
+
+const isOwn = (editor: Editor, elm: Element): boolean =>
+  editor.dom.getAttrib(elm, attributes.author) === Options.getAuthor(editor);
+
+const getSuggestionAtSelection = (editor: Editor): Optional<Suggestion> =>
+  findParent(editor, editor.selection.getStart()).bind((elm) => getSuggestion(editor, editor.dom.getAttrib(elm, 'data-mce-annotation-uid')));
+
+const revertFormat = (editor: Editor, suggestion: Suggestion, elm: Element): void => {
+  const vars = Type.isString(suggestion.vars) ? JSON.parse(suggestion.vars) : undefined;
+  if (suggestion.action === 'remove') {
+    editor.formatter.apply(suggestion.format, vars, elm);
+  } else {
+    editor.formatter.remove(suggestion.format, vars, elm);
+  }
+};
+
+// Accepted insertions and rejected deletions keep their content, the opposite removes it
+const shouldKeepContent = (suggestion: Suggestion, accept: boolean): boolean => {
+  switch (suggestion.type) {
+    case 'insert':
+      return accept;
+    case 'delete':
+      return !accept;
+    default:
+      return true;
+  }
+};
+
+const resolveSuggestion = (editor: Editor, suggestion: Suggestion, accept: boolean): void => {
+  Arr.each(suggestion.elements, (elm) => {
+    if (suggestion.type === 'format' && !accept) {
+      revertFormat(editor, suggestion, elm);
+    }
+
+    editor.dom.remove(elm, shouldKeepContent(suggestion, accept));
+  });
+};
+
+const resolve = (editor: Editor, suggestions: Suggestion[], accept: boolean): void => {
+  if (suggestions.length > 0) {
+    editor.undoManager.transact(() => {
+      Arr.each(suggestions, (suggestion) => resolveSuggestion(editor, suggestion, accept));
+    }, accept ? 'Accept suggestion' : 'Reject suggestion');
+    editor.nodeChanged();
+    Events.fireSuggestionChange(editor);
+  }
+};
+
+const resolveOne = (editor: Editor, uid: string | undefined, accept: boolean): void => {
+  const suggestion = Type.isString(uid) ? getSuggestion(editor, uid) : getSuggestionAtSelection(editor);
+  suggestion.each((s) => resolve(editor, [ s ], accept));
+};
+
+const resolveAll = (editor: Editor, accept: boolean): void =>
+  resolve(editor, getSuggestions(editor), accept);
+
+export {
+  annotationName,
+  register,
+  createData,
+  getSelector,
+  getMarkerAttributes,
+  getSuggestions,
+  getSuggestionAtSelection,
+  findParent,
+  isOwn,
+  resolveOne,
+  resolveAll
+};
@@ -0,0 +1,285 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Fun, Obj, Strings, Type, Unicode } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import AstNode from 'tinymce/core/api/html/Node';
+import HtmlSerializer from 'tinymce/core/api/html/Serializer';
+import VK from 'tinymce/core/api/util/VK';
+
+import * as Events from '../api/Events';
+import * as Options from '../api/Options';
+import * as Suggestions from './Suggestions';
+
+type Granularity = 'character' | 'word' | 'lineboundary';
+
+type NonStandardSelection = Selection & {
+  readonly modify?: (alter: 'move' | 'extend', direction: 'forward' | 'backward', granularity: Granularity) => void;
+};
+
+const modeName = 'suggest';
+
+const isText = (node: Node): node is Text =>
+  node.nodeType === 3;
+
+const isSuggesting = (editor: Editor): boolean =>
+  editor.mode.get() === modeName;
+
+const toggle = (editor: Editor): void => {
+  editor.mode.set(isSuggesting(editor) ? 'design' : modeName);
+};
+
+const markDeleted = (editor: Editor, collapseToStart: boolean): void => {
+  editor.annotator.annotate(Suggestions.annotationName, Suggestions.createData(editor, 'delete'));
+  editor.selection.collapse(collapseToStart);
+};
+
+// Text typed inside a deletion is placed next to it, so that it doesn't get removed when the deletion is accepted
+const moveOutOfDeletion = (editor: Editor): void => {
+  const rng = editor.selection.getRng();
+  Suggestions.findParent(editor, rng.startContainer, 'delete').each((deletion) => {
+    const before = editor.dom.createRng();
+    before.setStart(deletion, 0);
+    before.setEnd(rng.startContainer, rng.startOffset);
+
+    const newRng = editor.dom.createRng();
+    if (before.toString().length === 0) {
+      newRng.setStartBefore(deletion);
+    } else {
+      newRng.setStartAfter(deletion);
+    }
+    newRng.collapse(true);
+    editor.selection.setRng(newRng);
+  });
+};
+
+const setCaretAtEnd = (editor: Editor, elm: Node): void => {
+  const last = elm.lastChild;
+  if (Type.isNonNullable(last) && isText(last)) {
+    editor.selection.setCursorLocation(last, last.data.length);
+  } else {
+    editor.selection.setCursorLocation(elm, elm.childNodes.length);
+  }
+};
+
+const insertIntoSuggestion = (editor: Editor, text: string): void => {
+  const rng = editor.selection.getRng();
+  const container = rng.startContainer;
+  if (isText(container)) {
+    container.insertData(rng.startOffset, text);
+    editor.selection.setCursorLocation(container, rng.startOffset + text.length);
+  } else {
+    const textNode = editor.getDoc().createTextNode(text);
+    rng.insertNode(textNode);
+    editor.selection.setCursorLocation(textNode, text.length);
+  }
+};
+
+const insertAsSuggestion = (editor: Editor, text: string): void => {
+  const textNode = editor.getDoc().createTextNode(text);
+  editor.selection.getRng().insertNode(textNode);
+
+  // Another author's insertion is split around the new text so each suggestion keeps a single author
+  Suggestions.findParent(editor, textNode, 'insert').each((insertion) => {
+    editor.dom.split(insertion, textNode);
+  });
+
+  const data = Suggestions.createData(editor, 'insert');
+  editor.selection.select(textNode);
+  editor.annotator.annotate(Suggestions.annotationName, data);
+
+  const markers = editor.dom.select(`[data-mce-annotation-uid="${data.uid}"]`);
+  Arr.last(markers).each((marker) => setCaretAtEnd(editor, marker));
+};
+
+const insertText = (editor: Editor, text: string): void => {
+  if (!editor.selection.isCollapsed()) {
+    markDeleted(editor, false);
+  }
+
+  moveOutOfDeletion(editor);
+  // Like the browser, a typed space is inserted as a nbsp and then normalized by the core when it isn't needed
+  const value = text === ' ' ? Unicode.nbsp : text;
+  const ownInsertion = Suggestions.findParent(editor, editor.selection.getRng().startContainer, 'insert').filter((elm) => Suggestions.isOwn(editor, elm));
+  if (ownInsertion.isSome()) {
+    insertIntoSuggestion(editor, value);
+  } else {
+    insertAsSuggestion(editor, value);
+  }
+
+  // Let the core normalize the whitespace the same way as it does for native text input
+  editor.fire('input', new window.InputEvent('input', { inputType: 'insertText', data: text, isComposing: false }));
+  Events.fireSuggestionChange(editor);
+};
+
+const removeOwnInsertion = (editor: Editor, rng: Range, insertion: Element): void => {
+  editor.undoManager.transact(() => {
+    rng.deleteContents();
+    if (insertion.textContent.length === 0) {
+      const caretRng = editor.dom.createRng();
+      caretRng.setStartBefore(insertion);
+      caretRng.collapse(true);
+      editor.dom.remove(insertion);
+      editor.selection.setRng(caretRng);
+    } else {
+      rng.collapse(true);
+      editor.selection.setRng(rng);
+    }
+  });
+};
+
+const deleteContent = (editor: Editor, forward: boolean, granularity: Granularity = 'character'): void => {
+  const selection = editor.selection;
+  if (selection.isCollapsed()) {
+    // The modify function isn't part of the standard spec, so it isn't available in all browsers
+    const sel = selection.getSel() as NonStandardSelection | null;
+    if (Type.isFunction(sel?.modify)) {
+      sel.modify('extend', forward ? 'forward' : 'backward', granularity);
+    }
+    if (selection.isCollapsed()) {
+      return;
+    }
+  }
+
+  const rng = selection.getRng();
+  const ownInsertion = Suggestions.findParent(editor, rng.commonAncestorContainer, 'insert').filter((elm) => Suggestions.isOwn(editor, elm));
+  const isDeleted = Suggestions.findParent(editor, rng.commonAncestorContainer, 'delete').isSome();
+
+  if (ownInsertion.isSome()) {
+    // Removing your own suggested text doesn't need to be reviewed
+    ownInsertion.each((insertion) => removeOwnInsertion(editor, rng, insertion));
+  } else if (isDeleted) {
+    // The content is already suggested for deletion, so just move past it
+    selection.collapse(!forward);
+  } else {
+    markDeleted(editor, !forward);
+  }
+
+  Events.fireSuggestionChange(editor);
+};
+
+const getGranularity = (e: KeyboardEvent): Granularity => {
+  if (e.metaKey) {
+    return 'lineboundary';
+  } else if (e.ctrlKey || e.altKey) {
+    return 'word';
+  } else {
+    return 'character';
+  }
+};
+
+const getInputGranularity = (inputType: string): Granularity => {
+  if (Strings.contains(inputType, 'Line')) {
+    return 'lineboundary';
+  } else if (Strings.contains(inputType, 'Word')) {
+    return 'word';
+  } else {
+    return 'character';
+  }
+};
+
+const wrapText = (node: AstNode, data: Suggestions.SuggestionData): void => {
+  const wrapper = AstNode.create('span', Suggestions.getMarkerAttributes(data));
+  node.wrap(wrapper);
+};
+
+const wrapInsertedContent = (editor: Editor, content: string, data: Suggestions.SuggestionData): string => {
+  const fragment = editor.parser.parse(content, { insert: true, forced_root_block: false });
+  Arr.each(fragment.getAll('#text'), (node) => {
+    if (editor.schema.isValidChild(node.parent.name, 'span')) {
+      wrapText(node, data);
+    }
+  });
+  return HtmlSerializer({ validate: true }, editor.schema).serialize(fragment);
+};
+
+const setup = (editor: Editor): void => {
+  editor.mode.register(modeName, {
+    activate: Fun.noop,
+    deactivate: Fun.noop,
+    editorReadOnly: false
+  });
+
+  editor.on('init', () => {
+    Suggestions.register(editor);
+    if (Options.isEnabledByDefault(editor)) {
+      editor.mode.set(modeName);
+    }
+  });
+
+  // These handlers are bound before the core keyboard handlers, which skip events that have already been handled
+  editor.on('keydown', (e) => {
+    if (isSuggesting(editor) && !e.isDefaultPrevented() && (e.keyCode === VK.BACKSPACE || e.keyCode === VK.DELETE)) {
+      e.preventDefault();
+      deleteContent(editor, e.keyCode === VK.DELETE, getGranularity(e));
+    }
+  });
+
+  editor.on('keypress', (e) => {
+    if (isSuggesting(editor) && !e.isDefaultPrevented() && e.charCode >= 32 && !VK.metaKeyPressed(e)) {
+      e.preventDefault();
+      insertText(editor, String.fromCharCode(e.charCode));
+    }
+  });
+
+  // Input that doesn't produce a keypress, like text from mobile keyboards or the spellchecker
+  editor.on('beforeinput', (e) => {
+    if (isSuggesting(editor) && !e.isDefaultPrevented() && !e.isComposing) {
+      if ((e.inputType === 'insertText' || e.inputType === 'insertReplacementText') && Type.isString(e.data)) {
+        e.preventDefault();
+        insertText(editor, e.data);
+      } else if (Strings.startsWith(e.inputType, 'delete')) {
+        e.preventDefault();
+        deleteContent(editor, Strings.contains(e.inputType, 'Forward'), getInputGranularity(e.inputType));
+      }
+    }
+  });
+
+  editor.on('BeforeExecCommand', (e) => {
+    const command = e.command.toLowerCase();
+    if (isSuggesting(editor) && (command === 'delete' || command === 'forwarddelete')) {
+      e.preventDefault();
+      deleteContent(editor, command === 'forwarddelete');
+    }
+  });
+
+  // Pasted and inserted content
+  editor.on('BeforeSetContent', (e) => {
+    if (isSuggesting(editor) && e.selection === true && e.format === 'html') {
+      if (!editor.selection.isCollapsed()) {
+        markDeleted(editor, false);
+      }
+      e.content = wrapInsertedContent(editor, e.content, Suggestions.createData(editor, 'insert'));
+    }
+  });
+
+  editor.on('SetContent', (e) => {
+    if (isSuggesting(editor) && e.selection === true) {
+      Events.fireSuggestionChange(editor);
+    }
+  });
+
+  // Formatting applied to a node is done programmatically, so only changes to the selection are tracked
+  editor.on('FormatApply FormatRemove', (e) => {
+    if (isSuggesting(editor) && Type.isUndefined(e.node) && !editor.selection.isCollapsed()) {
+      const vars = Type.isNonNullable(e.vars) && !Obj.isEmpty(e.vars) ? JSON.stringify(e.vars) : undefined;
+      editor.annotator.annotate(Suggestions.annotationName, Suggestions.createData(editor, 'format', {
+        format: e.format,
+        action: e.type === 'formatapply' ? 'apply' : 'remove',
+        vars
+      }));
+      Events.fireSuggestionChange(editor);
+    }
+  });
+};
+
+export {
+  isSuggesting,
+  toggle,
+  setup
+};
@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+import { Menu, Toolbar } from 'tinymce/core/api/ui/Ui';
+
+import * as Suggestions from '../core/Suggestions';
+import * as Tracking from '../core/Tracking';
+
+const toggleActiveState = (editor: Editor) => (api: Toolbar.ToolbarToggleButtonInstanceApi | Menu.ToggleMenuItemInstanceApi) => {
+  const updateState = () => api.setActive(Tracking.isSuggesting(editor));
+  updateState();
+  editor.on('SwitchMode', updateState);
+  return () => editor.off('SwitchMode', updateState);
+};
+
+const toggleEnabledState = (editor: Editor) => (api: Toolbar.ToolbarButtonInstanceApi | Menu.MenuItemInstanceApi) => {
+  const updateState = () => api.setDisabled(Suggestions.getSuggestionAtSelection(editor).isNone());
+  updateState();
+  editor.on('NodeChange SuggestionChange', updateState);
+  return () => editor.off('NodeChange SuggestionChange', updateState);
+};
+
+const register = (editor: Editor): void => {
+  const onSuggestAction = () => editor.execCommand('mceToggleSuggestMode');
+  const onAcceptAction = () => editor.execCommand('mceAcceptSuggestion');
+  const onRejectAction = () => editor.execCommand('mceRejectSuggestion');
+
+  editor.ui.registry.addToggleButton('suggest', {
+    icon: 'edit-block',
+    tooltip: 'Suggest changes',
+    onAction: onSuggestAction,
+    onSetup: toggleActiveState(editor)
+  });
+
+  editor.ui.registry.addToggleMenuItem('suggest', {
+    text: 'Suggest changes',
+    icon: 'edit-block',
+    onAction: onSuggestAction,
+    onSetup: toggleActiveState(editor)
+  });
+
+  editor.ui.registry.addButton('acceptsuggestion', {
+    icon: 'checkmark',
+    tooltip: 'Accept suggestion',
+    onAction: onAcceptAction,
+    onSetup: toggleEnabledState(editor)
+  });
+
+  editor.ui.registry.addMenuItem('acceptsuggestion', {
+    text: 'Accept suggestion',
+    icon: 'checkmark',
+    onAction: onAcceptAction,
+    onSetup: toggleEnabledState(editor)
+  });
+
+  editor.ui.registry.addButton('rejectsuggestion', {
+    icon: 'close',
+    tooltip: 'Reject suggestion',
+    onAction: onRejectAction,
+    onSetup: toggleEnabledState(editor)
+  });
+
+  editor.ui.registry.addMenuItem('rejectsuggestion', {
+    text: 'Reject suggestion',
+    icon: 'close',
+    onAction: onRejectAction,
+    onSetup: toggleEnabledState(editor)
+  });
+};
+
+export {
+  register
+};
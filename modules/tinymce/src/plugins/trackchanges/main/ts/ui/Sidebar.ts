@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Fun } from '@ephox/katamari';
+import { Attribute, Class, DomEvent, EventUnbinder, Insert, InsertAll, Remove, SugarElement } from '@ephox/sugar';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Suggestions from '../core/Suggestions';
+
+const refreshEvents = 'SuggestionChange SetContent Undo Redo';
+const maxTextLength = 100;
+
+const getTypeText = (editor: Editor, suggestion: Suggestions.Suggestion): string => {
+  switch (suggestion.type) {
+    case 'insert':
+      return editor.translate('Inserted');
+    case 'delete':
+      return editor.translate('Deleted');
+    default:
+      return editor.translate([ 'Formatted: {0}', suggestion.format ]);
+  }
+};
+
+const getExcerpt = (text: string): string =>
+  text.length > maxTextLength ? text.substring(0, maxTextLength) + '…' : text;
+
+const renderText = <K extends keyof HTMLElementTagNameMap>(tag: K, className: string, text: string): SugarElement<HTMLElementTagNameMap[K]> => {
+  const elm = SugarElement.fromTag(tag);
+  Class.add(elm, className);
+  Insert.append(elm, SugarElement.fromText(text));
+  return elm;
+};
+
+const renderButton = (text: string, className: string, onClick: () => void): { button: SugarElement<HTMLButtonElement>; unbinder: EventUnbinder } => {
+  const button = renderText('button', 'tox-suggestions__button', text);
+  Class.add(button, className);
+  Attribute.set(button, 'type', 'button');
+  const unbinder = DomEvent.bind(button, 'click', onClick);
+  return { button, unbinder };
+};
+
+const renderSuggestion = (editor: Editor, suggestion: Suggestions.Suggestion): { item: SugarElement<HTMLLIElement>; unbinders: EventUnbinder[] } => {
+  const item = SugarElement.fromTag('li');
+  Class.add(item, 'tox-suggestion');
+  Class.add(item, `tox-suggestion--${suggestion.type}`);
+
+  const header = SugarElement.fromTag('div');
+  Class.add(header, 'tox-suggestion__header');
+  InsertAll.append(header, [
+    renderText('span', 'tox-suggestion__type', getTypeText(editor, suggestion)),
+    renderText('span', 'tox-suggestion__author', suggestion.author)
+  ]);
+
+  const text = renderText('div', 'tox-suggestion__text', getExcerpt(suggestion.text));
+  const select = DomEvent.bind(text, 'click', () => {
+    Arr.head(suggestion.elements).each((elm) => {
+      editor.selection.select(elm);
+      editor.selection.scrollIntoView();
+    });
+  });
+
+  const accept = renderButton(editor.translate('Accept'), 'tox-suggestions__button--accept', () => {
+    editor.execCommand('mceAcceptSuggestion', false, suggestion.uid);
+  });
+  const reject = renderButton(editor.translate('Reject'), 'tox-suggestions__button--reject', () => {
+    editor.execCommand('mceRejectSuggestion', false, suggestion.uid);
+  });
+  const actions = SugarElement.fromTag('div');
+  Class.add(actions, 'tox-suggestion__actions');
+  InsertAll.append(actions, [ accept.button, reject.button ]);
+
+  InsertAll.append(item, [ header, text, actions ]);
+  return { item, unbinders: [ select, accept.unbinder, reject.unbinder ] };
+};
+
+const renderSuggestions = (editor: Editor, container: SugarElement<HTMLElement>): EventUnbinder[] => {
+  Remove.empty(container);
+
+  const suggestions = Suggestions.getSuggestions(editor);
+  const wrapper = SugarElement.fromTag('div');
+  Class.add(wrapper, 'tox-suggestions');
+
+  const acceptAll = renderButton(editor.translate('Accept all'), 'tox-suggestions__button--accept', () => {
+    editor.execCommand('mceAcceptAllSuggestions');
+  });
+  const rejectAll = renderButton(editor.translate('Reject all'), 'tox-suggestions__button--reject', () => {
+    editor.execCommand('mceRejectAllSuggestions');
+  });
+  const header = SugarElement.fromTag('div');
+  Class.add(header, 'tox-suggestions__header');
+  InsertAll.append(header, [ acceptAll.button, rejectAll.button ]);
+  Insert.append(wrapper, header);
+
+  if (suggestions.length === 0) {
+    Attribute.set(acceptAll.button, 'disabled', 'disabled');
+    Attribute.set(rejectAll.button, 'disabled', 'disabled');
+    Insert.append(wrapper, renderText('p', 'tox-suggestions__empty', editor.translate('No suggestions')));
+    Insert.append(container, wrapper);
+    return [ acceptAll.unbinder, rejectAll.unbinder ];
+  } else {
+    const list = SugarElement.fromTag('ol');
+    Class.add(list, 'tox-suggestions__list');
+    Attribute.set(list, 'aria-label', editor.translate('Suggestions'));
+
+    const items = Arr.map(suggestions, (suggestion) => renderSuggestion(editor, suggestion));
+    InsertAll.append(list, Arr.map(items, (item) => item.item));
+    Insert.append(wrapper, list);
+    Insert.append(container, wrapper);
+    return [ acceptAll.unbinder, rejectAll.unbinder ].concat(Arr.bind(items, (item) => item.unbinders));
+  }
+};
+
+const register = (editor: Editor): void => {
+  let unbinders: EventUnbinder[] = [];
+  let refresh = Fun.noop;
+
+  const unbindAll = () => {
+    Arr.each(unbinders, (unbinder) => unbinder.unbind());
+    unbinders = [];
+  };
+
+  // The suggestions are only rendered while the sidebar is visible, since they change with every keystroke
+  editor.ui.registry.addSidebar('suggestions', {
+    icon: 'checklist',
+    tooltip: 'Review suggestions',
+    onShow: (api) => {
+      const container = SugarElement.fromDom(api.element());
+      refresh = () => {
+        unbindAll();
+        unbinders = renderSuggestions(editor, container);
+      };
+
+      refresh();
+      editor.on(refreshEvents, refresh);
+    },
+    onHide: (api) => {
+      editor.off(refreshEvents, refresh);
+      unbindAll();
+      Remove.empty(SugarElement.fromDom(api.element()));
+    }
+  });
+};
+
+export {
+  register
+};
@@ -0,0 +1,51 @@
+import { UiFinder, Waiter } from '@ephox/agar';
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { SugarBody, TextContent } from '@ephox/sugar';
+import { TinyAssertions, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import Plugin from 'tinymce/plugins/trackchanges/Plugin';
+
+describe('browser.tinymce.plugins.trackchanges.TrackChangesSidebarTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'trackchanges',
+    toolbar: 'suggest suggestions',
+    trackchanges_author: 'Ann',
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const assertItems = (expected: string[]) => {
+    const items = UiFinder.findAllIn(SugarBody.body(), '.tox-suggestion__text');
+    assert.deepEqual(Arr.map(items, (item) => TextContent.get(item)), expected, 'Checking the listed suggestions');
+  };
+
+  it('TBA: lists the suggestions and accepts them from the sidebar', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Suggest changes"]');
+    assert.equal(editor.mode.get(), 'suggest');
+
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 1);
+    editor.execCommand('Delete');
+    TinySelections.setSelection(editor, [ 0, 1 ], 1, [ 0, 1 ], 2);
+    editor.execCommand('Delete');
+
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Review suggestions"]');
+    await Waiter.pTryUntil('Wait for the suggestions to render', () => assertItems([ 'a', 'c' ]));
+
+    TinyUiActions.clickOnUi(editor, '.tox-suggestion:nth-child(1) .tox-suggestions__button--accept');
+    TinyAssertions.assertContentPresence(editor, { 'span.mce-suggestion': 1 });
+    assertItems([ 'c' ]);
+
+    TinyUiActions.clickOnUi(editor, '.tox-suggestions__header .tox-suggestions__button--reject');
+    TinyAssertions.assertContent(editor, '<p>bc</p>');
+    UiFinder.exists(SugarBody.body(), '.tox-suggestions__empty');
+
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Review suggestions"]');
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Suggest changes"]');
+    assert.equal(editor.mode.get(), 'design');
+  });
+});
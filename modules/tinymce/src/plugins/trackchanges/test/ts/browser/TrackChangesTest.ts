@@ -0,0 +1,164 @@
+import { Keys } from '@ephox/agar';
+import { afterEach, describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { TinyAssertions, TinyContentActions, TinyHooks, TinySelections } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { TrackChangesApi } from 'tinymce/plugins/trackchanges/api/Api';
+import Plugin from 'tinymce/plugins/trackchanges/Plugin';
+
+describe('browser.tinymce.plugins.trackchanges.TrackChangesTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'trackchanges',
+    trackchanges_author: 'Ann',
+    indent: false,
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  afterEach(() => {
+    const editor = hook.editor();
+    editor.mode.set('design');
+    editor.options.set('trackchanges_author', 'Ann');
+  });
+
+  const getSuggestions = (editor: Editor) =>
+    Arr.map((editor.plugins.trackchanges as TrackChangesApi).getSuggestions(), (suggestion) => ({
+      type: suggestion.type,
+      author: suggestion.author,
+      text: suggestion.text
+    }));
+
+  const type = (editor: Editor, text: string) =>
+    Arr.each(text.split(''), (chr) => TinyContentActions.keypress(editor, chr.charCodeAt(0)));
+
+  const setupSuggestMode = (editor: Editor, content: string) => {
+    editor.resetContent(content);
+    editor.execCommand('mceToggleSuggestMode');
+    assert.isTrue(editor.queryCommandState('mceToggleSuggestMode'), 'Should be in suggest mode');
+  };
+
+  it('TBA: Typing in suggest mode records the text as an insertion', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 3);
+    type(editor, 'de');
+    assert.deepEqual(getSuggestions(editor), [{ type: 'insert', author: 'Ann', text: 'de' }]);
+    TinyAssertions.assertContentPresence(editor, { 'span.mce-suggestion--insert[data-mce-suggestion-author="Ann"]': 1 });
+
+    editor.execCommand('mceAcceptAllSuggestions');
+    TinyAssertions.assertContent(editor, '<p>abcde</p>');
+  });
+
+  it('TBA: Typing inside another author\'s insertion creates a separate suggestion', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 3);
+    type(editor, 'de');
+    editor.options.set('trackchanges_author', 'Bob');
+    TinySelections.setCursor(editor, [ 0, 1, 0 ], 1);
+    type(editor, 'x');
+    assert.deepEqual(getSuggestions(editor), [
+      { type: 'insert', author: 'Ann', text: 'de' },
+      { type: 'insert', author: 'Bob', text: 'x' }
+    ]);
+  });
+
+  it('TBA: Deleting in suggest mode records a deletion', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 3);
+    TinyContentActions.keydown(editor, Keys.backspace());
+    TinyContentActions.keydown(editor, Keys.backspace());
+    assert.deepEqual(Arr.map(getSuggestions(editor), (s) => s.text).join(''), 'bc');
+    TinyAssertions.assertContentPresence(editor, { 'span.mce-suggestion--delete': 2 });
+
+    editor.execCommand('mceRejectAllSuggestions');
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+  });
+
+  it('TBA: Deleting a selection with the delete command records a deletion', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+    editor.execCommand('Delete');
+    assert.deepEqual(getSuggestions(editor), [{ type: 'delete', author: 'Ann', text: 'b' }]);
+
+    editor.execCommand('mceAcceptAllSuggestions');
+    TinyAssertions.assertContent(editor, '<p>ac</p>');
+  });
+
+  it('TBA: Deleting your own suggested text removes it', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 3);
+    type(editor, 'de');
+    TinyContentActions.keydown(editor, Keys.backspace());
+    assert.deepEqual(getSuggestions(editor), [{ type: 'insert', author: 'Ann', text: 'd' }]);
+    TinyContentActions.keydown(editor, Keys.backspace());
+    assert.deepEqual(getSuggestions(editor), []);
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+  });
+
+  it('TBA: Typing over a selection records a deletion and an insertion', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+    type(editor, 'x');
+    assert.deepEqual(getSuggestions(editor), [
+      { type: 'delete', author: 'Ann', text: 'b' },
+      { type: 'insert', author: 'Ann', text: 'x' }
+    ]);
+
+    editor.execCommand('mceAcceptAllSuggestions');
+    TinyAssertions.assertContent(editor, '<p>axc</p>');
+  });
+
+  it('TBA: Inserted content is recorded as an insertion', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 1);
+    editor.insertContent('<strong>x</strong>y');
+    assert.deepEqual(Arr.map(getSuggestions(editor), (s) => s.type), [ 'insert' ]);
+
+    editor.execCommand('mceRejectAllSuggestions');
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+  });
+
+  it('TBA: Formatting is recorded and can be rejected', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 3);
+    editor.execCommand('Bold');
+    const suggestions = (editor.plugins.trackchanges as TrackChangesApi).getSuggestions();
+    assert.lengthOf(suggestions, 1);
+    assert.equal(suggestions[0].type, 'format');
+    assert.equal(suggestions[0].format, 'bold');
+    assert.equal(suggestions[0].action, 'apply');
+
+    editor.execCommand('mceRejectSuggestion', false, suggestions[0].uid);
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+  });
+
+  it('TBA: Accepting a suggestion at the selection', () => {
+    const editor = hook.editor();
+    setupSuggestMode(editor, '<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 1);
+    editor.execCommand('Delete');
+    TinySelections.setSelection(editor, [ 0, 1 ], 1, [ 0, 1 ], 2);
+    editor.execCommand('Delete');
+    TinySelections.setCursor(editor, [ 0, 0, 0 ], 1);
+    editor.execCommand('mceAcceptSuggestion');
+    assert.deepEqual(getSuggestions(editor), [{ type: 'delete', author: 'Ann', text: 'c' }]);
+    TinyAssertions.assertContentPresence(editor, { 'span.mce-suggestion': 1 });
+  });
+
+  it('TBA: Changes are not tracked in design mode', () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 1, [ 0, 0 ], 2);
+    editor.execCommand('Delete');
+    TinyAssertions.assertContent(editor, '<p>ac</p>');
+    assert.deepEqual(getSuggestions(editor), []);
+  });
+});
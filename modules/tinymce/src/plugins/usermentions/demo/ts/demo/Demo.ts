@@ -0,0 +1,22 @@
+declare let tinymce: any;
+
+const users = [
+  { id: 'jdoe', name: 'jdoe', fullName: 'Jane Doe', description: 'Editor in chief' },
+  { id: 'jsmith', name: 'jsmith', fullName: 'John Smith', description: 'Reporter' },
+  { id: 'amiller', name: 'amiller', fullName: 'Alex Miller', description: 'Photographer' },
+  { id: 'bwilson', name: 'bwilson', fullName: 'Bo Wilson' }
+];
+
+tinymce.init({
+  selector: 'textarea.tinymce',
+  plugins: 'usermentions code',
+  toolbar: 'code',
+  content_css: '../../../../../js/tinymce/skins/content/default/content.css',
+  height: 600,
+  usermentions_fetch: (query: { term: string }) => new Promise((resolve) => {
+    const term = query.term.toLowerCase();
+    setTimeout(() => resolve(users.filter((user) => user.name.indexOf(term) === 0 || user.fullName.toLowerCase().indexOf(term) === 0)), 300);
+  })
+});
+
+export {};
@@ -0,0 +1,32 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import PluginManager from 'tinymce/core/api/PluginManager';
+
+import * as Api from './api/Api';
+import * as Options from './api/Options';
+import * as Keyboard from './core/Keyboard';
+import * as Mentions from './core/Mentions';
+import { UserCache } from './core/MentionTypes';
+import * as Autocompletion from './ui/Autocompletion';
+import * as HoverCard from './ui/HoverCard';
+
+export default (): void => {
+  PluginManager.add('usermentions', (editor) => {
+    Options.register(editor);
+    const users: UserCache = {};
+
+    Mentions.setup(editor);
+    Keyboard.setup(editor);
+    Autocompletion.init(editor, users);
+    if (Options.hasHoverCard(editor)) {
+      HoverCard.setup(editor, users);
+    }
+
+    return Api.get(editor);
+  });
+};
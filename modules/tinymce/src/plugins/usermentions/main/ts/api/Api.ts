@@ -0,0 +1,23 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Mentions from '../core/Mentions';
+import { Mention } from '../core/MentionTypes';
+
+export interface MentionsApi {
+  readonly getMentions: () => Mention[];
+}
+
+const get = (editor: Editor): MentionsApi => ({
+  getMentions: () => Mentions.getMentions(editor)
+});
+
+export {
+  get
+};
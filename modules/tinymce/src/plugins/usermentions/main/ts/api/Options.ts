@@ -0,0 +1,54 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import Editor from 'tinymce/core/api/Editor';
+import { EditorOptions } from 'tinymce/core/api/OptionTypes';
+
+import { MentionsFetch } from '../core/MentionTypes';
+
+const option: {
+  <K extends keyof EditorOptions>(name: K): (editor: Editor) => EditorOptions[K] | undefined;
+  <T>(name: string): (editor: Editor) => T | undefined;
+} = (name: string) => (editor: Editor) =>
+  editor.options.get(name);
+
+const register = (editor: Editor): void => {
+  const registerOption = editor.options.register;
+
+  registerOption('usermentions_fetch', {
+    processor: 'function'
+  });
+
+  registerOption('usermentions_min_chars', {
+    processor: 'number',
+    default: 0
+  });
+
+  // Waits for typing to pause before fetching the users, since the fetch usually makes a server request
+  registerOption('usermentions_debounce', {
+    processor: 'number',
+    default: 200
+  });
+
+  registerOption('usermentions_hover_card', {
+    processor: 'boolean',
+    default: true
+  });
+};
+
+const getFetch = option<MentionsFetch>('usermentions_fetch');
+const getMinChars = option<number>('usermentions_min_chars');
+const getDebounce = option<number>('usermentions_debounce');
+const hasHoverCard = option<boolean>('usermentions_hover_card');
+
+export {
+  register,
+  getFetch,
+  getMinChars,
+  getDebounce,
+  hasHoverCard
+};
@@ -0,0 +1,77 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Optional, Unicode } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import VK from 'tinymce/core/api/util/VK';
+
+import * as Mentions from './Mentions';
+
+// The caret containers next to non-editable elements only contain zero width characters
+const isEmptyText = (node: Node): boolean =>
+  node.nodeType === 3 && Unicode.removeZwsp((node as Text).data) === '';
+
+const skipEmptyText = (node: Node | null, forward: boolean): Node | null => {
+  let current = node;
+  while (current && isEmptyText(current)) {
+    current = forward ? current.nextSibling : current.previousSibling;
+  }
+  return current;
+};
+
+const getSibling = (container: Node, offset: number, forward: boolean): Node | null => {
+  if (container.nodeType === 3) {
+    const data = Unicode.removeZwsp((container as Text).data.slice(forward ? offset : 0, forward ? undefined : offset));
+    if (data.length > 0) {
+      return null;
+    } else {
+      return forward ? container.nextSibling : container.previousSibling;
+    }
+  } else {
+    return forward ? container.childNodes[offset] : container.childNodes[offset - 1];
+  }
+};
+
+// Returns the selected mention or the mention right before or after the caret, depending on the direction
+const getMentionToDelete = (editor: Editor, forward: boolean): Optional<HTMLElement> => {
+  const rng = editor.selection.getRng();
+  const selected = editor.selection.getNode();
+
+  if (!rng.collapsed) {
+    return Mentions.isMention(selected) ? Optional.some(selected) : Optional.none();
+  } else {
+    const sibling = skipEmptyText(getSibling(rng.startContainer, rng.startOffset, forward), forward);
+    return Mentions.isMention(sibling) ? Optional.some(sibling) : Optional.none();
+  }
+};
+
+const deleteMention = (editor: Editor, mention: HTMLElement) => {
+  editor.undoManager.transact(() => {
+    const rng = editor.dom.createRng();
+    rng.setStartBefore(mention);
+    rng.collapse(true);
+    editor.dom.remove(mention);
+    editor.selection.setRng(rng);
+  });
+  editor.nodeChanged();
+};
+
+const setup = (editor: Editor): void => {
+  editor.on('keydown', (e) => {
+    if ((e.keyCode === VK.BACKSPACE || e.keyCode === VK.DELETE) && !VK.modifierPressed(e)) {
+      getMentionToDelete(editor, e.keyCode === VK.DELETE).each((mention) => {
+        e.preventDefault();
+        deleteMention(editor, mention);
+      });
+    }
+  });
+};
+
+export {
+  setup
+};
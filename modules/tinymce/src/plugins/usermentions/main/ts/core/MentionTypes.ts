@@ -0,0 +1,38 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+export interface MentionUser {
+  readonly id: string;
+  readonly name: string;
+  readonly fullName?: string;
+  readonly description?: string;
+  readonly image?: string;
+}
+
+// A mention in the content, only the id and name of the user are stored on the mention element
+export interface Mention {
+  readonly id: string;
+  readonly name: string;
+}
+
+// The signal is aborted when the results are no longer needed and the page is incremented each time more users are loaded
+export interface MentionsQuery {
+  readonly term: string;
+  readonly maxResults: number;
+  readonly page: number;
+  readonly signal: AbortSignal;
+}
+
+export interface MentionsFetchResult {
+  readonly users: MentionUser[];
+  readonly hasMore?: boolean;
+}
+
+export type MentionsFetch = (query: MentionsQuery) => Promise<MentionUser[] | MentionsFetchResult>;
+
+// The users returned by the fetch callback, by id, so the hover card can show the details that aren't stored in the content
+export type UserCache = Record<string, MentionUser>;
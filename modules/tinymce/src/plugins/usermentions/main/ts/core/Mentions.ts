@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import AstNode from 'tinymce/core/api/html/Node';
+
+import { Mention, MentionUser } from './MentionTypes';
+
+const selector = 'span[data-mention-id]';
+
+const isMention = (node: Node | null): node is HTMLElement =>
+  node !== null && node.nodeType === 1 && node.nodeName === 'SPAN' && (node as HTMLElement).hasAttribute('data-mention-id');
+
+const createHtml = (editor: Editor, user: MentionUser): string =>
+  editor.dom.createHTML('span', {
+    'class': 'mention',
+    'data-mention-id': user.id,
+    'data-mention-name': user.name
+  }, editor.dom.encode('@' + user.name));
+
+const toMention = (elm: HTMLElement): Mention => ({
+  id: elm.getAttribute('data-mention-id'),
+  name: elm.getAttribute('data-mention-name') ?? ''
+});
+
+// Returns the mentioned users in document order, each user is only included once
+const getMentions = (editor: Editor): Mention[] => {
+  const mentions = Arr.map(editor.dom.select<HTMLElement>(selector, editor.getBody()), toMention);
+  return Arr.filter(mentions, (mention, i) => Arr.findIndex(mentions, (other) => other.id === mention.id).exists((index) => index === i));
+};
+
+const setContentEditable = (state: string | null) => (nodes: AstNode[]): void => {
+  Arr.each(nodes, (node) => {
+    if (node.name === 'span') {
+      node.attr('contenteditable', state);
+    }
+  });
+};
+
+// The mentions are non-editable in the editor, so they're edited and removed as a unit
+const setup = (editor: Editor): void => {
+  editor.on('PreInit', () => {
+    editor.parser.addAttributeFilter('data-mention-id', setContentEditable('false'));
+    editor.serializer.addAttributeFilter('data-mention-id', setContentEditable(null));
+  });
+};
+
+export {
+  isMention,
+  createHtml,
+  toMention,
+  getMentions,
+  setup
+};
@@ -0,0 +1,58 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Type } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { InlineContent } from 'tinymce/core/api/ui/Ui';
+
+import * as Options from '../api/Options';
+import * as Mentions from '../core/Mentions';
+import { MentionUser, UserCache } from '../core/MentionTypes';
+
+const toItem = (user: MentionUser): InlineContent.AutocompleterItemSpec => ({
+  type: 'autocompleteitem',
+  value: user.id,
+  text: user.fullName ?? user.name,
+  meta: { user }
+});
+
+const init = (editor: Editor, users: UserCache): void => {
+  const fetchUsers = Options.getFetch(editor);
+  if (!Type.isFunction(fetchUsers)) {
+    return;
+  }
+
+  editor.ui.registry.addAutocompleter('usermentions', {
+    ch: '@',
+    minChars: Options.getMinChars(editor),
+    columns: 1,
+    debounce: Options.getDebounce(editor),
+    fetch: (pattern, maxResults, _fetchOptions, fetchContext) => fetchUsers({
+      term: pattern,
+      maxResults,
+      page: fetchContext.page,
+      signal: fetchContext.signal
+    }).then((result) => {
+      const fetched = Type.isArray(result) ? { users: result, hasMore: false } : result;
+      Arr.each(fetched.users, (user) => {
+        users[user.id] = user;
+      });
+      return { items: Arr.map(fetched.users, toItem), hasMore: fetched.hasMore };
+    }),
+    onAction: (autocompleteApi, rng, _value, meta) => {
+      editor.selection.setRng(rng);
+      // The space after the mention keeps the caret out of the non-editable element
+      editor.insertContent(Mentions.createHtml(editor, meta.user) + '&nbsp;');
+      autocompleteApi.hide();
+    }
+  });
+};
+
+export {
+  init
+};
@@ -0,0 +1,80 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Obj, Optional } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+
+import * as Mentions from '../core/Mentions';
+import { MentionUser, UserCache } from '../core/MentionTypes';
+
+// Mentions in content that was loaded into the editor only have the id and name, until the user is fetched again
+const getUser = (users: UserCache, mention: HTMLElement): MentionUser => {
+  const { id, name } = Mentions.toMention(mention);
+  return Obj.get(users, id).getOr({ id, name });
+};
+
+const renderCard = (editor: Editor, user: MentionUser): HTMLElement => {
+  const dom = editor.dom;
+  const card = dom.create('div', { 'class': 'tox-mentions-card', 'data-mce-bogus': 'all', 'contenteditable': 'false' });
+
+  Optional.from(user.image).each((image) => {
+    card.appendChild(dom.create('img', { class: 'tox-mentions-card__image', src: image, alt: '' }));
+  });
+
+  const details = dom.create('div', { class: 'tox-mentions-card__details' });
+  details.appendChild(dom.create('div', { class: 'tox-mentions-card__name' }, dom.encode(user.fullName ?? user.name)));
+  details.appendChild(dom.create('div', { class: 'tox-mentions-card__username' }, dom.encode('@' + user.name)));
+  Optional.from(user.description).each((description) => {
+    details.appendChild(dom.create('div', { class: 'tox-mentions-card__description' }, dom.encode(description)));
+  });
+  card.appendChild(details);
+
+  return card;
+};
+
+// The card is rendered outside of the editor body so it never becomes part of the content
+const getContainer = (editor: Editor): HTMLElement =>
+  editor.inline ? editor.getDoc().body : editor.getDoc().documentElement;
+
+const setup = (editor: Editor, users: UserCache): void => {
+  let current = Optional.none<{ mention: HTMLElement; card: HTMLElement }>();
+
+  const hide = () => {
+    current.each(({ card }) => editor.dom.remove(card));
+    current = Optional.none();
+  };
+
+  const show = (mention: HTMLElement) => {
+    hide();
+    const win = editor.getWin();
+    const rect = mention.getBoundingClientRect();
+    const card = renderCard(editor, getUser(users, mention));
+    editor.dom.setStyles(card, {
+      position: 'absolute',
+      left: rect.left + win.pageXOffset,
+      top: rect.bottom + win.pageYOffset + 4
+    });
+    getContainer(editor).appendChild(card);
+    current = Optional.some({ mention, card });
+  };
+
+  editor.on('mouseover', (e) => {
+    const mention = editor.dom.getParent(e.target, Mentions.isMention, editor.getBody());
+    if (!mention) {
+      hide();
+    } else if (!current.exists((shown) => shown.mention === mention)) {
+      show(mention);
+    }
+  });
+
+  editor.on('mouseleave keydown SetContent remove', hide);
+};
+
+export {
+  setup
+};
@@ -0,0 +1,77 @@
+import { Keys, UiFinder, Waiter } from '@ephox/agar';
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { SugarElement } from '@ephox/sugar';
+import { TinyAssertions, TinyContentActions, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import Plugin from 'tinymce/plugins/usermentions/Plugin';
+
+describe('browser.tinymce.plugins.usermentions.UserMentionsTest', () => {
+  const users = [
+    { id: 'u1', name: 'jdoe', fullName: 'Jane Doe', description: 'Editor' },
+    { id: 'u2', name: 'jsmith', fullName: 'John Smith' },
+    { id: 'u3', name: 'amy' }
+  ];
+
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    plugins: 'usermentions',
+    indent: false,
+    usermentions_debounce: 0,
+    usermentions_fetch: (query: { term: string }) => Promise.resolve(Arr.filter(users, (user) => user.name.indexOf(query.term) === 0)),
+    base_url: '/project/tinymce/js/tinymce'
+  }, [ Plugin ]);
+
+  const mentionHtml = (id: string, name: string) =>
+    `<span class="mention" data-mention-id="${id}" data-mention-name="${name}">@${name}</span>`;
+
+  it('TBA: Inserts a non-editable mention of the user chosen in the autocompleter', async () => {
+    const editor = hook.editor();
+    editor.setContent('<p>hi @j</p>');
+    TinySelections.setCursor(editor, [ 0, 0 ], 5);
+    TinyContentActions.keypress(editor, 'j'.charCodeAt(0));
+    await TinyUiActions.pWaitForUi(editor, '.tox-autocompleter .tox-collection__item:contains("John Smith")');
+    TinyUiActions.clickOnUi(editor, '.tox-autocompleter .tox-collection__item:contains("Jane Doe")');
+    await Waiter.pTryUntil('Wait for the mention to be inserted', () =>
+      TinyAssertions.assertContent(editor, `<p>hi ${mentionHtml('u1', 'jdoe')}&nbsp;</p>`)
+    );
+    TinyAssertions.assertContentPresence(editor, { 'span.mention[contenteditable="false"]': 1 });
+  });
+
+  it('TBA: Lists the mentioned users in the content once, in document order', () => {
+    const editor = hook.editor();
+    editor.setContent(`<p>${mentionHtml('u2', 'jsmith')} and ${mentionHtml('u1', 'jdoe')}</p><p>${mentionHtml('u2', 'jsmith')}</p>`);
+    assert.deepEqual(editor.plugins.usermentions.getMentions(), [
+      { id: 'u2', name: 'jsmith' },
+      { id: 'u1', name: 'jdoe' }
+    ]);
+    editor.setContent('<p>No mentions</p>');
+    assert.deepEqual(editor.plugins.usermentions.getMentions(), []);
+  });
+
+  it('TBA: Removes the mention before the caret with Backspace and after the caret with Delete', () => {
+    const editor = hook.editor();
+    editor.setContent(`<p>a ${mentionHtml('u1', 'jdoe')} b ${mentionHtml('u2', 'jsmith')}</p>`);
+    TinySelections.setCursor(editor, [ 0, 2 ], 0);
+    TinyContentActions.keydown(editor, Keys.backspace());
+    TinyAssertions.assertContent(editor, `<p>a b ${mentionHtml('u2', 'jsmith')}</p>`);
+
+    TinySelections.setCursor(editor, [ 0, 1 ], 3);
+    TinyContentActions.keydown(editor, Keys.delete());
+    TinyAssertions.assertContent(editor, '<p>a b</p>');
+  });
+
+  it('TBA: Shows a hover card with the details of the mentioned user', async () => {
+    const editor = hook.editor();
+    editor.setContent(`<p>hi ${mentionHtml('u3', 'amy')} and ${mentionHtml('u1', 'jdoe')}</p>`);
+    const mention = editor.dom.select('span[data-mention-id="u3"]')[0];
+    editor.fire('mouseover', { target: mention } as any);
+    const doc = SugarElement.fromDom(editor.getDoc());
+    await UiFinder.pWaitForVisible('Wait for the hover card', doc, '.tox-mentions-card:contains("@amy")');
+
+    editor.fire('mouseover', { target: editor.getBody().firstChild } as any);
+    UiFinder.notExists(doc, '.tox-mentions-card');
+    TinyAssertions.assertContentPresence(editor, { '.tox-mentions-card': 0 });
+  });
+});
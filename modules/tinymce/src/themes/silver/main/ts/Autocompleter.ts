@@ -7,7 +7,7 @@
 
 import { AddEventsBehaviour, AlloyEvents, Behaviour, GuiFactory, Highlighting, InlineView, ItemTypes, Menu, SystemEvents } from '@ephox/alloy';
 import { InlineContent } from '@ephox/bridge';
-import { Arr, Cell, Optional } from '@ephox/katamari';
+import { Arr, Cell, Fun, Optional } from '@ephox/katamari';
 import { SugarElement } from '@ephox/sugar';
 
 import Editor from 'tinymce/core/api/Editor';
@@ -18,6 +18,7 @@ import { AutocompleterEditorEvents, AutocompleterUiApi } from './autocomplete/Au
 import * as AutocompleteTagReader from './autocomplete/AutocompleteTagReader';
 import { UiFactoryBackstageShared } from './backstage/Backstage';
 import ItemResponse from './ui/menus/item/ItemResponse';
+import * as MenuItems from './ui/menus/item/MenuItems';
 import { createPartialMenuWithAlloyItems } from './ui/menus/menu/MenuUtils';
 import { createAutocompleteItems, createMenuFrom, FocusMode } from './ui/menus/menu/SingleMenu';
 
@@ -32,6 +33,8 @@ const getAutocompleterRange = (dom: DOMUtils, initRange: Range): Optional<Range>
 const register = (editor: Editor, sharedBackstage: UiFactoryBackstageShared) => {
   const processingAction = Cell<boolean>(false);
   const activeState = Cell<boolean>(false);
+  const loadingState = Cell<boolean>(false);
+  const lastLookupData = Cell<AutocompleteLookupData[]>([]);
 
   const autocompleter = GuiFactory.build(
     InlineView.sketch({
@@ -93,6 +96,37 @@ const register = (editor: Editor, sharedBackstage: UiFactoryBackstageShared) =>
     });
   };
 
+  // The loading and load more items are shown after the results, with the text regardless of the columns
+  const createStatusItem = (value: string, text: string, disabled: boolean, onAction: () => void): ItemTypes.ItemSpec =>
+    MenuItems.autocomplete(
+      {
+        type: 'autocompleteitem',
+        value,
+        text: Optional.some(text),
+        icon: Optional.none(),
+        active: false,
+        disabled,
+        meta: { }
+      },
+      '',
+      true,
+      'normal',
+      onAction,
+      ItemResponse.BUBBLE_TO_SANDBOX,
+      sharedBackstage,
+      false
+    );
+
+  const getStatusItems = (lookupData: AutocompleteLookupData[]): ItemTypes.ItemSpec[] => {
+    if (loadingState.get()) {
+      return [ createStatusItem('loading', 'Loading...', true, Fun.noop) ];
+    } else if (Arr.exists(lookupData, (data) => data.hasMore)) {
+      return [ createStatusItem('load-more', 'Load more...', false, () => editor.execCommand('mceAutocompleterLoadMore')) ];
+    } else {
+      return [ ];
+    }
+  };
+
   const display = (lookupData: AutocompleteLookupData[], items: ItemTypes.ItemSpec[]) => {
     AutocompleteTagReader.findIn(SugarElement.fromDom(editor.getBody())).each((element) => {
       // Display the autocompleter menu
@@ -123,10 +157,11 @@ const register = (editor: Editor, sharedBackstage: UiFactoryBackstageShared) =>
 
   const updateDisplay = (lookupData: AutocompleteLookupData[]) => {
     const combinedItems = getCombinedItems(lookupData);
+    lastLookupData.set(lookupData);
 
     // Open the autocompleter if there are items to show
     if (combinedItems.length > 0) {
-      display(lookupData, combinedItems);
+      display(lookupData, combinedItems.concat(getStatusItems(lookupData)));
     } else {
       hideIfNecessary();
     }
@@ -135,16 +170,30 @@ const register = (editor: Editor, sharedBackstage: UiFactoryBackstageShared) =>
   editor.on('AutocompleterStart', ({ lookupData }) => {
     activeState.set(true);
     processingAction.set(false);
+    loadingState.set(false);
     updateDisplay(lookupData);
   });
 
-  editor.on('AutocompleterUpdate', ({ lookupData }) => updateDisplay(lookupData));
+  editor.on('AutocompleterUpdate', ({ lookupData }) => {
+    loadingState.set(false);
+    updateDisplay(lookupData);
+  });
+
+  // Only show the loading state in a menu that's already open, so the menu doesn't flicker while typing
+  editor.on('AutocompleterLoading', () => {
+    loadingState.set(true);
+    if (isMenuOpen()) {
+      updateDisplay(lastLookupData.get());
+    }
+  });
 
   editor.on('AutocompleterEnd', () => {
     // Hide the menu and reset
     hideIfNecessary();
     activeState.set(false);
     processingAction.set(false);
+    loadingState.set(false);
+    lastLookupData.set([]);
   });
 
   const autocompleterUiApi: AutocompleterUiApi = {
@@ -269,6 +269,11 @@ const register = (editor: Editor): void => {
     // Editor resize doesn't work on touch devices at this stage
     default: !Env.deviceType.isTouch() && !editor.hasPlugin('autoresize')
   });
+
+  registerOption('undo_history_sidebar', {
+    processor: 'boolean',
+    default: false
+  });
 };
 
 const isReadOnly = option('readonly');
@@ -303,6 +308,7 @@ const useStatusBar = option('statusbar');
 const useElementPath = option('elementpath');
 const useBranding = option('branding');
 const getResize = option('resize');
+const useUndoHistorySidebar = option('undo_history_sidebar');
 
 const isSkinDisabled = (editor: Editor): boolean =>
   editor.options.get('skin') === false;
@@ -444,5 +450,6 @@ export {
   useStatusBar,
   useElementPath,
   useBranding,
-  getResize
+  getResize,
+  useUndoHistorySidebar
 };
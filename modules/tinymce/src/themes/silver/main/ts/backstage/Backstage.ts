@@ -19,6 +19,7 @@ import { IconProvider } from '../ui/icons/Icons';
 import * as Anchors from './Anchors';
 import { ColorInputBackstage, UiFactoryBackstageForColorInput } from './ColorInputBackstage';
 import { DialogBackstage, UiFactoryBackstageForDialog } from './DialogBackstage';
+import { FormatStateBackstage, UiFactoryBackstageForFormatState } from './FormatStateBackstage';
 import { HeaderBackstage, UiFactoryBackstageForHeader } from './HeaderBackstage';
 import { init as initStyleFormatBackstage } from './StyleFormatsBackstage';
 import { UiFactoryBackstageForUrlInput, UrlInputBackstage } from './UrlInputBackstage';
@@ -49,6 +50,7 @@ export interface UiFactoryBackstageShared {
 export interface UiFactoryBackstage {
   urlinput?: UiFactoryBackstageForUrlInput;
   styleselect?: UiFactoryBackstageForStyleButton;
+  formatstate?: UiFactoryBackstageForFormatState;
   shared?: UiFactoryBackstageShared;
   colorinput?: UiFactoryBackstageForColorInput;
   dialog?: UiFactoryBackstageForDialog;
@@ -59,6 +61,7 @@ export interface UiFactoryBackstage {
 const init = (sink: AlloyComponent, editor: Editor, lazyAnchorbar: () => AlloyComponent): UiFactoryBackstage => {
   const contextMenuState = Cell(false);
   const toolbar = HeaderBackstage(editor);
+  const formatState = FormatStateBackstage(editor);
   const backstage: UiFactoryBackstage = {
     shared: {
       providers: {
@@ -74,7 +77,8 @@ const init = (sink: AlloyComponent, editor: Editor, lazyAnchorbar: () => AlloyCo
       getSink: () => Result.value(sink)
     },
     urlinput: UrlInputBackstage(editor),
-    styleselect: initStyleFormatBackstage(editor),
+    styleselect: initStyleFormatBackstage(editor, formatState),
+    formatstate: formatState,
     colorinput: ColorInputBackstage(editor),
     dialog: DialogBackstage(editor),
     isContextMenuOpen: () => contextMenuState.get(),
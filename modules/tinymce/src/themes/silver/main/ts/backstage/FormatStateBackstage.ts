@@ -0,0 +1,59 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Obj, Singleton } from '@ephox/katamari';
+
+import Editor from 'tinymce/core/api/Editor';
+import { FormatState } from 'tinymce/core/api/fmt/Format';
+
+export interface UiFactoryBackstageForFormatState {
+  getState: () => FormatState;
+  isActive: (format: string) => boolean;
+  getClosest: (formats: string[]) => string[];
+}
+
+export const FormatStateBackstage = (editor: Editor): UiFactoryBackstageForFormatState => {
+  const state = Singleton.value<FormatState>();
+  // Only the formats that the controls have asked about are matched against the selected text and its parents
+  const requested: Record<string, boolean> = {};
+
+  // The controls share the state, so it's only resolved once after each node change instead of once per control
+  editor.on('NodeChange AfterSetSelectionRange', state.clear, true);
+
+  const getState = (): FormatState => state.get().getOrThunk(() => {
+    const current = editor.formatter.getState(undefined, Obj.keys(requested));
+    state.set(current);
+    return current;
+  });
+
+  const request = (formats: string[]) => {
+    Arr.each(formats, (format) => {
+      if (!Obj.has(requested, format)) {
+        requested[format] = true;
+        state.clear();
+      }
+    });
+  };
+
+  // Formats that only some of the selected text has aren't active, so the controls don't show them as the current value
+  const isActive = (format: string): boolean => {
+    request([ format ]);
+    return Obj.get(getState().formats, format).exists((matchState) => matchState === 'full');
+  };
+
+  // The formats at the start of the selection, ordered from the closest element
+  const getClosest = (formats: string[]): string[] => {
+    request(formats);
+    return Arr.filter(getState().closest, (format) => Arr.contains(formats, format));
+  };
+
+  return {
+    getState,
+    isActive,
+    getClosest
+  };
+};
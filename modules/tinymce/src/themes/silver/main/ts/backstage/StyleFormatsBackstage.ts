@@ -13,9 +13,10 @@ import { getStyleFormats } from 'tinymce/themes/silver/ui/core/complex/StyleForm
 
 import { FormatItem } from '../ui/core/complex/BespokeSelect';
 import * as FormatRegister from '../ui/core/complex/utils/FormatRegister';
+import { UiFactoryBackstageForFormatState } from './FormatStateBackstage';
 
-export const init = (editor: Editor) => {
-  const isSelectedFor = (format) => () => editor.formatter.match(format);
+export const init = (editor: Editor, formatState: UiFactoryBackstageForFormatState) => {
+  const isSelectedFor = (format) => () => formatState.isActive(format);
 
   const getPreviewFor: FormatRegister.GetPreviewForType = (format) => () => {
     const fmt = editor.formatter.get(format);
@@ -14,6 +14,7 @@ import * as ColorSwatch from './color/ColorSwatch';
 import * as ComplexControls from './ComplexControls';
 import * as IndentOutdent from './IndentOutdent';
 import * as SimpleControls from './SimpleControls';
+import * as UndoHistory from './UndoHistory';
 import * as UndoRedo from './UndoRedo';
 import * as VisualAid from './VisualAid';
 
@@ -22,6 +23,7 @@ const setup = (editor: Editor, backstage: UiFactoryBackstage) => {
   SimpleControls.register(editor);
   ComplexControls.register(editor, backstage);
   UndoRedo.register(editor);
+  UndoHistory.register(editor);
   ColorSwatch.register(editor);
   VisualAid.register(editor);
   IndentOutdent.register(editor);
@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) Tiny Technologies, Inc. All rights reserved.
+ * Licensed under the LGPL or a commercial license.
+ * For LGPL see License.txt in the project root for license information.
+ * For commercial licenses see https://www.tiny.cloud/
+ */
+
+import { Arr, Fun, Type } from '@ephox/katamari';
+import { Attribute, Class, DomEvent, EventUnbinder, Insert, InsertAll, Remove, SugarElement } from '@ephox/sugar';
+
+import Editor from 'tinymce/core/api/Editor';
+import { UndoHistoryEntry } from 'tinymce/core/undo/UndoManagerTypes';
+
+import * as Options from '../../api/Options';
+
+const refreshEvents = 'AddUndo Undo Redo ClearUndos ImportUndos TypingUndo';
+
+// Turns command and format names like "mceInsertContent" or "InsertUnorderedList" into "Insert content" and "Insert unordered list"
+const humanize = (name: string): string => {
+  const words = name.replace(/^mce/, '').replace(/[_-]+/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const getEntryText = (editor: Editor, entry: UndoHistoryEntry): string => {
+  if (Type.isString(entry.label) && entry.label.length > 0) {
+    return editor.translate(humanize(entry.label));
+  } else {
+    return editor.translate(entry.index === 0 ? 'Initial content' : 'Edit');
+  }
+};
+
+const renderEntry = (editor: Editor, entry: UndoHistoryEntry): { item: SugarElement<HTMLLIElement>; unbinder: EventUnbinder } => {
+  const item = SugarElement.fromTag('li');
+  const button = SugarElement.fromTag('button');
+  Attribute.set(button, 'type', 'button');
+  Class.add(button, 'tox-undo-history__item');
+  Insert.append(button, SugarElement.fromText(getEntryText(editor, entry)));
+
+  if (entry.current) {
+    Class.add(button, 'tox-undo-history__item--current');
+    Attribute.set(button, 'aria-current', 'step');
+  }
+
+  const unbinder = DomEvent.bind(button, 'click', () => {
+    editor.undoManager.jumpTo(entry.index);
+    editor.focus();
+  });
+
+  Insert.append(item, button);
+  return { item, unbinder };
+};
+
+const renderHistory = (editor: Editor, container: SugarElement<HTMLElement>): EventUnbinder[] => {
+  Remove.empty(container);
+
+  const list = SugarElement.fromTag('ol');
+  Class.add(list, 'tox-undo-history');
+  Attribute.set(list, 'aria-label', editor.translate('Undo history'));
+
+  const entries = Arr.map(editor.undoManager.getHistory(), (entry) => renderEntry(editor, entry));
+  InsertAll.append(list, Arr.map(entries, (entry) => entry.item));
+  Insert.append(container, list);
+
+  return Arr.map(entries, (entry) => entry.unbinder);
+};
+
+const register = (editor: Editor): void => {
+  if (!Options.useUndoHistorySidebar(editor)) {
+    return;
+  }
+
+  let unbinders: EventUnbinder[] = [];
+  let refresh = Fun.noop;
+
+  const unbindAll = () => {
+    Arr.each(unbinders, (unbinder) => unbinder.unbind());
+    unbinders = [];
+  };
+
+  // The history is only rendered while the sidebar is visible, since it changes with every undo level
+  editor.ui.registry.addSidebar('undohistory', {
+    icon: 'restore-draft',
+    tooltip: 'Undo history',
+    onShow: (api) => {
+      const container = SugarElement.fromDom(api.element());
+      refresh = () => {
+        unbindAll();
+        unbinders = renderHistory(editor, container);
+      };
+
+      refresh();
+      editor.on(refreshEvents, refresh);
+    },
+    onHide: (api) => {
+      editor.off(refreshEvents, refresh);
+      unbindAll();
+      Remove.empty(SugarElement.fromDom(api.element()));
+    }
+  });
+};
+
+export {
+  register
+};
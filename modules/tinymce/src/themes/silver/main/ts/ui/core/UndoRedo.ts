@@ -11,7 +11,7 @@ import { Menu, Toolbar } from 'tinymce/core/api/ui/Ui';
 import { onActionExecCommand, onSetupEvent } from './ControlUtils';
 
 const onSetupUndoRedoState = (editor: Editor, type: 'hasUndo' | 'hasRedo') =>
-  onSetupEvent(editor, 'Undo Redo AddUndo TypingUndo ClearUndos SwitchMode', (api: Menu.MenuItemInstanceApi | Toolbar.ToolbarButtonInstanceApi) => {
+  onSetupEvent(editor, 'Undo Redo AddUndo TypingUndo ClearUndos ImportUndos SwitchMode', (api: Menu.MenuItemInstanceApi | Toolbar.ToolbarButtonInstanceApi) => {
     api.setDisabled(editor.mode.isReadOnly() || !editor.undoManager[type]());
   });
 
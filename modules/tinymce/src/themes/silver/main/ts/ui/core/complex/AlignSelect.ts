@@ -23,10 +23,12 @@ const alignMenuItems = [
   { title: 'Justify', icon: 'align-justify', format: 'alignjustify', command: 'JustifyFull' }
 ];
 
-const getSpec = (editor: Editor): SelectSpec => {
-  const getMatchingValue = (): Optional<Partial<FormatItem>> => Arr.find(alignMenuItems, (item) => editor.formatter.match(item.format));
+const getSpec = (editor: Editor, backstage: UiFactoryBackstage): SelectSpec => {
+  const formatState = backstage.formatstate;
 
-  const isSelectedFor: IsSelectedForType = (format: string) => () => editor.formatter.match(format);
+  const getMatchingValue = (): Optional<Partial<FormatItem>> => Arr.find(alignMenuItems, (item) => formatState.isActive(item.format));
+
+  const isSelectedFor: IsSelectedForType = (format: string) => () => formatState.isActive(format);
 
   const getPreviewFor = (_format: string) => Optional.none;
 
@@ -59,10 +61,10 @@ const getSpec = (editor: Editor): SelectSpec => {
   };
 };
 
-const createAlignSelect = (editor, backstage: UiFactoryBackstage) => createSelectButton(editor, backstage, getSpec(editor));
+const createAlignSelect = (editor, backstage: UiFactoryBackstage) => createSelectButton(editor, backstage, getSpec(editor, backstage));
 
 const alignSelectMenu = (editor: Editor, backstage: UiFactoryBackstage) => {
-  const menuItems = createMenuItems(editor, backstage, getSpec(editor));
+  const menuItems = createMenuItems(editor, backstage, getSpec(editor, backstage));
   editor.ui.registry.addNestedMenuItem('align', {
     text: backstage.shared.providers.translate('Align'),
     getSubmenuItems: () => menuItems.items.validateItems(menuItems.getStyleItems())
@@ -18,10 +18,11 @@ import { createMenuItems, createSelectButton, SelectSpec } from './BespokeSelect
 import { buildBasicSettingsDataset, Delimiter } from './SelectDatasets';
 import { findNearest } from './utils/FormatDetection';
 
-const getSpec = (editor: Editor): SelectSpec => {
+const getSpec = (editor: Editor, backstage: UiFactoryBackstage): SelectSpec => {
   const fallbackFormat = 'Paragraph';
+  const formatState = backstage.formatstate;
 
-  const isSelectedFor = (format: string) => () => editor.formatter.match(format);
+  const isSelectedFor = (format: string) => () => formatState.isActive(format);
 
   const getPreviewFor = (format: string) => () => {
     const fmt = editor.formatter.get(format);
@@ -32,7 +33,7 @@ const getSpec = (editor: Editor): SelectSpec => {
   };
 
   const updateSelectMenuText = (comp: AlloyComponent) => {
-    const detectedFormat = findNearest(editor, () => dataset.data);
+    const detectedFormat = findNearest(formatState, () => dataset.data);
     const text = detectedFormat.fold(Fun.constant(fallbackFormat), (fmt) => fmt.title);
     AlloyTriggers.emitWith(comp, updateMenuText, {
       text
@@ -56,11 +57,11 @@ const getSpec = (editor: Editor): SelectSpec => {
   };
 };
 
-const createFormatSelect = (editor: Editor, backstage: UiFactoryBackstage) => createSelectButton(editor, backstage, getSpec(editor));
+const createFormatSelect = (editor: Editor, backstage: UiFactoryBackstage) => createSelectButton(editor, backstage, getSpec(editor, backstage));
 
 // FIX: Test this!
 const formatSelectMenu = (editor: Editor, backstage: UiFactoryBackstage) => {
-  const menuItems = createMenuItems(editor, backstage, getSpec(editor));
+  const menuItems = createMenuItems(editor, backstage, getSpec(editor, backstage));
   editor.ui.registry.addNestedMenuItem('blockformats', {
     text: 'Blocks',
     getSubmenuItems: () => menuItems.items.validateItems(menuItems.getStyleItems())
@@ -20,10 +20,11 @@ import { AdvancedSelectDataset, SelectDataset } from './SelectDatasets';
 import { getStyleFormats } from './StyleFormat';
 import { findNearest } from './utils/FormatDetection';
 
-const getSpec = (editor: Editor, dataset: SelectDataset): SelectSpec => {
+const getSpec = (editor: Editor, backstage: UiFactoryBackstage, dataset: SelectDataset): SelectSpec => {
   const fallbackFormat = 'Paragraph';
+  const formatState = backstage.formatstate;
 
-  const isSelectedFor = (format: string) => () => editor.formatter.match(format);
+  const isSelectedFor = (format: string) => () => formatState.isActive(format);
 
   const getPreviewFor = (format: string) => () => {
     const fmt = editor.formatter.get(format);
@@ -39,7 +40,7 @@ const getSpec = (editor: Editor, dataset: SelectDataset): SelectSpec => {
       return subs !== undefined && subs.length > 0 ? Arr.bind(subs, getFormatItems) : [{ title: fmt.title, format: fmt.format }];
     };
     const flattenedItems = Arr.bind(getStyleFormats(editor), getFormatItems);
-    const detectedFormat = findNearest(editor, Fun.constant(flattenedItems));
+    const detectedFormat = findNearest(formatState, Fun.constant(flattenedItems));
     const text = detectedFormat.fold(Fun.constant(fallbackFormat), (fmt) => fmt.title);
     AlloyTriggers.emitWith(comp, updateMenuText, {
       text
@@ -63,12 +64,12 @@ const getSpec = (editor: Editor, dataset: SelectDataset): SelectSpec => {
 
 const createStyleSelect = (editor: Editor, backstage: UiFactoryBackstage) => {
   const dataset: AdvancedSelectDataset = { type: 'advanced', ...backstage.styleselect };
-  return createSelectButton(editor, backstage, getSpec(editor, dataset));
+  return createSelectButton(editor, backstage, getSpec(editor, backstage, dataset));
 };
 
 const styleSelectMenu = (editor: Editor, backstage: UiFactoryBackstage) => {
   const dataset: AdvancedSelectDataset = { type: 'advanced', ...backstage.styleselect };
-  const menuItems = createMenuItems(editor, backstage, getSpec(editor, dataset));
+  const menuItems = createMenuItems(editor, backstage, getSpec(editor, backstage, dataset));
   editor.ui.registry.addNestedMenuItem('formats', {
     text: 'Formats',
     getSubmenuItems: () => menuItems.items.validateItems(menuItems.getStyleItems())
@@ -5,17 +5,16 @@
  * For commercial licenses see https://www.tiny.cloud/
  */
 
-import { Arr, Optional, Optionals } from '@ephox/katamari';
-
-import Editor from 'tinymce/core/api/Editor';
+import { Arr, Optionals } from '@ephox/katamari';
 
+import { UiFactoryBackstageForFormatState } from '../../../../backstage/FormatStateBackstage';
 import { BasicSelectItem } from '../SelectDatasets';
 
-export const findNearest = (editor: Editor, getStyles: () => BasicSelectItem[]) => {
+export const findNearest = (formatState: UiFactoryBackstageForFormatState, getStyles: () => BasicSelectItem[]) => {
   const styles = getStyles();
   const formats = Arr.map(styles, (style) => style.format);
 
-  return Optional.from(editor.formatter.closest(formats)).bind((fmt) =>
+  return Arr.head(formatState.getClosest(formats)).bind((fmt) =>
     Arr.find(styles, (data) => data.format === fmt)
-  ).orThunk(() => Optionals.someIf(editor.formatter.match('p'), { title: 'Paragraph', format: 'p' }));
+  ).orThunk(() => Optionals.someIf(formatState.isActive('p'), { title: 'Paragraph', format: 'p' }));
 };
@@ -0,0 +1,158 @@
+import { Waiter } from '@ephox/agar';
+import { beforeEach, describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { TinyContentActions, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+import { InlineContent } from 'tinymce/core/api/ui/Ui';
+
+import { pAssertAutocompleterStructure, pWaitForAutocompleteToClose, pWaitForAutocompleteToOpen } from '../../../module/AutocompleterUtils';
+
+interface FetchRequest {
+  readonly pattern: string;
+  readonly page: number;
+  readonly signal: AbortSignal;
+  readonly resolve: (result: InlineContent.AutocompleterFetchResult) => void;
+  readonly reject: (err: Error) => void;
+}
+
+describe('browser.tinymce.themes.silver.editor.autocomplete.AutocompletePagingTest', () => {
+  let requests: FetchRequest[] = [];
+
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    base_url: '/project/tinymce/js/tinymce',
+    setup: (ed: Editor) => {
+      ed.ui.registry.addAutocompleter('Colon', {
+        ch: ':',
+        minChars: 1,
+        columns: 1,
+        fetch: (pattern, _maxResults, _fetchOptions, fetchContext) => new Promise((resolve, reject) => {
+          requests.push({ pattern, page: fetchContext.page, signal: fetchContext.signal, resolve, reject });
+        }),
+        onAction: (autocompleteApi) => autocompleteApi.hide()
+      });
+    }
+  }, [], true);
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  const createItems = (pattern: string, page: number): InlineContent.AutocompleterContents[] =>
+    Arr.map([ 'a', 'b' ], (item) => ({ value: `${pattern}-${item}${page}`, text: `${pattern}-${item}${page}` }));
+
+  const pWaitForRequest = (count: number): Promise<FetchRequest> => Waiter.pTryUntil(`Waiting for fetch request ${count}`, () => {
+    assert.lengthOf(requests, count);
+    return requests[count - 1];
+  });
+
+  const resolveRequest = (request: FetchRequest, hasMore: boolean) =>
+    request.resolve({ items: createItems(request.pattern, request.page), hasMore });
+
+  const setContentAndTrigger = (editor: Editor, content: string, charCode: number) => {
+    editor.setContent(`<p>${content}</p>`);
+    TinySelections.setCursor(editor, [ 0, 0 ], content.length);
+    TinyContentActions.keypress(editor, charCode);
+  };
+
+  const closeAutocompleter = async (editor: Editor) => {
+    editor.execCommand('mceAutocompleterClose');
+    await pWaitForAutocompleteToClose();
+  };
+
+  it('TBA: Shows a load more item and appends the next page of results when it is clicked', async () => {
+    const editor = hook.editor();
+    setContentAndTrigger(editor, ':a', ':'.charCodeAt(0));
+    const firstRequest = await pWaitForRequest(1);
+    assert.equal(firstRequest.page, 0);
+    resolveRequest(firstRequest, true);
+    await pWaitForAutocompleteToOpen();
+    await pAssertAutocompleterStructure({
+      type: 'list',
+      hasIcons: false,
+      groups: [
+        [
+          { title: 'a-a0', text: 'a-a0' },
+          { title: 'a-b0', text: 'a-b0' },
+          { title: 'Load more...', text: 'Load more...' }
+        ]
+      ]
+    });
+
+    TinyUiActions.clickOnUi(editor, '.tox-collection__item:contains("Load more...")');
+    const secondRequest = await pWaitForRequest(2);
+    assert.equal(secondRequest.pattern, 'a');
+    assert.equal(secondRequest.page, 1);
+    await TinyUiActions.pWaitForUi(editor, '.tox-collection__item--state-disabled:contains("Loading...")');
+    resolveRequest(secondRequest, false);
+    await pAssertAutocompleterStructure({
+      type: 'list',
+      hasIcons: false,
+      groups: [
+        [
+          { title: 'a-a0', text: 'a-a0' },
+          { title: 'a-b0', text: 'a-b0' },
+          { title: 'a-a1', text: 'a-a1' },
+          { title: 'a-b1', text: 'a-b1' }
+        ]
+      ]
+    });
+    await closeAutocompleter(editor);
+  });
+
+  it('TBA: Aborts the fetch of outdated text and ignores its results', async () => {
+    const editor = hook.editor();
+    setContentAndTrigger(editor, ':a', ':'.charCodeAt(0));
+    const outdatedRequest = await pWaitForRequest(1);
+    setContentAndTrigger(editor, ':ab', 'b'.charCodeAt(0));
+    const latestRequest = await pWaitForRequest(2);
+    assert.isTrue(outdatedRequest.signal.aborted, 'The outdated fetch should be aborted');
+    assert.isFalse(latestRequest.signal.aborted, 'The latest fetch should not be aborted');
+
+    resolveRequest(latestRequest, false);
+    resolveRequest(outdatedRequest, false);
+    await pWaitForAutocompleteToOpen();
+    await Waiter.pWait(50);
+    await pAssertAutocompleterStructure({
+      type: 'list',
+      hasIcons: false,
+      groups: [
+        [
+          { title: 'ab-a0', text: 'ab-a0' },
+          { title: 'ab-b0', text: 'ab-b0' }
+        ]
+      ]
+    });
+
+    // The fetch of the updated text is aborted when the autocompleter is closed
+    setContentAndTrigger(editor, ':abc', 'c'.charCodeAt(0));
+    const closedRequest = await pWaitForRequest(3);
+    await TinyUiActions.pWaitForUi(editor, '.tox-collection__item--state-disabled:contains("Loading...")');
+    await closeAutocompleter(editor);
+    assert.isTrue(closedRequest.signal.aborted, 'The fetch should be aborted when the autocompleter is closed');
+  });
+
+  it('TBA: Shows the last results again when a fetch fails', async () => {
+    const editor = hook.editor();
+    setContentAndTrigger(editor, ':a', ':'.charCodeAt(0));
+    resolveRequest(await pWaitForRequest(1), false);
+    await pWaitForAutocompleteToOpen();
+
+    setContentAndTrigger(editor, ':ab', 'b'.charCodeAt(0));
+    const failedRequest = await pWaitForRequest(2);
+    await TinyUiActions.pWaitForUi(editor, '.tox-collection__item--state-disabled:contains("Loading...")');
+    failedRequest.reject(new Error('Failed to fetch'));
+    await pAssertAutocompleterStructure({
+      type: 'list',
+      hasIcons: false,
+      groups: [
+        [
+          { title: 'a-a0', text: 'a-a0' },
+          { title: 'a-b0', text: 'a-b0' }
+        ]
+      ]
+    });
+    await closeAutocompleter(editor);
+  });
+});
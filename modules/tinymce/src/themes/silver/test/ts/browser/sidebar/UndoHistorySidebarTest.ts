@@ -0,0 +1,57 @@
+import { UiFinder, Waiter } from '@ephox/agar';
+import { describe, it } from '@ephox/bedrock-client';
+import { Arr } from '@ephox/katamari';
+import { Attribute, SugarBody, TextContent } from '@ephox/sugar';
+import { TinyAssertions, TinyHooks, TinySelections, TinyUiActions } from '@ephox/wrap-mcagar';
+import { assert } from 'chai';
+
+import Editor from 'tinymce/core/api/Editor';
+
+describe('browser.tinymce.themes.silver.sidebar.UndoHistorySidebarTest', () => {
+  const hook = TinyHooks.bddSetupLight<Editor>({
+    base_url: '/project/tinymce/js/tinymce',
+    toolbar: 'undohistory',
+    undo_history_sidebar: true
+  }, []);
+
+  const getItems = () => UiFinder.findAllIn(SugarBody.body(), '.tox-undo-history__item');
+
+  const assertItems = (expected: string[], currentIndex: number) => {
+    const items = getItems();
+    assert.deepEqual(Arr.map(items, (item) => TextContent.get(item)), expected, 'Checking history labels');
+    Arr.each(items, (item, i) => {
+      assert.equal(Attribute.has(item, 'aria-current'), i === currentIndex, `Checking current state of item ${i}`);
+    });
+  };
+
+  it('TBA: lists the undo history and jumps to a level on click', async () => {
+    const editor = hook.editor();
+    editor.resetContent('<p>abc</p>');
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 3);
+    editor.execCommand('Bold');
+    editor.undoManager.transact(() => {
+      editor.getBody().innerHTML = '<p>def</p>';
+    }, 'Replace text');
+
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Undo history"]');
+    await Waiter.pTryUntil('Wait for the history to render', () => assertItems([ 'Initial content', 'Bold', 'Replace text' ], 2));
+
+    TinyUiActions.clickOnUi(editor, '.tox-undo-history li:nth-child(1) button');
+    TinyAssertions.assertContent(editor, '<p>abc</p>');
+    assertItems([ 'Initial content', 'Bold', 'Replace text' ], 0);
+
+    TinyUiActions.clickOnUi(editor, '.tox-undo-history li:nth-child(2) button');
+    TinyAssertions.assertContent(editor, '<p><strong>abc</strong></p>');
+    assertItems([ 'Initial content', 'Bold', 'Replace text' ], 1);
+
+    editor.resetContent('<p>abc</p>');
+    assertItems([ 'Initial content' ], 0);
+    TinyUiActions.clickOnToolbar(editor, 'button[aria-label="Undo history"]');
+    await Waiter.pTryUntil('Wait for the sidebar to hide', () => assert.lengthOf(getItems(), 0));
+
+    // The history isn't rendered while the sidebar is hidden
+    TinySelections.setSelection(editor, [ 0, 0 ], 0, [ 0, 0 ], 3);
+    editor.execCommand('Bold');
+    assert.lengthOf(getItems(), 0);
+  });
+});